@@ -46,7 +46,10 @@ export function Header(props: {
             const store = createMemo(() => globalSync.child(currentDirectory())[0])
             const sessions = createMemo(() => store().session ?? [])
             const currentSession = createMemo(() => sessions().find((s) => s.id === params.id))
-            const shareEnabled = createMemo(() => store().config.share !== "disabled")
+            const shareEnabled = createMemo(() => {
+              const share = store().config.share
+              return (typeof share === "object" ? share.mode : share) !== "disabled"
+            })
             return (
               <>
                 <div class="flex items-center gap-3">
@@ -92,6 +92,7 @@ export const PromptInput: Component<PromptInputProps> = (props) => {
       },
   )
   const working = createMemo(() => status()?.type !== "idle")
+  const queue = createMemo(() => sync.data.queue[params.id ?? ""] ?? [])
 
   const [store, setStore] = createStore<{
     popover: "file" | "slash" | null
@@ -814,13 +815,15 @@ export const PromptInput: Component<PromptInputProps> = (props) => {
       messageID,
     }))
 
-    sync.session.addOptimisticMessage({
-      sessionID: existing.id,
-      messageID,
-      parts: optimisticParts,
-      agent,
-      model,
-    })
+    // a busy session queues the prompt and shows it above the input instead
+    if (!working())
+      sync.session.addOptimisticMessage({
+        sessionID: existing.id,
+        messageID,
+        parts: optimisticParts,
+        agent,
+        model,
+      })
 
     sdk.client.session.prompt({
       sessionID: existing.id,
@@ -901,6 +904,25 @@ export const PromptInput: Component<PromptInputProps> = (props) => {
           </Switch>
         </div>
       </Show>
+      <Show when={queue().length > 0}>
+        <div class="flex flex-col gap-1 px-2">
+          <For each={queue()}>
+            {(item) => (
+              <div class="flex items-center gap-2 text-14-regular text-text-weak">
+                <span class="text-text-subtle shrink-0">Queued</span>
+                <span class="truncate grow">
+                  {item.parts.map((part) => (part.type === "text" ? part.text : "")).join(" ")}
+                </span>
+                <IconButton
+                  icon="close"
+                  variant="ghost"
+                  onClick={() => sdk.client.session.queue.remove({ sessionID: item.sessionID, queueID: item.id })}
+                />
+              </div>
+            )}
+          </For>
+        </div>
+      </Show>
       <form
         onSubmit={handleSubmit}
         onDragOver={handleDragOver}
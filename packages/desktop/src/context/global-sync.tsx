@@ -14,6 +14,8 @@ import {
   type ProviderListResponse,
   type ProviderAuthResponse,
   type Command,
+  type QueuedPrompt,
+  type Review,
   createOpencodeClient,
 } from "@opencode-ai/sdk/v2/client"
 import { createStore, produce, reconcile } from "solid-js/store"
@@ -42,6 +44,12 @@ type State = {
   todo: {
     [sessionID: string]: Todo[]
   }
+  queue: {
+    [sessionID: string]: QueuedPrompt[]
+  }
+  review: {
+    [sessionID: string]: Review[]
+  }
   limit: number
   message: {
     [sessionID: string]: Message[]
@@ -88,6 +96,8 @@ function createGlobalSync() {
         session_status: {},
         session_diff: {},
         todo: {},
+        queue: {},
+        review: {},
         limit: 5,
         message: {},
         part: {},
@@ -215,6 +225,75 @@ function createGlobalSync() {
       case "todo.updated":
         setStore("todo", event.properties.sessionID, event.properties.todos)
         break
+      case "session.prompt.queued": {
+        const info = event.properties.info
+        const queue = store.queue[info.sessionID]
+        if (!queue) {
+          setStore("queue", info.sessionID, [info])
+          break
+        }
+        const result = Binary.search(queue, info.id, (q) => q.id)
+        if (result.found) {
+          setStore("queue", info.sessionID, result.index, reconcile(info))
+          break
+        }
+        setStore(
+          "queue",
+          info.sessionID,
+          produce((draft) => {
+            draft.splice(result.index, 0, info)
+          }),
+        )
+        break
+      }
+      case "session.prompt.dequeued": {
+        const queue = store.queue[event.properties.sessionID]
+        if (!queue) break
+        const result = Binary.search(queue, event.properties.id, (q) => q.id)
+        if (!result.found) break
+        setStore(
+          "queue",
+          event.properties.sessionID,
+          produce((draft) => {
+            draft.splice(result.index, 1)
+          }),
+        )
+        break
+      }
+      case "review.updated": {
+        const reviews = store.review[event.properties.sessionID]
+        if (!reviews) {
+          setStore("review", event.properties.sessionID, [event.properties])
+          break
+        }
+        const result = Binary.search(reviews, event.properties.id, (r) => r.id)
+        if (result.found) {
+          setStore("review", event.properties.sessionID, result.index, reconcile(event.properties))
+          break
+        }
+        setStore(
+          "review",
+          event.properties.sessionID,
+          produce((draft) => {
+            draft.splice(result.index, 0, event.properties)
+          }),
+        )
+        break
+      }
+      case "review.replied": {
+        const reviews = store.review[event.properties.sessionID]
+        if (!reviews) break
+        const result = Binary.search(reviews, event.properties.reviewID, (r) => r.id)
+        if (!result.found) break
+        setStore(
+          "review",
+          event.properties.sessionID,
+          produce((draft) => {
+            draft.splice(result.index, 1)
+          }),
+        )
+        break
+      }
       case "session.status": {
         setStore("session_status", event.properties.sessionID, event.properties.status)
         break
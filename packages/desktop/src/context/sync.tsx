@@ -60,11 +60,13 @@ export const { use: useSync, provider: SyncProvider } = createSimpleContext({
           )
         },
         async sync(sessionID: string, _isRetry = false) {
-          const [session, messages, todo, diff] = await Promise.all([
+          const [session, messages, todo, diff, queue, review] = await Promise.all([
             sdk.client.session.get({ sessionID }, { throwOnError: true }),
             sdk.client.session.messages({ sessionID, limit: 100 }),
             sdk.client.session.todo({ sessionID }),
             sdk.client.session.diff({ sessionID }),
+            sdk.client.session.queue.list({ sessionID }),
+            sdk.client.session.review.list({ sessionID }),
           ])
           setStore(
             produce((draft) => {
@@ -80,6 +82,8 @@ export const { use: useSync, provider: SyncProvider } = createSimpleContext({
                 draft.part[message.info.id] = message.parts.slice().sort((a, b) => a.id.localeCompare(b.id))
               }
               draft.session_diff[sessionID] = diff.data ?? []
+              draft.queue[sessionID] = queue.data ?? []
+              draft.review[sessionID] = review.data ?? []
             }),
           )
         },
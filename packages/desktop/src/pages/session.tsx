@@ -29,6 +29,7 @@ import { useCodeComponent } from "@opencode-ai/ui/context/code"
 import { SessionTurn } from "@opencode-ai/ui/session-turn"
 import { SessionMessageRail } from "@opencode-ai/ui/session-message-rail"
 import { SessionReview } from "@opencode-ai/ui/session-review"
+import { EditReview } from "@opencode-ai/ui/edit-review"
 import {
   DragDropProvider,
   DragDropSensors,
@@ -125,6 +126,7 @@ export default function Page() {
     last() ? sync.data.provider.all.find((x) => x.id === last().providerID)?.models[last().modelID] : undefined,
   )
   const diffs = createMemo(() => (params.id ? (sync.data.session_diff[params.id] ?? []) : []))
+  const reviews = createMemo(() => (params.id ? (sync.data.review[params.id] ?? []) : []))
 
   const tokens = createMemo(() => {
     if (!last()) return
@@ -699,6 +701,22 @@ export default function Page() {
                   </Switch>
                   <div class="absolute inset-x-0 bottom-8 flex flex-col justify-center items-center z-50">
                     <div class="w-full max-w-200 px-6">
+                      <Show when={reviews()[0]}>
+                        {(review) => (
+                          <EditReview
+                            class="mb-3 max-h-[60vh] overflow-y-auto"
+                            review={review()}
+                            file={review().file.replace(sync.data.path.directory + "/", "")}
+                            onRespond={(hunks) =>
+                              sdk.client.session.review.respond({
+                                sessionID: review().sessionID,
+                                reviewID: review().id,
+                                hunks,
+                              })
+                            }
+                          />
+                        )}
+                      </Show>
                       <PromptInput
                         ref={(el) => {
                           inputRef = el
@@ -11,6 +11,8 @@ export namespace Share {
     id: z.string(),
     secret: z.string(),
     sessionID: z.string(),
+    expires: z.number().optional(),
+    password: z.string().optional(),
   })
   export type Info = z.infer<typeof Info>
 
@@ -38,34 +40,112 @@ export namespace Share {
   ])
   export type Data = z.infer<typeof Data>
 
-  export const create = fn(z.object({ sessionID: z.string() }), async (body) => {
-    const isTest = process.env.NODE_ENV === "test" || body.sessionID.startsWith("test_")
-    const info: Info = {
-      id: (isTest ? "test_" : "") + body.sessionID.slice(-8),
-      sessionID: body.sessionID,
-      secret: crypto.randomUUID(),
-    }
-    const exists = await get(info.id)
-    if (exists) throw new Errors.AlreadyExists(info.id)
-    await Storage.write(["share", info.id], info)
-    return info
-  })
+  export const create = fn(
+    z.object({
+      sessionID: z.string(),
+      expires: z.number().optional(),
+      password: z.string().optional(),
+    }),
+    async (body) => {
+      const isTest = process.env.NODE_ENV === "test" || body.sessionID.startsWith("test_")
+      const info: Info = {
+        id: (isTest ? "test_" : "") + body.sessionID.slice(-8),
+        sessionID: body.sessionID,
+        secret: crypto.randomUUID(),
+        expires: body.expires,
+        password: body.password ? await hash(body.password) : undefined,
+      }
+      const exists = await get(info.id)
+      if (exists) throw new Errors.AlreadyExists(info.id)
+      await Storage.write(["share", info.id], info)
+      return info
+    },
+  )
 
+  /** Expired shares are removed the first time they are looked up. */
   export async function get(id: string) {
-    return Storage.read<Info>(["share", id])
+    const share = await Storage.read<Info>(["share", id])
+    if (share?.expires && share.expires < Date.now()) {
+      await purge(id)
+      return undefined
+    }
+    return share
   }
 
   export const remove = fn(Info.pick({ id: true, secret: true }), async (body) => {
     const share = await get(body.id)
     if (!share) throw new Errors.NotFound(body.id)
-    if (share.secret !== body.secret) throw new Errors.InvalidSecret(body.id)
-    await Storage.remove(["share", body.id])
-    const list = await Storage.list({ prefix: ["share_data", body.id] })
-    for (const item of list) {
-      await Storage.remove(item)
-    }
+    if (!equal(share.secret, body.secret)) throw new Errors.InvalidSecret(body.id)
+    await purge(body.id)
   })
 
+  async function purge(id: string) {
+    await Storage.remove(["share", id])
+    await Storage.remove(["share_compaction", id])
+    for (const prefix of ["share_data", "share_event"]) {
+      const list = await Storage.list({ prefix: [prefix, id] })
+      for (const item of list) {
+        await Storage.remove(item)
+      }
+    }
+  }
+
+  /** Whether the password unlocks the share, shares without one are always unlocked. */
+  export async function verify(share: Info, password: string | undefined) {
+    if (!share.password) return true
+    if (!password) return false
+    const [, iterations, salt] = share.password.split(":")
+    return equal(await hash(password, salt, Number(iterations)), share.password)
+  }
+
+  /** Whether a viewer may see the share, either by password or by the key from a cookie. */
+  export async function unlocked(share: Info, input: { password?: string; key?: string }) {
+    if (!share.password) return true
+    if (input.key && equal(input.key, await access(share))) return true
+    return verify(share, input.password)
+  }
+
+  export function cookie(id: string) {
+    return `share_${id}`
+  }
+
+  /**
+   * Key stored in a cookie once the password was entered. It is derived from
+   * the secret so it can't be forged from the stored password hash.
+   */
+  export async function access(share: Info) {
+    const digest = await crypto.subtle.digest("SHA-256", new TextEncoder().encode(share.secret + share.password))
+    return hex(digest)
+  }
+
+  // PBKDF2 through WebCrypto so it also runs on Cloudflare, which caps it at 100k iterations
+  const ITERATIONS = 100_000
+
+  async function hash(password: string, salt = crypto.randomUUID(), iterations = ITERATIONS) {
+    const key = await crypto.subtle.importKey("raw", new TextEncoder().encode(password), "PBKDF2", false, [
+      "deriveBits",
+    ])
+    const bits = await crypto.subtle.deriveBits(
+      { name: "PBKDF2", hash: "SHA-256", salt: new TextEncoder().encode(salt), iterations },
+      key,
+      256,
+    )
+    return ["pbkdf2", iterations, salt, hex(bits)].join(":")
+  }
+
+  // compares in constant time so the time taken doesn't leak how much of a secret matched
+  function equal(a: string, b: string) {
+    const left = new TextEncoder().encode(a)
+    const right = new TextEncoder().encode(b)
+    let diff = left.length ^ right.length
+    for (let i = 0; i < left.length; i++) diff |= left[i] ^ (right[i % right.length] ?? 0)
+    return diff === 0
+  }
+
+  function hex(buffer: ArrayBuffer) {
+    return Array.from(new Uint8Array(buffer), (x) => x.toString(16).padStart(2, "0")).join("")
+  }
+
   export const sync = fn(
     z.object({
       share: Info.pick({ id: true, secret: true }),
@@ -74,7 +154,7 @@ export namespace Share {
     async (input) => {
       const share = await get(input.share.id)
       if (!share) throw new Errors.NotFound(input.share.id)
-      if (share.secret !== input.share.secret) throw new Errors.InvalidSecret(input.share.id)
+      if (!equal(share.secret, input.share.secret)) throw new Errors.InvalidSecret(input.share.id)
       await Storage.write(["share_event", input.share.id, Identifier.descending()], input.data)
     },
   )
@@ -138,7 +218,7 @@ export namespace Share {
     async (input) => {
       const share = await get(input.share.id)
       if (!share) throw new Errors.NotFound(input.share.id)
-      if (share.secret !== input.share.secret) throw new Errors.InvalidSecret(input.share.id)
+      if (!equal(share.secret, input.share.secret)) throw new Errors.InvalidSecret(input.share.id)
       const promises = []
       for (const item of input.data) {
         promises.push(
@@ -1,4 +1,6 @@
 import { AwsClient } from "aws4fetch"
+import fs from "node:fs/promises"
+import path from "node:path"
 import { lazy } from "@opencode-ai/util/lazy"
 
 export namespace Storage {
@@ -83,11 +85,55 @@ export namespace Storage {
     return createAdapter(client, `https://${accountId}.r2.cloudflarestorage.com`, process.env.OPENCODE_STORAGE_BUCKET!)
   }
 
+  /** Stores each key as a file below OPENCODE_STORAGE_PATH, for self-hosted share servers. */
+  function local(): Adapter {
+    const root = path.resolve(process.env.OPENCODE_STORAGE_PATH || ".data/storage")
+    const file = (key: string) => {
+      const result = path.resolve(root, key)
+      if (!result.startsWith(root + path.sep)) throw new Error(`Invalid path ${key}`)
+      return result
+    }
+    return {
+      async read(key: string): Promise<string | undefined> {
+        return fs.readFile(file(key), "utf8").catch((e) => {
+          if (e.code === "ENOENT") return undefined
+          throw e
+        })
+      },
+
+      async write(key: string, value: string): Promise<void> {
+        const target = file(key)
+        await fs.mkdir(path.dirname(target), { recursive: true })
+        await fs.writeFile(target + ".tmp", value)
+        await fs.rename(target + ".tmp", target)
+      },
+
+      async remove(key: string): Promise<void> {
+        await fs.rm(file(key), { force: true })
+      },
+
+      async list(options?: { prefix?: string; limit?: number; after?: string; before?: string }): Promise<string[]> {
+        const prefix = options?.prefix || ""
+        // only walk the directory the prefix points into
+        const dir = prefix.slice(0, prefix.lastIndexOf("/") + 1)
+        const entries = await fs.readdir(dir ? file(dir) : root, { recursive: true }).catch(() => [] as string[])
+        const keys = entries
+          .map((x) => dir + x.split(path.sep).join("/"))
+          .filter((x) => x.startsWith(prefix) && x.endsWith(".json"))
+          .filter((x) => !options?.after || x > prefix + options.after + ".json")
+          .filter((x) => !options?.before || x < prefix + options.before + ".json")
+          .sort()
+        return options?.limit ? keys.slice(0, options.limit) : keys
+      },
+    }
+  }
+
   const adapter = lazy(() => {
     const type = process.env.OPENCODE_STORAGE_ADAPTER
     if (type === "r2") return r2()
     if (type === "s3") return s3()
-    throw new Error("No storage adapter configured")
+    if (!type || type === "fs") return local()
+    throw new Error(`Unknown storage adapter ${type}`)
   })
 
   function resolve(key: string[]) {
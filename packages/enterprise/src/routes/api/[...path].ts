@@ -4,10 +4,26 @@ import { describeRoute, openAPIRouteHandler, resolver } from "hono-openapi"
 import { validator } from "hono-openapi"
 import z from "zod"
 import { cors } from "hono/cors"
+import { getCookie, setCookie } from "hono/cookie"
+import { createMiddleware } from "hono/factory"
 import { Share } from "~/core/share"
 
 const app = new Hono()
 
+/** Self-hosted servers set OPENCODE_SHARE_TOKEN to only accept shares from their own clients. */
+const authorized = createMiddleware(async (c, next) => {
+  const token = process.env.OPENCODE_SHARE_TOKEN
+  if (token && c.req.header("authorization") !== `Bearer ${token}`) return c.json({ error: "Unauthorized" }, 401)
+  await next()
+})
+
+app.onError((error, c) => {
+  if (error instanceof Share.Errors.NotFound) return c.json({ error: error.message }, 404)
+  if (error instanceof Share.Errors.InvalidSecret) return c.json({ error: error.message }, 403)
+  if (error instanceof Share.Errors.AlreadyExists) return c.json({ error: error.message }, 409)
+  return c.json({ error: error.message }, 500)
+})
+
 app
   .basePath("/api")
   .use(cors())
@@ -48,10 +64,18 @@ app
         },
       },
     }),
-    validator("json", z.object({ sessionID: z.string() })),
+    authorized,
+    validator(
+      "json",
+      z.object({
+        sessionID: z.string(),
+        expires: z.number().optional(),
+        password: z.string().optional(),
+      }),
+    ),
     async (c) => {
       const body = c.req.valid("json")
-      const share = await Share.create({ sessionID: body.sessionID })
+      const share = await Share.create(body)
       const protocol = c.req.header("x-forwarded-proto") ?? c.req.header("x-forwarded-protocol") ?? "https"
       const host = c.req.header("x-forwarded-host") ?? c.req.header("host")
       return c.json({
@@ -77,6 +101,7 @@ app
         },
       },
     }),
+    authorized,
     validator("param", z.object({ shareID: z.string() })),
     validator("json", z.object({ secret: z.string(), data: Share.Data.array() })),
     async (c) => {
@@ -108,9 +133,43 @@ app
     validator("param", z.object({ shareID: z.string() })),
     async (c) => {
       const { shareID } = c.req.valid("param")
+      const share = await Share.get(shareID)
+      if (!share) throw new Share.Errors.NotFound(shareID)
+      const unlocked = await Share.unlocked(share, {
+        password: c.req.header("x-share-password"),
+        key: getCookie(c, Share.cookie(shareID)),
+      })
+      if (!unlocked) return c.json({ error: "Password required" }, 401)
       return c.json(await Share.data(shareID))
     },
   )
+  .post(
+    "/share/:shareID/unlock",
+    describeRoute({
+      description: "Unlock a password protected share for the browser and redirect to it",
+      operationId: "share.unlock",
+      responses: {
+        302: {
+          description: "Redirect to the share",
+        },
+      },
+    }),
+    validator("param", z.object({ shareID: z.string() })),
+    validator("form", z.object({ password: z.string() })),
+    async (c) => {
+      const { shareID } = c.req.valid("param")
+      const share = await Share.get(shareID)
+      if (!share) throw new Share.Errors.NotFound(shareID)
+      if (!(await Share.verify(share, c.req.valid("form").password))) return c.redirect(`/share/${shareID}?invalid`)
+      setCookie(c, Share.cookie(shareID), await Share.access(share), {
+        path: "/",
+        httpOnly: true,
+        sameSite: "Lax",
+        expires: share.expires ? new Date(share.expires) : undefined,
+      })
+      return c.redirect(`/share/${shareID}`)
+    },
+  )
   .delete(
     "/share/:shareID",
     describeRoute({
@@ -127,6 +186,7 @@ app
         },
       },
     }),
+    authorized,
     validator("param", z.object({ shareID: z.string() })),
     validator("json", z.object({ secret: z.string() })),
     async (c) => {
@@ -5,11 +5,14 @@ import { DataProvider } from "@opencode-ai/ui/context"
 import { DiffComponentProvider } from "@opencode-ai/ui/context/diff"
 import { CodeComponentProvider } from "@opencode-ai/ui/context/code"
 import { WorkerPoolProvider } from "@opencode-ai/ui/context/worker-pool"
-import { createAsync, query, useParams } from "@solidjs/router"
+import { createAsync, query, useParams, useSearchParams } from "@solidjs/router"
 import { createEffect, createMemo, ErrorBoundary, For, Match, Show, Switch } from "solid-js"
+import { getRequestEvent } from "solid-js/web"
 import { Share } from "~/core/share"
 import { Logo, Mark } from "@opencode-ai/ui/logo"
 import { IconButton } from "@opencode-ai/ui/icon-button"
+import { Button } from "@opencode-ai/ui/button"
+import { TextField } from "@opencode-ai/ui/text-field"
 import { ProviderIcon } from "@opencode-ai/ui/provider-icon"
 import { createDefaultOptions } from "@opencode-ai/ui/pierre"
 import { iife } from "@opencode-ai/util/iife"
@@ -46,10 +49,23 @@ const SessionDataMissingError = NamedError.create(
   }),
 )
 
+const SharePasswordRequiredError = NamedError.create(
+  "SharePasswordRequiredError",
+  z.object({
+    shareID: z.string(),
+  }),
+)
+
 const getData = query(async (shareID) => {
   "use server"
   const share = await Share.get(shareID)
   if (!share) throw new SessionDataMissingError({ sessionID: shareID })
+  const key = getRequestEvent()
+    ?.request.headers.get("cookie")
+    ?.split(";")
+    .map((x) => x.trim().split("="))
+    .find(([name]) => name === Share.cookie(shareID))?.[1]
+  if (!(await Share.unlocked(share, { key }))) throw new SharePasswordRequiredError({ shareID })
   const data = await Share.data(shareID)
   const result: {
     sessionID: string
@@ -146,6 +162,33 @@ const getData = query(async (shareID) => {
   return result
 }, "getShareData")
 
+function Unlock(props: { shareID: string }) {
+  const [search] = useSearchParams()
+  return (
+    <main class="min-h-screen flex items-center justify-center p-4">
+      <form
+        method="post"
+        action={`/api/share/${props.shareID}/unlock`}
+        class="w-full max-w-80 flex flex-col gap-4 items-stretch"
+      >
+        <Logo class="w-32 self-center" />
+        <div class="text-14-regular text-text-base">This session is password protected.</div>
+        <TextField
+          name="password"
+          type="password"
+          label="Password"
+          autofocus
+          validationState={search.invalid !== undefined ? "invalid" : "valid"}
+          error="Incorrect password"
+        />
+        <Button type="submit" variant="primary">
+          View session
+        </Button>
+      </form>
+    </main>
+  )
+}
+
 export default function () {
   const params = useParams()
   const data = createAsync(async () => {
@@ -164,9 +207,14 @@ export default function () {
     <ErrorBoundary
       fallback={(e) => {
         return (
-          <Show when={e.message === "SessionDataMissingError"}>
-            <NotFound />
-          </Show>
+          <Switch>
+            <Match when={e.message === "SessionDataMissingError"}>
+              <NotFound />
+            </Match>
+            <Match when={e.message === "SharePasswordRequiredError"}>
+              <Unlock shareID={params.shareID!} />
+            </Match>
+          </Switch>
         )
       }}
     >
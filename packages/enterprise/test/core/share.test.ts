@@ -259,4 +259,35 @@ describe.concurrent("core.share", () => {
 
     await Share.remove({ id: share.id, secret: share.secret })
   })
+
+  test("should remove expired shares with their data", async () => {
+    const sessionID = Identifier.descending()
+    const share = await Share.create({ sessionID, expires: Date.now() + 50 })
+    await Share.sync({
+      share: { id: share.id, secret: share.secret },
+      data: [{ type: "part", data: { id: "part1", sessionID, messageID: "msg1", type: "text", text: "Hello" } }],
+    })
+    await Share.data(share.id)
+    expect(await Share.get(share.id)).toBeDefined()
+
+    await Bun.sleep(100)
+    expect(await Share.get(share.id)).toBeUndefined()
+    expect(await Storage.list({ prefix: ["share_event", share.id] })).toEqual([])
+    expect(await Storage.read(["share_compaction", share.id])).toBeUndefined()
+  })
+
+  test("should unlock password protected shares", async () => {
+    const sessionID = Identifier.descending()
+    const share = await Share.create({ sessionID, password: "hunter2" })
+    expect(share.password).not.toContain("hunter2")
+    expect(share.password).toStartWith("pbkdf2:")
+
+    expect(await Share.unlocked(share, {})).toBe(false)
+    expect(await Share.unlocked(share, { password: "wrong" })).toBe(false)
+    expect(await Share.unlocked(share, { password: "hunter2" })).toBe(true)
+    expect(await Share.unlocked(share, { key: await Share.access(share) })).toBe(true)
+    expect(await Share.unlocked(share, { key: "forged" })).toBe(false)
+
+    await Share.remove({ id: share.id, secret: share.secret })
+  })
 })
@@ -51,6 +51,15 @@ describe("core.storage", () => {
     ])
   })
 
+  test("should not list sibling directories that share the prefix", async () => {
+    await Storage.write(["test", "users-archived", "user6"], { name: "user6" })
+
+    const result = await Storage.list({ prefix: ["test", "users"] })
+
+    expect(result).toHaveLength(5)
+    expect(await Storage.list({ prefix: ["test", "users-archived"] })).toEqual([["test", "users-archived", "user6"]])
+  })
+
   afterAll(async () => {
     const testFiles = await Storage.list({ prefix: ["test"] })
 
@@ -946,12 +946,18 @@ export namespace ACP {
         return "fetch"
 
       case "edit":
+      case "multiedit":
       case "patch":
       case "write":
+      case "lsp_rename":
         return "edit"
 
       case "grep":
       case "glob":
+      case "lsp_definition":
+      case "lsp_references":
+      case "lsp_implementation":
+      case "lsp_call_hierarchy":
       case "context7_resolve_library_id":
       case "context7_get_library_docs":
         return "search"
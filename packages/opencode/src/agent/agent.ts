@@ -8,6 +8,7 @@ import { mergeDeep } from "remeda"
 
 import PROMPT_GENERATE from "./generate.txt"
 import PROMPT_COMPACTION from "./prompt/compaction.txt"
+import PROMPT_DESCRIBE from "./prompt/describe.txt"
 import PROMPT_EXPLORE from "./prompt/explore.txt"
 import PROMPT_SUMMARY from "./prompt/summary.txt"
 import PROMPT_TITLE from "./prompt/title.txt"
@@ -24,7 +25,7 @@ export namespace Agent {
       temperature: z.number().optional(),
       color: z.string().optional(),
       permission: z.object({
-        edit: Config.Permission,
+        edit: Config.EditPermission,
         bash: z.record(z.string(), Config.Permission),
         webfetch: Config.Permission.optional(),
         doom_loop: Config.Permission.optional(),
@@ -36,6 +37,13 @@ export namespace Agent {
           providerID: z.string(),
         })
         .optional(),
+      fallback: z
+        .object({
+          modelID: z.string(),
+          providerID: z.string(),
+        })
+        .array()
+        .optional(),
       prompt: z.string().optional(),
       tools: z.record(z.string(), z.boolean()),
       options: z.record(z.string(), z.any()),
@@ -149,6 +157,9 @@ export namespace Agent {
           todoread: false,
           todowrite: false,
           edit: false,
+          multiedit: false,
+          patch: false,
+          lsp_rename: false,
           write: false,
           ...defaultTools,
         },
@@ -196,6 +207,16 @@ export namespace Agent {
         prompt: PROMPT_TITLE,
         tools: {},
       },
+      describe: {
+        name: "describe",
+        mode: "primary",
+        options: {},
+        native: true,
+        hidden: true,
+        permission: agentPermission,
+        prompt: PROMPT_DESCRIBE,
+        tools: {},
+      },
       summary: {
         name: "summary",
         mode: "primary",
@@ -244,7 +265,11 @@ export namespace Agent {
         ...item.options,
         ...extra,
       }
-      if (model) item.model = Provider.parseModel(model)
+      if (model) {
+        const [primary, ...fallback] = (Array.isArray(model) ? model : [model]).map((x) => Provider.parseModel(x))
+        item.model = primary
+        item.fallback = fallback.length ? fallback : undefined
+      }
       if (prompt) item.prompt = prompt
       if (tools)
         item.tools = {
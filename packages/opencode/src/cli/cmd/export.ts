@@ -1,5 +1,6 @@
 import type { Argv } from "yargs"
 import { Session } from "../../session"
+import { SessionExport } from "../../session/export"
 import { cmd } from "./cmd"
 import { bootstrap } from "../bootstrap"
 import { UI } from "../ui"
@@ -8,12 +9,19 @@ import { EOL } from "os"
 
 export const ExportCommand = cmd({
   command: "export [sessionID]",
-  describe: "export session data as JSON",
+  describe: "export session data as JSON or a readable transcript",
   builder: (yargs: Argv) => {
-    return yargs.positional("sessionID", {
-      describe: "session id to export",
-      type: "string",
-    })
+    return yargs
+      .positional("sessionID", {
+        describe: "session id to export",
+        type: "string",
+      })
+      .option("format", {
+        describe: "output format",
+        type: "string",
+        choices: SessionExport.Format.options,
+        default: "json",
+      })
   },
   handler: async (args) => {
     await bootstrap(process.cwd(), async () => {
@@ -66,18 +74,12 @@ export const ExportCommand = cmd({
       }
 
       try {
-        const sessionInfo = await Session.get(sessionID!)
-        const messages = await Session.messages({ sessionID: sessionID! })
-
-        const exportData = {
-          info: sessionInfo,
-          messages: messages.map((msg) => ({
-            info: msg.info,
-            parts: msg.parts,
-          })),
-        }
-
-        process.stdout.write(JSON.stringify(exportData, null, 2))
+        await Session.get(sessionID!)
+        const output = await SessionExport.render({
+          sessionID: sessionID!,
+          format: args.format as SessionExport.Format,
+        })
+        process.stdout.write(output)
         process.stdout.write(EOL)
       } catch (error) {
         UI.error(`Session not found: ${sessionID!}`)
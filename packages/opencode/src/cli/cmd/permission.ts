@@ -0,0 +1,137 @@
+import type { Argv } from "yargs"
+import { cmd } from "./cmd"
+import { bootstrap } from "../bootstrap"
+import { UI } from "../ui"
+import { PermissionRule } from "../../permission/rule"
+import { Locale } from "../../util/locale"
+import * as prompts from "@clack/prompts"
+import { EOL } from "os"
+
+export const PermissionCommand = cmd({
+  command: "permission",
+  describe: "manage saved permission rules",
+  builder: (yargs: Argv) =>
+    yargs
+      .command(PermissionListCommand)
+      .command(PermissionEditCommand)
+      .command(PermissionRevokeCommand)
+      .demandCommand(),
+  async handler() {},
+})
+
+export const PermissionListCommand = cmd({
+  command: "list",
+  aliases: ["ls"],
+  describe: "list saved permission rules",
+  builder: (yargs: Argv) => {
+    return yargs
+      .option("scope", {
+        describe: "only show rules from this scope",
+        type: "string",
+        choices: PermissionRule.Scope.options,
+      })
+      .option("format", {
+        describe: "output format",
+        type: "string",
+        choices: ["table", "json"],
+        default: "table",
+      })
+  },
+  handler: async (args) => {
+    await bootstrap(process.cwd(), async () => {
+      const rules = await PermissionRule.list(args.scope as PermissionRule.Scope | undefined)
+      if (args.format === "json") {
+        console.log(JSON.stringify(rules, null, 2))
+        return
+      }
+      if (rules.length === 0) {
+        UI.println(UI.Style.TEXT_DIM + "No saved permission rules" + UI.Style.TEXT_NORMAL)
+        return
+      }
+      console.log(formatRuleTable(rules))
+    })
+  },
+})
+
+export const PermissionEditCommand = cmd({
+  command: "edit <ruleID>",
+  describe: "change the pattern or scope of a saved rule",
+  builder: (yargs: Argv) => {
+    return yargs
+      .positional("ruleID", {
+        describe: "rule id to edit",
+        type: "string",
+        demandOption: true,
+      })
+      .option("pattern", {
+        describe: "new pattern",
+        type: "string",
+      })
+      .option("scope", {
+        describe: "move the rule to this scope",
+        type: "string",
+        choices: PermissionRule.Scope.options,
+      })
+  },
+  handler: async (args) => {
+    await bootstrap(process.cwd(), async () => {
+      const rule = await PermissionRule.get(args.ruleID)
+      let pattern = args.pattern
+      if (!pattern && !args.scope) {
+        const input = await prompts.text({
+          message: `Pattern for ${rule.type}`,
+          initialValue: rule.pattern,
+          validate: (x) => (x && x.length > 0 ? undefined : "Required"),
+        })
+        if (prompts.isCancel(input)) throw new UI.CancelledError()
+        pattern = input
+      }
+      const updated = await PermissionRule.update({
+        id: rule.id,
+        pattern,
+        scope: args.scope as PermissionRule.Scope | undefined,
+      })
+      prompts.log.success(`Updated ${updated.type} rule ${updated.pattern} (${updated.scope})`)
+    })
+  },
+})
+
+export const PermissionRevokeCommand = cmd({
+  command: "revoke <ruleID>",
+  aliases: ["rm"],
+  describe: "revoke a saved rule",
+  builder: (yargs: Argv) => {
+    return yargs.positional("ruleID", {
+      describe: "rule id to revoke",
+      type: "string",
+      demandOption: true,
+    })
+  },
+  handler: async (args) => {
+    await bootstrap(process.cwd(), async () => {
+      const rule = await PermissionRule.remove(args.ruleID)
+      prompts.log.success(`Revoked ${rule.type} rule ${rule.pattern}`)
+    })
+  },
+})
+
+function formatRuleTable(rules: PermissionRule.Info[]): string {
+  const lines: string[] = []
+
+  const maxIdWidth = Math.max(20, ...rules.map((r) => r.id.length))
+  const maxTypeWidth = Math.max(4, ...rules.map((r) => r.type.length))
+  const maxPatternWidth = Math.max(25, ...rules.map((r) => Math.min(r.pattern.length, 60)))
+
+  const header = `Rule ID${" ".repeat(maxIdWidth - 7)}  Type${" ".repeat(maxTypeWidth - 4)}  Scope    Pattern${" ".repeat(maxPatternWidth - 7)}  Updated`
+  lines.push(header)
+  lines.push("─".repeat(header.length))
+  for (const rule of rules) {
+    const pattern = Locale.truncate(rule.pattern, maxPatternWidth)
+    const time = Locale.todayTimeOrDateTime(rule.time.updated)
+    lines.push(
+      `${rule.id.padEnd(maxIdWidth)}  ${rule.type.padEnd(maxTypeWidth)}  ${rule.scope.padEnd(7)}  ${pattern.padEnd(maxPatternWidth)}  ${time}`,
+    )
+  }
+
+  return lines.join(EOL)
+}
@@ -7,7 +7,7 @@ import { bootstrap } from "../bootstrap"
 import { Command } from "../../command"
 import { EOL } from "os"
 import { select } from "@clack/prompts"
-import { createOpencodeClient, type OpencodeClient } from "@opencode-ai/sdk/v2"
+import { createOpencodeClient, type Config, type OpencodeClient } from "@opencode-ai/sdk/v2"
 import { Server } from "../../server/server"
 import { Provider } from "../../provider/provider"
 
@@ -16,12 +16,25 @@ const TOOL: Record<string, [string, string]> = {
   todoread: ["Todo", UI.Style.TEXT_WARNING_BOLD],
   bash: ["Bash", UI.Style.TEXT_DANGER_BOLD],
   edit: ["Edit", UI.Style.TEXT_SUCCESS_BOLD],
+  multiedit: ["Edit", UI.Style.TEXT_SUCCESS_BOLD],
+  patch: ["Patch", UI.Style.TEXT_SUCCESS_BOLD],
   glob: ["Glob", UI.Style.TEXT_INFO_BOLD],
   grep: ["Grep", UI.Style.TEXT_INFO_BOLD],
   list: ["List", UI.Style.TEXT_INFO_BOLD],
   read: ["Read", UI.Style.TEXT_HIGHLIGHT_BOLD],
   write: ["Write", UI.Style.TEXT_SUCCESS_BOLD],
   websearch: ["Search", UI.Style.TEXT_DIM_BOLD],
+  lsp_diagnostics: ["Diagnostics", UI.Style.TEXT_INFO_BOLD],
+  lsp_hover: ["Hover", UI.Style.TEXT_INFO_BOLD],
+  lsp_definition: ["Definition", UI.Style.TEXT_INFO_BOLD],
+  lsp_references: ["References", UI.Style.TEXT_INFO_BOLD],
+  lsp_implementation: ["Implementation", UI.Style.TEXT_INFO_BOLD],
+  lsp_call_hierarchy: ["Calls", UI.Style.TEXT_INFO_BOLD],
+  lsp_rename: ["Rename", UI.Style.TEXT_SUCCESS_BOLD],
+}
+
+function shareMode(config: Config) {
+  return typeof config.share === "object" ? config.share.mode : config.share
 }
 
 export const RunCommand = cmd({
@@ -74,6 +87,10 @@ export const RunCommand = cmd({
         array: true,
         describe: "file(s) to attach to message",
       })
+      .option("worktree", {
+        type: "boolean",
+        describe: "run a new session in its own git worktree on a new branch",
+      })
       .option("title", {
         type: "string",
         describe: "title for the session (uses truncated prompt if no value provided)",
@@ -166,6 +183,15 @@ export const RunCommand = cmd({
                 UI.println()
                 UI.println(part.state.output)
               }
+              if ((part.tool === "patch" || part.tool === "lsp_rename") && Array.isArray(part.state.metadata?.files)) {
+                for (const file of part.state.metadata.files) {
+                  UI.println(UI.Style.TEXT_DIM + "  " + file + UI.Style.TEXT_NORMAL)
+                }
+              }
+              if (part.tool === "lsp_diagnostics" && part.state.output?.trim()) {
+                UI.println()
+                UI.println(part.state.output)
+              }
             }
 
             if (part.type === "step-start") {
@@ -262,7 +288,11 @@ export const RunCommand = cmd({
               : args.title
             : undefined
 
-        const result = await sdk.session.create(title ? { title } : {})
+        const result = await sdk.session.create({ title, worktree: args.worktree })
+        if (result.data?.worktree)
+          UI.println(
+            UI.Style.TEXT_INFO_BOLD + "~  " + `${result.data.directory} (branch ${result.data.worktree.branch})`,
+          )
         return result.data?.id
       })()
 
@@ -272,7 +302,7 @@ export const RunCommand = cmd({
       }
 
       const cfgResult = await sdk.config.get()
-      if (cfgResult.data && (cfgResult.data.share === "auto" || Flag.OPENCODE_AUTO_SHARE || args.share)) {
+      if (cfgResult.data && (shareMode(cfgResult.data) === "auto" || Flag.OPENCODE_AUTO_SHARE || args.share)) {
         const shareResult = await sdk.session.share({ sessionID }).catch((error) => {
           if (error instanceof Error && error.message.includes("disabled")) {
             UI.println(UI.Style.TEXT_DANGER_BOLD + "!  " + error.message)
@@ -314,7 +344,11 @@ export const RunCommand = cmd({
               : args.title
             : undefined
 
-        const result = await sdk.session.create(title ? { title } : {})
+        const result = await sdk.session.create({ title, worktree: args.worktree })
+        if (result.data?.worktree)
+          UI.println(
+            UI.Style.TEXT_INFO_BOLD + "~  " + `${result.data.directory} (branch ${result.data.worktree.branch})`,
+          )
         return result.data?.id
       })()
 
@@ -325,7 +359,7 @@ export const RunCommand = cmd({
       }
 
       const cfgResult = await sdk.config.get()
-      if (cfgResult.data && (cfgResult.data.share === "auto" || Flag.OPENCODE_AUTO_SHARE || args.share)) {
+      if (cfgResult.data && (shareMode(cfgResult.data) === "auto" || Flag.OPENCODE_AUTO_SHARE || args.share)) {
         const shareResult = await sdk.session.share({ sessionID }).catch((error) => {
           if (error instanceof Error && error.message.includes("disabled")) {
             UI.println(UI.Style.TEXT_DANGER_BOLD + "!  " + error.message)
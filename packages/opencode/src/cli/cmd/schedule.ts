@@ -0,0 +1,135 @@
+import type { Argv } from "yargs"
+import { cmd } from "./cmd"
+import { bootstrap } from "../bootstrap"
+import { UI } from "../ui"
+import { Schedule } from "../../schedule"
+import { Locale } from "../../util/locale"
+import * as prompts from "@clack/prompts"
+import { EOL } from "os"
+
+export const ScheduleCommand = cmd({
+  command: "schedule",
+  describe: "manage scheduled jobs run by serve",
+  builder: (yargs: Argv) =>
+    yargs
+      .command(ScheduleListCommand)
+      .command(ScheduleRunCommand)
+      .command(SchedulePauseCommand)
+      .command(ScheduleResumeCommand)
+      .demandCommand(),
+  async handler() {},
+})
+
+export const ScheduleListCommand = cmd({
+  command: "list",
+  aliases: ["ls"],
+  describe: "list scheduled jobs with their next and last run",
+  builder: (yargs: Argv) => {
+    return yargs.option("format", {
+      describe: "output format",
+      type: "string",
+      choices: ["table", "json"],
+      default: "table",
+    })
+  },
+  handler: async (args) => {
+    await bootstrap(process.cwd(), async () => {
+      const jobs = await Schedule.list()
+      if (args.format === "json") {
+        console.log(JSON.stringify(jobs, null, 2))
+        return
+      }
+      if (jobs.length === 0) {
+        UI.println(UI.Style.TEXT_DIM + "No scheduled jobs" + UI.Style.TEXT_NORMAL)
+        return
+      }
+      console.log(formatJobTable(jobs))
+    })
+  },
+})
+
+export const ScheduleRunCommand = cmd({
+  command: "run <id>",
+  describe: "run a job now and wait for it to finish",
+  builder: (yargs: Argv) => {
+    return yargs.positional("id", {
+      describe: "job id",
+      type: "string",
+      demandOption: true,
+    })
+  },
+  handler: async (args) => {
+    await bootstrap(process.cwd(), async () => {
+      const spinner = prompts.spinner()
+      spinner.start(`Running ${args.id}`)
+      const run = await Schedule.run(args.id)
+      if (run.status === "error") {
+        spinner.stop(`${args.id} failed in session ${run.sessionID}`, 1)
+        UI.error(run.error ?? "unknown error")
+        process.exitCode = 1
+        return
+      }
+      spinner.stop(`${args.id} completed in session ${run.sessionID}`)
+    })
+  },
+})
+
+export const SchedulePauseCommand = cmd({
+  command: "pause <id>",
+  describe: "stop a job from running on its schedule",
+  builder: (yargs: Argv) => {
+    return yargs.positional("id", {
+      describe: "job id",
+      type: "string",
+      demandOption: true,
+    })
+  },
+  handler: async (args) => {
+    await bootstrap(process.cwd(), async () => {
+      await Schedule.pause({ id: args.id, paused: true })
+      prompts.log.success(`Paused ${args.id}`)
+    })
+  },
+})
+
+export const ScheduleResumeCommand = cmd({
+  command: "resume <id>",
+  describe: "run a paused job on its schedule again",
+  builder: (yargs: Argv) => {
+    return yargs.positional("id", {
+      describe: "job id",
+      type: "string",
+      demandOption: true,
+    })
+  },
+  handler: async (args) => {
+    await bootstrap(process.cwd(), async () => {
+      const job = await Schedule.pause({ id: args.id, paused: false })
+      prompts.log.success(`Resumed ${args.id}` + (job.next ? `, next run ${Locale.todayTimeOrDateTime(job.next)}` : ""))
+    })
+  },
+})
+
+function formatJobTable(jobs: Schedule.Info[]): string {
+  const lines: string[] = []
+
+  const maxIdWidth = Math.max(6, ...jobs.map((j) => j.id.length))
+  const maxCronWidth = Math.max(4, ...jobs.map((j) => j.cron.length))
+
+  const header = `Job ID${" ".repeat(maxIdWidth - 6)}  Cron${" ".repeat(maxCronWidth - 4)}  Next${" ".repeat(16)}  Last`
+  lines.push(header)
+  lines.push("─".repeat(header.length))
+  for (const job of jobs) {
+    const next = job.disabled
+      ? "disabled"
+      : job.paused
+        ? "paused"
+        : job.next
+          ? Locale.todayTimeOrDateTime(job.next)
+          : "never"
+    const last = job.last ? `${job.last.status} ${Locale.todayTimeOrDateTime(job.last.time.started)}` : "-"
+    lines.push(`${job.id.padEnd(maxIdWidth)}  ${job.cron.padEnd(maxCronWidth)}  ${next.padEnd(20)}  ${last}`)
+  }
+
+  return lines.join(EOL)
+}
@@ -1,4 +1,5 @@
 import { Server } from "../../server/server"
+import { Schedule } from "../../schedule"
 import { cmd } from "./cmd"
 
 export const ServeCommand = cmd({
@@ -25,7 +26,9 @@ export const ServeCommand = cmd({
       hostname,
     })
     console.log(`opencode server listening on http://${server.hostname}:${server.port}`)
+    const stop = Schedule.start(process.cwd())
     await new Promise(() => {})
+    stop()
     await server.stop()
   },
 })
@@ -1,6 +1,7 @@
 import type { Argv } from "yargs"
 import { cmd } from "./cmd"
 import { Session } from "../../session"
+import { SessionSearch } from "../../session/search"
 import { bootstrap } from "../bootstrap"
 import { UI } from "../ui"
 import { Locale } from "../../util/locale"
@@ -9,7 +10,7 @@ import { EOL } from "os"
 export const SessionCommand = cmd({
   command: "session",
   describe: "manage sessions",
-  builder: (yargs: Argv) => yargs.command(SessionListCommand).demandCommand(),
+  builder: (yargs: Argv) => yargs.command(SessionListCommand).command(SessionSearchCommand).demandCommand(),
   async handler() {},
 })
 
@@ -74,6 +75,60 @@ export const SessionListCommand = cmd({
   },
 })
 
+export const SessionSearchCommand = cmd({
+  command: "search <query..>",
+  describe: "search sessions of all projects by message text, tool calls and files",
+  builder: (yargs: Argv) => {
+    return yargs
+      .positional("query", {
+        describe: "text to search for",
+        type: "string",
+        array: true,
+        demandOption: true,
+      })
+      .option("max-count", {
+        alias: "n",
+        describe: "limit to N results",
+        type: "number",
+        default: 20,
+      })
+      .option("format", {
+        describe: "output format",
+        type: "string",
+        choices: ["table", "json"],
+        default: "table",
+      })
+  },
+  handler: async (args) => {
+    await bootstrap(process.cwd(), async () => {
+      const results = await SessionSearch.search({
+        query: args.query.join(" "),
+        limit: args.maxCount,
+      })
+      if (args.format === "json") {
+        console.log(JSON.stringify(results, null, 2))
+        return
+      }
+      if (results.length === 0) {
+        UI.println(UI.Style.TEXT_DIM + "No sessions found")
+        return
+      }
+      const lines: string[] = []
+      for (const result of results) {
+        const time = Locale.todayTimeOrDateTime(result.session.time.updated)
+        lines.push(
+          `${UI.Style.TEXT_HIGHLIGHT_BOLD}${result.session.title}${UI.Style.TEXT_NORMAL}  ${UI.Style.TEXT_DIM}${result.session.id} · ${time}${UI.Style.TEXT_NORMAL}`,
+        )
+        lines.push(`  ${UI.Style.TEXT_DIM}${result.session.directory}${UI.Style.TEXT_NORMAL}`)
+        if (result.snippet) lines.push(`  ${result.snippet}`)
+        if (result.files.length) lines.push(`  ${UI.Style.TEXT_DIM}${result.files.join(", ")}${UI.Style.TEXT_NORMAL}`)
+        lines.push("")
+      }
+      console.log(lines.join(EOL).trimEnd())
+    })
+  },
+})
+
 function formatSessionTable(sessions: Session.Info[]): string {
   const lines: string[] = []
 
@@ -0,0 +1,48 @@
+import type { Argv } from "yargs"
+import { cmd } from "./cmd"
+import { bootstrap } from "../bootstrap"
+import { UI } from "../ui"
+import { SnapshotRetention } from "../../snapshot/retention"
+import * as prompts from "@clack/prompts"
+
+export const SnapshotCommand = cmd({
+  command: "snapshot",
+  describe: "manage the file snapshots taken during sessions",
+  builder: (yargs: Argv) => yargs.command(SnapshotGcCommand).demandCommand(),
+  async handler() {},
+})
+
+export const SnapshotGcCommand = cmd({
+  command: "gc",
+  describe: "remove snapshots of deleted sessions and apply the retention limits",
+  builder: (yargs: Argv) => {
+    return yargs
+      .option("max-age", {
+        describe: "days to keep snapshots of session steps, overrides the config",
+        type: "number",
+      })
+      .option("max-size", {
+        describe: "megabytes the snapshots may use, overrides the config",
+        type: "number",
+      })
+  },
+  handler: async (args) => {
+    await bootstrap(process.cwd(), async () => {
+      const result = await SnapshotRetention.collect({
+        max_age: args.maxAge,
+        max_size: args.maxSize,
+      })
+      if (result.before === 0) {
+        UI.println(UI.Style.TEXT_DIM + "No snapshots for this project" + UI.Style.TEXT_NORMAL)
+        return
+      }
+      prompts.log.success(
+        `Snapshots use ${megabytes(result.after)}, freed ${megabytes(Math.max(0, result.before - result.after))}`,
+      )
+    })
+  },
+})
+
+function megabytes(bytes: number) {
+  return (bytes / 1024 / 1024).toFixed(1) + " MB"
+}
@@ -60,43 +60,11 @@ async function getCurrentProject(): Promise<Project.Info> {
   return Instance.project
 }
 
-async function getAllSessions(): Promise<Session.Info[]> {
-  const sessions: Session.Info[] = []
-
-  const projectKeys = await Storage.list(["project"])
-  const projects = await Promise.all(projectKeys.map((key) => Storage.read<Project.Info>(key)))
-
-  for (const project of projects) {
-    if (!project) continue
-
-    const sessionKeys = await Storage.list(["session", project.id])
-    const projectSessions = await Promise.all(sessionKeys.map((key) => Storage.read<Session.Info>(key)))
-
-    for (const session of projectSessions) {
-      if (session) {
-        sessions.push(session)
-      }
-    }
-  }
-
-  return sessions
-}
-
 async function aggregateSessionStats(days?: number, projectFilter?: string): Promise<SessionStats> {
-  const sessions = await getAllSessions()
   const DAYS_IN_SECOND = 24 * 60 * 60 * 1000
   const cutoffTime = days ? Date.now() - days * DAYS_IN_SECOND : 0
-
-  let filteredSessions = days ? sessions.filter((session) => session.time.updated >= cutoffTime) : sessions
-
-  if (projectFilter !== undefined) {
-    if (projectFilter === "") {
-      const currentProject = await getCurrentProject()
-      filteredSessions = filteredSessions.filter((session) => session.projectID === currentProject.id)
-    } else {
-      filteredSessions = filteredSessions.filter((session) => session.projectID === projectFilter)
-    }
-  }
+  const projectID = projectFilter === "" ? (await getCurrentProject()).id : projectFilter
+  const filteredSessions = await Storage.sessions<Session.Info>({ projectID, since: cutoffTime })
 
   const stats: SessionStats = {
     totalSessions: filteredSessions.length,
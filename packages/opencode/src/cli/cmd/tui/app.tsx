@@ -13,6 +13,7 @@ import { SyncProvider, useSync } from "@tui/context/sync"
 import { LocalProvider, useLocal } from "@tui/context/local"
 import { DialogModel, useConnected } from "@tui/component/dialog-model"
 import { DialogMcp } from "@tui/component/dialog-mcp"
+import { DialogPermissionRule } from "@tui/component/dialog-permission-rule"
 import { DialogStatus } from "@tui/component/dialog-status"
 import { DialogThemeList } from "@tui/component/dialog-theme-list"
 import { DialogHelp } from "./ui/dialog-help"
@@ -23,11 +24,14 @@ import { KeybindProvider } from "@tui/context/keybind"
 import { ThemeProvider, useTheme } from "@tui/context/theme"
 import { Home } from "@tui/routes/home"
 import { Session } from "@tui/routes/session"
+import { DialogCompaction } from "@tui/routes/session/dialog-compaction"
 import { PromptHistoryProvider } from "./component/prompt/history"
 import { DialogAlert } from "./ui/dialog-alert"
 import { ToastProvider, useToast } from "./ui/toast"
 import { ExitProvider, useExit } from "./context/exit"
 import { Session as SessionApi } from "@/session"
+import { SessionCompaction } from "@/session/compaction"
+import { SessionBudget } from "@/session/budget"
 import { TuiEvent } from "./event"
 import { KVProvider, useKV } from "./context/kv"
 import { Provider } from "@/provider/provider"
@@ -169,7 +173,7 @@ function App() {
   const local = useLocal()
   const kv = useKV()
   const command = useCommandDialog()
-  const { event } = useSDK()
+  const { event, client } = useSDK()
   const toast = useToast()
   const { theme, mode, setMode } = useTheme()
   const sync = useSync()
@@ -279,6 +283,25 @@ function App() {
         dialog.clear()
       },
     },
+    {
+      title: "New session in worktree",
+      value: "session.new.worktree",
+      category: "Session",
+      onSelect: async () => {
+        dialog.clear()
+        const result = await client.session.create({ worktree: true })
+        if (!result.data) {
+          const error = (result.error as { data?: { message?: string } } | undefined)?.data?.message
+          toast.show({
+            variant: "error",
+            message: `Failed to create worktree${error ? `: ${error}` : ""}`,
+          })
+          return
+        }
+        toast.show({ variant: "info", message: `Working on branch ${result.data.worktree?.branch}` })
+        route.navigate({ type: "session", sessionID: result.data.id })
+      },
+    },
     {
       title: "Switch model",
       value: "model.list",
@@ -344,6 +367,14 @@ function App() {
         dialog.replace(() => <DialogMcp />)
       },
     },
+    {
+      title: "Permission rules",
+      value: "permission.rule.list",
+      category: "Agent",
+      onSelect: () => {
+        dialog.replace(() => <DialogPermissionRule />)
+      },
+    },
     {
       title: "Agent cycle",
       value: "agent.cycle",
@@ -530,6 +561,29 @@ function App() {
     })
   })
 
+  event.on(SessionBudget.Event.Warning.type, (evt) => {
+    const usage = evt.properties.usage
+    toast.show({
+      variant: "warning",
+      message: `Spent $${usage.spent.toFixed(2)} of the $${usage.limit.toFixed(2)} ${usage.scope} budget. Use /budget to raise it.`,
+      duration: 5000,
+    })
+  })
+
+  event.on(SessionCompaction.Event.Drafted.type, (evt) => {
+    if (route.data.type === "session" && route.data.sessionID === evt.properties.sessionID) {
+      dialog.replace(() => (
+        <DialogCompaction sessionID={evt.properties.sessionID} messageID={evt.properties.messageID} />
+      ))
+      return
+    }
+    toast.show({
+      variant: "info",
+      message: "A compaction summary is waiting for review",
+      duration: 5000,
+    })
+  })
+
   event.on(Installation.Event.Updated.type, (evt) => {
     toast.show({
       variant: "success",
@@ -0,0 +1,61 @@
+import { DialogPrompt } from "@tui/ui/dialog-prompt"
+import { useDialog } from "@tui/ui/dialog"
+import { useTheme } from "@tui/context/theme"
+import { useLocal } from "@tui/context/local"
+import { createResource, For } from "solid-js"
+import { useSDK } from "../context/sdk"
+import { useToast } from "../ui/toast"
+
+interface DialogBudgetProps {
+  session: string
+}
+
+const SCOPE = {
+  session: "Session",
+  agent: "Agent",
+  daily: "Today",
+}
+
+export function DialogBudget(props: DialogBudgetProps) {
+  const dialog = useDialog()
+  const sdk = useSDK()
+  const local = useLocal()
+  const toast = useToast()
+  const { theme } = useTheme()
+  const [usage] = createResource(async () => {
+    const result = await sdk.client.session.budget.get({
+      sessionID: props.session,
+      agent: local.agent.current().name,
+    })
+    return result.data ?? []
+  })
+
+  return (
+    <DialogPrompt
+      title="Raise budget"
+      placeholder="Amount in USD to add to each limit"
+      description={() => (
+        <box>
+          <For each={usage()} fallback={<text fg={theme.textMuted}>No budget limits are configured</text>}>
+            {(item) => (
+              <text fg={item.spent >= item.limit ? theme.error : theme.textMuted}>
+                {SCOPE[item.scope]}: ${item.spent.toFixed(2)} of ${item.limit.toFixed(2)}
+              </text>
+            )}
+          </For>
+        </box>
+      )}
+      onConfirm={async (value) => {
+        const amount = Number.parseFloat(value.replace("$", ""))
+        if (!Number.isFinite(amount) || amount <= 0) {
+          toast.show({ variant: "warning", message: "Enter an amount greater than zero", duration: 3000 })
+          return
+        }
+        await sdk.client.session.budget.raise({ sessionID: props.session, amount })
+        toast.show({ variant: "success", message: `Raised the budget by $${amount.toFixed(2)} for this session` })
+        dialog.clear()
+      }}
+      onCancel={() => dialog.clear()}
+    />
+  )
+}
@@ -0,0 +1,103 @@
+import { createMemo, createResource, createSignal, onMount } from "solid-js"
+import { DialogSelect } from "@tui/ui/dialog-select"
+import { DialogPrompt } from "@tui/ui/dialog-prompt"
+import { useDialog } from "@tui/ui/dialog"
+import { useSDK } from "@tui/context/sdk"
+import { useTheme } from "../context/theme"
+import { Keybind } from "@/util/keybind"
+import { Locale } from "@/util/locale"
+
+export function DialogPermissionRule() {
+  const sdk = useSDK()
+  const dialog = useDialog()
+  const { theme } = useTheme()
+
+  const [toRevoke, setToRevoke] = createSignal<string>()
+  const revokeKeybind = "ctrl+d"
+
+  const [rules, { refetch }] = createResource(async () => {
+    const result = await sdk.client.permission.rule.list()
+    return result.data ?? []
+  })
+
+  onMount(() => {
+    dialog.setSize("large")
+  })
+
+  const options = createMemo(() =>
+    (rules() ?? []).map((rule) => {
+      const revoking = toRevoke() === rule.id
+      return {
+        title: revoking ? `Press ${revokeKeybind} again to revoke` : rule.pattern,
+        bg: revoking ? theme.error : undefined,
+        value: rule.id,
+        description: rule.type,
+        category: rule.scope === "global" ? "Global" : "Project",
+        footer: Locale.todayTimeOrDateTime(rule.time.updated),
+      }
+    }),
+  )
+
+  function edit(ruleID: string) {
+    const rule = rules()?.find((x) => x.id === ruleID)
+    if (!rule) return
+    dialog.replace(() => (
+      <DialogPrompt
+        title={`Edit ${rule.type} rule`}
+        value={rule.pattern}
+        onConfirm={async (value) => {
+          if (value.trim() && value.trim() !== rule.pattern) {
+            await sdk.client.permission.rule.update({
+              ruleID: rule.id,
+              pattern: value.trim(),
+            })
+          }
+          dialog.replace(() => <DialogPermissionRule />)
+        }}
+        onCancel={() => dialog.replace(() => <DialogPermissionRule />)}
+      />
+    ))
+  }
+
+  return (
+    <DialogSelect
+      title="Permission rules"
+      placeholder="Search saved rules"
+      options={options()}
+      onMove={() => {
+        setToRevoke(undefined)
+      }}
+      onSelect={(option) => edit(option.value)}
+      keybind={[
+        {
+          keybind: Keybind.parse(revokeKeybind)[0],
+          title: "revoke",
+          onTrigger: async (option) => {
+            if (toRevoke() === option.value) {
+              await sdk.client.permission.rule.remove({
+                ruleID: option.value,
+              })
+              setToRevoke(undefined)
+              refetch()
+              return
+            }
+            setToRevoke(option.value)
+          },
+        },
+        {
+          keybind: Keybind.parse("ctrl+s")[0],
+          title: "toggle scope",
+          onTrigger: async (option) => {
+            const rule = rules()?.find((x) => x.id === option.value)
+            if (!rule) return
+            await sdk.client.permission.rule.update({
+              ruleID: rule.id,
+              scope: rule.scope === "global" ? "project" : "global",
+            })
+            refetch()
+          },
+        },
+      ]}
+    />
+  )
+}
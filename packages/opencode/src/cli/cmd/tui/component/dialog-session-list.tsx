@@ -2,7 +2,8 @@ import { useDialog } from "@tui/ui/dialog"
 import { DialogSelect } from "@tui/ui/dialog-select"
 import { useRoute } from "@tui/context/route"
 import { useSync } from "@tui/context/sync"
-import { createEffect, createMemo, createSignal, onMount } from "solid-js"
+import { createEffect, createMemo, createResource, createSignal, onCleanup, onMount } from "solid-js"
+import * as fuzzysort from "fuzzysort"
 import { Locale } from "@/util/locale"
 import { Keybind } from "@/util/keybind"
 import { useTheme } from "../context/theme"
@@ -18,6 +19,21 @@ export function DialogSessionList() {
   const sdk = useSDK()
 
   const [toDelete, setToDelete] = createSignal<string>()
+  const [filter, setFilter] = createSignal("")
+  const [query, setQuery] = createSignal("")
+
+  // full-text search hits the server, so wait until typing settles
+  let timer: ReturnType<typeof setTimeout> | undefined
+  onCleanup(() => clearTimeout(timer))
+
+  // search only this project, hits from other projects would use up the limit
+  const projectID = sdk.client.project.current().then((result) => result.data?.id)
+
+  const [found] = createResource(query, async (query) => {
+    if (query.trim().length < 3) return []
+    const result = await sdk.client.session.search({ query, limit: 30, projectID: await projectID })
+    return result.data ?? []
+  })
 
   const deleteKeybind = "ctrl+d"
 
@@ -25,7 +41,7 @@ export function DialogSessionList() {
 
   const spinnerFrames = ["⠋", "⠙", "⠹", "⠸", "⠼", "⠴", "⠦", "⠧", "⠇", "⠏"]
 
-  const options = createMemo(() => {
+  const sessions = createMemo(() => {
     const today = new Date().toDateString()
     return sync.data.session
       .filter((x) => x.parentID === undefined)
@@ -48,7 +64,20 @@ export function DialogSessionList() {
           gutter: isWorking ? <spinner frames={spinnerFrames} interval={80} color={theme.primary} /> : undefined,
         }
       })
-      .slice(0, 150)
+  })
+
+  const options = createMemo(() => {
+    const needle = filter().trim()
+    if (!needle) return sessions().slice(0, 150)
+    const matched = fuzzysort.go(needle, sessions(), { keys: ["title"] }).map((x) => x.obj)
+    const seen = new Set(matched.map((x) => x.value))
+    const content = (found() ?? []).flatMap((x) => {
+      if (seen.has(x.session.id)) return []
+      const item = sessions().find((item) => item.value === x.session.id)
+      if (!item) return []
+      return [{ ...item, description: x.snippet ?? x.files.join(", "), category: "Found in messages" }]
+    })
+    return [...matched.slice(0, 150), ...content]
   })
 
   createEffect(() => {
@@ -64,6 +93,12 @@ export function DialogSessionList() {
       title="Sessions"
       options={options()}
       current={currentSessionID()}
+      skipFilter
+      onFilter={(value) => {
+        setFilter(value)
+        clearTimeout(timer)
+        timer = setTimeout(() => setQuery(value), 250)
+      }}
       onMove={() => {
         setToDelete(undefined)
       }}
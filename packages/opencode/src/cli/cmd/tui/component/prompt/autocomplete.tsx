@@ -8,6 +8,8 @@ import { useSync } from "@tui/context/sync"
 import { useTheme, selectedForeground } from "@tui/context/theme"
 import { SplitBorder } from "@tui/component/border"
 import { useCommandDialog } from "@tui/component/dialog-command"
+import { useDialog } from "@tui/ui/dialog"
+import { DialogPrompt } from "@tui/ui/dialog-prompt"
 import { useTerminalDimensions } from "@opentui/solid"
 import { Locale } from "@/util/locale"
 import type { PromptInfo } from "./history"
@@ -41,6 +43,7 @@ export function Autocomplete(props: {
   const sdk = useSDK()
   const sync = useSync()
   const command = useCommandDialog()
+  const dialog = useDialog()
   const { theme } = useTheme()
   const dimensions = useTerminalDimensions()
 
@@ -185,6 +188,44 @@ export function Autocomplete(props: {
     },
   )
 
+  const [resources] = createResource(
+    () => store.visible === "@",
+    async () => {
+      const result = await sdk.client.mcp.resource.list()
+      return result.data ?? []
+    },
+    {
+      initialValue: [],
+    },
+  )
+
+  const mcpResources = createMemo(() =>
+    resources().map(
+      (resource): AutocompleteOption => ({
+        display: resource.client + ":" + resource.name,
+        description: resource.description,
+        onSelect: () => {
+          insertPart(resource.client + ":" + resource.name, {
+            type: "file",
+            mime: resource.mimeType ?? "text/plain",
+            filename: resource.name,
+            url: resource.uri,
+            source: {
+              type: "resource",
+              text: {
+                start: 0,
+                end: 0,
+                value: "",
+              },
+              clientName: resource.client,
+              uri: resource.uri,
+            },
+          })
+        },
+      }),
+    ),
+  )
+
   const agents = createMemo(() => {
     const agents = sync.data.agent
     return agents
@@ -212,15 +253,29 @@ export function Autocomplete(props: {
     const results: AutocompleteOption[] = []
     const s = session()
     for (const command of sync.data.command) {
+      const insert = (newText: string) => {
+        const cursor = props.input().logicalCursor
+        props.input().deleteRange(0, 0, cursor.row, cursor.col)
+        props.input().insertText(newText)
+        props.input().cursorOffset = Bun.stringWidth(newText)
+      }
       results.push({
         display: "/" + command.name,
-        description: command.description,
-        onSelect: () => {
-          const newText = "/" + command.name + " "
-          const cursor = props.input().logicalCursor
-          props.input().deleteRange(0, 0, cursor.row, cursor.col)
-          props.input().insertText(newText)
-          props.input().cursorOffset = Bun.stringWidth(newText)
+        description: command.mcp ? [command.description, "(MCP)"].filter(Boolean).join(" ") : command.description,
+        onSelect: async () => {
+          if (!command.arguments?.length) return insert("/" + command.name + " ")
+          // MCP prompts declare their arguments, ask for each one in order
+          const values: string[] = []
+          for (const argument of command.arguments) {
+            const value = await DialogPrompt.show(dialog, argument.name, {
+              description: argument.description ? () => <text>{argument.description}</text> : undefined,
+              placeholder: argument.required ? "Required" : "Optional, leave empty to skip",
+            })
+            if (value === null) return dialog.clear()
+            values.push(!value || /\s/.test(value) ? `"${value}"` : value)
+          }
+          dialog.clear()
+          insert(["/" + command.name, ...values].join(" "))
         },
       })
     }
@@ -244,6 +299,11 @@ export function Autocomplete(props: {
           description: "compact the session",
           onSelect: () => command.trigger("session.compact"),
         },
+        {
+          display: "/budget",
+          description: "raise the budget for this session",
+          onSelect: () => command.trigger("session.budget"),
+        },
         {
           display: "/unshare",
           disabled: !s.share,
@@ -275,13 +335,24 @@ export function Autocomplete(props: {
           description: "fork from message",
           onSelect: () => command.trigger("session.fork"),
         },
+        {
+          display: "/checkpoint",
+          description: "save files and conversation under a name",
+          onSelect: () => command.trigger("session.checkpoint"),
+        },
+        {
+          display: "/checkpoints",
+          description: "restore or compare checkpoints",
+          onSelect: () => command.trigger("session.checkpoint.list"),
+        },
         {
           display: "/thinking",
           description: "toggle thinking visibility",
           onSelect: () => command.trigger("session.toggle.thinking"),
         },
       )
-      if (sync.data.config.share !== "disabled") {
+      const share = sync.data.config.share
+      if ((typeof share === "object" ? share.mode : share) !== "disabled") {
         results.push({
           display: "/share",
           disabled: !!s.share?.url,
@@ -298,6 +369,11 @@ export function Autocomplete(props: {
         description: "create a new session",
         onSelect: () => command.trigger("session.new"),
       },
+      {
+        display: "/worktree",
+        description: "new session in its own git worktree",
+        onSelect: () => command.trigger("session.new.worktree"),
+      },
       {
         display: "/models",
         description: "list models",
@@ -366,7 +442,7 @@ export function Autocomplete(props: {
 
   const options = createMemo(() => {
     const mixed: AutocompleteOption[] = (
-      store.visible === "@" ? [...agents(), ...(files() || [])] : [...commands()]
+      store.visible === "@" ? [...agents(), ...(files() || []), ...mcpResources()] : [...commands()]
     ).filter((x) => x.disabled !== true)
     const currentFilter = filter()
     if (!currentFilter) return mixed
@@ -1,5 +1,16 @@
 import { BoxRenderable, TextareaRenderable, MouseEvent, PasteEvent, t, dim, fg, type KeyBinding } from "@opentui/core"
-import { createEffect, createMemo, type JSX, onMount, createSignal, onCleanup, Show, Switch, Match } from "solid-js"
+import {
+  createEffect,
+  createMemo,
+  type JSX,
+  onMount,
+  createSignal,
+  onCleanup,
+  For,
+  Show,
+  Switch,
+  Match,
+} from "solid-js"
 import "opentui-spinner/solid"
 import { useLocal } from "@tui/context/local"
 import { useTheme } from "@tui/context/theme"
@@ -27,6 +38,7 @@ import { useDialog } from "@tui/ui/dialog"
 import { DialogProvider as DialogProviderConnect } from "../dialog-provider"
 import { DialogAlert } from "../../ui/dialog-alert"
 import { useToast } from "../../ui/toast"
+import { Token } from "@/util/token"
 
 export type PromptProps = {
   sessionID?: string
@@ -117,6 +129,7 @@ export function Prompt(props: PromptProps) {
   const dialog = useDialog()
   const toast = useToast()
   const status = createMemo(() => sync.data.session_status?.[props.sessionID ?? ""] ?? { type: "idle" })
+  const queue = createMemo(() => sync.data.queue[props.sessionID ?? ""] ?? [])
   const history = usePromptHistory()
   const command = useCommandDialog()
   const renderer = useRenderer()
@@ -509,6 +522,17 @@ export function Prompt(props: PromptProps) {
         command: inputText,
       })
       setStore("mode", "normal")
+    } else if (inputText.startsWith("/checkpoint ") && inputText.slice("/checkpoint ".length).trim()) {
+      const name = inputText.slice("/checkpoint ".length).trim()
+      sdk.client.session.checkpoint
+        .create({ sessionID, name })
+        .then((result) =>
+          toast.show(
+            result.error
+              ? { variant: "error", message: `Failed to create checkpoint ${name}` }
+              : { variant: "success", message: `Created checkpoint ${name}` },
+          ),
+        )
     } else if (
       inputText.startsWith("/") &&
       iife(() => {
@@ -647,6 +671,21 @@ export function Prompt(props: PromptProps) {
     return
   }
 
+  // what the agent and attachments need that the selected model can't do natively
+  const unsupported = createMemo(() => {
+    const value = local.model.current()
+    if (!value) return []
+    const info = sync.data.provider.find((x) => x.id === value.providerID)?.models[value.modelID]
+    if (!info) return []
+    const result: string[] = []
+    const tools = Object.values(local.agent.current().tools)
+    if (!info.capabilities.toolcall && (tools.length === 0 || tools.some(Boolean))) result.push("tools via text")
+    const files = store.prompt.parts.flatMap((part) => (part.type === "file" ? [part.mime] : []))
+    if (!info.capabilities.input.image && files.some((mime) => mime.startsWith("image/"))) result.push("images as text")
+    if (!info.capabilities.input.pdf && files.includes("application/pdf")) result.push("PDFs as text")
+    return result
+  })
+
   const highlight = createMemo(() => {
     if (keybind.leader) return theme.border
     if (store.mode === "shell") return theme.primary
@@ -695,6 +734,21 @@ export function Prompt(props: PromptProps) {
         agentStyleId={agentStyleId}
         promptPartTypeId={() => promptPartTypeId}
       />
+      <Show when={queue().length > 0}>
+        <box paddingLeft={3} paddingBottom={1}>
+          <For each={queue()}>
+            {(item) => (
+              <text fg={theme.textMuted} wrapMode="none">
+                <span style={{ fg: theme.warning }}>queued</span>{" "}
+                {item.parts
+                  .flatMap((x) => (x.type === "text" ? [x.text] : []))
+                  .join(" ")
+                  .replace(/\s+/g, " ")}
+              </text>
+            )}
+          </For>
+        </box>
+      </Show>
       <box ref={(r) => (anchor = r)}>
         <box
           border={["left"]}
@@ -844,7 +898,8 @@ export function Prompt(props: PromptProps) {
                   !sync.data.config.experimental?.disable_paste_summary
                 ) {
                   event.preventDefault()
-                  pasteText(pastedContent, `[Pasted ~${lineCount} lines]`)
+                  const tokens = Token.estimate(pastedContent, local.model.current()?.modelID)
+                  pasteText(pastedContent, `[Pasted ~${lineCount} lines, ~${Locale.number(tokens)} tokens]`)
                   return
                 }
               }}
@@ -869,6 +924,9 @@ export function Prompt(props: PromptProps) {
                     {local.model.parsed().model}
                   </text>
                   <text fg={theme.textMuted}>{local.model.parsed().provider}</text>
+                  <Show when={unsupported().length > 0}>
+                    <text fg={theme.warning}>⚠ {unsupported().join(", ")}</text>
+                  </Show>
                 </box>
               </Show>
             </box>
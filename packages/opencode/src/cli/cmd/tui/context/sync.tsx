@@ -15,6 +15,10 @@ import type {
   ProviderListResponse,
   ProviderAuthMethod,
   VcsInfo,
+  QueuedPrompt,
+  Subagent,
+  Review,
+  SessionVerify,
 } from "@opencode-ai/sdk/v2"
 import { createStore, produce, reconcile } from "solid-js/store"
 import { useSDK } from "@tui/context/sdk"
@@ -40,6 +44,9 @@ export const { use: useSync, provider: SyncProvider } = createSimpleContext({
       permission: {
         [sessionID: string]: Permission[]
       }
+      review: {
+        [sessionID: string]: Review[]
+      }
       config: Config
       session: Session[]
       session_status: {
@@ -51,6 +58,15 @@ export const { use: useSync, provider: SyncProvider } = createSimpleContext({
       todo: {
         [sessionID: string]: Todo[]
       }
+      queue: {
+        [sessionID: string]: QueuedPrompt[]
+      }
+      subagent: {
+        [parentID: string]: Subagent[]
+      }
+      verify: {
+        [sessionID: string]: SessionVerify
+      }
       message: {
         [sessionID: string]: Message[]
       }
@@ -75,6 +91,7 @@ export const { use: useSync, provider: SyncProvider } = createSimpleContext({
       status: "loading",
       agent: [],
       permission: {},
+      review: {},
       command: [],
       provider: [],
       provider_default: {},
@@ -82,6 +99,9 @@ export const { use: useSync, provider: SyncProvider } = createSimpleContext({
       session_status: {},
       session_diff: {},
       todo: {},
+      queue: {},
+      subagent: {},
+      verify: {},
       message: {},
       part: {},
       lsp: [],
@@ -131,10 +151,106 @@ export const { use: useSync, provider: SyncProvider } = createSimpleContext({
           break
         }
 
+        case "review.updated": {
+          const reviews = store.review[event.properties.sessionID]
+          if (!reviews) {
+            setStore("review", event.properties.sessionID, [event.properties])
+            break
+          }
+          const match = Binary.search(reviews, event.properties.id, (r) => r.id)
+          setStore(
+            "review",
+            event.properties.sessionID,
+            produce((draft) => {
+              if (match.found) {
+                draft[match.index] = event.properties
+                return
+              }
+              draft.splice(match.index, 0, event.properties)
+            }),
+          )
+          break
+        }
+
+        case "review.replied": {
+          const reviews = store.review[event.properties.sessionID]
+          if (!reviews) break
+          const match = Binary.search(reviews, event.properties.reviewID, (r) => r.id)
+          if (!match.found) break
+          setStore(
+            "review",
+            event.properties.sessionID,
+            produce((draft) => {
+              draft.splice(match.index, 1)
+            }),
+          )
+          break
+        }
+
         case "todo.updated":
           setStore("todo", event.properties.sessionID, event.properties.todos)
           break
 
+        case "session.prompt.queued": {
+          const info = event.properties.info
+          const queue = store.queue[info.sessionID]
+          if (!queue) {
+            setStore("queue", info.sessionID, [info])
+            break
+          }
+          const match = Binary.search(queue, info.id, (q) => q.id)
+          setStore(
+            "queue",
+            info.sessionID,
+            produce((draft) => {
+              if (match.found) {
+                draft[match.index] = info
+                return
+              }
+              draft.splice(match.index, 0, info)
+            }),
+          )
+          break
+        }
+
+        case "session.prompt.dequeued": {
+          const queue = store.queue[event.properties.sessionID]
+          if (!queue) break
+          const match = Binary.search(queue, event.properties.id, (q) => q.id)
+          if (!match.found) break
+          setStore(
+            "queue",
+            event.properties.sessionID,
+            produce((draft) => {
+              draft.splice(match.index, 1)
+            }),
+          )
+          break
+        }
+
+        case "session.subagent.updated": {
+          const info = event.properties.info
+          const list = store.subagent[info.parentID]
+          if (!list) {
+            setStore("subagent", info.parentID, [info])
+            break
+          }
+          const index = list.findIndex((x) => x.sessionID === info.sessionID)
+          setStore(
+            "subagent",
+            info.parentID,
+            produce((draft) => {
+              if (index === -1) draft.push(info)
+              else draft[index] = info
+            }),
+          )
+          break
+        }
+
+        case "session.verify.updated":
+          setStore("verify", event.properties.info.sessionID, reconcile(event.properties.info))
+          break
+
         case "session.diff":
           setStore("session_diff", event.properties.sessionID, event.properties.diff)
           break
@@ -336,11 +452,15 @@ export const { use: useSync, provider: SyncProvider } = createSimpleContext({
         },
         async sync(sessionID: string) {
           if (fullSyncedSessions.has(sessionID)) return
-          const [session, messages, todo, diff] = await Promise.all([
+          const [session, messages, todo, diff, queue, subagent, review, verify] = await Promise.all([
             sdk.client.session.get({ sessionID }, { throwOnError: true }),
             sdk.client.session.messages({ sessionID, limit: 100 }),
             sdk.client.session.todo({ sessionID }),
             sdk.client.session.diff({ sessionID }),
+            sdk.client.session.queue.list({ sessionID }),
+            sdk.client.session.subagent.list({ sessionID }),
+            sdk.client.session.review.list({ sessionID }),
+            sdk.client.session.verify.get({ sessionID }),
           ])
           setStore(
             produce((draft) => {
@@ -353,6 +473,10 @@ export const { use: useSync, provider: SyncProvider } = createSimpleContext({
                 draft.part[message.info.id] = message.parts
               }
               draft.session_diff[sessionID] = diff.data ?? []
+              draft.queue[sessionID] = queue.data ?? []
+              draft.subagent[sessionID] = subagent.data ?? []
+              draft.review[sessionID] = review.data ?? []
+              if (verify.data) draft.verify[sessionID] = verify.data
             }),
           )
           fullSyncedSessions.add(sessionID)
@@ -0,0 +1,211 @@
+import path from "path"
+import { createMemo, createResource, For, onMount, Show } from "solid-js"
+import { TextAttributes } from "@opentui/core"
+import { useTerminalDimensions } from "@opentui/solid"
+import { createTwoFilesPatch } from "diff"
+import type { Checkpoint } from "@opencode-ai/sdk/v2"
+import { DialogSelect, type DialogSelectOption } from "@tui/ui/dialog-select"
+import { DialogPrompt } from "@tui/ui/dialog-prompt"
+import { DialogConfirm } from "@tui/ui/dialog-confirm"
+import { useDialog } from "@tui/ui/dialog"
+import { useSDK } from "@tui/context/sdk"
+import { useRoute } from "@tui/context/route"
+import { useTheme } from "@tui/context/theme"
+import { useToast } from "../../ui/toast"
+import { Keybind } from "@/util/keybind"
+import { Locale } from "@/util/locale"
+import { LANGUAGE_EXTENSIONS } from "@/lsp/language"
+
+export function DialogCheckpointCreate(props: { sessionID: string }) {
+  const dialog = useDialog()
+  const sdk = useSDK()
+  const toast = useToast()
+
+  return (
+    <DialogPrompt
+      title="Create checkpoint"
+      placeholder="Name"
+      onConfirm={async (value) => {
+        const name = value.trim()
+        if (!name) return
+        const result = await sdk.client.session.checkpoint.create({ sessionID: props.sessionID, name })
+        if (result.error) toast.show({ variant: "error", message: `Failed to create checkpoint ${name}` })
+        else toast.show({ variant: "success", message: `Created checkpoint ${name}` })
+        dialog.clear()
+      }}
+      onCancel={() => dialog.clear()}
+    />
+  )
+}
+
+export function DialogCheckpointList(props: { sessionID: string }) {
+  const dialog = useDialog()
+  const sdk = useSDK()
+  const route = useRoute()
+  const toast = useToast()
+
+  const [checkpoints, { refetch }] = createResource(async () => {
+    const result = await sdk.client.session.checkpoint.list({ sessionID: props.sessionID })
+    return result.data ?? []
+  })
+
+  const options = createMemo((): DialogSelectOption<string>[] =>
+    (checkpoints() ?? [])
+      .map((item) => ({
+        title: item.name,
+        value: item.id,
+        footer: Locale.time(item.time.created),
+      }))
+      .reverse(),
+  )
+
+  async function restore(item: Checkpoint) {
+    const confirmed = await DialogConfirm.show(
+      dialog,
+      "Restore checkpoint",
+      `Continue in a new session from ${item.name} and bring the files back to how they were?`,
+    )
+    if (!confirmed) return
+    const result = await sdk.client.session.checkpoint.restore({ sessionID: props.sessionID, checkpointID: item.id })
+    if (!result.data) {
+      toast.show({ variant: "error", message: `Failed to restore checkpoint ${item.name}` })
+      return
+    }
+    route.navigate({ type: "session", sessionID: result.data.id })
+    dialog.clear()
+  }
+
+  const find = (id: string) => checkpoints()?.find((x) => x.id === id)
+
+  return (
+    <DialogSelect
+      title="Checkpoints"
+      placeholder="Search checkpoints"
+      options={options()}
+      keybind={[
+        {
+          keybind: Keybind.parse("ctrl+f")[0],
+          title: "compare",
+          onTrigger: (option) => {
+            const item = find(option.value)
+            if (item) dialog.replace(() => <DialogCheckpointCompare sessionID={props.sessionID} from={item} />)
+          },
+        },
+        {
+          keybind: Keybind.parse("ctrl+d")[0],
+          title: "delete",
+          onTrigger: async (option) => {
+            await sdk.client.session.checkpoint.remove({ sessionID: props.sessionID, checkpointID: option.value })
+            refetch()
+          },
+        },
+      ]}
+      onSelect={(option) => {
+        const item = find(option.value)
+        if (item) restore(item)
+      }}
+    />
+  )
+}
+
+function DialogCheckpointCompare(props: { sessionID: string; from: Checkpoint }) {
+  const dialog = useDialog()
+  const sdk = useSDK()
+
+  const [checkpoints] = createResource(async () => {
+    const result = await sdk.client.session.checkpoint.list({ sessionID: props.sessionID })
+    return result.data ?? []
+  })
+
+  const options = createMemo((): DialogSelectOption<string>[] => [
+    {
+      title: "Current files",
+      value: "current",
+    },
+    ...(checkpoints() ?? [])
+      .filter((x) => x.id !== props.from.id)
+      .map((item) => ({
+        title: item.name,
+        value: item.id,
+        footer: Locale.time(item.time.created),
+      }))
+      .reverse(),
+  ])
+
+  return (
+    <DialogSelect
+      title={`Compare ${props.from.name} with`}
+      options={options()}
+      onSelect={(option) => {
+        const to = checkpoints()?.find((x) => x.id === option.value)
+        dialog.replace(() => <DialogCheckpointDiff sessionID={props.sessionID} from={props.from} to={to} />)
+      }}
+    />
+  )
+}
+
+function DialogCheckpointDiff(props: { sessionID: string; from: Checkpoint; to?: Checkpoint }) {
+  const dialog = useDialog()
+  const sdk = useSDK()
+  const dimensions = useTerminalDimensions()
+  const { theme, syntax } = useTheme()
+
+  onMount(() => {
+    dialog.setSize("large")
+  })
+
+  const [diffs] = createResource(async () => {
+    const result = await sdk.client.session.checkpoint.diff({
+      sessionID: props.sessionID,
+      checkpointID: props.from.id,
+      to: props.to?.id,
+    })
+    return result.data ?? []
+  })
+
+  return (
+    <box paddingLeft={2} paddingRight={2} gap={1}>
+      <box flexDirection="row" justifyContent="space-between">
+        <text attributes={TextAttributes.BOLD} fg={theme.text}>
+          {props.from.name} → {props.to?.name ?? "current files"}
+        </text>
+        <text fg={theme.textMuted}>esc</text>
+      </box>
+      <scrollbox maxHeight={Math.floor(dimensions().height * 0.7)} paddingBottom={1}>
+        <Show
+          when={diffs()?.length}
+          fallback={<text fg={theme.textMuted}>{diffs.loading ? "Loading" : "No changes"}</text>}
+        >
+          <For each={diffs()}>
+            {(item) => (
+              <box paddingBottom={1}>
+                <text fg={theme.text}>
+                  {item.file} <span style={{ fg: theme.diffAdded }}>+{item.additions}</span>{" "}
+                  <span style={{ fg: theme.diffRemoved }}>-{item.deletions}</span>
+                </text>
+                <diff
+                  diff={createTwoFilesPatch(item.file, item.file, item.before, item.after)}
+                  view="unified"
+                  filetype={LANGUAGE_EXTENSIONS[path.extname(item.file)] ?? "none"}
+                  syntaxStyle={syntax()}
+                  showLineNumbers={true}
+                  width="100%"
+                  fg={theme.text}
+                  addedBg={theme.diffAddedBg}
+                  removedBg={theme.diffRemovedBg}
+                  contextBg={theme.diffContextBg}
+                  addedSignColor={theme.diffHighlightAdded}
+                  removedSignColor={theme.diffHighlightRemoved}
+                  lineNumberFg={theme.diffLineNumber}
+                  lineNumberBg={theme.diffContextBg}
+                  addedLineNumberBg={theme.diffAddedLineNumberBg}
+                  removedLineNumberBg={theme.diffRemovedLineNumberBg}
+                />
+              </box>
+            )}
+          </For>
+        </Show>
+      </scrollbox>
+    </box>
+  )
+}
@@ -0,0 +1,176 @@
+import { createMemo, createResource, onMount } from "solid-js"
+import type { Compaction, CompactionSummary } from "@opencode-ai/sdk/v2"
+import { DialogSelect, type DialogSelectOption } from "@tui/ui/dialog-select"
+import { DialogPrompt } from "@tui/ui/dialog-prompt"
+import { DialogConfirm } from "@tui/ui/dialog-confirm"
+import { useDialog } from "@tui/ui/dialog"
+import { useSDK } from "@tui/context/sdk"
+import { useToast } from "../../ui/toast"
+import { Keybind } from "@/util/keybind"
+
+type Section = "goals" | "decisions" | "files" | "next"
+
+const SECTIONS: [Section, string, string][] = [
+  ["goals", "Goals", "goal"],
+  ["decisions", "Decisions", "decision"],
+  ["files", "Files", "file"],
+  ["next", "Next steps", "next step"],
+]
+
+type Value =
+  | { type: "item"; section: Section; index: number }
+  | { type: "add"; section: Section }
+  | { type: "todo" }
+  | { type: "notes" }
+  | { type: "commit" }
+  | { type: "undo" }
+
+export function DialogCompaction(props: { sessionID: string; messageID?: string }) {
+  const sdk = useSDK()
+  const dialog = useDialog()
+  const toast = useToast()
+
+  onMount(() => {
+    dialog.setSize("large")
+  })
+
+  const [compaction, { refetch }] = createResource(async () => {
+    const result = await sdk.client.session.compaction.list({ sessionID: props.sessionID })
+    const list = (result.data ?? []).filter((x) => x.status !== "pending")
+    if (props.messageID) return list.find((x) => x.messageID === props.messageID)
+    return list.at(-1)
+  })
+
+  const reopen = () =>
+    dialog.replace(() => <DialogCompaction sessionID={props.sessionID} messageID={props.messageID} />)
+
+  async function save(current: Compaction, summary: Partial<CompactionSummary>) {
+    await sdk.client.session.compaction.update({
+      sessionID: props.sessionID,
+      messageID: current.messageID,
+      ...summary,
+    })
+  }
+
+  function edit(current: Compaction, section: Section, index?: number) {
+    const summary = current.summary!
+    const items = summary[section]
+    const label = SECTIONS.find((x) => x[0] === section)![2]
+    dialog.replace(() => (
+      <DialogPrompt
+        title={index === undefined ? `Add ${label}` : `Edit ${label}`}
+        description={() => (index === undefined ? undefined : <text>Leave empty to remove it</text>)}
+        value={index === undefined ? "" : items[index]}
+        onConfirm={async (value) => {
+          const next = [...items]
+          const text = value.trim()
+          if (index === undefined && text) next.push(text)
+          if (index !== undefined && text) next[index] = text
+          if (index !== undefined && !text) next.splice(index, 1)
+          await save(current, { [section]: next })
+          reopen()
+        }}
+        onCancel={reopen}
+      />
+    ))
+  }
+
+  const options = createMemo((): DialogSelectOption<Value>[] => {
+    const current = compaction()
+    if (!current?.summary) return []
+    const summary = current.summary
+    const result: DialogSelectOption<Value>[] = []
+    if (current.status === "draft") {
+      result.push({
+        title: "Commit summary",
+        description: "replace the earlier context with this summary",
+        value: { type: "commit" },
+        category: "Review",
+      })
+    }
+    result.push({
+      title: current.status === "draft" ? "Discard draft" : "Undo compaction",
+      description: "restore the context from before this compaction",
+      value: { type: "undo" },
+      category: "Review",
+    })
+    for (const [section, title, label] of SECTIONS) {
+      summary[section].forEach((item, index) => {
+        result.push({ title: item, value: { type: "item", section, index }, category: title })
+      })
+      result.push({ title: `+ Add ${label}`, value: { type: "add", section }, category: title })
+    }
+    for (const todo of summary.todos) {
+      result.push({ title: todo.content, description: todo.status, value: { type: "todo" }, category: "Open todos" })
+    }
+    result.push({
+      title: summary.notes ? summary.notes.replace(/\n+/g, " ") : "+ Add notes",
+      value: { type: "notes" },
+      category: "Notes",
+    })
+    return result
+  })
+
+  return (
+    <DialogSelect
+      title={compaction()?.status === "draft" ? "Review compaction" : "Compaction summary"}
+      placeholder="Search summary"
+      options={options()}
+      keybind={[
+        {
+          keybind: Keybind.parse("ctrl+d")[0],
+          title: "remove",
+          onTrigger: async (option) => {
+            const current = compaction()
+            if (!current?.summary || option.value.type !== "item") return
+            const { section, index } = option.value
+            await save(current, { [section]: current.summary[section].filter((_, i) => i !== index) })
+            refetch()
+          },
+        },
+      ]}
+      onSelect={async (option) => {
+        const current = compaction()
+        if (!current?.summary) return
+        const value = option.value
+        if (value.type === "item") return edit(current, value.section, value.index)
+        if (value.type === "add") return edit(current, value.section)
+        if (value.type === "notes") {
+          dialog.replace(() => (
+            <DialogPrompt
+              title="Edit notes"
+              value={current.summary!.notes}
+              onConfirm={async (notes) => {
+                await save(current, { notes: notes.trim() })
+                reopen()
+              }}
+              onCancel={reopen}
+            />
+          ))
+          return
+        }
+        if (value.type === "commit") {
+          await sdk.client.session.compaction.commit({ sessionID: props.sessionID, messageID: current.messageID })
+          toast.show({ variant: "success", message: "Compaction committed" })
+          dialog.clear()
+          return
+        }
+        if (value.type === "undo") {
+          const confirmed = await DialogConfirm.show(
+            dialog,
+            current.status === "draft" ? "Discard draft" : "Undo compaction",
+            "The summary is removed and the earlier context is used again.",
+          )
+          if (!confirmed) return reopen()
+          await sdk.client.session.compaction
+            .undo({ sessionID: props.sessionID, messageID: current.messageID }, { throwOnError: true })
+            .then(() => toast.show({ variant: "success", message: "Compaction undone" }))
+            .catch(() =>
+              toast.show({ variant: "error", message: "Failed to undo compaction while the session is busy" }),
+            )
+          dialog.clear()
+        }
+      }}
+    />
+  )
+}
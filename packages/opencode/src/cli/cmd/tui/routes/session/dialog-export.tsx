@@ -0,0 +1,23 @@
+import { DialogSelect } from "@tui/ui/dialog-select"
+import type { SessionExport } from "@/session/export"
+
+const FORMATS: { format: SessionExport.Format; title: string; description: string }[] = [
+  { format: "markdown", title: "Markdown", description: "readable transcript with tool calls and diffs" },
+  { format: "html", title: "HTML", description: "standalone page for sharing" },
+  { format: "jsonl", title: "JSONL", description: "one message per line" },
+  { format: "json", title: "JSON", description: "raw session data" },
+]
+
+export function DialogExport(props: { onSelect: (format: SessionExport.Format) => void }) {
+  return (
+    <DialogSelect
+      title="Export format"
+      options={FORMATS.map((item) => ({
+        title: item.title,
+        description: item.description,
+        value: item.format,
+      }))}
+      onSelect={(option) => props.onSelect(option.value)}
+    />
+  )
+}
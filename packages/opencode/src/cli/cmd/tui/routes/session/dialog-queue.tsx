@@ -0,0 +1,72 @@
+import { createMemo } from "solid-js"
+import type { QueuedPrompt } from "@opencode-ai/sdk/v2"
+import { DialogSelect } from "@tui/ui/dialog-select"
+import { DialogPrompt } from "@tui/ui/dialog-prompt"
+import { useDialog } from "@tui/ui/dialog"
+import { useSDK } from "@tui/context/sdk"
+import { useSync } from "@tui/context/sync"
+import { Keybind } from "@/util/keybind"
+import { Locale } from "@/util/locale"
+
+function text(item: QueuedPrompt) {
+  return item.parts.flatMap((x) => (x.type === "text" ? [x.text] : [])).join("\n")
+}
+
+export function DialogQueue(props: { sessionID: string }) {
+  const sdk = useSDK()
+  const sync = useSync()
+  const dialog = useDialog()
+
+  const queue = createMemo(() => sync.data.queue[props.sessionID] ?? [])
+  const reopen = () => dialog.replace(() => <DialogQueue sessionID={props.sessionID} />)
+
+  function edit(item: QueuedPrompt) {
+    dialog.replace(() => (
+      <DialogPrompt
+        title="Edit queued prompt"
+        description={() => <text>Leave empty to remove it</text>}
+        value={text(item)}
+        onConfirm={async (value) => {
+          if (!value.trim()) {
+            await sdk.client.session.queue.remove({ sessionID: props.sessionID, queueID: item.id })
+            return reopen()
+          }
+          // the first text part holds what was typed, keep attachments as they are
+          let replaced = false
+          const parts = item.parts.flatMap((part) => {
+            if (part.type !== "text" || part.synthetic) return [part]
+            if (replaced) return []
+            replaced = true
+            return [{ ...part, text: value }]
+          })
+          if (!replaced) parts.unshift({ type: "text", text: value })
+          await sdk.client.session.queue.update({ sessionID: props.sessionID, queueID: item.id, parts })
+          reopen()
+        }}
+        onCancel={reopen}
+      />
+    ))
+  }
+
+  return (
+    <DialogSelect
+      title="Queued prompts"
+      placeholder="Search queued prompts"
+      options={queue().map((item) => ({
+        title: text(item).replace(/\s+/g, " ") || "(attachments only)",
+        value: item,
+        footer: Locale.time(item.time.created),
+      }))}
+      keybind={[
+        {
+          keybind: Keybind.parse("ctrl+d")[0],
+          title: "remove",
+          onTrigger: async (option) => {
+            await sdk.client.session.queue.remove({ sessionID: props.sessionID, queueID: option.value.id })
+          },
+        },
+      ]}
+      onSelect={(option) => edit(option.value)}
+    />
+  )
+}
@@ -0,0 +1,179 @@
+import path from "path"
+import { createEffect, createMemo, createSignal, For, on, onMount, Show } from "solid-js"
+import { TextAttributes } from "@opentui/core"
+import { useKeyboard, useTerminalDimensions } from "@opentui/solid"
+import type { ReviewDecision, ReviewHunk } from "@opencode-ai/sdk/v2"
+import { DialogPrompt } from "@tui/ui/dialog-prompt"
+import { useDialog } from "@tui/ui/dialog"
+import { useSDK } from "@tui/context/sdk"
+import { useSync } from "@tui/context/sync"
+import { useTheme } from "@tui/context/theme"
+import { LANGUAGE_EXTENSIONS } from "@/lsp/language"
+
+/** Step through the hunks of the pending edits of a session and accept, reject or comment on each. */
+export function DialogReview(props: { sessionID: string; index?: number }) {
+  const dialog = useDialog()
+  const sdk = useSDK()
+  const sync = useSync()
+  const dimensions = useTerminalDimensions()
+  const { theme, syntax } = useTheme()
+
+  onMount(() => {
+    dialog.setSize("large")
+  })
+
+  const reviews = createMemo(() => sync.data.review[props.sessionID] ?? [])
+  const review = createMemo(() => reviews()[0])
+  const [selected, setSelected] = createSignal(props.index ?? 0)
+  const hunk = createMemo(() => review()?.hunks[selected()])
+
+  createEffect(
+    on(
+      () => review()?.id,
+      (id, previous) => {
+        if (!id) return dialog.clear()
+        if (previous === undefined) return
+        setSelected(
+          Math.max(
+            0,
+            review()!.hunks.findIndex((x) => x.status === "pending"),
+          ),
+        )
+      },
+    ),
+  )
+
+  function respond(hunks: ReviewDecision[]) {
+    const current = review()
+    if (!current) return
+    sdk.client.session.review.respond({ sessionID: props.sessionID, reviewID: current.id, hunks })
+  }
+
+  function decide(status: "accepted" | "rejected") {
+    const current = hunk()
+    if (!current) return
+    respond([{ index: current.index, status }])
+    const hunks = review()!.hunks
+    const next = [...hunks.slice(current.index + 1), ...hunks.slice(0, current.index)].find(
+      (x) => x.status === "pending",
+    )
+    if (next) setSelected(next.index)
+  }
+
+  function decideRest(status: "accepted" | "rejected") {
+    const pending = review()?.hunks.filter((x) => x.status === "pending") ?? []
+    respond(pending.map((x) => ({ index: x.index, status })))
+  }
+
+  async function comment() {
+    const current = hunk()
+    if (!current) return
+    const value = await DialogPrompt.show(dialog, `Comment on hunk ${current.index + 1}`, {
+      placeholder: "Comment for the agent",
+      value: current.comment,
+    })
+    if (value !== null) respond([{ index: current.index, comment: value.trim() }])
+    dialog.replace(() => <DialogReview sessionID={props.sessionID} index={current.index} />)
+  }
+
+  useKeyboard((evt) => {
+    if (evt.ctrl || evt.meta) return
+    const count = review()?.hunks.length ?? 0
+    if (evt.name === "up" || evt.name === "k") setSelected((x) => Math.max(0, x - 1))
+    if (evt.name === "down" || evt.name === "j") setSelected((x) => Math.min(count - 1, x + 1))
+    if (evt.name === "a") evt.shift ? decideRest("accepted") : decide("accepted")
+    if (evt.name === "r") evt.shift ? decideRest("rejected") : decide("rejected")
+    if (evt.name === "c") comment()
+  })
+
+  const patch = (file: string, item: ReviewHunk) =>
+    [
+      `--- ${file}`,
+      `+++ ${file}`,
+      `@@ -${item.oldStart},${item.oldLines} +${item.newStart},${item.newLines} @@`,
+      ...item.lines,
+      "",
+    ].join("\n")
+
+  const mark = (item: ReviewHunk) => {
+    if (item.status === "accepted") return { icon: "✓", fg: theme.success }
+    if (item.status === "rejected") return { icon: "✗", fg: theme.error }
+    return { icon: "•", fg: theme.warning }
+  }
+
+  return (
+    <Show when={review()}>
+      {(current) => (
+        <box paddingLeft={2} paddingRight={2} gap={1}>
+          <box flexDirection="row" justifyContent="space-between">
+            <text attributes={TextAttributes.BOLD} fg={theme.text}>
+              Review {path.relative(sync.data.path.worktree, current().file) || current().file}
+            </text>
+            <text fg={theme.textMuted}>esc</text>
+          </box>
+          <box flexDirection="row" gap={1}>
+            <For each={current().hunks}>
+              {(item) => (
+                <text fg={mark(item).fg} attributes={item.index === selected() ? TextAttributes.UNDERLINE : undefined}>
+                  {mark(item).icon} {item.index + 1}
+                </text>
+              )}
+            </For>
+            <Show when={reviews().length > 1}>
+              <text fg={theme.textMuted}>· {reviews().length - 1} more edits waiting</text>
+            </Show>
+          </box>
+          <Show when={hunk()}>
+            {(item) => (
+              <scrollbox maxHeight={Math.floor(dimensions().height * 0.6)}>
+                <diff
+                  diff={patch(current().file, item())}
+                  view="unified"
+                  filetype={LANGUAGE_EXTENSIONS[path.extname(current().file)] ?? "none"}
+                  syntaxStyle={syntax()}
+                  showLineNumbers={true}
+                  width="100%"
+                  fg={theme.text}
+                  addedBg={theme.diffAddedBg}
+                  removedBg={theme.diffRemovedBg}
+                  contextBg={theme.diffContextBg}
+                  addedSignColor={theme.diffHighlightAdded}
+                  removedSignColor={theme.diffHighlightRemoved}
+                  lineNumberFg={theme.diffLineNumber}
+                  lineNumberBg={theme.diffContextBg}
+                  addedLineNumberBg={theme.diffAddedLineNumberBg}
+                  removedLineNumberBg={theme.diffRemovedLineNumberBg}
+                />
+              </scrollbox>
+            )}
+          </Show>
+          <Show when={hunk()?.comment}>
+            <text fg={theme.textMuted}>Comment: {hunk()!.comment}</text>
+          </Show>
+          <box flexDirection="row" gap={2} paddingBottom={1}>
+            <text fg={theme.text}>
+              <b>a</b>
+              <span style={{ fg: theme.textMuted }}> accept</span>
+            </text>
+            <text fg={theme.text}>
+              <b>r</b>
+              <span style={{ fg: theme.textMuted }}> reject</span>
+            </text>
+            <text fg={theme.text}>
+              <b>c</b>
+              <span style={{ fg: theme.textMuted }}> comment</span>
+            </text>
+            <text fg={theme.text}>
+              <b>A/R</b>
+              <span style={{ fg: theme.textMuted }}> accept/reject rest</span>
+            </text>
+            <text fg={theme.text}>
+              <b>↑↓</b>
+              <span style={{ fg: theme.textMuted }}> hunks</span>
+            </text>
+          </box>
+        </box>
+      )}
+    </Show>
+  )
+}
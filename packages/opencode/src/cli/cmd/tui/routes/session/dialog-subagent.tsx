@@ -1,26 +1,48 @@
-import { DialogSelect } from "@tui/ui/dialog-select"
+import { DialogSelect, type DialogSelectOption } from "@tui/ui/dialog-select"
 import { useRoute } from "@tui/context/route"
+import { useSync } from "@tui/context/sync"
+import { useSDK } from "@tui/context/sdk"
+import { createMemo } from "solid-js"
 
 export function DialogSubagent(props: { sessionID: string }) {
   const route = useRoute()
+  const sync = useSync()
+  const sdk = useSDK()
 
-  return (
-    <DialogSelect
-      title="Subagent Actions"
-      options={[
-        {
-          title: "Open",
-          value: "subagent.view",
-          description: "open the subagent's session",
-          onSelect: (dialog) => {
-            route.navigate({
-              type: "session",
-              sessionID: props.sessionID,
-            })
-            dialog.clear()
-          },
+  const info = createMemo(() => {
+    const parentID = sync.session.get(props.sessionID)?.parentID
+    if (!parentID) return
+    return sync.data.subagent[parentID]?.find((x) => x.sessionID === props.sessionID)
+  })
+
+  const options = createMemo(() => {
+    const result: DialogSelectOption<string>[] = [
+      {
+        title: "Open",
+        value: "subagent.view",
+        description: "open the subagent's session",
+        onSelect: (dialog) => {
+          route.navigate({
+            type: "session",
+            sessionID: props.sessionID,
+          })
+          dialog.clear()
+        },
+      },
+    ]
+    const item = info()
+    if (item && (item.status === "queued" || item.status === "running"))
+      result.push({
+        title: "Cancel",
+        value: "subagent.cancel",
+        description: "stop this subagent, the others keep running",
+        onSelect: (dialog) => {
+          sdk.client.session.subagent.cancel({ sessionID: item.parentID, childID: item.sessionID })
+          dialog.clear()
         },
-      ]}
-    />
-  )
+      })
+    return result
+  })
+
+  return <DialogSelect title="Subagent Actions" options={options()} />
 }
@@ -33,7 +33,10 @@ export function Header() {
   const sync = useSync()
   const session = createMemo(() => sync.session.get(route.sessionID)!)
   const messages = createMemo(() => sync.data.message[route.sessionID] ?? [])
-  const shareEnabled = createMemo(() => sync.data.config.share !== "disabled")
+  const shareEnabled = createMemo(() => {
+    const share = sync.data.config.share
+    return (typeof share === "object" ? share.mode : share) !== "disabled"
+  })
 
   const cost = createMemo(() => {
     const total = pipe(
@@ -25,7 +25,15 @@ import {
   type ScrollAcceleration,
 } from "@opentui/core"
 import { Prompt, type PromptRef } from "@tui/component/prompt"
-import type { AssistantMessage, Part, ToolPart, UserMessage, TextPart, ReasoningPart } from "@opencode-ai/sdk/v2"
+import type {
+  AssistantMessage,
+  Part,
+  ToolPart,
+  UserMessage,
+  TextPart,
+  ReasoningPart,
+  RetryPart,
+} from "@opencode-ai/sdk/v2"
 import { useLocal } from "@tui/context/local"
 import { Locale } from "@/util/locale"
 import type { Tool } from "@/tool/tool"
@@ -38,6 +46,12 @@ import type { GrepTool } from "@/tool/grep"
 import type { ListTool } from "@/tool/ls"
 import type { EditTool } from "@/tool/edit"
 import type { PatchTool } from "@/tool/patch"
+import type { MultiEditTool } from "@/tool/multiedit"
+import type { LspDiagnosticTool } from "@/tool/lsp-diagnostics"
+import type { LspHoverTool } from "@/tool/lsp-hover"
+import type { LspDefinitionTool, LspImplementationTool, LspReferencesTool } from "@/tool/lsp-navigation"
+import type { LspCallHierarchyTool } from "@/tool/lsp-call-hierarchy"
+import type { LspRenameTool } from "@/tool/lsp-rename"
 import type { WebFetchTool } from "@/tool/webfetch"
 import type { TaskTool } from "@/tool/task"
 import { useKeyboard, useRenderer, useTerminalDimensions, type BoxProps, type JSX } from "@opentui/solid"
@@ -45,7 +59,7 @@ import { useSDK } from "@tui/context/sdk"
 import { useCommandDialog } from "@tui/component/dialog-command"
 import { useKeybind } from "@tui/context/keybind"
 import { Header } from "./header"
-import { parsePatch } from "diff"
+import { formatPatch, parsePatch } from "diff"
 import { useDialog } from "../../ui/dialog"
 import { DialogMessage } from "./dialog-message"
 import type { PromptInfo } from "../../component/prompt/history"
@@ -53,8 +67,13 @@ import { iife } from "@/util/iife"
 import { DialogConfirm } from "@tui/ui/dialog-confirm"
 import { DialogPrompt } from "@tui/ui/dialog-prompt"
 import { DialogTimeline } from "./dialog-timeline"
+import { DialogCompaction } from "./dialog-compaction"
+import { DialogExport } from "./dialog-export"
+import { DialogQueue } from "./dialog-queue"
+import { SessionExport } from "@/session/export"
 import { DialogForkFromTimeline } from "./dialog-fork-from-timeline"
 import { DialogSessionRename } from "../../component/dialog-session-rename"
+import { DialogBudget } from "../../component/dialog-budget"
 import { Sidebar } from "./sidebar"
 import { LANGUAGE_EXTENSIONS } from "@/lsp/language"
 import parsers from "../../../../../../parsers-config.ts"
@@ -67,6 +86,8 @@ import { Footer } from "./footer.tsx"
 import { usePromptRef } from "../../context/prompt"
 import { Filesystem } from "@/util/filesystem"
 import { DialogSubagent } from "./dialog-subagent.tsx"
+import { DialogCheckpointCreate, DialogCheckpointList } from "./dialog-checkpoint"
+import { DialogReview } from "./dialog-review"
 
 addDefaultParsers(parsers.parsers)
 
@@ -108,6 +129,14 @@ export function Session() {
   const session = createMemo(() => sync.session.get(route.sessionID)!)
   const messages = createMemo(() => sync.data.message[route.sessionID] ?? [])
   const permissions = createMemo(() => sync.data.permission[route.sessionID] ?? [])
+  const reviews = createMemo(() => sync.data.review[route.sessionID] ?? [])
+  const compaction = createMemo(() => {
+    for (const message of messages().toReversed()) {
+      if (message.role !== "user") continue
+      const part = sync.data.part[message.id]?.find((x) => x.type === "compaction")
+      if (part?.type === "compaction" && part.summary) return part
+    }
+  })
 
   const pending = createMemo(() => {
     return messages().findLast((x) => x.role === "assistant" && !x.time.completed)?.id
@@ -168,16 +197,18 @@ export function Session() {
   const toast = useToast()
   const sdk = useSDK()
 
-  // Auto-navigate to whichever session currently needs permission input
+  // Auto-navigate to whichever session currently needs permission or review input
   createEffect(() => {
     const currentSession = session()
     if (!currentSession) return
     const currentPermissions = permissions()
-    let targetID = currentPermissions.length > 0 ? currentSession.id : undefined
+    let targetID = currentPermissions.length > 0 || reviews().length > 0 ? currentSession.id : undefined
 
     if (!targetID) {
       const child = sync.data.session.find(
-        (x) => x.parentID === currentSession.id && (sync.data.permission[x.id]?.length ?? 0) > 0,
+        (x) =>
+          x.parentID === currentSession.id &&
+          ((sync.data.permission[x.id]?.length ?? 0) > 0 || (sync.data.review[x.id]?.length ?? 0) > 0),
       )
       if (child) targetID = child.id
     }
@@ -190,6 +221,17 @@ export function Session() {
     }
   })
 
+  // Open the review screen when an edit starts waiting for review
+  createEffect(
+    on(
+      () => reviews().length,
+      (count, previous) => {
+        if (count > (previous ?? 0) && dialog.stack.length === 0)
+          dialog.replace(() => <DialogReview sessionID={route.sessionID} />)
+      },
+    ),
+  )
+
   let scroll: ScrollBoxRenderable
   let prompt: PromptRef
   const keybind = useKeybind()
@@ -242,9 +284,14 @@ export function Session() {
     }
   }
 
+  const shareEnabled = createMemo(() => {
+    const share = sync.data.config.share
+    return (typeof share === "object" ? share.mode : share) !== "disabled"
+  })
+
   const command = useCommandDialog()
   command.register(() => [
-    ...(sync.data.config.share !== "disabled"
+    ...(shareEnabled()
       ? [
           {
             title: "Share session",
@@ -341,6 +388,91 @@ export function Session() {
         dialog.clear()
       },
     },
+    {
+      title: "Raise budget",
+      value: "session.budget",
+      category: "Session",
+      onSelect: (dialog) => {
+        dialog.replace(() => <DialogBudget session={route.sessionID} />)
+      },
+    },
+    {
+      title: "Review pending edits",
+      value: "session.review",
+      category: "Session",
+      disabled: reviews().length === 0,
+      onSelect: (dialog) => {
+        dialog.replace(() => <DialogReview sessionID={route.sessionID} />)
+      },
+    },
+    {
+      title: "Create checkpoint",
+      value: "session.checkpoint",
+      category: "Session",
+      onSelect: (dialog) => {
+        dialog.replace(() => <DialogCheckpointCreate sessionID={route.sessionID} />)
+      },
+    },
+    {
+      title: "List checkpoints",
+      value: "session.checkpoint.list",
+      category: "Session",
+      onSelect: (dialog) => {
+        dialog.replace(() => <DialogCheckpointList sessionID={route.sessionID} />)
+      },
+    },
+    {
+      title: compaction()?.status === "draft" ? "Review compaction" : "View compaction summary",
+      value: "session.compaction",
+      category: "Session",
+      disabled: !compaction(),
+      onSelect: (dialog) => {
+        dialog.replace(() => <DialogCompaction sessionID={route.sessionID} messageID={compaction()?.messageID} />)
+      },
+    },
+    {
+      title: "Edit queued prompts",
+      value: "session.queue",
+      category: "Session",
+      disabled: !sync.data.queue[route.sessionID]?.length,
+      onSelect: (dialog) => {
+        dialog.replace(() => <DialogQueue sessionID={route.sessionID} />)
+      },
+    },
+    {
+      title: "Merge worktree",
+      value: "session.worktree.merge",
+      category: "Session",
+      disabled: !session()?.worktree,
+      onSelect: async (dialog) => {
+        dialog.clear()
+        const result = await sdk.client.worktree.merge({ sessionID: route.sessionID })
+        if (result.data) return toast.show({ message: "Worktree merged into the main checkout", variant: "success" })
+        const error = (result.error as { data?: { message?: string } } | undefined)?.data?.message
+        toast.show({
+          message: `Failed to merge worktree${error ? `: ${error}` : ""}`,
+          variant: "error",
+        })
+      },
+    },
+    {
+      title: "Discard worktree",
+      value: "session.worktree.discard",
+      category: "Session",
+      disabled: !session()?.worktree,
+      onSelect: async (dialog) => {
+        const confirmed = await DialogConfirm.show(
+          dialog,
+          "Discard worktree",
+          `Remove branch ${session()?.worktree?.branch} and every change made in it?`,
+        )
+        if (!confirmed) return
+        await sdk.client.worktree
+          .discard({ sessionID: route.sessionID }, { throwOnError: true })
+          .then(() => toast.show({ message: "Worktree discarded", variant: "success" }))
+          .catch(() => toast.show({ message: "Failed to discard worktree", variant: "error" }))
+      },
+    },
     {
       title: "Unshare session",
       value: "session.unshare",
@@ -722,61 +854,47 @@ export function Session() {
       value: "session.export",
       keybind: "session_export",
       category: "Session",
-      onSelect: async (dialog) => {
-        try {
-          // Format session transcript as markdown
-          const sessionData = session()
-          const sessionMessages = messages()
+      onSelect: (dialog) => {
+        dialog.replace(() => (
+          <DialogExport
+            onSelect={async (format) => {
+              try {
+                const result = await sdk.client.session.export(
+                  { sessionID: route.sessionID, format },
+                  { throwOnError: true },
+                )
+                const transcript = result.data
 
-          let transcript = `# ${sessionData.title}\n\n`
-          transcript += `**Session ID:** ${sessionData.id}\n`
-          transcript += `**Created:** ${new Date(sessionData.time.created).toLocaleString()}\n`
-          transcript += `**Updated:** ${new Date(sessionData.time.updated).toLocaleString()}\n\n`
-          transcript += `---\n\n`
+                // Prompt for optional filename
+                const customFilename = await DialogPrompt.show(dialog, "Export filename", {
+                  value: `session-${route.sessionID.slice(0, 8)}.${SessionExport.EXTENSION[format]}`,
+                })
 
-          for (const msg of sessionMessages) {
-            const parts = sync.data.part[msg.id] ?? []
-            const role = msg.role === "user" ? "User" : "Assistant"
-            transcript += `## ${role}\n\n`
+                // Cancel if user pressed escape
+                if (customFilename === null) return
+
+                // Save to file in current working directory
+                const filename = customFilename.trim()
+                const filepath = path.join(process.cwd(), filename)
+                await Bun.write(filepath, transcript)
+
+                // Open markdown with EDITOR if available
+                if (format === "markdown") {
+                  const edited = await Editor.open({ value: transcript, renderer })
+                  if (edited !== undefined) {
+                    // User edited the file, save the changes
+                    await Bun.write(filepath, edited)
+                  }
+                }
 
-            for (const part of parts) {
-              if (part.type === "text" && !part.synthetic) {
-                transcript += `${part.text}\n\n`
-              } else if (part.type === "tool") {
-                transcript += `\`\`\`\nTool: ${part.tool}\n\`\`\`\n\n`
+                toast.show({ message: `Session exported to ${filename}`, variant: "success" })
+              } catch (error) {
+                toast.show({ message: "Failed to export session", variant: "error" })
               }
-            }
-
-            transcript += `---\n\n`
-          }
-
-          // Prompt for optional filename
-          const customFilename = await DialogPrompt.show(dialog, "Export filename", {
-            value: `session-${sessionData.id.slice(0, 8)}.md`,
-          })
-
-          // Cancel if user pressed escape
-          if (customFilename === null) return
-
-          // Save to file in current working directory
-          const exportDir = process.cwd()
-          const filename = customFilename.trim()
-          const filepath = path.join(exportDir, filename)
-
-          await Bun.write(filepath, transcript)
-
-          // Open with EDITOR if available
-          const result = await Editor.open({ value: transcript, renderer })
-          if (result !== undefined) {
-            // User edited the file, save the changes
-            await Bun.write(filepath, result)
-          }
-
-          toast.show({ message: `Session exported to ${filename}`, variant: "success" })
-        } catch (error) {
-          toast.show({ message: "Failed to export session", variant: "error" })
-        }
-        dialog.clear()
+              dialog.clear()
+            }}
+          />
+        ))
       },
     },
     {
@@ -1131,7 +1249,7 @@ function UserMessage(props: {
         <box
           marginTop={1}
           border={["top"]}
-          title=" Compaction "
+          title={compaction()?.status === "draft" ? " Compaction (draft) " : " Compaction "}
           titleAlignment="center"
           borderColor={theme.borderActive}
         />
@@ -1211,6 +1329,7 @@ const PART_MAPPING = {
   text: TextPart,
   tool: ToolPart,
   reasoning: ReasoningPart,
+  retry: RetryPart,
 }
 
 function ReasoningPart(props: { last: boolean; part: ReasoningPart; message: AssistantMessage }) {
@@ -1266,6 +1385,22 @@ function TextPart(props: { last: boolean; part: TextPart; message: AssistantMess
   )
 }
 
+function RetryPart(props: { last: boolean; part: RetryPart; message: AssistantMessage }) {
+  const { theme } = useTheme()
+  return (
+    <Show when={props.part.fallback}>
+      {(fallback) => (
+        <box paddingLeft={3} marginTop={1} flexShrink={0}>
+          <text fg={theme.textMuted}>
+            <span style={{ fg: theme.warning }}>↻</span> {props.part.error.data.message} · switched from{" "}
+            {fallback().from.providerID}/{fallback().from.modelID} to {fallback().to.providerID}/{fallback().to.modelID}
+          </text>
+        </box>
+      )}
+    </Show>
+  )
+}
+
 // Pending messages moved to individual tool pending functions
 
 function ToolPart(props: { last: boolean; part: ToolPart; message: AssistantMessage }) {
@@ -1293,6 +1428,7 @@ function ToolPart(props: { last: boolean; part: ToolPart; message: AssistantMess
     const permissions = sync.data.permission[props.message.sessionID] ?? []
     const permissionIndex = permissions.findIndex((x) => x.callID === props.part.callID)
     const permission = permissions[permissionIndex]
+    const review = sync.data.review[props.message.sessionID]?.find((x) => x.callID === props.part.callID)
 
     const style: BoxProps =
       container === "block" || permission
@@ -1351,6 +1487,12 @@ function ToolPart(props: { last: boolean; part: ToolPart; message: AssistantMess
             <text fg={theme.error}>{props.part.state.error.replace("Error: ", "")}</text>
           </box>
         )}
+        {review && (
+          <text fg={theme.text}>
+            Waiting for review of {review.hunks.filter((x) => x.status === "pending").length} of {review.hunks.length}{" "}
+            hunks
+          </text>
+        )}
         {permission && (
           <box gap={1}>
             <text fg={theme.text}>Permission required to run this tool:</text>
@@ -1500,7 +1642,7 @@ ToolRegistry.register<typeof WriteTool>({
           <For each={diagnostics()}>
             {(diagnostic) => (
               <text fg={theme.error}>
-                Error [{diagnostic.range.start.line}:{diagnostic.range.start.character}]: {diagnostic.message}
+                Error [{diagnostic.range.start.line + 1}:{diagnostic.range.start.character + 1}]: {diagnostic.message}
               </text>
             )}
           </For>
@@ -1654,22 +1796,67 @@ ToolRegistry.register({
   },
 })
 
+function DiffView(props: { diff: string; filePath?: string }) {
+  const ctx = use()
+  const { theme, syntax } = useTheme()
+
+  const view = createMemo(() => {
+    const diffStyle = ctx.sync.data.config.tui?.diff_style
+    if (diffStyle === "stacked") return "unified"
+    // Default to "auto" behavior
+    return ctx.width > 120 ? "split" : "unified"
+  })
+
+  const ft = createMemo(() => filetype(props.filePath))
+
+  return (
+    <box paddingLeft={1}>
+      <diff
+        diff={props.diff}
+        view={view()}
+        filetype={ft()}
+        syntaxStyle={syntax()}
+        showLineNumbers={true}
+        width="100%"
+        wrapMode={ctx.diffWrapMode()}
+        fg={theme.text}
+        addedBg={theme.diffAddedBg}
+        removedBg={theme.diffRemovedBg}
+        contextBg={theme.diffContextBg}
+        addedSignColor={theme.diffHighlightAdded}
+        removedSignColor={theme.diffHighlightRemoved}
+        lineNumberFg={theme.diffLineNumber}
+        lineNumberBg={theme.diffContextBg}
+        addedLineNumberBg={theme.diffAddedLineNumberBg}
+        removedLineNumberBg={theme.diffRemovedLineNumberBg}
+      />
+    </box>
+  )
+}
+
+function DiagnosticList(props: {
+  diagnostics: { range: { start: { line: number; character: number } }; message: string }[]
+}) {
+  const { theme } = useTheme()
+  return (
+    <Show when={props.diagnostics.length}>
+      <box>
+        <For each={props.diagnostics}>
+          {(diagnostic) => (
+            <text fg={theme.error}>
+              Error [{diagnostic.range.start.line + 1}:{diagnostic.range.start.character + 1}] {diagnostic.message}
+            </text>
+          )}
+        </For>
+      </box>
+    </Show>
+  )
+}
+
 ToolRegistry.register<typeof EditTool>({
   name: "edit",
   container: "block",
   render(props) {
-    const ctx = use()
-    const { theme, syntax } = useTheme()
-
-    const view = createMemo(() => {
-      const diffStyle = ctx.sync.data.config.tui?.diff_style
-      if (diffStyle === "stacked") return "unified"
-      // Default to "auto" behavior
-      return ctx.width > 120 ? "split" : "unified"
-    })
-
-    const ft = createMemo(() => filetype(props.input.filePath))
-
     const diffContent = createMemo(() => props.metadata.diff ?? props.permission["diff"])
 
     const diagnostics = createMemo(() => {
@@ -1687,64 +1874,207 @@ ToolRegistry.register<typeof EditTool>({
           })}
         </ToolTitle>
         <Show when={diffContent()}>
-          <box paddingLeft={1}>
-            <diff
-              diff={diffContent()}
-              view={view()}
-              filetype={ft()}
-              syntaxStyle={syntax()}
-              showLineNumbers={true}
-              width="100%"
-              wrapMode={ctx.diffWrapMode()}
-              fg={theme.text}
-              addedBg={theme.diffAddedBg}
-              removedBg={theme.diffRemovedBg}
-              contextBg={theme.diffContextBg}
-              addedSignColor={theme.diffHighlightAdded}
-              removedSignColor={theme.diffHighlightRemoved}
-              lineNumberFg={theme.diffLineNumber}
-              lineNumberBg={theme.diffContextBg}
-              addedLineNumberBg={theme.diffAddedLineNumberBg}
-              removedLineNumberBg={theme.diffRemovedLineNumberBg}
-            />
-          </box>
-        </Show>
-        <Show when={diagnostics().length}>
-          <box>
-            <For each={diagnostics()}>
-              {(diagnostic) => (
-                <text fg={theme.error}>
-                  Error [{diagnostic.range.start.line + 1}:{diagnostic.range.start.character + 1}] {diagnostic.message}
-                </text>
-              )}
-            </For>
-          </box>
+          <DiffView diff={diffContent()} filePath={props.input.filePath} />
         </Show>
+        <DiagnosticList diagnostics={diagnostics()} />
       </>
     )
   },
 })
 
+ToolRegistry.register<typeof MultiEditTool>({
+  name: "multiedit",
+  container: "block",
+  render(props) {
+    const diffs = createMemo(() => {
+      const results = props.metadata.results ?? []
+      if (results.length === 0 && props.permission["diff"]) return [props.permission["diff"] as string]
+      return results.map((x) => x.diff).filter((x) => !!x)
+    })
+
+    const diagnostics = createMemo(() => {
+      const filePath = Filesystem.normalizePath(props.input.filePath ?? "")
+      const arr = props.metadata.results?.at(-1)?.diagnostics?.[filePath] ?? []
+      return arr.filter((x) => x.severity === 1).slice(0, 3)
+    })
+
+    return (
+      <>
+        <ToolTitle icon="←" fallback="Preparing edits..." when={props.input.filePath}>
+          Edit {normalizePath(props.input.filePath!)}{" "}
+          <Show when={props.input.edits?.length}>[{props.input.edits!.length} edits]</Show>
+        </ToolTitle>
+        <For each={diffs()}>{(diff) => <DiffView diff={diff} filePath={props.input.filePath} />}</For>
+        <DiagnosticList diagnostics={diagnostics()} />
+      </>
+    )
+  },
+})
+
+function PatchDiffs(props: { diff: string }) {
+  const { theme } = useTheme()
+  const files = createMemo(() => parsePatch(props.diff))
+  return (
+    <For each={files()}>
+      {(file) => (
+        <>
+          <text paddingLeft={3} fg={theme.textMuted}>
+            {normalizePath(file.newFileName ?? file.oldFileName)}
+          </text>
+          <DiffView diff={formatPatch(file)} filePath={file.newFileName ?? file.oldFileName} />
+        </>
+      )}
+    </For>
+  )
+}
+
 ToolRegistry.register<typeof PatchTool>({
   name: "patch",
   container: "block",
   render(props) {
     const { theme } = useTheme()
+    const diff = createMemo(() => props.metadata.diff ?? props.permission["diff"])
+
+    const diagnostics = createMemo(() =>
+      Object.values(props.metadata.diagnostics ?? {})
+        .flat()
+        .filter((x) => x.severity === 1)
+        .slice(0, 3),
+    )
+
     return (
       <>
         <ToolTitle icon="%" fallback="Preparing patch..." when={true}>
-          Patch
+          Patch <Show when={props.metadata.files?.length}>[{props.metadata.files!.length} files]</Show>
         </ToolTitle>
-        <Show when={props.output}>
-          <box>
-            <text fg={theme.text}>{props.output?.trim()}</text>
-          </box>
+        <Show
+          when={diff()}
+          fallback={
+            <Show when={props.output}>
+              <box>
+                <text fg={theme.text}>{props.output?.trim()}</text>
+              </box>
+            </Show>
+          }
+        >
+          <PatchDiffs diff={diff()} />
         </Show>
+        <DiagnosticList diagnostics={diagnostics()} />
       </>
     )
   },
 })
 
+ToolRegistry.register<typeof LspRenameTool>({
+  name: "lsp_rename",
+  container: "block",
+  render(props) {
+    const diff = createMemo(() => props.metadata.diff ?? props.permission["diff"])
+
+    const diagnostics = createMemo(() =>
+      Object.values(props.metadata.diagnostics ?? {})
+        .flat()
+        .filter((x) => x.severity === 1)
+        .slice(0, 3),
+    )
+
+    return (
+      <>
+        <ToolTitle icon="←" fallback="Preparing rename..." when={props.input.newName}>
+          Rename {normalizePath(props.input.file)}:{props.input.line}:{props.input.character} to {props.input.newName}{" "}
+          <Show when={props.metadata.files?.length}>[{props.metadata.files!.length} files]</Show>
+        </ToolTitle>
+        <Show when={diff()}>
+          <PatchDiffs diff={diff()} />
+        </Show>
+        <DiagnosticList diagnostics={diagnostics()} />
+      </>
+    )
+  },
+})
+
+ToolRegistry.register<typeof LspDiagnosticTool>({
+  name: "lsp_diagnostics",
+  container: "inline",
+  render(props) {
+    const count = createMemo(() => {
+      const filePath = Filesystem.normalizePath(path.resolve(process.cwd(), props.input.path ?? ""))
+      return (props.metadata.diagnostics?.[filePath] ?? []).filter((x) => x.severity === 1).length
+    })
+    return (
+      <ToolTitle icon="✱" fallback="Checking diagnostics..." when={props.input.path}>
+        Diagnostics {normalizePath(props.input.path)}{" "}
+        <Show when={props.metadata.diagnostics}>({count() === 1 ? "1 error" : `${count()} errors`})</Show>
+      </ToolTitle>
+    )
+  },
+})
+
+ToolRegistry.register<typeof LspHoverTool>({
+  name: "lsp_hover",
+  container: "inline",
+  render(props) {
+    return (
+      <ToolTitle icon="✱" fallback="Looking up symbol..." when={props.input.file}>
+        Hover {normalizePath(props.input.file)}:{props.input.line}:{props.input.character}
+      </ToolTitle>
+    )
+  },
+})
+
+ToolRegistry.register<typeof LspDefinitionTool>({
+  name: "lsp_definition",
+  container: "inline",
+  render(props) {
+    return (
+      <ToolTitle icon="✱" fallback="Finding definition..." when={props.input.file}>
+        Definition {normalizePath(props.input.file)}:{props.input.line}:{props.input.character}{" "}
+        <Show when={props.metadata.locations}>({results(props.metadata.locations!.length)})</Show>
+      </ToolTitle>
+    )
+  },
+})
+
+ToolRegistry.register<typeof LspReferencesTool>({
+  name: "lsp_references",
+  container: "inline",
+  render(props) {
+    return (
+      <ToolTitle icon="✱" fallback="Finding references..." when={props.input.file}>
+        References {normalizePath(props.input.file)}:{props.input.line}:{props.input.character}{" "}
+        <Show when={props.metadata.locations}>({results(props.metadata.locations!.length)})</Show>
+      </ToolTitle>
+    )
+  },
+})
+
+ToolRegistry.register<typeof LspImplementationTool>({
+  name: "lsp_implementation",
+  container: "inline",
+  render(props) {
+    return (
+      <ToolTitle icon="✱" fallback="Finding implementations..." when={props.input.file}>
+        Implementations {normalizePath(props.input.file)}:{props.input.line}:{props.input.character}{" "}
+        <Show when={props.metadata.locations}>({results(props.metadata.locations!.length)})</Show>
+      </ToolTitle>
+    )
+  },
+})
+
+ToolRegistry.register<typeof LspCallHierarchyTool>({
+  name: "lsp_call_hierarchy",
+  container: "inline",
+  render(props) {
+    return (
+      <ToolTitle icon="✱" fallback="Finding calls..." when={props.input.file}>
+        {props.input.direction === "outgoing" ? "Calls from" : "Callers of"} {normalizePath(props.input.file)}:
+        {props.input.line}:{props.input.character}{" "}
+        <Show when={props.metadata.calls}>({results(props.metadata.calls!.length)})</Show>
+      </ToolTitle>
+    )
+  },
+})
+
 ToolRegistry.register<typeof TodoWriteTool>({
   name: "todowrite",
   container: "block",
@@ -1773,6 +2103,10 @@ ToolRegistry.register<typeof TodoWriteTool>({
   },
 })
 
+function results(count: number) {
+  return count === 1 ? "1 result" : `${count} results`
+}
+
 function normalizePath(input?: string) {
   if (!input) return ""
   if (path.isAbsolute(input)) {
@@ -1,15 +1,17 @@
 import { useSync } from "@tui/context/sync"
-import { createMemo, For, Show, Switch, Match } from "solid-js"
+import { createMemo, createSignal, For, onCleanup, onMount, Show, Switch, Match } from "solid-js"
 import { createStore } from "solid-js/store"
 import { useTheme } from "../../context/theme"
 import { Locale } from "@/util/locale"
 import path from "path"
-import type { AssistantMessage } from "@opencode-ai/sdk/v2"
+import type { AssistantMessage, Subagent } from "@opencode-ai/sdk/v2"
 import { Global } from "@/global"
 import { Installation } from "@/installation"
 import { useKeybind } from "../../context/keybind"
 import { useDirectory } from "../../context/directory"
 import { useKV } from "../../context/kv"
+import { Token } from "@/util/token"
+import { useRoute } from "../../context/route"
 
 export function Sidebar(props: { sessionID: string }) {
   const sync = useSync()
@@ -20,21 +22,37 @@ export function Sidebar(props: { sessionID: string }) {
   const messages = createMemo(() => sync.data.message[props.sessionID] ?? [])
 
   const [expanded, setExpanded] = createStore({
+    subagent: true,
     mcp: true,
     diff: true,
     todo: true,
     lsp: true,
+    tokens: false,
   })
 
   // Sort MCP servers alphabetically for consistent display order
   const mcpEntries = createMemo(() => Object.entries(sync.data.mcp).sort(([a], [b]) => a.localeCompare(b)))
 
+  const money = new Intl.NumberFormat("en-US", {
+    style: "currency",
+    currency: "USD",
+  })
+
   const cost = createMemo(() => {
     const total = messages().reduce((sum, x) => sum + (x.role === "assistant" ? x.cost : 0), 0)
-    return new Intl.NumberFormat("en-US", {
-      style: "currency",
-      currency: "USD",
-    }).format(total)
+    return money.format(total + (session().rollup?.cost ?? 0))
+  })
+
+  const subagents = createMemo(() => sync.data.subagent[props.sessionID] ?? [])
+  const verify = createMemo(() => sync.data.verify[props.sessionID])
+
+  // ticks while a subagent runs so elapsed times stay current
+  const [now, setNow] = createSignal(Date.now())
+  onMount(() => {
+    const timer = setInterval(() => {
+      if (subagents().some((x) => x.status === "running")) setNow(Date.now())
+    }, 1000)
+    onCleanup(() => clearInterval(timer))
   })
 
   const context = createMemo(() => {
@@ -49,6 +67,41 @@ export function Sidebar(props: { sessionID: string }) {
     }
   })
 
+  // Per-message token usage, newest first. Assistant messages report what the
+  // provider billed; user messages and tool output are estimated locally.
+  const breakdown = createMemo(() =>
+    messages()
+      .slice(-10)
+      .map((msg) => {
+        const parts = sync.data.part[msg.id] ?? []
+        if (msg.role === "user") {
+          const text = parts.map((part) => (part.type === "text" && !part.synthetic ? part.text : "")).join("\n")
+          return {
+            id: msg.id,
+            label: "You",
+            detail: `~${Locale.number(Token.estimate(text, msg.model.modelID))}`,
+          }
+        }
+        const tools = parts.reduce(
+          (sum, part) =>
+            sum +
+            (part.type === "tool" && part.state.status === "completed"
+              ? Token.estimate(part.state.output, msg.modelID)
+              : 0),
+          0,
+        )
+        const input = msg.tokens.input + msg.tokens.cache.read + msg.tokens.cache.write
+        const output = msg.tokens.output + msg.tokens.reasoning
+        return {
+          id: msg.id,
+          label: Locale.titlecase(msg.mode),
+          detail:
+            `↑${Locale.number(input)} ↓${Locale.number(output)}` + (tools ? ` · tools ~${Locale.number(tools)}` : ""),
+        }
+      })
+      .reverse(),
+  )
+
   const directory = useDirectory()
   const kv = useKV()
 
@@ -76,6 +129,9 @@ export function Sidebar(props: { sessionID: string }) {
               <Show when={session().share?.url}>
                 <text fg={theme.textMuted}>{session().share!.url}</text>
               </Show>
+              <Show when={session().worktree}>
+                <text fg={theme.textMuted}>worktree {session().worktree!.branch}</text>
+              </Show>
             </box>
             <box>
               <text fg={theme.text}>
@@ -84,7 +140,95 @@ export function Sidebar(props: { sessionID: string }) {
               <text fg={theme.textMuted}>{context()?.tokens ?? 0} tokens</text>
               <text fg={theme.textMuted}>{context()?.percentage ?? 0}% used</text>
               <text fg={theme.textMuted}>{cost()} spent</text>
+              <Show when={session().rollup}>
+                {(rollup) => <text fg={theme.textMuted}>{money.format(rollup().cost)} by subagents</text>}
+              </Show>
             </box>
+            <Show when={subagents().length > 0}>
+              <box>
+                <box
+                  flexDirection="row"
+                  gap={1}
+                  onMouseDown={() => subagents().length > 2 && setExpanded("subagent", !expanded.subagent)}
+                >
+                  <Show when={subagents().length > 2}>
+                    <text fg={theme.text}>{expanded.subagent ? "▼" : "▶"}</text>
+                  </Show>
+                  <text fg={theme.text}>
+                    <b>Subagents</b>
+                  </text>
+                </box>
+                <Show when={subagents().length <= 2 || expanded.subagent}>
+                  <SubagentTree parentID={props.sessionID} depth={0} now={now()} />
+                </Show>
+              </box>
+            </Show>
+            <Show when={verify()}>
+              {(verify) => (
+                <box>
+                  <box flexDirection="row" gap={1} justifyContent="space-between">
+                    <text fg={theme.text}>
+                      <b>Verify</b>
+                    </text>
+                    <Show when={verify().iteration > 0}>
+                      <text fg={theme.textMuted}>
+                        fix {verify().iteration}/{verify().max}
+                      </text>
+                    </Show>
+                  </box>
+                  <For each={verify().checks}>
+                    {(check) => (
+                      <box flexDirection="row" gap={1} justifyContent="space-between">
+                        <text fg={theme.textMuted}>
+                          <span
+                            style={{
+                              fg: {
+                                running: theme.warning,
+                                passed: theme.success,
+                                failed: theme.error,
+                                timeout: theme.error,
+                              }[check.status],
+                            }}
+                          >
+                            {check.status === "passed" ? "✓" : check.status === "running" ? "•" : "✗"}
+                          </span>{" "}
+                          {check.name}
+                        </text>
+                        <text fg={theme.textMuted} flexShrink={0}>
+                          {check.status === "running"
+                            ? "running"
+                            : check.status === "timeout"
+                              ? "timed out"
+                              : Locale.duration((check.time.end ?? check.time.start) - check.time.start)}
+                        </text>
+                      </box>
+                    )}
+                  </For>
+                </box>
+              )}
+            </Show>
+            <Show when={breakdown().length > 0}>
+              <box>
+                <box flexDirection="row" gap={1} onMouseDown={() => setExpanded("tokens", !expanded.tokens)}>
+                  <text fg={theme.text}>{expanded.tokens ? "▼" : "▶"}</text>
+                  <text fg={theme.text}>
+                    <b>Tokens</b>
+                  </text>
+                </box>
+                <Show when={expanded.tokens}>
+                  <For each={breakdown()}>
+                    {(item) => (
+                      <box flexDirection="row" gap={1} justifyContent="space-between">
+                        <text fg={theme.textMuted}>{item.label}</text>
+                        <text fg={theme.textMuted} flexShrink={0}>
+                          {item.detail}
+                        </text>
+                      </box>
+                    )}
+                  </For>
+                </Show>
+              </box>
+            </Show>
             <Show when={mcpEntries().length > 0}>
               <box>
                 <box
@@ -300,3 +444,53 @@ export function Sidebar(props: { sessionID: string }) {
     </Show>
   )
 }
+
+function SubagentTree(props: { parentID: string; depth: number; now: number }) {
+  const sync = useSync()
+  const route = useRoute()
+  const { theme } = useTheme()
+  const items = createMemo(() => sync.data.subagent[props.parentID] ?? [])
+
+  const color = (item: Subagent) =>
+    ({
+      queued: theme.textMuted,
+      running: theme.warning,
+      completed: theme.success,
+      error: theme.error,
+      cancelled: theme.textMuted,
+    })[item.status]
+
+  const detail = (item: Subagent) => {
+    if (item.status === "queued") return "queued"
+    const elapsed = Locale.duration((item.time.completed ?? props.now) - (item.time.started ?? item.time.created))
+    if (item.status === "running") return item.tool ? `${item.tool} · ${elapsed}` : elapsed
+    if (item.status === "completed") return elapsed
+    return item.status
+  }
+
+  return (
+    <For each={items()}>
+      {(item) => (
+        <>
+          <box
+            flexDirection="row"
+            gap={1}
+            paddingLeft={props.depth * 2}
+            onMouseUp={() => route.navigate({ type: "session", sessionID: item.sessionID })}
+          >
+            <text flexShrink={0} style={{ fg: color(item) }}>
+              •
+            </text>
+            <text fg={theme.text} wrapMode="none" flexGrow={1}>
+              {Locale.truncate(item.description, 20)}
+            </text>
+            <text fg={theme.textMuted} flexShrink={0}>
+              {detail(item)}
+            </text>
+          </box>
+          <SubagentTree parentID={item.sessionID} depth={props.depth + 1} now={props.now} />
+        </>
+      )}
+    </For>
+  )
+}
@@ -18,6 +18,8 @@ export interface DialogSelectProps<T> {
   ref?: (ref: DialogSelectRef<T>) => void
   onMove?: (option: DialogSelectOption<T>) => void
   onFilter?: (query: string) => void
+  // options are already filtered by the caller through onFilter
+  skipFilter?: boolean
   onSelect?: (option: DialogSelectOption<T>) => void
   keybind?: {
     keybind: Keybind.Info
@@ -74,7 +76,8 @@ export function DialogSelect<T>(props: DialogSelectProps<T>) {
     const result = pipe(
       props.options,
       filter((x) => x.disabled !== true),
-      (x) => (!needle ? x : fuzzysort.go(needle, x, { keys: ["title", "category"] }).map((x) => x.obj)),
+      (x) =>
+        !needle || props.skipFilter ? x : fuzzysort.go(needle, x, { keys: ["title", "category"] }).map((x) => x.obj),
     )
     return result
   })
@@ -0,0 +1,141 @@
+import type { Argv } from "yargs"
+import { cmd } from "./cmd"
+import { bootstrap } from "../bootstrap"
+import { UI } from "../ui"
+import { Worktree } from "../../worktree"
+import { Locale } from "../../util/locale"
+import * as prompts from "@clack/prompts"
+import { EOL } from "os"
+
+export const WorktreeCommand = cmd({
+  command: "worktree",
+  describe: "manage git worktrees of isolated sessions",
+  builder: (yargs: Argv) =>
+    yargs
+      .command(WorktreeListCommand)
+      .command(WorktreeMergeCommand)
+      .command(WorktreeDiscardCommand)
+      .command(WorktreeCleanupCommand)
+      .demandCommand(),
+  async handler() {},
+})
+
+export const WorktreeListCommand = cmd({
+  command: "list",
+  aliases: ["ls"],
+  describe: "list session worktrees of this project",
+  builder: (yargs: Argv) => {
+    return yargs.option("format", {
+      describe: "output format",
+      type: "string",
+      choices: ["table", "json"],
+      default: "table",
+    })
+  },
+  handler: async (args) => {
+    await bootstrap(process.cwd(), async () => {
+      const worktrees = await Worktree.list()
+      if (args.format === "json") {
+        console.log(JSON.stringify(worktrees, null, 2))
+        return
+      }
+      if (worktrees.length === 0) {
+        UI.println(UI.Style.TEXT_DIM + "No session worktrees" + UI.Style.TEXT_NORMAL)
+        return
+      }
+      console.log(formatWorktreeTable(worktrees))
+    })
+  },
+})
+
+export const WorktreeMergeCommand = cmd({
+  command: "merge <sessionID>",
+  describe: "commit and merge the worktree of a session into the main checkout",
+  builder: (yargs: Argv) => {
+    return yargs.positional("sessionID", {
+      describe: "session id",
+      type: "string",
+      demandOption: true,
+    })
+  },
+  handler: async (args) => {
+    await bootstrap(process.cwd(), async () => {
+      const worktree = await Worktree.get(args.sessionID)
+      const result = await Worktree.merge(args.sessionID).catch((e) => {
+        if (!Worktree.MergeError.isInstance(e)) throw e
+        UI.error(`Could not merge ${e.data.branch}, the worktree was left in place:${EOL}${e.data.message}`)
+        process.exit(1)
+      })
+      prompts.log.success(`Merged ${worktree.branch}, session continues in ${result.directory}`)
+    })
+  },
+})
+
+export const WorktreeDiscardCommand = cmd({
+  command: "discard <sessionID>",
+  aliases: ["rm"],
+  describe: "remove the worktree and branch of a session without merging",
+  builder: (yargs: Argv) => {
+    return yargs
+      .positional("sessionID", {
+        describe: "session id",
+        type: "string",
+        demandOption: true,
+      })
+      .option("yes", {
+        alias: ["y"],
+        describe: "do not ask for confirmation",
+        type: "boolean",
+      })
+  },
+  handler: async (args) => {
+    await bootstrap(process.cwd(), async () => {
+      const worktree = await Worktree.get(args.sessionID)
+      if (!args.yes && worktree.changes > 0) {
+        const confirm = await prompts.confirm({
+          message: `Discard ${worktree.changes} change(s) on ${worktree.branch}?`,
+          initialValue: false,
+        })
+        if (prompts.isCancel(confirm) || !confirm) throw new UI.CancelledError()
+      }
+      await Worktree.discard(args.sessionID)
+      prompts.log.success(`Discarded ${worktree.branch}`)
+    })
+  },
+})
+
+export const WorktreeCleanupCommand = cmd({
+  command: "cleanup",
+  describe: "remove worktrees left behind by deleted sessions",
+  handler: async () => {
+    await bootstrap(process.cwd(), async () => {
+      const removed = await Worktree.cleanup()
+      if (removed.length === 0) {
+        UI.println(UI.Style.TEXT_DIM + "Nothing to clean up" + UI.Style.TEXT_NORMAL)
+        return
+      }
+      for (const directory of removed) prompts.log.success(`Removed ${directory}`)
+    })
+  },
+})
+
+function formatWorktreeTable(worktrees: Worktree.Info[]): string {
+  const lines: string[] = []
+
+  const maxIdWidth = Math.max(20, ...worktrees.map((w) => w.sessionID.length))
+  const maxBranchWidth = Math.max(6, ...worktrees.map((w) => w.branch.length))
+  const maxTitleWidth = Math.max(25, ...worktrees.map((w) => Math.min(w.title.length, 40)))
+
+  const header = `Session ID${" ".repeat(maxIdWidth - 10)}  Branch${" ".repeat(maxBranchWidth - 6)}  Title${" ".repeat(maxTitleWidth - 5)}  Changes`
+  lines.push(header)
+  lines.push("─".repeat(header.length))
+  for (const worktree of worktrees) {
+    const title = Locale.truncate(worktree.title, maxTitleWidth)
+    const changes = worktree.exists ? String(worktree.changes) : "missing"
+    lines.push(
+      `${worktree.sessionID.padEnd(maxIdWidth)}  ${worktree.branch.padEnd(maxBranchWidth)}  ${title.padEnd(maxTitleWidth)}  ${changes}`,
+    )
+  }
+
+  return lines.join(EOL)
+}
@@ -4,6 +4,7 @@ import z from "zod"
 import { Config } from "../config/config"
 import { Instance } from "../project/instance"
 import { Identifier } from "../id/id"
+import { MCP } from "../mcp"
 import PROMPT_INITIALIZE from "./template/initialize.txt"
 import PROMPT_REVIEW from "./template/review.txt"
 
@@ -28,6 +29,9 @@ export namespace Command {
       model: z.string().optional(),
       template: z.string(),
       subtask: z.boolean().optional(),
+      // prompts of MCP servers, rendered by the server when the command runs
+      mcp: z.boolean().optional(),
+      arguments: MCP.Prompt.shape.arguments,
     })
     .meta({
       ref: "Command",
@@ -70,11 +74,70 @@ export namespace Command {
     return result
   })
 
+  // prompts of the connected MCP servers, listed again when a server connects or goes away
+  const mcp = Instance.state(() => ({
+    clients: {} as Awaited<ReturnType<typeof MCP.clients>>,
+    prompts: undefined as ReturnType<typeof MCP.prompts> | undefined,
+  }))
+
+  async function prompts() {
+    const s = mcp()
+    const clients = await MCP.clients()
+    const names = Object.keys(clients)
+    const changed =
+      names.length !== Object.keys(s.clients).length || names.some((name) => clients[name] !== s.clients[name])
+    if (!s.prompts || changed) {
+      s.clients = { ...clients }
+      s.prompts = MCP.prompts()
+    }
+    return s.prompts
+  }
+
+  function info(name: string, prompt: MCP.Prompt): Info {
+    return {
+      name,
+      description: prompt.description,
+      template: "",
+      mcp: true,
+      arguments: prompt.arguments,
+    }
+  }
+
   export async function get(name: string) {
-    return state().then((x) => x[name])
+    const command = await state().then((x) => x[name])
+    if (command) return command
+    const prompt = await prompts().then((x) => x[name])
+    return prompt && info(name, prompt)
   }
 
   export async function list() {
-    return state().then((x) => Object.values(x))
+    const commands = await state()
+    const mcp = Object.entries(await prompts()).map(([name, prompt]) => info(name, prompt))
+    return [...Object.values(commands), ...mcp.filter((x) => !commands[x.name])]
+  }
+
+  /**
+   * Render an MCP prompt through its server. Positional arguments fill the
+   * declared arguments in order and the last one takes whatever is left.
+   */
+  export async function render(name: string, args: string[]) {
+    const prompt = await prompts().then((x) => x[name])
+    if (!prompt) throw new Error(`MCP prompt ${name} not found`)
+    const declared = prompt.arguments ?? []
+    const values: Record<string, string> = {}
+    declared.forEach((argument, index) => {
+      const value = index === declared.length - 1 ? args.slice(index).join(" ") : args[index]
+      // optional arguments left empty are passed as ""
+      if (value) values[argument.name] = value
+    })
+    const result = await MCP.getPrompt(prompt.client, prompt.name, values)
+    return result.messages
+      .flatMap((message) => {
+        const content = message.content
+        if (content.type === "text") return [content.text]
+        if (content.type === "resource" && typeof content.resource.text === "string") return [content.resource.text]
+        return []
+      })
+      .join("\n\n")
   }
 }
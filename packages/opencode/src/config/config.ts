@@ -4,6 +4,7 @@ import { pathToFileURL } from "url"
 import os from "os"
 import z from "zod"
 import { Filesystem } from "../util/filesystem"
+import { Cron } from "../util/cron"
 import { ModelsDev } from "../provider/models"
 import { mergeDeep, pipe, unique } from "remeda"
 import { Global } from "../global"
@@ -380,6 +381,11 @@ export namespace Config {
   export const Permission = z.enum(["ask", "allow", "deny"])
   export type Permission = z.infer<typeof Permission>
 
+  export const EditPermission = z
+    .enum([...Permission.options, "review"])
+    .describe("'review' holds edits as hunks to accept, reject or comment on before they are written")
+  export type EditPermission = z.infer<typeof EditPermission>
+
   export const Command = z.object({
     template: z.string(),
     description: z.string().optional(),
@@ -389,9 +395,79 @@ export namespace Config {
   })
   export type Command = z.infer<typeof Command>
 
+  export const Hook = z
+    .object({
+      command: z.string().array(),
+      environment: z.record(z.string(), z.string()).optional(),
+      timeout: z
+        .number()
+        .int()
+        .positive()
+        .optional()
+        .describe("Milliseconds before the command is stopped and counted as failed, defaults to 60000"),
+    })
+    .meta({
+      ref: "HookConfig",
+    })
+  export type Hook = z.infer<typeof Hook>
+
+  export const Verify = z
+    .object({
+      command: z
+        .string()
+        .array()
+        .describe("Command to run, an argument of `$FILES` is replaced with the changed files that match `files`"),
+      files: z
+        .string()
+        .array()
+        .optional()
+        .describe("Globs relative to the worktree, the check only runs when a changed file matches one of them"),
+      environment: z.record(z.string(), z.string()).optional(),
+      timeout: z
+        .number()
+        .int()
+        .positive()
+        .optional()
+        .describe("Milliseconds before the command is stopped and counted as failed, defaults to 120000"),
+      disabled: z.boolean().optional(),
+    })
+    .meta({
+      ref: "VerifyConfig",
+    })
+  export type Verify = z.infer<typeof Verify>
+
+  export const Schedule = z
+    .object({
+      cron: z
+        .string()
+        .refine(Cron.valid, "Invalid cron expression")
+        .describe("Five field cron expression in local time, or an alias like @hourly or @daily"),
+      prompt: z.string().optional().describe("Prompt to send, mutually exclusive with command"),
+      command: z.string().optional().describe("Command to run instead of a prompt"),
+      arguments: z.string().optional().describe("Arguments passed to the command"),
+      agent: z.string().optional().describe("Agent to run the job with, defaults to build"),
+      model: z.string().optional().describe("Model to use in the format of provider/model"),
+      directory: z
+        .string()
+        .optional()
+        .describe("Project directory to run in, relative paths resolve against the directory the server runs in"),
+      title: z.string().optional().describe("Title of the sessions the job creates"),
+      disabled: z.boolean().optional(),
+    })
+    .refine((x) => !!x.prompt !== !!x.command, "Set either prompt or command")
+    .meta({
+      ref: "ScheduleConfig",
+    })
+  export type Schedule = z.infer<typeof Schedule>
+
   export const Agent = z
     .object({
-      model: z.string().optional(),
+      model: z
+        .union([z.string(), z.string().array().min(1)])
+        .optional()
+        .describe(
+          "Model to use in the format of provider/model, or a list of models to fall back to in order on rate limit, overload or context length errors",
+        ),
       temperature: z.number().optional(),
       top_p: z.number().optional(),
       prompt: z.string().optional(),
@@ -412,7 +488,7 @@ export namespace Config {
         .describe("Maximum number of agentic iterations before forcing text-only response"),
       permission: z
         .object({
-          edit: Permission.optional(),
+          edit: EditPermission.optional(),
           bash: z.union([Permission, z.record(z.string(), Permission)]).optional(),
           webfetch: Permission.optional(),
           doom_loop: Permission.optional(),
@@ -587,6 +663,24 @@ export namespace Config {
   })
   export type Layout = z.infer<typeof Layout>
 
+  export const ShareMode = z.enum(["manual", "auto", "disabled"]).meta({
+    ref: "ShareMode",
+  })
+  export type ShareMode = z.infer<typeof ShareMode>
+
+  export const Share = z
+    .object({
+      mode: ShareMode.optional(),
+      url: z.string().optional().describe("URL of the share server, eg a self-hosted one"),
+      token: z.string().optional().describe("Token sent to the share server as a bearer token"),
+      expires: z.number().positive().optional().describe("Days after which shared sessions are removed"),
+      password: z.string().optional().describe("Password required to view shared sessions"),
+    })
+    .meta({
+      ref: "ShareConfig",
+    })
+  export type Share = z.infer<typeof Share>
+
   export const Provider = ModelsDev.Provider.partial()
     .extend({
       whitelist: z.array(z.string()).optional(),
@@ -639,9 +733,37 @@ export namespace Config {
         })
         .optional(),
       plugin: z.string().array().optional(),
-      snapshot: z.boolean().optional(),
+      snapshot: z
+        .union([
+          z.boolean(),
+          z.object({
+            exclude: z
+              .array(z.string())
+              .optional()
+              .describe("Gitignore style patterns of files to leave out of snapshots, eg binary assets"),
+            max_file_size: z
+              .number()
+              .int()
+              .positive()
+              .optional()
+              .describe("Leave files larger than this many bytes out of snapshots"),
+            max_age: z
+              .number()
+              .positive()
+              .optional()
+              .describe("Days to keep snapshots of session steps. Checkpoints are always kept"),
+            max_size: z
+              .number()
+              .positive()
+              .optional()
+              .describe("Megabytes the snapshots of a project may use before the oldest ones are dropped"),
+            gc: z.boolean().optional().describe("Collect unused snapshots when a session is deleted. Defaults to true"),
+          }),
+        ])
+        .optional()
+        .describe("Track file changes of each step so they can be reverted. Set to false to disable"),
       share: z
-        .enum(["manual", "auto", "disabled"])
+        .union([ShareMode, Share])
         .optional()
         .describe(
           "Control sharing behavior:'manual' allows manual sharing via commands, 'auto' enables automatic sharing, 'disabled' disables all sharing",
@@ -753,14 +875,93 @@ export namespace Config {
       layout: Layout.optional().describe("@deprecated Always uses stretch layout."),
       permission: z
         .object({
-          edit: Permission.optional(),
+          edit: EditPermission.optional(),
           bash: z.union([Permission, z.record(z.string(), Permission)]).optional(),
           webfetch: Permission.optional(),
           doom_loop: Permission.optional(),
           external_directory: Permission.optional(),
+          remember: z
+            .enum(["project", "global"])
+            .optional()
+            .describe(
+              "Persist 'always' permission answers as rules for the current project or globally, instead of only for the session",
+            ),
         })
         .optional(),
       tools: z.record(z.string(), z.boolean()).optional(),
+      sandbox: z
+        .object({
+          mode: z
+            .enum(["off", "auto", "bwrap"])
+            .optional()
+            .describe(
+              "Run bash tool commands in a sandbox. 'auto' uses bubblewrap when available and falls back to running unsandboxed, 'bwrap' requires bubblewrap. Defaults to 'off'",
+            ),
+          network: z.boolean().optional().describe("Allow network access from sandboxed commands. Defaults to true"),
+          writable: z
+            .array(z.string())
+            .optional()
+            .describe("Additional absolute paths sandboxed commands may write to, besides the worktree and temp dir"),
+        })
+        .optional()
+        .describe("Sandbox settings for the bash tool"),
+      compaction: z
+        .object({
+          review: z
+            .boolean()
+            .optional()
+            .describe(
+              "Hold compaction summaries as drafts until they are reviewed and committed, instead of applying them right away",
+            ),
+        })
+        .optional(),
+      budget: z
+        .object({
+          session: z.number().positive().optional().describe("Maximum spend in USD for a single session"),
+          agent: z
+            .record(z.string(), z.number().positive())
+            .optional()
+            .describe("Maximum spend in USD within a single session for each agent"),
+          daily: z.number().positive().optional().describe("Maximum spend in USD per project per day"),
+          warn: z
+            .number()
+            .min(0)
+            .max(1)
+            .optional()
+            .describe("Fraction of a limit at which to warn, defaults to 0.8"),
+        })
+        .optional()
+        .describe("Spend limits that stop the agent loop once reached"),
+      subagent: z
+        .object({
+          concurrency: z
+            .number()
+            .int()
+            .positive()
+            .optional()
+            .describe("Maximum number of subagents a session runs at once, others wait for a free slot"),
+        })
+        .optional()
+        .describe("Subagent settings"),
+      verify: z
+        .object({
+          check: z
+            .record(z.string(), Verify)
+            .optional()
+            .describe("Check commands keyed by name, eg typecheck, lint or test"),
+          max_iterations: z
+            .number()
+            .int()
+            .min(0)
+            .optional()
+            .describe("Maximum number of times failures are sent back to the agent in one turn, defaults to 3"),
+        })
+        .optional()
+        .describe("Checks that run after each step that changed files, failures are sent back to the agent to fix"),
+      schedule: z
+        .record(z.string(), Schedule)
+        .optional()
+        .describe("Recurring jobs keyed by id that `serve` runs headlessly"),
       enterprise: z
         .object({
           url: z.string().optional().describe("Enterprise URL"),
@@ -771,28 +972,37 @@ export namespace Config {
           hook: z
             .object({
               file_edited: z
-                .record(
-                  z.string(),
-                  z
-                    .object({
-                      command: z.string().array(),
-                      environment: z.record(z.string(), z.string()).optional(),
-                    })
-                    .array(),
-                )
-                .optional(),
-              session_completed: z
-                .object({
-                  command: z.string().array(),
-                  environment: z.record(z.string(), z.string()).optional(),
-                })
-                .array()
-                .optional(),
+                .record(z.string(), Hook.array())
+                .optional()
+                .describe("Commands keyed by glob of the edited file, failures are reported to the agent"),
+              session_completed: Hook.array().optional().describe("Commands run when a session goes idle"),
+              pre_tool: z
+                .record(z.string(), Hook.array())
+                .optional()
+                .describe("Commands keyed by tool name pattern, a non-zero exit blocks the tool call"),
+              post_tool: z
+                .record(z.string(), Hook.array())
+                .optional()
+                .describe("Commands keyed by tool name pattern, failures are added to the tool output"),
+              pre_prompt: Hook.array().optional().describe("Commands run before a prompt, a non-zero exit rejects it"),
+              permission_asked: Hook.array()
+                .optional()
+                .describe("Commands run when a permission is asked, printing allow or deny answers it"),
             })
             .optional(),
           chatMaxRetries: z.number().optional().describe("Number of retries for chat completions on failure"),
           disable_paste_summary: z.boolean().optional(),
           batch_tool: z.boolean().optional().describe("Enable the batch tool"),
+          edit_tool: z
+            .enum(["auto", "edit", "patch"])
+            .optional()
+            .describe(
+              "Which file editing tools to expose: 'edit' for string replacement (edit, multiedit), 'patch' for apply_patch style edits, or 'auto' to pick per model (default)",
+            ),
+          lsp_tool: z
+            .boolean()
+            .optional()
+            .describe("Enable the language server tools (diagnostics, hover, definition, references, rename, ...)"),
           openTelemetry: z
             .boolean()
             .optional()
@@ -967,6 +1177,12 @@ export namespace Config {
     }),
   )
 
+  /** The share settings with the shorthand `"share": "auto"` expanded to an object. */
+  export function share(config: Info): Share {
+    if (typeof config.share === "object") return config.share
+    return { mode: config.share }
+  }
+
   export async function get() {
     return state().then((x) => x.config)
   }
@@ -15,6 +15,7 @@ export namespace Flag {
   export const OPENCODE_DISABLE_MODELS_FETCH = truthy("OPENCODE_DISABLE_MODELS_FETCH")
   export const OPENCODE_FAKE_VCS = process.env["OPENCODE_FAKE_VCS"]
   export const OPENCODE_CLIENT = process.env["OPENCODE_CLIENT"] ?? "cli"
+  export const OPENCODE_STORAGE = process.env["OPENCODE_STORAGE"]
 
   // Experimental
   export const OPENCODE_EXPERIMENTAL = truthy("OPENCODE_EXPERIMENTAL")
@@ -30,6 +31,7 @@ export namespace Flag {
   export const OPENCODE_EXPERIMENTAL_OUTPUT_TOKEN_MAX = number("OPENCODE_EXPERIMENTAL_OUTPUT_TOKEN_MAX")
   export const OPENCODE_EXPERIMENTAL_OXFMT = OPENCODE_EXPERIMENTAL || truthy("OPENCODE_EXPERIMENTAL_OXFMT")
   export const OPENCODE_EXPERIMENTAL_LSP_TY = truthy("OPENCODE_EXPERIMENTAL_LSP_TY")
+  export const OPENCODE_EXPERIMENTAL_LLM_RECORD = process.env["OPENCODE_EXPERIMENTAL_LLM_RECORD"]
 
   // SWORDSMITH_ prefixed flags with OPENCODE_ fallback for backwards compatibility
   export const SWORDSMITH_AUTO_SHARE = truthy("SWORDSMITH_AUTO_SHARE") || OPENCODE_AUTO_SHARE
@@ -54,6 +56,7 @@ export namespace Flag {
     truthy("SWORDSMITH_DISABLE_MODELS_FETCH") || OPENCODE_DISABLE_MODELS_FETCH
   export const SWORDSMITH_FAKE_VCS = process.env["SWORDSMITH_FAKE_VCS"] ?? OPENCODE_FAKE_VCS
   export const SWORDSMITH_CLIENT = process.env["SWORDSMITH_CLIENT"] ?? OPENCODE_CLIENT
+  export const SWORDSMITH_STORAGE = process.env["SWORDSMITH_STORAGE"] ?? OPENCODE_STORAGE
 
   // SWORDSMITH_ Experimental flags with OPENCODE_ fallback
   export const SWORDSMITH_EXPERIMENTAL = truthy("SWORDSMITH_EXPERIMENTAL") || OPENCODE_EXPERIMENTAL
@@ -80,6 +83,8 @@ export namespace Flag {
     SWORDSMITH_EXPERIMENTAL || truthy("SWORDSMITH_EXPERIMENTAL_OXFMT") || OPENCODE_EXPERIMENTAL_OXFMT
   export const SWORDSMITH_EXPERIMENTAL_LSP_TY =
     truthy("SWORDSMITH_EXPERIMENTAL_LSP_TY") || OPENCODE_EXPERIMENTAL_LSP_TY
+  export const SWORDSMITH_EXPERIMENTAL_LLM_RECORD =
+    process.env["SWORDSMITH_EXPERIMENTAL_LLM_RECORD"] ?? OPENCODE_EXPERIMENTAL_LLM_RECORD
 
   function truthy(key: string) {
     const value = process.env[key]?.toLowerCase()
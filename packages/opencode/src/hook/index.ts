@@ -0,0 +1,256 @@
+import z from "zod"
+import path from "path"
+import { diffLines } from "diff"
+import { Config } from "../config/config"
+import { Instance } from "../project/instance"
+import { NamedError } from "@opencode-ai/util/error"
+import { Log } from "../util/log"
+import { Shell } from "../shell/shell"
+import { Wildcard } from "../util/wildcard"
+
+/**
+ * Shell commands from `experimental.hook` that run on agent lifecycle events.
+ * Every hook gets the event as JSON on stdin and the most useful fields as
+ * OPENCODE_* environment variables.
+ */
+export namespace Hook {
+  const log = Log.create({ service: "hook" })
+
+  const TIMEOUT = 60_000
+
+  export const SessionCompleted = z
+    .object({
+      event: z.literal("session_completed"),
+      sessionID: z.string(),
+      directory: z.string(),
+      title: z.string(),
+      status: z.enum(["completed", "error"]),
+      error: z.string().optional(),
+      job: z.string().optional().describe("Id of the scheduled job that started the session"),
+    })
+    .meta({
+      ref: "HookSessionCompleted",
+    })
+  export type SessionCompleted = z.infer<typeof SessionCompleted>
+
+  /** Thrown by a tool call that a pre_tool hook blocked, the message is what the agent sees. */
+  export class BlockedError extends Error {
+    constructor(
+      public readonly tool: string,
+      public readonly failures: Failure[],
+    ) {
+      super(`The ${tool} call was blocked by a hook.` + format("pre_tool", failures))
+    }
+  }
+
+  export const PromptRejectedError = NamedError.create(
+    "HookPromptRejectedError",
+    z.object({
+      message: z.string(),
+    }),
+  )
+
+  export type Failure = {
+    command: string[]
+    code: number | null
+    output: string
+  }
+
+  type Result = {
+    failures: Failure[]
+    stdout: string[]
+  }
+
+  async function execute(hooks: Config.Hook[], payload: Record<string, unknown>, env: Record<string, string>) {
+    const result: Result = { failures: [], stdout: [] }
+    for (const hook of hooks) {
+      if (hook.command.length === 0) continue
+      log.info("running", { command: hook.command, event: payload.event })
+      const proc = (() => {
+        try {
+          return Bun.spawn(hook.command, {
+            cwd: Instance.directory,
+            env: {
+              ...process.env,
+              ...env,
+              ...hook.environment,
+            },
+            stdin: new Blob([JSON.stringify(payload)]),
+            stdout: "pipe",
+            stderr: "pipe",
+            // own process group, so a timeout also stops the commands the hook started
+            detached: process.platform !== "win32",
+          })
+        } catch (e) {
+          // a missing executable fails the hook instead of the event that ran it
+          const output = e instanceof Error ? e.message : String(e)
+          log.error("failed", { command: hook.command, output })
+          result.failures.push({ command: hook.command, code: null, output })
+        }
+      })()
+      if (!proc) continue
+      let timedOut = false
+      const timer = setTimeout(() => {
+        timedOut = true
+        void Shell.killTree(proc)
+      }, hook.timeout ?? TIMEOUT)
+      const [stdout, stderr] = await Promise.all([
+        new Response(proc.stdout).text(),
+        new Response(proc.stderr).text(),
+        proc.exited,
+      ]).finally(() => clearTimeout(timer))
+      const code = timedOut ? null : proc.exitCode
+      if (code === 0) {
+        result.stdout.push(stdout)
+        continue
+      }
+      const output = timedOut ? `timed out after ${hook.timeout ?? TIMEOUT}ms` : [stdout, stderr].join("\n").trim()
+      log.error("failed", { command: hook.command, code, output })
+      result.failures.push({ command: hook.command, code, output })
+    }
+    return result
+  }
+
+  /** Failures formatted for the agent, empty when all hooks passed. */
+  export function format(event: string, failures: Failure[]) {
+    return failures
+      .map(
+        (failure) =>
+          `\n\n<hook_failure event="${event}" command="${failure.command.join(" ")}" exit_code="${failure.code ?? "timeout"}">\n${failure.output}\n</hook_failure>`,
+      )
+      .join("")
+  }
+
+  function matching(hooks: Record<string, Config.Hook[]> | undefined, match: (pattern: string) => boolean) {
+    return Object.entries(hooks ?? {}).flatMap(([pattern, list]) => (match(pattern) ? list : []))
+  }
+
+  async function config() {
+    return (await Config.get()).experimental?.hook ?? {}
+  }
+
+  /**
+   * Run the file_edited hooks whose glob matches the file, relative to the
+   * worktree or by name. Returns the failures formatted for the tool output.
+   */
+  export async function fileEdited(input: { sessionID: string; file: string; before: string; after: string }) {
+    const relative = path.relative(Instance.worktree, input.file)
+    const hooks = matching((await config()).file_edited, (pattern) => {
+      const glob = new Bun.Glob(pattern)
+      return glob.match(relative) || glob.match(path.basename(input.file))
+    })
+    if (hooks.length === 0) return ""
+    let additions = 0
+    let deletions = 0
+    for (const change of diffLines(input.before, input.after)) {
+      if (change.added) additions += change.count || 0
+      if (change.removed) deletions += change.count || 0
+    }
+    const result = await execute(
+      hooks,
+      { event: "file_edited", sessionID: input.sessionID, file: input.file, additions, deletions },
+      {
+        OPENCODE_SESSION_ID: input.sessionID,
+        OPENCODE_FILE: input.file,
+        OPENCODE_ADDITIONS: String(additions),
+        OPENCODE_DELETIONS: String(deletions),
+      },
+    )
+    return format("file_edited", result.failures)
+  }
+
+  /** Run the pre_tool hooks of the tool, any failure blocks the call. */
+  export async function preTool(input: { sessionID: string; callID: string; tool: string; args: unknown }) {
+    const hooks = matching((await config()).pre_tool, (pattern) => Wildcard.match(input.tool, pattern))
+    if (hooks.length === 0) return
+    const result = await execute(hooks, { event: "pre_tool", ...input }, env(input))
+    if (result.failures.length === 0) return
+    throw new BlockedError(input.tool, result.failures)
+  }
+
+  /** Run the post_tool hooks of the tool. Returns the failures formatted for the tool output. */
+  export async function postTool(input: {
+    sessionID: string
+    callID: string
+    tool: string
+    args: unknown
+    output: string
+  }) {
+    const hooks = matching((await config()).post_tool, (pattern) => Wildcard.match(input.tool, pattern))
+    if (hooks.length === 0) return ""
+    const result = await execute(hooks, { event: "post_tool", ...input }, env(input))
+    return format("post_tool", result.failures)
+  }
+
+  function env(input: { sessionID: string; callID: string; tool: string }) {
+    return {
+      OPENCODE_SESSION_ID: input.sessionID,
+      OPENCODE_TOOL: input.tool,
+      OPENCODE_CALL_ID: input.callID,
+    }
+  }
+
+  /** Run the pre_prompt hooks, any failure rejects the prompt. */
+  export async function prePrompt(input: { sessionID: string; agent?: string; text: string }) {
+    const hooks = (await config()).pre_prompt ?? []
+    if (hooks.length === 0) return
+    const result = await execute(hooks, { event: "pre_prompt", ...input }, { OPENCODE_SESSION_ID: input.sessionID })
+    if (result.failures.length === 0) return
+    throw new PromptRejectedError({
+      message: result.failures.map((failure) => failure.output).join("\n") || "The prompt was rejected by a hook",
+    })
+  }
+
+  /**
+   * Run the permission_asked hooks. A hook that prints `allow` or `deny`
+   * answers the request, otherwise the user is asked as usual.
+   */
+  export async function permissionAsked(input: {
+    sessionID: string
+    permissionID: string
+    type: string
+    title: string
+    pattern?: string | string[]
+    metadata: Record<string, any>
+  }) {
+    const hooks = (await config()).permission_asked ?? []
+    if (hooks.length === 0) return
+    const result = await execute(
+      hooks,
+      { event: "permission_asked", ...input },
+      { OPENCODE_SESSION_ID: input.sessionID, OPENCODE_PERMISSION_TYPE: input.type },
+    )
+    const answers = result.stdout.map((x) => x.trim())
+    if (answers.includes("deny")) return "deny" as const
+    if (answers.includes("allow")) return "allow" as const
+  }
+
+  // sessions whose session_completed hooks are run by whoever started them, eg a scheduled job
+  const claimed = Instance.state(() => new Set<string>())
+
+  export function claim(sessionID: string) {
+    claimed().add(sessionID)
+    return () => claimed().delete(sessionID)
+  }
+
+  export function isClaimed(sessionID: string) {
+    return claimed().has(sessionID)
+  }
+
+  /**
+   * Run the configured session_completed hooks. The payload is written to
+   * stdin as JSON and the ids are exposed as environment variables.
+   */
+  export async function sessionCompleted(payload: Omit<SessionCompleted, "event">) {
+    const hooks = (await config()).session_completed ?? []
+    if (hooks.length === 0) return
+    await execute(
+      hooks,
+      { event: "session_completed", ...payload },
+      {
+        OPENCODE_SESSION_ID: payload.sessionID,
+        ...(payload.job ? { OPENCODE_SCHEDULE_JOB: payload.job } : {}),
+      },
+    ).catch((e) => log.error("failed", { error: e }))
+  }
+}
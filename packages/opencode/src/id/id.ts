@@ -9,6 +9,10 @@ export namespace Identifier {
     user: "usr",
     part: "prt",
     pty: "pty",
+    rule: "rul",
+    queue: "que",
+    checkpoint: "chk",
+    review: "rev",
   } as const
 
   export function schema(prefix: keyof typeof prefixes) {
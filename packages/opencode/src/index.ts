@@ -27,6 +27,10 @@ import { EOL } from "os"
 import { WebCommand } from "./cli/cmd/web"
 import { PrCommand } from "./cli/cmd/pr"
 import { SessionCommand } from "./cli/cmd/session"
+import { PermissionCommand } from "./cli/cmd/permission"
+import { WorktreeCommand } from "./cli/cmd/worktree"
+import { ScheduleCommand } from "./cli/cmd/schedule"
+import { SnapshotCommand } from "./cli/cmd/snapshot"
 
 process.on("unhandledRejection", (e) => {
   Log.Default.error("rejection", {
@@ -98,6 +102,10 @@ const cli = yargs(hideBin(process.argv))
   .command(GithubCommand)
   .command(PrCommand)
   .command(SessionCommand)
+  .command(PermissionCommand)
+  .command(WorktreeCommand)
+  .command(ScheduleCommand)
+  .command(SnapshotCommand)
   .fail((msg) => {
     if (
       msg.startsWith("Unknown argument") ||
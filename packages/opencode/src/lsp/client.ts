@@ -98,6 +98,9 @@ export namespace LSPClient {
           },
           workspace: {
             configuration: true,
+            workspaceEdit: {
+              documentChanges: true,
+            },
           },
           textDocument: {
             synchronization: {
@@ -107,6 +110,17 @@ export namespace LSPClient {
             publishDiagnostics: {
               versionSupport: true,
             },
+            definition: {
+              linkSupport: true,
+            },
+            implementation: {
+              linkSupport: true,
+            },
+            references: {},
+            callHierarchy: {},
+            rename: {
+              prepareSupport: false,
+            },
           },
         },
       }),
@@ -3,13 +3,14 @@ import { Bus } from "@/bus"
 import { Log } from "../util/log"
 import { LSPClient } from "./client"
 import path from "path"
-import { pathToFileURL } from "url"
+import { pathToFileURL, fileURLToPath } from "url"
 import { LSPServer } from "./server"
 import z from "zod"
 import { Config } from "../config/config"
 import { spawn } from "child_process"
 import { Instance } from "../project/instance"
 import { Flag } from "@/flag/flag"
+import type * as LSPTypes from "vscode-languageserver-types"
 
 export namespace LSP {
   const log = Log.create({ service: "lsp" })
@@ -48,6 +49,48 @@ export namespace LSP {
     })
   export type Symbol = z.infer<typeof Symbol>
 
+  export const Location = z
+    .object({
+      uri: z.string(),
+      range: Range,
+    })
+    .meta({
+      ref: "LSPLocation",
+    })
+  export type Location = z.infer<typeof Location>
+
+  export const CallHierarchyItem = z
+    .object({
+      name: z.string(),
+      kind: z.number(),
+      detail: z.string().optional(),
+      uri: z.string(),
+      range: Range,
+      selectionRange: Range,
+    })
+    .meta({
+      ref: "CallHierarchyItem",
+    })
+  export type CallHierarchyItem = z.infer<typeof CallHierarchyItem>
+
+  export const CallHierarchyCall = z
+    .object({
+      item: CallHierarchyItem,
+      ranges: Range.array(),
+    })
+    .meta({
+      ref: "CallHierarchyCall",
+    })
+  export type CallHierarchyCall = z.infer<typeof CallHierarchyCall>
+
+  export type WorkspaceEdit = LSPTypes.WorkspaceEdit
+
+  export interface Position {
+    file: string
+    line: number
+    character: number
+  }
+
   export const DocumentSymbol = z
     .object({
       name: z.string(),
@@ -289,7 +332,7 @@ export namespace LSP {
 
   export async function hover(input: { file: string; line: number; character: number }) {
     return run((client) => {
-      return client.connection.sendRequest("textDocument/hover", {
+      return client.connection.sendRequest<LSPTypes.Hover | null>("textDocument/hover", {
         textDocument: {
           uri: pathToFileURL(input.file).href,
         },
@@ -301,6 +344,112 @@ export namespace LSP {
     })
   }
 
+  function position(input: Position) {
+    return {
+      textDocument: {
+        uri: pathToFileURL(input.file).href,
+      },
+      position: {
+        line: input.line,
+        character: input.character,
+      },
+    }
+  }
+
+  async function locations(method: string, input: Position, params?: Record<string, unknown>) {
+    const results = await runFor(input.file, (client) =>
+      client.connection
+        .sendRequest<LSPTypes.Location | LSPTypes.Location[] | LSPTypes.LocationLink[] | null>(method, {
+          ...position(input),
+          ...params,
+        })
+        .catch(() => null),
+    )
+    const seen = new Set<string>()
+    const result: Location[] = []
+    for (const item of results.flat()) {
+      if (!item) continue
+      const location =
+        "targetUri" in item ? { uri: item.targetUri, range: item.targetSelectionRange ?? item.targetRange } : item
+      const key = `${location.uri}:${location.range.start.line}:${location.range.start.character}`
+      if (seen.has(key)) continue
+      seen.add(key)
+      result.push({ uri: location.uri, range: location.range })
+    }
+    return result
+  }
+
+  export async function definition(input: Position) {
+    return locations("textDocument/definition", input)
+  }
+
+  export async function implementation(input: Position) {
+    return locations("textDocument/implementation", input)
+  }
+
+  export async function references(input: Position & { declaration?: boolean }) {
+    return locations("textDocument/references", input, {
+      context: {
+        includeDeclaration: input.declaration ?? true,
+      },
+    })
+  }
+
+  export async function callHierarchy(input: Position & { direction: "incoming" | "outgoing" }) {
+    const calls = await runFor(input.file, async (client) => {
+      const items = await client.connection
+        .sendRequest<LSPTypes.CallHierarchyItem[] | null>("textDocument/prepareCallHierarchy", position(input))
+        .catch(() => null)
+      if (!items?.length) return []
+      const result: CallHierarchyCall[] = []
+      for (const item of items) {
+        if (input.direction === "incoming") {
+          const incoming = await client.connection
+            .sendRequest<LSPTypes.CallHierarchyIncomingCall[] | null>("callHierarchy/incomingCalls", { item })
+            .catch(() => null)
+          for (const call of incoming ?? []) result.push({ item: hierarchyItem(call.from), ranges: call.fromRanges })
+          continue
+        }
+        const outgoing = await client.connection
+          .sendRequest<LSPTypes.CallHierarchyOutgoingCall[] | null>("callHierarchy/outgoingCalls", { item })
+          .catch(() => null)
+        for (const call of outgoing ?? []) result.push({ item: hierarchyItem(call.to), ranges: call.fromRanges })
+      }
+      return result
+    })
+    return calls.flat()
+  }
+
+  function hierarchyItem(item: LSPTypes.CallHierarchyItem): CallHierarchyItem {
+    return {
+      name: item.name,
+      kind: item.kind,
+      detail: item.detail,
+      uri: item.uri,
+      range: item.range,
+      selectionRange: item.selectionRange,
+    }
+  }
+
+  /**
+   * Ask the language server for the edits needed to rename the symbol at a
+   * position. The edit is returned as-is; callers decide how to apply it.
+   */
+  export async function rename(input: Position & { newName: string }) {
+    const results = await runFor(input.file, (client) =>
+      client.connection
+        .sendRequest<LSPTypes.WorkspaceEdit | null>("textDocument/rename", {
+          ...position(input),
+          newName: input.newName,
+        })
+        .catch((err) => {
+          log.error("rename failed", { err, serverID: client.serverID })
+          return null
+        }),
+    )
+    return results.find((x) => x !== null)
+  }
+
   enum SymbolKind {
     File = 1,
     Module = 2,
@@ -373,6 +522,54 @@ export namespace LSP {
     return Promise.all(tasks)
   }
 
+  async function runFor<T>(file: string, input: (client: LSPClient.Info) => Promise<T>): Promise<T[]> {
+    const clients = await getClients(file)
+    return Promise.all(clients.map((x) => input(x)))
+  }
+
+  export namespace TextEdit {
+    /**
+     * Group the text edits of a workspace edit by absolute file path.
+     * Resource operations (create, rename, delete) are not supported.
+     */
+    export function group(edit: WorkspaceEdit) {
+      const result: Record<string, LSPTypes.TextEdit[]> = {}
+      for (const [uri, edits] of Object.entries(edit.changes ?? {})) {
+        const file = fileURLToPath(uri)
+        result[file] = [...(result[file] ?? []), ...edits]
+      }
+      for (const change of edit.documentChanges ?? []) {
+        if (!("textDocument" in change)) {
+          throw new Error(`Unsupported workspace edit operation: ${change.kind}`)
+        }
+        const file = fileURLToPath(change.textDocument.uri)
+        const edits = change.edits.filter((x): x is LSPTypes.TextEdit => "range" in x)
+        result[file] = [...(result[file] ?? []), ...edits]
+      }
+      return result
+    }
+
+    export function apply(text: string, edits: LSPTypes.TextEdit[]) {
+      const starts = [0]
+      for (let i = 0; i < text.length; i++) {
+        if (text[i] === "\n") starts.push(i + 1)
+      }
+      const offset = (pos: LSPTypes.Position) => {
+        const line = Math.min(pos.line, starts.length - 1)
+        const end = line + 1 < starts.length ? starts[line + 1] - 1 : text.length
+        return Math.min(starts[line] + pos.character, end)
+      }
+      const sorted = edits
+        .map((edit) => ({ start: offset(edit.range.start), end: offset(edit.range.end), text: edit.newText }))
+        .sort((a, b) => b.start - a.start || b.end - a.end)
+      let result = text
+      for (const edit of sorted) {
+        result = result.slice(0, edit.start) + edit.text + result.slice(edit.end)
+      }
+      return result
+    }
+  }
+
   export namespace Diagnostic {
     export function pretty(diagnostic: LSPClient.Diagnostic) {
       const severityMap = {
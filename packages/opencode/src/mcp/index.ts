@@ -413,6 +413,121 @@ export namespace MCP {
     return result
   }
 
+  export const Prompt = z
+    .object({
+      client: z.string(),
+      name: z.string(),
+      description: z.string().optional(),
+      arguments: z
+        .object({
+          name: z.string(),
+          description: z.string().optional(),
+          required: z.boolean().optional(),
+        })
+        .array()
+        .optional(),
+    })
+    .meta({
+      ref: "McpPrompt",
+    })
+  export type Prompt = z.infer<typeof Prompt>
+
+  export const Resource = z
+    .object({
+      client: z.string(),
+      name: z.string(),
+      uri: z.string(),
+      description: z.string().optional(),
+      mimeType: z.string().optional(),
+    })
+    .meta({
+      ref: "McpResource",
+    })
+  export type Resource = z.infer<typeof Resource>
+
+  export const ResourceContent = z
+    .object({
+      uri: z.string(),
+      mimeType: z.string().optional(),
+      text: z.string().optional(),
+      blob: z.string().optional(),
+    })
+    .meta({
+      ref: "McpResourceContent",
+    })
+  export type ResourceContent = z.infer<typeof ResourceContent>
+
+  async function connected() {
+    const s = await state()
+    return Object.entries(s.clients).filter(([name]) => s.status[name]?.status === "connected")
+  }
+
+  /**
+   * Prompts of every connected server, keyed by `client:prompt`. Servers
+   * without the prompts capability are skipped.
+   */
+  export async function prompts() {
+    const result: Record<string, Prompt> = {}
+    for (const [clientName, client] of await connected()) {
+      const list = await client.listPrompts().catch((e) => {
+        log.info("failed to list prompts", { clientName, error: e.message })
+      })
+      if (!list) continue
+      for (const prompt of list.prompts) {
+        const sanitizedClientName = clientName.replace(/[^a-zA-Z0-9_-]/g, "_")
+        result[sanitizedClientName + ":" + prompt.name] = {
+          client: clientName,
+          name: prompt.name,
+          description: prompt.description,
+          arguments: prompt.arguments?.map((x) => ({
+            name: x.name,
+            description: x.description,
+            required: x.required,
+          })),
+        }
+      }
+    }
+    return result
+  }
+
+  export async function getPrompt(clientName: string, name: string, args: Record<string, string>) {
+    const client = await clients().then((x) => x[clientName])
+    if (!client) throw new Error(`MCP server ${clientName} is not connected`)
+    return client.getPrompt({ name, arguments: args })
+  }
+
+  export async function resources() {
+    const result: Resource[] = []
+    for (const [clientName, client] of await connected()) {
+      const list = await client.listResources().catch((e) => {
+        log.info("failed to list resources", { clientName, error: e.message })
+      })
+      if (!list) continue
+      for (const resource of list.resources) {
+        result.push({
+          client: clientName,
+          name: resource.name,
+          uri: resource.uri,
+          description: resource.description,
+          mimeType: resource.mimeType,
+        })
+      }
+    }
+    return result
+  }
+
+  export async function readResource(clientName: string, uri: string): Promise<ResourceContent[]> {
+    const client = await clients().then((x) => x[clientName])
+    if (!client) throw new Error(`MCP server ${clientName} is not connected`)
+    const result = await client.readResource({ uri })
+    return result.contents.map((x) => ({
+      uri: x.uri,
+      mimeType: x.mimeType,
+      text: typeof x.text === "string" ? x.text : undefined,
+      blob: typeof x.blob === "string" ? x.blob : undefined,
+    }))
+  }
+
   /**
    * Start OAuth authentication flow for an MCP server.
    * Returns the authorization URL that should be opened in a browser.
@@ -6,6 +6,8 @@ import { Identifier } from "../id/id"
 import { Plugin } from "../plugin"
 import { Instance } from "../project/instance"
 import { Wildcard } from "../util/wildcard"
+import { PermissionRule } from "./rule"
+import { Hook } from "../hook"
 
 export namespace Permission {
   const log = Log.create({ service: "permission" })
@@ -105,6 +107,7 @@ export namespace Permission {
     const approvedForSession = approved[input.sessionID] || {}
     const keys = toKeys(input.pattern, input.type)
     if (covered(keys, approvedForSession)) return
+    if (await PermissionRule.covered(input.type, keys)) return
     const info: Info = {
       id: Identifier.ascending("permission"),
       type: input.type,
@@ -119,11 +122,21 @@ export namespace Permission {
       },
     }
 
-    switch (
-      await Plugin.trigger("permission.ask", info, {
-        status: "ask",
-      }).then((x) => x.status)
-    ) {
+    const status = await Plugin.trigger("permission.ask", info, {
+      status: "ask",
+    }).then((x) => x.status)
+    const answer =
+      status === "ask"
+        ? await Hook.permissionAsked({
+            sessionID: info.sessionID,
+            permissionID: info.id,
+            type: info.type,
+            title: info.title,
+            pattern: info.pattern,
+            metadata: info.metadata,
+          })
+        : status
+    switch (answer) {
       case "deny":
         throw new RejectedError(info.sessionID, info.id, info.callID, info.metadata)
       case "allow":
@@ -166,6 +179,9 @@ export namespace Permission {
       for (const k of approveKeys) {
         approved[input.sessionID][k] = true
       }
+      persist(match.info.type, approveKeys).catch((error) =>
+        log.error("failed to persist permission rules", { type: match.info.type, error }),
+      )
       const items = pending[input.sessionID]
       if (!items) return
       for (const item of Object.values(items)) {
@@ -181,6 +197,16 @@ export namespace Permission {
     }
   }
 
+  async function persist(type: string, keys: string[]) {
+    const scope = await PermissionRule.remember()
+    if (!scope) return
+    for (const pattern of keys) {
+      await PermissionRule.add({ type, pattern, scope }).catch((error) =>
+        log.error("failed to persist permission rule", { type, pattern, error }),
+      )
+    }
+  }
+
   export class RejectedError extends Error {
     constructor(
       public readonly sessionID: string,
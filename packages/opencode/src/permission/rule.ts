@@ -0,0 +1,149 @@
+import { BusEvent } from "@/bus/bus-event"
+import { Bus } from "@/bus"
+import z from "zod"
+import { Config } from "../config/config"
+import { Identifier } from "../id/id"
+import { Instance } from "../project/instance"
+import { Storage } from "../storage/storage"
+import { Log } from "../util/log"
+import { Wildcard } from "../util/wildcard"
+
+export namespace PermissionRule {
+  const log = Log.create({ service: "permission.rule" })
+
+  export const Scope = z.enum(["project", "global"])
+  export type Scope = z.infer<typeof Scope>
+
+  export const Info = z
+    .object({
+      id: z.string(),
+      type: z.string(),
+      pattern: z.string(),
+      scope: Scope,
+      projectID: z.string().optional(),
+      time: z.object({
+        created: z.number(),
+        updated: z.number(),
+      }),
+    })
+    .meta({
+      ref: "PermissionRule",
+    })
+  export type Info = z.infer<typeof Info>
+
+  export const Event = {
+    Updated: BusEvent.define("permission.rule.updated", z.object({ info: Info })),
+    Removed: BusEvent.define("permission.rule.removed", z.object({ info: Info })),
+  }
+
+  function key(scope: Scope, id?: string) {
+    const base = scope === "global" ? ["permission", "global"] : ["permission", "project", Instance.project.id]
+    return id ? [...base, id] : base
+  }
+
+  // rules per scope, read once and dropped when they change here, `covered` runs on every permission ask
+  const cache = new Map<string, Promise<Info[]>>()
+
+  function load(scope: Scope) {
+    const id = key(scope).join("/")
+    const existing = cache.get(id)
+    if (existing) return existing
+    const result = (async () => {
+      const rules: Info[] = []
+      for (const entry of await Storage.list(key(scope))) {
+        const rule = await Storage.read<Info>(entry).catch(() => undefined)
+        if (rule) rules.push(rule)
+      }
+      return rules
+    })()
+    cache.set(id, result)
+    result.catch(() => cache.delete(id))
+    return result
+  }
+
+  function invalidate(scope: Scope) {
+    cache.delete(key(scope).join("/"))
+  }
+
+  export async function list(scope?: Scope) {
+    const scopes = scope ? [scope] : Scope.options
+    const result: Info[] = []
+    for (const item of scopes) result.push(...(await load(item)))
+    return result.toSorted((a, b) => a.type.localeCompare(b.type) || a.pattern.localeCompare(b.pattern))
+  }
+
+  export async function get(id: string) {
+    for (const scope of Scope.options) {
+      const rule = await Storage.read<Info>(key(scope, id)).catch(() => undefined)
+      if (rule) return rule
+    }
+    throw new Storage.NotFoundError({ message: `Permission rule not found: ${id}` })
+  }
+
+  export async function add(input: { type: string; pattern: string; scope: Scope }) {
+    const existing = await list(input.scope).then((x) =>
+      x.find((rule) => rule.type === input.type && rule.pattern === input.pattern),
+    )
+    if (existing) return existing
+    const info: Info = {
+      id: Identifier.ascending("rule"),
+      type: input.type,
+      pattern: input.pattern,
+      scope: input.scope,
+      projectID: input.scope === "project" ? Instance.project.id : undefined,
+      time: {
+        created: Date.now(),
+        updated: Date.now(),
+      },
+    }
+    log.info("add", info)
+    await Storage.write(key(info.scope, info.id), info)
+    invalidate(info.scope)
+    Bus.publish(Event.Updated, { info })
+    return info
+  }
+
+  export async function update(input: { id: string; pattern?: string; scope?: Scope }) {
+    const rule = await get(input.id)
+    const next: Info = {
+      ...rule,
+      pattern: input.pattern ?? rule.pattern,
+      scope: input.scope ?? rule.scope,
+      projectID: (input.scope ?? rule.scope) === "project" ? Instance.project.id : undefined,
+      time: {
+        ...rule.time,
+        updated: Date.now(),
+      },
+    }
+    if (next.scope !== rule.scope) await Storage.remove(key(rule.scope, rule.id))
+    await Storage.write(key(next.scope, next.id), next)
+    invalidate(rule.scope)
+    invalidate(next.scope)
+    Bus.publish(Event.Updated, { info: next })
+    return next
+  }
+
+  export async function remove(id: string) {
+    const rule = await get(id)
+    log.info("remove", { id })
+    await Storage.remove(key(rule.scope, rule.id))
+    invalidate(rule.scope)
+    Bus.publish(Event.Removed, { info: rule })
+    return rule
+  }
+
+  /**
+   * Scope that "always" answers are persisted to, or undefined when
+   * persistence is not enabled in config.
+   */
+  export async function remember() {
+    const cfg = await Config.get()
+    return cfg.permission?.remember
+  }
+
+  export async function covered(type: string, keys: string[]) {
+    const rules = await list().then((x) => x.filter((rule) => rule.type === type))
+    if (rules.length === 0) return false
+    return keys.every((k) => rules.some((rule) => Wildcard.match(k, rule.pattern)))
+  }
+}
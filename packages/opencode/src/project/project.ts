@@ -1,6 +1,7 @@
 import z from "zod"
 import { Filesystem } from "../util/filesystem"
 import path from "path"
+import fs from "fs/promises"
 import { $ } from "bun"
 import { Storage } from "../storage/storage"
 import { Log } from "../util/log"
@@ -44,12 +45,25 @@ export namespace Project {
   export async function fromDirectory(directory: string) {
     log.info("fromDirectory", { directory })
 
-    const { id, worktree, vcs } = await iife(async () => {
+    const { id, worktree, vcs, main } = await iife(async () => {
       const matches = Filesystem.up({ targets: [".git"], start: directory })
-      const git = await matches.next().then((x) => x.value)
+      const found = await matches.next().then((x) => x.value)
       await matches.return()
-      if (git) {
-        let worktree = path.dirname(git)
+      if (found) {
+        let worktree = path.dirname(found)
+        // linked worktrees have a .git file, the id lives in the main repository
+        const linked = await fs
+          .stat(found)
+          .then((x) => x.isFile())
+          .catch(() => false)
+        const git = linked
+          ? await $`git rev-parse --git-common-dir`
+              .quiet()
+              .nothrow()
+              .cwd(worktree)
+              .text()
+              .then((x) => path.resolve(worktree, x.trim()))
+          : found
         let id = await Bun.file(path.join(git, "swordsmith-coder"))
           .text()
           .then((x) => x.trim())
@@ -75,13 +89,14 @@ export namespace Project {
                 .toSorted(),
             )
           id = roots[0]
-          if (id) Bun.file(path.join(git, "swordsmith-coder")).write(id)
+          if (id) await Bun.write(path.join(git, "swordsmith-coder"), id).catch(() => {})
         }
         if (!id)
           return {
             id: "global",
             worktree,
             vcs: "git",
+            main: worktree,
           }
         worktree = await $`git rev-parse --show-toplevel`
           .quiet()
@@ -89,13 +104,14 @@ export namespace Project {
           .cwd(worktree)
           .text()
           .then((x) => path.resolve(worktree, x.trim()))
-        return { id, worktree, vcs: "git" }
+        return { id, worktree, vcs: "git", main: linked ? path.dirname(git) : worktree }
       }
 
       return {
         id: "global",
         worktree: "/",
         vcs: Info.shape.vcs.parse(Flag.OPENCODE_FAKE_VCS),
+        main: "/",
       }
     })
 
@@ -103,7 +119,7 @@ export namespace Project {
     if (!existing) {
       existing = {
         id,
-        worktree,
+        worktree: main,
         vcs: vcs as Info["vcs"],
         time: {
           created: Date.now(),
@@ -111,13 +127,13 @@ export namespace Project {
         },
       }
       if (id !== "global") {
-        await migrateFromGlobal(id, worktree)
+        await migrateFromGlobal(id, main)
       }
     }
     if (Flag.OPENCODE_EXPERIMENTAL_ICON_DISCOVERY) discover(existing)
     const result: Info = {
       ...existing,
-      worktree,
+      worktree: main,
       vcs: vcs as Info["vcs"],
       time: {
         ...existing.time,
@@ -131,7 +147,8 @@ export namespace Project {
         properties: result,
       },
     })
-    return result
+    // instances inside a linked worktree are scoped to it, the stored project keeps the main checkout
+    return { ...result, worktree }
   }
 
   export async function discover(input: Info) {
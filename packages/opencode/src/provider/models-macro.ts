@@ -1,3 +1,5 @@
+import { Flag } from "../flag/flag"
+
 export async function data() {
   const path = Bun.env.MODELS_DEV_API_JSON
   if (path) {
@@ -6,6 +8,8 @@ export async function data() {
       return await file.text()
     }
   }
+  // offline builds fall back to an empty catalog
+  if (Flag.SWORDSMITH_DISABLE_MODELS_FETCH) return "{}"
   const json = await fetch("https://models.dev/api.json").then((x) => x.text())
   return json
 }
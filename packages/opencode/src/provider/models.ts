@@ -84,7 +84,7 @@ export namespace ModelsDev {
   }
 
   export async function refresh() {
-    if (Flag.OPENCODE_DISABLE_MODELS_FETCH) return
+    if (Flag.SWORDSMITH_DISABLE_MODELS_FETCH) return
     const file = Bun.file(filepath)
     log.info("refreshing", {
       file,
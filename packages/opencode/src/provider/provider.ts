@@ -15,12 +15,37 @@ import { Flag } from "../flag/flag"
 import { iife } from "@/util/iife"
 
 import { createOpenRouter, type LanguageModelV2 } from "@openrouter/ai-sdk-provider"
+import { createOpenaiCompatible, type OpenaiCompatibleProviderSettings } from "./sdk/openai-compatible/src"
+import { Recording } from "../session/recording"
 
 export namespace Provider {
   const log = Log.create({ service: "provider" })
 
+  // package of the `local` provider, served by the bundled openai compatible fork
+  const LOCAL_NPM = "@opencode-ai/local"
+
+  /**
+   * The `local` provider uses the openai compatible fork kept for Copilot so
+   * local servers work without installing packages, e.g. offline. Other
+   * providers keep using the upstream `@ai-sdk/openai-compatible` package.
+   */
+  function createLocal(options: OpenaiCompatibleProviderSettings): SDK {
+    const sdk = createOpenaiCompatible(options)
+    return {
+      languageModel: (modelId) => sdk.languageModel(modelId),
+      textEmbeddingModel: (modelId) => {
+        throw new NoSuchModelError({ modelId, modelType: "textEmbeddingModel" })
+      },
+      imageModel: (modelId) => {
+        throw new NoSuchModelError({ modelId, modelType: "imageModel" })
+      },
+    }
+  }
+
   const BUNDLED_PROVIDERS: Record<string, (options: any) => SDK> = {
     "@openrouter/ai-sdk-provider": createOpenRouter,
+    [LOCAL_NPM]: createLocal,
+    [Recording.NPM]: Recording.createPlayback,
   }
 
   type CustomModelLoader = (sdk: any, modelID: string, options?: Record<string, any>) => Promise<any>
@@ -44,6 +69,87 @@ export namespace Provider {
     },
   }
 
+  const LOCAL_BASE_URL = "http://127.0.0.1:8080/v1"
+
+  // catalog entry for models that only tell us their id
+  function textModel(id: string, context = 0): ModelsDev.Model {
+    return {
+      id,
+      name: id,
+      release_date: "",
+      attachment: false,
+      reasoning: false,
+      temperature: true,
+      tool_call: true,
+      limit: {
+        context,
+        output: 0,
+      },
+      modalities: {
+        input: ["text"],
+        output: ["text"],
+      },
+      options: {},
+    }
+  }
+
+  /**
+   * The `local` provider talks to an OpenAI compatible server such as
+   * llama.cpp, vLLM or Ollama. Its models come from the server's /models
+   * endpoint rather than models.dev, models in config override what the
+   * server reports.
+   */
+  async function local(provider: Config.Provider): Promise<ModelsDev.Provider> {
+    const api = provider.options?.baseURL ?? provider.api ?? LOCAL_BASE_URL
+    const url = api.replace(/\/+$/, "") + "/models"
+    const found = await fetch(url, {
+      headers: provider.options?.apiKey ? { Authorization: `Bearer ${provider.options.apiKey}` } : undefined,
+      signal: AbortSignal.timeout(3000),
+    })
+      .then(async (res) => {
+        if (!res.ok) throw new Error(`${res.status} ${res.statusText}`)
+        const body = (await res.json()) as { data?: { id: string; max_model_len?: number }[] }
+        return body.data ?? []
+      })
+      .catch((e) => {
+        log.warn("failed to discover local models", { url, error: e })
+        return []
+      })
+    log.info("discovered local models", { url, count: found.length })
+    const models: Record<string, ModelsDev.Model> = {}
+    for (const item of found) models[item.id] = textModel(item.id, item.max_model_len)
+    // keep configured models usable while the server is down
+    for (const [modelID, item] of Object.entries(provider.models ?? {})) {
+      const id = item.id ?? modelID
+      if (!models[id]) models[id] = textModel(id)
+    }
+    return {
+      id: "local",
+      name: "Local",
+      env: [],
+      api,
+      npm: LOCAL_NPM,
+      models,
+    }
+  }
+
+  /**
+   * The `playback` provider replays a recording made with
+   * OPENCODE_EXPERIMENTAL_LLM_RECORD, see Recording. It has a single
+   * `recording` model unless models are configured.
+   */
+  function playback(provider: Config.Provider): ModelsDev.Provider {
+    const ids = Object.entries(provider.models ?? {}).map(([modelID, item]) => item.id ?? modelID)
+    return {
+      id: Recording.PROVIDER,
+      name: "Playback",
+      env: [],
+      api: "",
+      npm: Recording.NPM,
+      models: Object.fromEntries((ids.length ? ids : ["recording"]).map((id) => [id, textModel(id)])),
+    }
+  }
+
   export const Model = z
     .object({
       id: z.string(),
@@ -204,6 +310,10 @@ export namespace Provider {
     using _ = log.time("state")
     const config = await Config.get()
     const modelsDev = await ModelsDev.get()
+    if (config.provider?.["local"] && !config.disabled_providers?.includes("local"))
+      modelsDev["local"] = await local(config.provider["local"])
+    if (config.provider?.[Recording.PROVIDER])
+      modelsDev[Recording.PROVIDER] = playback(config.provider[Recording.PROVIDER])
     const database = mapValues(modelsDev, fromModelsDevProvider)
 
     const disabled = new Set(config.disabled_providers ?? [])
@@ -419,7 +529,10 @@ export namespace Provider {
       const provider = s.providers[model.providerID]
       const options = { ...provider.options }
 
-      if (model.api.npm.includes("@ai-sdk/openai-compatible") && options["includeUsage"] !== false) {
+      if (
+        (model.api.npm.includes("@ai-sdk/openai-compatible") || model.api.npm === LOCAL_NPM) &&
+        options["includeUsage"] !== false
+      ) {
         options["includeUsage"] = true
       }
 
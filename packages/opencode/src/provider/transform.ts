@@ -6,15 +6,16 @@ import type { ModelsDev } from "./models"
 
 type Modality = NonNullable<ModelsDev.Model["modalities"]>["input"][number]
 
-function mimeToModality(mime: string): Modality | undefined {
-  if (mime.startsWith("image/")) return "image"
-  if (mime.startsWith("audio/")) return "audio"
-  if (mime.startsWith("video/")) return "video"
-  if (mime === "application/pdf") return "pdf"
-  return undefined
-}
-
 export namespace ProviderTransform {
+  /** Input modality a file needs, undefined for files sent as text. */
+  export function modality(mime: string): Modality | undefined {
+    if (mime.startsWith("image/")) return "image"
+    if (mime.startsWith("audio/")) return "audio"
+    if (mime.startsWith("video/")) return "video"
+    if (mime === "application/pdf") return "pdf"
+    return undefined
+  }
+
   function normalizeMessages(msgs: ModelMessage[], model: Provider.Model): ModelMessage[] {
     if (model.api.id.includes("claude")) {
       return msgs.map((msg) => {
@@ -182,7 +183,7 @@ export namespace ProviderTransform {
 
         const mime = part.type === "image" ? part.image.toString().split(";")[0].replace("data:", "") : part.mediaType
         const filename = part.type === "file" ? part.filename : undefined
-        const modality = mimeToModality(mime)
+        const modality = ProviderTransform.modality(mime)
         if (!modality) return part
         if (model.capabilities.input[modality]) return part
 
@@ -0,0 +1,259 @@
+import { BusEvent } from "@/bus/bus-event"
+import { Bus } from "@/bus"
+import z from "zod"
+import { structuredPatch } from "diff"
+import { Identifier } from "../id/id"
+import { Instance } from "../project/instance"
+import { Permission } from "../permission"
+import { Log } from "../util/log"
+
+/**
+ * Edits held back for review when an agent's `edit` permission is `review`.
+ * The proposed change is split into hunks, the tool waits until every hunk
+ * is accepted or rejected and only the accepted ones are written. Rejected
+ * hunks and comments go back to the model in the tool result.
+ */
+export namespace Review {
+  const log = Log.create({ service: "review" })
+
+  export const Status = z.enum(["pending", "accepted", "rejected"])
+  export type Status = z.infer<typeof Status>
+
+  export const Hunk = z
+    .object({
+      index: z.number(),
+      oldStart: z.number(),
+      oldLines: z.number(),
+      newStart: z.number(),
+      newLines: z.number(),
+      lines: z.array(z.string()).describe("Unified diff lines of the hunk, prefixed with ' ', '+', '-' or '\\'"),
+      status: Status,
+      comment: z.string().optional(),
+    })
+    .meta({
+      ref: "ReviewHunk",
+    })
+  export type Hunk = z.infer<typeof Hunk>
+
+  export const Info = z
+    .object({
+      id: z.string(),
+      sessionID: z.string(),
+      messageID: z.string(),
+      callID: z.string().optional(),
+      file: z.string(),
+      before: z.string(),
+      after: z.string(),
+      hunks: Hunk.array(),
+      time: z.object({
+        created: z.number(),
+      }),
+    })
+    .meta({
+      ref: "Review",
+    })
+  export type Info = z.infer<typeof Info>
+
+  export const Decision = z
+    .object({
+      index: z.number(),
+      status: Status.exclude(["pending"]).optional(),
+      comment: z.string().optional(),
+    })
+    .meta({
+      ref: "ReviewDecision",
+    })
+  export type Decision = z.infer<typeof Decision>
+
+  export const Event = {
+    Updated: BusEvent.define("review.updated", Info),
+    Replied: BusEvent.define(
+      "review.replied",
+      z.object({
+        sessionID: z.string(),
+        reviewID: z.string(),
+      }),
+    ),
+  }
+
+  export type Result = {
+    content: string
+    accepted: Hunk[]
+    rejected: Hunk[]
+  }
+
+  const state = Instance.state(
+    () => {
+      const pending: {
+        [sessionID: string]: {
+          [reviewID: string]: {
+            info: Info
+            resolve: (result: Result) => void
+            reject: (e: any) => void
+          }
+        }
+      } = {}
+      return { pending }
+    },
+    async (state) => {
+      for (const pending of Object.values(state.pending)) {
+        for (const item of Object.values(pending)) {
+          item.reject(new Permission.RejectedError(item.info.sessionID, item.info.id, item.info.callID))
+        }
+      }
+    },
+  )
+
+  export function list(sessionID: string) {
+    return Object.values(state().pending[sessionID] ?? {})
+      .map((x) => x.info)
+      .toSorted((a, b) => (a.id > b.id ? 1 : -1))
+  }
+
+  /**
+   * Split the change into hunks and wait until each one is accepted or
+   * rejected. Aborting drops the review and rejects like a rejected permission.
+   */
+  export async function ask(input: {
+    sessionID: string
+    messageID: string
+    callID?: string
+    file: string
+    before: string
+    after: string
+    abort: AbortSignal
+  }): Promise<Result> {
+    const hunks = structuredPatch(input.file, input.file, input.before, input.after).hunks.map(
+      (hunk, index): Hunk => ({
+        index,
+        oldStart: hunk.oldStart,
+        oldLines: hunk.oldLines,
+        newStart: hunk.newStart,
+        newLines: hunk.newLines,
+        lines: hunk.lines,
+        status: "pending",
+      }),
+    )
+    if (hunks.length === 0) return { content: input.after, accepted: [], rejected: [] }
+    const info: Info = {
+      id: Identifier.ascending("review"),
+      sessionID: input.sessionID,
+      messageID: input.messageID,
+      callID: input.callID,
+      file: input.file,
+      before: input.before,
+      after: input.after,
+      hunks,
+      time: {
+        created: Date.now(),
+      },
+    }
+    const rejected = () => new Permission.RejectedError(info.sessionID, info.id, info.callID)
+    if (input.abort.aborted) throw rejected()
+    log.info("asking", { id: info.id, file: info.file, hunks: hunks.length })
+    const { pending } = state()
+    pending[info.sessionID] = pending[info.sessionID] || {}
+    return new Promise<Result>((resolve, reject) => {
+      const abort = () => {
+        if (!pending[info.sessionID]?.[info.id]) return
+        log.info("aborted", { id: info.id })
+        delete pending[info.sessionID][info.id]
+        Bus.publish(Event.Replied, {
+          sessionID: info.sessionID,
+          reviewID: info.id,
+        })
+        reject(rejected())
+      }
+      input.abort.addEventListener("abort", abort, { once: true })
+      pending[info.sessionID][info.id] = {
+        info,
+        resolve: (result) => {
+          input.abort.removeEventListener("abort", abort)
+          resolve(result)
+        },
+        reject: (e) => {
+          input.abort.removeEventListener("abort", abort)
+          reject(e)
+        },
+      }
+      Bus.publish(Event.Updated, info)
+    })
+  }
+
+  /**
+   * Record decisions and comments for hunks of a pending review. Once no hunk
+   * is pending the accepted hunks are applied and the waiting tool resumes.
+   */
+  export function respond(input: { sessionID: string; reviewID: string; hunks: Decision[] }) {
+    log.info("response", { sessionID: input.sessionID, reviewID: input.reviewID })
+    const { pending } = state()
+    const match = pending[input.sessionID]?.[input.reviewID]
+    if (!match) return
+    for (const decision of input.hunks) {
+      const hunk = match.info.hunks[decision.index]
+      if (!hunk) continue
+      if (decision.status) hunk.status = decision.status
+      if (decision.comment !== undefined) hunk.comment = decision.comment || undefined
+    }
+    Bus.publish(Event.Updated, match.info)
+    if (match.info.hunks.some((hunk) => hunk.status === "pending")) return match.info
+    delete pending[input.sessionID][input.reviewID]
+    Bus.publish(Event.Replied, {
+      sessionID: input.sessionID,
+      reviewID: input.reviewID,
+    })
+    const accepted = match.info.hunks.filter((hunk) => hunk.status === "accepted")
+    match.resolve({
+      content: apply(match.info.before, accepted),
+      accepted,
+      rejected: match.info.hunks.filter((hunk) => hunk.status === "rejected"),
+    })
+    return match.info
+  }
+
+  /** Apply a subset of the hunks of a patch against `before`. */
+  export function apply(before: string, hunks: Hunk[]) {
+    const source = before.split(/(?<=\n)/)
+    const result: string[] = []
+    let cursor = 0
+    for (const hunk of hunks.toSorted((a, b) => a.oldStart - b.oldStart)) {
+      // an empty old side is reported as starting one line earlier
+      const start = hunk.oldLines === 0 ? hunk.oldStart : hunk.oldStart - 1
+      result.push(...source.slice(cursor, start))
+      hunk.lines.forEach((line, i) => {
+        if (line.startsWith("-") || line.startsWith("\\")) return
+        const eol = hunk.lines[i + 1]?.startsWith("\\") ? "" : "\n"
+        result.push(line.slice(1) + eol)
+      })
+      cursor = start + hunk.oldLines
+    }
+    result.push(...source.slice(cursor))
+    return result.join("")
+  }
+
+  /** Rejected hunks and comments formatted for the model, empty when everything was accepted as is. */
+  export function format(file: string, result: Result) {
+    const total = result.accepted.length + result.rejected.length
+    const noted = [...result.accepted, ...result.rejected]
+      .filter((hunk) => hunk.status === "rejected" || hunk.comment)
+      .toSorted((a, b) => a.index - b.index)
+    if (noted.length === 0) return ""
+    const summary =
+      result.rejected.length === 0
+        ? `The user accepted all ${total} hunks and left comments.`
+        : `The user rejected ${result.rejected.length} of ${total} hunks, ` +
+          (result.accepted.length === 0 ? "nothing was written." : "only the accepted hunks were written.")
+    const body = noted
+      .map((hunk) =>
+        [
+          `<hunk status="${hunk.status}">`,
+          `@@ -${hunk.oldStart},${hunk.oldLines} +${hunk.newStart},${hunk.newLines} @@`,
+          ...hunk.lines,
+          ...(hunk.comment ? [`Comment: ${hunk.comment}`] : []),
+          `</hunk>`,
+        ].join("\n"),
+      )
+      .join("\n")
+    return `\n\n<review_feedback file="${file}">\n${summary}\n${body}\n</review_feedback>`
+  }
+}
@@ -0,0 +1,278 @@
+import z from "zod"
+import path from "path"
+import { NamedError } from "@opencode-ai/util/error"
+import { Bus } from "../bus"
+import { BusEvent } from "../bus/bus-event"
+import { Config } from "../config/config"
+import { Hook } from "../hook"
+import { Permission } from "../permission"
+import { Review } from "../review"
+import { InstanceBootstrap } from "../project/bootstrap"
+import { Instance } from "../project/instance"
+import { Provider } from "../provider/provider"
+import { Session } from "../session"
+import { SessionPrompt } from "../session/prompt"
+import { Storage } from "../storage/storage"
+import { Cron } from "../util/cron"
+import { fn } from "@/util/fn"
+import { Log } from "../util/log"
+
+export namespace Schedule {
+  const log = Log.create({ service: "schedule" })
+
+  const TICK = 30_000
+
+  export const Run = z
+    .object({
+      sessionID: z.string(),
+      status: z.enum(["running", "completed", "error"]),
+      error: z.string().optional(),
+      time: z.object({
+        started: z.number(),
+        completed: z.number().optional(),
+      }),
+    })
+    .meta({
+      ref: "ScheduleRun",
+    })
+  export type Run = z.infer<typeof Run>
+
+  export const Info = z
+    .object({
+      id: z.string(),
+      cron: z.string(),
+      prompt: z.string().optional(),
+      command: z.string().optional(),
+      arguments: z.string().optional(),
+      agent: z.string().optional(),
+      model: z.string().optional(),
+      directory: z.string(),
+      title: z.string().optional(),
+      disabled: z.boolean().optional(),
+      paused: z.boolean(),
+      next: z.number().optional(),
+      last: Run.optional(),
+    })
+    .meta({
+      ref: "ScheduleJob",
+    })
+  export type Info = z.infer<typeof Info>
+
+  type State = {
+    paused?: boolean
+    last?: Run
+  }
+
+  export const NotFoundError = NamedError.create(
+    "ScheduleNotFoundError",
+    z.object({
+      id: z.string(),
+    }),
+  )
+
+  export const Event = {
+    Started: BusEvent.define(
+      "schedule.started",
+      z.object({
+        id: z.string(),
+        sessionID: z.string(),
+      }),
+    ),
+    Completed: BusEvent.define(
+      "schedule.completed",
+      z.object({
+        id: z.string(),
+        run: Run,
+      }),
+    ),
+  }
+
+  // pause state and last run belong to the project that declares the job
+  function key(id: string) {
+    return ["schedule", Instance.project.id, id]
+  }
+
+  async function state(key: string[]) {
+    return Storage.read<State>(key).catch(() => ({}) as State)
+  }
+
+  /** Jobs declared in the config of the current instance. */
+  export async function list() {
+    const config = await Config.get()
+    const result: Info[] = []
+    for (const [id, job] of Object.entries(config.schedule ?? {})) {
+      const saved = await state(key(id))
+      result.push({
+        ...job,
+        id,
+        directory: path.resolve(Instance.directory, job.directory ?? "."),
+        paused: saved.paused ?? false,
+        next: job.disabled || saved.paused ? undefined : Cron.next(job.cron),
+        last: saved.last,
+      })
+    }
+    return result
+  }
+
+  export async function get(id: string) {
+    const match = (await list()).find((x) => x.id === id)
+    if (!match) throw new NotFoundError({ id })
+    return match
+  }
+
+  export const pause = fn(
+    z.object({
+      id: z.string(),
+      paused: z.boolean(),
+    }),
+    async (input) => {
+      await get(input.id)
+      const saved = await state(key(input.id))
+      await Storage.write<State>(key(input.id), { ...saved, paused: input.paused })
+      return get(input.id)
+    },
+  )
+
+  async function record(key: string[], run: Run) {
+    const saved = await state(key)
+    await Storage.write<State>(key, { ...saved, last: run })
+  }
+
+  /**
+   * Run a job now in its project directory and wait for the session to go
+   * idle. Nobody is around to answer permission requests, so they are
+   * rejected.
+   */
+  export async function run(id: string) {
+    const job = await get(id)
+    const saved = key(id)
+    return Instance.provide({
+      directory: job.directory,
+      init: InstanceBootstrap,
+      fn: () => execute(job, saved),
+    })
+  }
+
+  async function execute(job: Info, key: string[]) {
+    const session = await Session.create({
+      title: job.title ?? `${job.id} · ${new Date().toLocaleString()}`,
+    })
+    const run: Run = {
+      sessionID: session.id,
+      status: "running",
+      time: {
+        started: Date.now(),
+      },
+    }
+    log.info("running", { id: job.id, sessionID: session.id })
+    await record(key, run)
+    Bus.publish(Event.Started, { id: job.id, sessionID: session.id })
+
+    const sessions = new Set([session.id])
+    const unsubs = [
+      // the hooks run below, with the job id and errors from before the loop started
+      Hook.claim(session.id),
+      Bus.subscribe(Session.Event.Created, (evt) => {
+        if (evt.properties.info.parentID && sessions.has(evt.properties.info.parentID))
+          sessions.add(evt.properties.info.id)
+      }),
+      Bus.subscribe(Permission.Event.Updated, (evt) => {
+        if (!sessions.has(evt.properties.sessionID)) return
+        Permission.respond({
+          sessionID: evt.properties.sessionID,
+          permissionID: evt.properties.id,
+          response: "reject",
+        })
+      }),
+      Bus.subscribe(Review.Event.Updated, (evt) => {
+        const hunks = evt.properties.hunks.filter((hunk) => hunk.status === "pending")
+        if (!sessions.has(evt.properties.sessionID) || hunks.length === 0) return
+        Review.respond({
+          sessionID: evt.properties.sessionID,
+          reviewID: evt.properties.id,
+          hunks: hunks.map((hunk) => ({ index: hunk.index, status: "rejected" })),
+        })
+      }),
+    ]
+
+    const result = await (async () => {
+      if (job.command)
+        return SessionPrompt.command({
+          sessionID: session.id,
+          command: job.command,
+          arguments: job.arguments ?? "",
+          agent: job.agent,
+          model: job.model,
+        })
+      return SessionPrompt.prompt({
+        sessionID: session.id,
+        agent: job.agent,
+        model: job.model ? Provider.parseModel(job.model) : undefined,
+        parts: [{ type: "text", text: job.prompt! }],
+      })
+    })()
+      .then((msg) => {
+        if (msg.info.role === "assistant" && msg.info.error) {
+          const error = msg.info.error
+          return { error: "message" in error.data ? String(error.data.message) : error.name }
+        }
+        return {}
+      })
+      .catch((e) => ({ error: e instanceof Error ? e.message : String(e) }))
+      .finally(() => unsubs.forEach((unsub) => unsub()))
+
+    run.status = result.error ? "error" : "completed"
+    run.error = result.error
+    run.time.completed = Date.now()
+    await record(key, run)
+    log.info("completed", { id: job.id, sessionID: session.id, status: run.status })
+    Bus.publish(Event.Completed, { id: job.id, run })
+    await Hook.sessionCompleted({
+      sessionID: session.id,
+      directory: Instance.directory,
+      title: (await Session.get(session.id)).title,
+      status: run.status,
+      error: run.error,
+      job: job.id,
+    })
+    return run
+  }
+
+  /**
+   * Run due jobs of the config in `directory` until the returned function is
+   * called. Config and pause state are read again on every tick, a job that
+   * is still running is not started twice.
+   */
+  export function start(directory: string) {
+    const running = new Set<string>()
+    let last = Date.now()
+    const tick = async () => {
+      const now = Date.now()
+      const jobs = await Instance.provide({
+        directory,
+        init: InstanceBootstrap,
+        fn: () => list(),
+      }).catch((e) => {
+        log.error("failed to load jobs", { error: e })
+        return [] as Info[]
+      })
+      for (const job of jobs) {
+        if (job.disabled || job.paused || running.has(job.id)) continue
+        const due = Cron.next(job.cron, last)
+        if (!due || due > now) continue
+        running.add(job.id)
+        Instance.provide({
+          directory,
+          init: InstanceBootstrap,
+          fn: () => run(job.id),
+        })
+          .catch((e) => log.error("failed", { id: job.id, error: e }))
+          .finally(() => running.delete(job.id))
+      }
+      last = now
+    }
+    const timer = setInterval(tick, TICK)
+    log.info("started", { directory })
+    return () => clearInterval(timer)
+  }
+}
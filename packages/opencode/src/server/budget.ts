@@ -0,0 +1,83 @@
+import { Hono } from "hono"
+import { describeRoute, resolver, validator } from "hono-openapi"
+import z from "zod"
+import { Session } from "../session"
+import { SessionBudget } from "../session/budget"
+import { lazy } from "../util/lazy"
+import { errors } from "./error"
+
+export const BudgetRoute = lazy(() =>
+  new Hono()
+    .get(
+      "/:sessionID/budget",
+      describeRoute({
+        summary: "Get session budget",
+        description: "Get the spend of a session against each configured budget limit.",
+        operationId: "session.budget.get",
+        responses: {
+          200: {
+            description: "Spend per budget limit",
+            content: {
+              "application/json": {
+                schema: resolver(SessionBudget.Usage.array()),
+              },
+            },
+          },
+          ...errors(400, 404),
+        },
+      }),
+      validator(
+        "param",
+        z.object({
+          sessionID: z.string().meta({ description: "Session ID" }),
+        }),
+      ),
+      validator(
+        "query",
+        z.object({
+          agent: z.string().optional().meta({ description: "Agent to check agent limits for" }),
+        }),
+      ),
+      async (c) => {
+        const sessionID = c.req.valid("param").sessionID
+        const agent = c.req.valid("query").agent ?? "build"
+        return c.json(await SessionBudget.usage({ sessionID, agent }))
+      },
+    )
+    .post(
+      "/:sessionID/budget",
+      describeRoute({
+        summary: "Raise session budget",
+        description: "Raise every budget limit by an amount in USD for this session only.",
+        operationId: "session.budget.raise",
+        responses: {
+          200: {
+            description: "Updated session",
+            content: {
+              "application/json": {
+                schema: resolver(Session.Info),
+              },
+            },
+          },
+          ...errors(400, 404),
+        },
+      }),
+      validator(
+        "param",
+        z.object({
+          sessionID: z.string().meta({ description: "Session ID" }),
+        }),
+      ),
+      validator(
+        "json",
+        z.object({
+          amount: z.number().positive().meta({ description: "Amount in USD to add to each limit" }),
+        }),
+      ),
+      async (c) => {
+        const sessionID = c.req.valid("param").sessionID
+        const amount = c.req.valid("json").amount
+        return c.json(await SessionBudget.raise({ sessionID, amount }))
+      },
+    ),
+)
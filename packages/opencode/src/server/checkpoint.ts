@@ -0,0 +1,177 @@
+import { Hono } from "hono"
+import { describeRoute, resolver, validator } from "hono-openapi"
+import z from "zod"
+import { Session } from "../session"
+import { SessionCheckpoint } from "../session/checkpoint"
+import { Snapshot } from "../snapshot"
+import { lazy } from "../util/lazy"
+import { errors } from "./error"
+
+export const CheckpointRoute = lazy(() =>
+  new Hono()
+    .get(
+      "/:sessionID/checkpoint",
+      describeRoute({
+        summary: "List checkpoints",
+        description: "List the named checkpoints of a session, oldest first.",
+        operationId: "session.checkpoint.list",
+        responses: {
+          200: {
+            description: "Checkpoints",
+            content: {
+              "application/json": {
+                schema: resolver(SessionCheckpoint.Info.array()),
+              },
+            },
+          },
+          ...errors(400),
+        },
+      }),
+      validator(
+        "param",
+        z.object({
+          sessionID: z.string().meta({ description: "Session ID" }),
+        }),
+      ),
+      async (c) => {
+        return c.json(await SessionCheckpoint.list(c.req.valid("param").sessionID))
+      },
+    )
+    .post(
+      "/:sessionID/checkpoint",
+      describeRoute({
+        summary: "Create checkpoint",
+        description: "Save the current files and position in the conversation under a name.",
+        operationId: "session.checkpoint.create",
+        responses: {
+          200: {
+            description: "Created checkpoint",
+            content: {
+              "application/json": {
+                schema: resolver(SessionCheckpoint.Info),
+              },
+            },
+          },
+          ...errors(400, 404),
+        },
+      }),
+      validator(
+        "param",
+        z.object({
+          sessionID: z.string().meta({ description: "Session ID" }),
+        }),
+      ),
+      validator("json", SessionCheckpoint.create.schema.pick({ name: true })),
+      async (c) => {
+        return c.json(
+          await SessionCheckpoint.create({
+            sessionID: c.req.valid("param").sessionID,
+            name: c.req.valid("json").name,
+          }),
+        )
+      },
+    )
+    .delete(
+      "/:sessionID/checkpoint/:checkpointID",
+      describeRoute({
+        summary: "Remove checkpoint",
+        description: "Remove a checkpoint. Sessions forked from it are kept.",
+        operationId: "session.checkpoint.remove",
+        responses: {
+          200: {
+            description: "Removed checkpoint",
+            content: {
+              "application/json": {
+                schema: resolver(z.boolean()),
+              },
+            },
+          },
+          ...errors(400, 404),
+        },
+      }),
+      validator(
+        "param",
+        z.object({
+          sessionID: z.string().meta({ description: "Session ID" }),
+          checkpointID: z.string().meta({ description: "Checkpoint ID" }),
+        }),
+      ),
+      async (c) => {
+        return c.json(await SessionCheckpoint.remove(c.req.valid("param")))
+      },
+    )
+    .post(
+      "/:sessionID/checkpoint/:checkpointID/restore",
+      describeRoute({
+        summary: "Restore checkpoint",
+        description: "Fork the session at a checkpoint and restore its files. The original session keeps its history.",
+        operationId: "session.checkpoint.restore",
+        responses: {
+          200: {
+            description: "The forked session",
+            content: {
+              "application/json": {
+                schema: resolver(Session.Info),
+              },
+            },
+          },
+          ...errors(400, 404),
+        },
+      }),
+      validator(
+        "param",
+        z.object({
+          sessionID: z.string().meta({ description: "Session ID" }),
+          checkpointID: z.string().meta({ description: "Checkpoint ID" }),
+        }),
+      ),
+      async (c) => {
+        return c.json(await SessionCheckpoint.restore(c.req.valid("param")))
+      },
+    )
+    .get(
+      "/:sessionID/checkpoint/:checkpointID/diff",
+      describeRoute({
+        summary: "Diff checkpoint",
+        description: "Get the file changes from a checkpoint to another one, or to the current files.",
+        operationId: "session.checkpoint.diff",
+        responses: {
+          200: {
+            description: "List of diffs",
+            content: {
+              "application/json": {
+                schema: resolver(Snapshot.FileDiff.array()),
+              },
+            },
+          },
+          ...errors(400, 404),
+        },
+      }),
+      validator(
+        "param",
+        z.object({
+          sessionID: z.string().meta({ description: "Session ID" }),
+          checkpointID: z.string().meta({ description: "Checkpoint ID" }),
+        }),
+      ),
+      validator(
+        "query",
+        z.object({
+          to: z
+            .string()
+            .optional()
+            .meta({ description: "Checkpoint ID to compare with, the current files if left out" }),
+        }),
+      ),
+      async (c) => {
+        const params = c.req.valid("param")
+        return c.json(
+          await SessionCheckpoint.diff({
+            sessionID: params.sessionID,
+            from: params.checkpointID,
+            to: c.req.valid("query").to,
+          }),
+        )
+      },
+    ),
+)
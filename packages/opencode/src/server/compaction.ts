@@ -0,0 +1,144 @@
+import { Hono } from "hono"
+import { describeRoute, resolver, validator } from "hono-openapi"
+import z from "zod"
+import { SessionCompaction } from "../session/compaction"
+import { SessionPrompt } from "../session/prompt"
+import { lazy } from "../util/lazy"
+import { errors } from "./error"
+
+export const CompactionRoute = lazy(() =>
+  new Hono()
+    .get(
+      "/:sessionID/compaction",
+      describeRoute({
+        summary: "List compactions",
+        description: "List the compactions of a session along with their structured summaries and review status.",
+        operationId: "session.compaction.list",
+        responses: {
+          200: {
+            description: "List of compactions",
+            content: {
+              "application/json": {
+                schema: resolver(SessionCompaction.Info.array()),
+              },
+            },
+          },
+          ...errors(400, 404),
+        },
+      }),
+      validator(
+        "param",
+        z.object({
+          sessionID: z.string().meta({ description: "Session ID" }),
+        }),
+      ),
+      async (c) => {
+        const sessionID = c.req.valid("param").sessionID
+        return c.json(await SessionCompaction.list(sessionID))
+      },
+    )
+    .patch(
+      "/:sessionID/compaction/:messageID",
+      describeRoute({
+        summary: "Edit compaction summary",
+        description:
+          "Edit the structured summary of a compaction. The summary message in the context is rewritten to match.",
+        operationId: "session.compaction.update",
+        responses: {
+          200: {
+            description: "Updated compaction",
+            content: {
+              "application/json": {
+                schema: resolver(SessionCompaction.Info),
+              },
+            },
+          },
+          ...errors(400, 404),
+        },
+      }),
+      validator(
+        "param",
+        z.object({
+          sessionID: z.string().meta({ description: "Session ID" }),
+          messageID: z.string().meta({ description: "Compaction message ID" }),
+        }),
+      ),
+      validator("json", SessionCompaction.Summary.partial()),
+      async (c) => {
+        const params = c.req.valid("param")
+        const summary = c.req.valid("json")
+        return c.json(await SessionCompaction.update({ ...params, summary }))
+      },
+    )
+    .post(
+      "/:sessionID/compaction/:messageID/commit",
+      describeRoute({
+        summary: "Commit compaction",
+        description:
+          "Accept a compaction that is waiting for review, optionally with an edited summary, so it replaces the earlier context.",
+        operationId: "session.compaction.commit",
+        responses: {
+          200: {
+            description: "Compaction committed",
+            content: {
+              "application/json": {
+                schema: resolver(z.boolean()),
+              },
+            },
+          },
+          ...errors(400, 404),
+        },
+      }),
+      validator(
+        "param",
+        z.object({
+          sessionID: z.string().meta({ description: "Session ID" }),
+          messageID: z.string().meta({ description: "Compaction message ID" }),
+        }),
+      ),
+      validator(
+        "json",
+        z.object({
+          summary: SessionCompaction.Summary.partial().optional(),
+        }),
+      ),
+      async (c) => {
+        const params = c.req.valid("param")
+        const body = c.req.valid("json")
+        const resume = await SessionCompaction.commit({ ...params, summary: body.summary })
+        if (resume) SessionPrompt.loop(params.sessionID)
+        return c.json(true)
+      },
+    )
+    .delete(
+      "/:sessionID/compaction/:messageID",
+      describeRoute({
+        summary: "Undo compaction",
+        description:
+          "Discard a compaction, whether it is a draft or already committed, and restore the context from before it.",
+        operationId: "session.compaction.undo",
+        responses: {
+          200: {
+            description: "Compaction undone",
+            content: {
+              "application/json": {
+                schema: resolver(z.boolean()),
+              },
+            },
+          },
+          ...errors(400, 404),
+        },
+      }),
+      validator(
+        "param",
+        z.object({
+          sessionID: z.string().meta({ description: "Session ID" }),
+          messageID: z.string().meta({ description: "Compaction message ID" }),
+        }),
+      ),
+      async (c) => {
+        const params = c.req.valid("param")
+        return c.json(await SessionCompaction.undo(params))
+      },
+    ),
+)
@@ -0,0 +1,82 @@
+import { Hono } from "hono"
+import { describeRoute, resolver, validator } from "hono-openapi"
+import z from "zod"
+import { MCP } from "../mcp"
+import { lazy } from "../util/lazy"
+import { errors } from "./error"
+
+export const McpResourceRoute = lazy(() =>
+  new Hono()
+    .get(
+      "/prompt",
+      describeRoute({
+        summary: "List MCP prompts",
+        description: "List the prompts of every connected MCP server, keyed by the slash command that runs them.",
+        operationId: "mcp.prompt.list",
+        responses: {
+          200: {
+            description: "MCP prompts",
+            content: {
+              "application/json": {
+                schema: resolver(z.record(z.string(), MCP.Prompt)),
+              },
+            },
+          },
+        },
+      }),
+      async (c) => {
+        return c.json(await MCP.prompts())
+      },
+    )
+    .get(
+      "/resource",
+      describeRoute({
+        summary: "List MCP resources",
+        description: "List the resources of every connected MCP server.",
+        operationId: "mcp.resource.list",
+        responses: {
+          200: {
+            description: "MCP resources",
+            content: {
+              "application/json": {
+                schema: resolver(MCP.Resource.array()),
+              },
+            },
+          },
+        },
+      }),
+      async (c) => {
+        return c.json(await MCP.resources())
+      },
+    )
+    .get(
+      "/resource/read",
+      describeRoute({
+        summary: "Read MCP resource",
+        description: "Read the contents of a resource from an MCP server.",
+        operationId: "mcp.resource.read",
+        responses: {
+          200: {
+            description: "Resource contents",
+            content: {
+              "application/json": {
+                schema: resolver(MCP.ResourceContent.array()),
+              },
+            },
+          },
+          ...errors(400),
+        },
+      }),
+      validator(
+        "query",
+        z.object({
+          client: z.string().meta({ description: "Name of the MCP server" }),
+          uri: z.string().meta({ description: "Resource URI" }),
+        }),
+      ),
+      async (c) => {
+        const { client, uri } = c.req.valid("query")
+        return c.json(await MCP.readResource(client, uri))
+      },
+    ),
+)
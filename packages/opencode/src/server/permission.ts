@@ -0,0 +1,109 @@
+import { Hono } from "hono"
+import { describeRoute, resolver, validator } from "hono-openapi"
+import z from "zod"
+import { PermissionRule } from "../permission/rule"
+import { lazy } from "../util/lazy"
+import { errors } from "./error"
+
+export const PermissionRuleRoute = lazy(() =>
+  new Hono()
+    .get(
+      "/",
+      describeRoute({
+        summary: "List permission rules",
+        description: "Get the permission rules persisted from 'always' answers for this project and globally.",
+        operationId: "permission.rule.list",
+        responses: {
+          200: {
+            description: "List of permission rules",
+            content: {
+              "application/json": {
+                schema: resolver(PermissionRule.Info.array()),
+              },
+            },
+          },
+        },
+      }),
+      validator(
+        "query",
+        z.object({
+          scope: PermissionRule.Scope.optional(),
+        }),
+      ),
+      async (c) => {
+        const rules = await PermissionRule.list(c.req.valid("query").scope)
+        return c.json(rules)
+      },
+    )
+    .patch(
+      "/:ruleID",
+      describeRoute({
+        summary: "Update permission rule",
+        description: "Change the pattern or scope of a persisted permission rule.",
+        operationId: "permission.rule.update",
+        responses: {
+          200: {
+            description: "Updated permission rule",
+            content: {
+              "application/json": {
+                schema: resolver(PermissionRule.Info),
+              },
+            },
+          },
+          ...errors(400, 404),
+        },
+      }),
+      validator(
+        "param",
+        z.object({
+          ruleID: z.string(),
+        }),
+      ),
+      validator(
+        "json",
+        z.object({
+          pattern: z.string().optional(),
+          scope: PermissionRule.Scope.optional(),
+        }),
+      ),
+      async (c) => {
+        const ruleID = c.req.valid("param").ruleID
+        const body = c.req.valid("json")
+        const rule = await PermissionRule.update({
+          id: ruleID,
+          pattern: body.pattern,
+          scope: body.scope,
+        })
+        return c.json(rule)
+      },
+    )
+    .delete(
+      "/:ruleID",
+      describeRoute({
+        summary: "Revoke permission rule",
+        description: "Delete a persisted permission rule so matching requests prompt again.",
+        operationId: "permission.rule.remove",
+        responses: {
+          200: {
+            description: "Permission rule revoked",
+            content: {
+              "application/json": {
+                schema: resolver(z.boolean()),
+              },
+            },
+          },
+          ...errors(400, 404),
+        },
+      }),
+      validator(
+        "param",
+        z.object({
+          ruleID: z.string(),
+        }),
+      ),
+      async (c) => {
+        await PermissionRule.remove(c.req.valid("param").ruleID)
+        return c.json(true)
+      },
+    ),
+)
@@ -0,0 +1,103 @@
+import { Hono } from "hono"
+import { describeRoute, resolver, validator } from "hono-openapi"
+import z from "zod"
+import { SessionPrompt } from "../session/prompt"
+import { lazy } from "../util/lazy"
+import { errors } from "./error"
+
+export const QueueRoute = lazy(() =>
+  new Hono()
+    .get(
+      "/:sessionID/queue",
+      describeRoute({
+        summary: "List queued prompts",
+        description: "List prompts that were sent while the session was busy and wait for the next step.",
+        operationId: "session.queue.list",
+        responses: {
+          200: {
+            description: "Queued prompts in the order they are sent",
+            content: {
+              "application/json": {
+                schema: resolver(SessionPrompt.Queued.array()),
+              },
+            },
+          },
+          ...errors(400),
+        },
+      }),
+      validator(
+        "param",
+        z.object({
+          sessionID: z.string().meta({ description: "Session ID" }),
+        }),
+      ),
+      async (c) => {
+        return c.json(await SessionPrompt.queued(c.req.valid("param").sessionID))
+      },
+    )
+    .patch(
+      "/:sessionID/queue/:queueID",
+      describeRoute({
+        summary: "Update queued prompt",
+        description: "Replace the parts of a prompt that has not been sent yet.",
+        operationId: "session.queue.update",
+        responses: {
+          200: {
+            description: "Updated queued prompt",
+            content: {
+              "application/json": {
+                schema: resolver(SessionPrompt.Queued),
+              },
+            },
+          },
+          ...errors(400, 404),
+        },
+      }),
+      validator(
+        "param",
+        z.object({
+          sessionID: z.string().meta({ description: "Session ID" }),
+          queueID: z.string().meta({ description: "Queued prompt ID" }),
+        }),
+      ),
+      validator("json", SessionPrompt.Queued.pick({ parts: true })),
+      async (c) => {
+        const params = c.req.valid("param")
+        return c.json(
+          await SessionPrompt.updateQueued({
+            ...params,
+            parts: c.req.valid("json").parts,
+          }),
+        )
+      },
+    )
+    .delete(
+      "/:sessionID/queue/:queueID",
+      describeRoute({
+        summary: "Remove queued prompt",
+        description: "Remove a prompt that has not been sent yet.",
+        operationId: "session.queue.remove",
+        responses: {
+          200: {
+            description: "Removed queued prompt",
+            content: {
+              "application/json": {
+                schema: resolver(z.boolean()),
+              },
+            },
+          },
+          ...errors(400, 404),
+        },
+      }),
+      validator(
+        "param",
+        z.object({
+          sessionID: z.string().meta({ description: "Session ID" }),
+          queueID: z.string().meta({ description: "Queued prompt ID" }),
+        }),
+      ),
+      async (c) => {
+        return c.json(await SessionPrompt.removeQueued(c.req.valid("param")))
+      },
+    ),
+)
@@ -0,0 +1,71 @@
+import { Hono } from "hono"
+import { describeRoute, resolver, validator } from "hono-openapi"
+import z from "zod"
+import { Review } from "../review"
+import { lazy } from "../util/lazy"
+import { errors } from "./error"
+
+export const ReviewRoute = lazy(() =>
+  new Hono()
+    .get(
+      "/:sessionID/review",
+      describeRoute({
+        summary: "List pending reviews",
+        description: "List the edits of a session that are waiting for their hunks to be accepted or rejected.",
+        operationId: "session.review.list",
+        responses: {
+          200: {
+            description: "Pending reviews, oldest first",
+            content: {
+              "application/json": {
+                schema: resolver(Review.Info.array()),
+              },
+            },
+          },
+          ...errors(400),
+        },
+      }),
+      validator(
+        "param",
+        z.object({
+          sessionID: z.string().meta({ description: "Session ID" }),
+        }),
+      ),
+      async (c) => {
+        return c.json(Review.list(c.req.valid("param").sessionID))
+      },
+    )
+    .post(
+      "/:sessionID/review/:reviewID",
+      describeRoute({
+        summary: "Respond to review",
+        description:
+          "Accept, reject or comment on hunks of a pending edit. The edit is applied once no hunk is pending, with only the accepted hunks.",
+        operationId: "session.review.respond",
+        responses: {
+          200: {
+            description: "Whether the review was found",
+            content: {
+              "application/json": {
+                schema: resolver(z.boolean()),
+              },
+            },
+          },
+          ...errors(400),
+        },
+      }),
+      validator(
+        "param",
+        z.object({
+          sessionID: z.string().meta({ description: "Session ID" }),
+          reviewID: z.string().meta({ description: "Review ID" }),
+        }),
+      ),
+      validator("json", z.object({ hunks: Review.Decision.array() })),
+      async (c) => {
+        const params = c.req.valid("param")
+        const result = Review.respond({ ...params, hunks: c.req.valid("json").hunks })
+        return c.json(result !== undefined)
+      },
+    ),
+)
@@ -9,6 +9,7 @@ import { stream, streamSSE } from "hono/streaming"
 import { proxy } from "hono/proxy"
 import { Session } from "../session"
 import z from "zod"
+import path from "path"
 import { Provider } from "../provider/provider"
 import { filter, mapValues, sortBy, pipe } from "remeda"
 import { NamedError } from "@opencode-ai/util/error"
@@ -29,10 +30,22 @@ import { Command } from "../command"
 import { ProviderAuth } from "../provider/auth"
 import { Global } from "../global"
 import { ProjectRoute } from "./project"
+import { WorktreeRoute } from "./worktree"
+import { CheckpointRoute } from "./checkpoint"
+import { CompactionRoute } from "./compaction"
+import { PermissionRuleRoute } from "./permission"
+import { QueueRoute } from "./queue"
+import { ReviewRoute } from "./review"
+import { BudgetRoute } from "./budget"
+import { McpResourceRoute } from "./mcp"
+import { SubagentRoute } from "./subagent"
 import { ToolRegistry } from "../tool/registry"
 import { zodToJsonSchema } from "zod-to-json-schema"
 import { SessionPrompt } from "../session/prompt"
 import { SessionCompaction } from "../session/compaction"
+import { SessionVerify } from "../session/verify"
+import { SessionExport } from "../session/export"
+import { SessionSearch } from "../session/search"
 import { SessionRevert } from "../session/revert"
 import { lazy } from "../util/lazy"
 import { Todo } from "../session/todo"
@@ -47,6 +60,8 @@ import { SessionStatus } from "@/session/status"
 import { upgradeWebSocket, websocket } from "hono/bun"
 import { errors } from "./error"
 import { Pty } from "@/pty"
+import { Worktree } from "@/worktree"
+import { Hook } from "@/hook"
 
 // @ts-ignore This global is needed to prevent ai-sdk from logging warnings to stdout https://github.com/vercel/ai/blob/2dc67e0ef538307f21368db32d5a12345d98831b/packages/ai/src/logger/log-warnings.ts#L85
 globalThis.AI_SDK_LOG_WARNINGS = false
@@ -70,6 +85,9 @@ export namespace Server {
           let status: ContentfulStatusCode
           if (err instanceof Storage.NotFoundError) status = 404
           else if (err instanceof Provider.ModelNotFoundError) status = 400
+          else if (err instanceof Worktree.MissingError) status = 404
+          else if (err instanceof Worktree.NotGitError || err instanceof Worktree.MergeError) status = 400
+          else if (err instanceof Hook.PromptRejectedError) status = 400
           else status = 500
           return c.json(err.toObject(), { status })
         }
@@ -198,7 +216,17 @@ export namespace Server {
           directory,
           init: InstanceBootstrap,
           async fn() {
-            return next()
+            // sessions in their own worktree are served from an instance scoped to it
+            const sessionID = c.req.path.match(/^\/session\/(ses_[^/]+)/)?.[1]
+            const worktree = sessionID ? await Worktree.resolve(sessionID) : undefined
+            if (!worktree) return next()
+            return Instance.provide({
+              directory: worktree,
+              init: InstanceBootstrap,
+              async fn() {
+                return next()
+              },
+            })
           },
         })
       })
@@ -487,8 +515,8 @@ export namespace Server {
           }),
         ),
         async (c) => {
-          const { provider } = c.req.valid("query")
-          const tools = await ToolRegistry.tools(provider)
+          const { provider, model } = c.req.valid("query")
+          const tools = await ToolRegistry.tools(provider, model)
           return c.json(
             tools.map((t) => ({
               id: t.id,
@@ -634,6 +662,38 @@ export namespace Server {
           return c.json(result)
         },
       )
+      .get(
+        "/session/search",
+        describeRoute({
+          summary: "Search sessions",
+          description:
+            "Full-text search over the sessions of all projects, matching message text, tool titles and the files they touched.",
+          operationId: "session.search",
+          responses: {
+            200: {
+              description: "Matching sessions, best match first",
+              content: {
+                "application/json": {
+                  schema: resolver(SessionSearch.Result.array()),
+                },
+              },
+            },
+            ...errors(400),
+          },
+        }),
+        validator(
+          "query",
+          z.object({
+            query: z.string().meta({ description: "Text to search for" }),
+            limit: z.coerce.number().int().positive().optional().meta({ description: "Maximum number of results" }),
+            projectID: z.string().optional().meta({ description: "Only search sessions of this project" }),
+          }),
+        ),
+        async (c) => {
+          const query = c.req.valid("query")
+          return c.json(await SessionSearch.search(query))
+        },
+      )
       .get(
         "/session/:sessionID",
         describeRoute({
@@ -1081,6 +1141,77 @@ export namespace Server {
           return c.json(true)
         },
       )
+      .get(
+        "/session/:sessionID/export",
+        describeRoute({
+          summary: "Export session",
+          description: "Export a session as JSON, JSONL, or a readable Markdown or HTML transcript.",
+          operationId: "session.export",
+          responses: {
+            200: {
+              description: "Exported session",
+              content: {
+                "text/plain": {
+                  schema: resolver(z.string()),
+                },
+              },
+            },
+            ...errors(400, 404),
+          },
+        }),
+        validator(
+          "param",
+          z.object({
+            sessionID: z.string().meta({ description: "Session ID" }),
+          }),
+        ),
+        validator(
+          "query",
+          z.object({
+            format: SessionExport.Format.optional().meta({ description: "Export format, defaults to markdown" }),
+          }),
+        ),
+        async (c) => {
+          const sessionID = c.req.valid("param").sessionID
+          const format = c.req.valid("query").format ?? "markdown"
+          await Session.get(sessionID)
+          const body = await SessionExport.render({ sessionID, format })
+          return c.body(body, 200, { "Content-Type": SessionExport.MIME[format] })
+        },
+      )
+      .route("/session", BudgetRoute())
+      .route("/session", QueueRoute())
+      .route("/session", SubagentRoute())
+      .get(
+        "/session/:sessionID/verify",
+        describeRoute({
+          summary: "Get session verification",
+          description: "Get the result of the latest verify checks that ran after a step of the session changed files.",
+          operationId: "session.verify.get",
+          responses: {
+            200: {
+              description: "Latest verification, if any ran",
+              content: {
+                "application/json": {
+                  schema: resolver(SessionVerify.Info.optional()),
+                },
+              },
+            },
+            ...errors(400),
+          },
+        }),
+        validator(
+          "param",
+          z.object({
+            sessionID: z.string().meta({ description: "Session ID" }),
+          }),
+        ),
+        async (c) => {
+          return c.json(SessionVerify.get(c.req.valid("param").sessionID))
+        },
+      )
+      .route("/session", CheckpointRoute())
+      .route("/session", CompactionRoute())
       .get(
         "/session/:sessionID/message",
         describeRoute({
@@ -1192,7 +1323,8 @@ export namespace Server {
         "/session/:sessionID/message",
         describeRoute({
           summary: "Send message",
-          description: "Create and send a new message to a session, streaming the AI response.",
+          description:
+            "Create and send a new message to a session, streaming the AI response. While the session is busy the prompt is queued and sent at the next step.",
           operationId: "session.prompt",
           responses: {
             200: {
@@ -1432,6 +1564,9 @@ export namespace Server {
           return c.json(true)
         },
       )
+      .route("/session", ReviewRoute())
+      .route("/worktree", WorktreeRoute())
+      .route("/permission/rule", PermissionRuleRoute())
       .get(
         "/command",
         describeRoute({
@@ -2104,6 +2239,7 @@ export namespace Server {
           return c.json(true)
         },
       )
+      .route("/mcp", McpResourceRoute())
       .get(
         "/lsp",
         describeRoute({
@@ -2481,6 +2617,16 @@ export namespace Server {
                 stream.close()
               }
             })
+            // forward events of sessions running in a worktree of this project
+            const root = Worktree.root() + path.sep
+            const forward = (event: { directory?: string; payload: any }) => {
+              if (!event.directory?.startsWith(root)) return
+              if (event.payload.type === Bus.InstanceDisposed.type) return
+              stream.writeSSE({
+                data: JSON.stringify(event.payload),
+              })
+            }
+            GlobalBus.on("event", forward)
 
             // Send heartbeat every 30s to prevent WKWebView timeout (60s default)
             const heartbeat = setInterval(() => {
@@ -2496,6 +2642,7 @@ export namespace Server {
               stream.onAbort(() => {
                 clearInterval(heartbeat)
                 unsub()
+                GlobalBus.off("event", forward)
                 resolve()
                 log.info("event disconnected")
               })
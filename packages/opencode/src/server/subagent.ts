@@ -0,0 +1,67 @@
+import { Hono } from "hono"
+import { describeRoute, resolver, validator } from "hono-openapi"
+import z from "zod"
+import { SessionSubagent } from "../session/subagent"
+import { lazy } from "../util/lazy"
+import { errors } from "./error"
+
+export const SubagentRoute = lazy(() =>
+  new Hono()
+    .get(
+      "/:sessionID/subagent",
+      describeRoute({
+        summary: "List subagents",
+        description: "List the subagents a session started, with their status, current tool and spend.",
+        operationId: "session.subagent.list",
+        responses: {
+          200: {
+            description: "Subagents, oldest first",
+            content: {
+              "application/json": {
+                schema: resolver(SessionSubagent.Info.array()),
+              },
+            },
+          },
+          ...errors(400),
+        },
+      }),
+      validator(
+        "param",
+        z.object({
+          sessionID: z.string().meta({ description: "Session ID" }),
+        }),
+      ),
+      async (c) => {
+        return c.json(SessionSubagent.list(c.req.valid("param").sessionID))
+      },
+    )
+    .post(
+      "/:sessionID/subagent/:childID/cancel",
+      describeRoute({
+        summary: "Cancel subagent",
+        description: "Cancel a single subagent, whether it is waiting for a free slot or running.",
+        operationId: "session.subagent.cancel",
+        responses: {
+          200: {
+            description: "Whether the subagent was cancelled",
+            content: {
+              "application/json": {
+                schema: resolver(z.boolean()),
+              },
+            },
+          },
+          ...errors(400),
+        },
+      }),
+      validator(
+        "param",
+        z.object({
+          sessionID: z.string().meta({ description: "Session ID" }),
+          childID: z.string().meta({ description: "Session ID of the subagent" }),
+        }),
+      ),
+      async (c) => {
+        return c.json(await SessionSubagent.cancel(c.req.valid("param").childID))
+      },
+    ),
+)
@@ -0,0 +1,110 @@
+import { Hono } from "hono"
+import { describeRoute, resolver, validator } from "hono-openapi"
+import z from "zod"
+import { Session } from "../session"
+import { Worktree } from "../worktree"
+import { lazy } from "../util/lazy"
+import { errors } from "./error"
+
+export const WorktreeRoute = lazy(() =>
+  new Hono()
+    .get(
+      "/",
+      describeRoute({
+        summary: "List worktrees",
+        description: "List the git worktrees sessions of this project run in.",
+        operationId: "worktree.list",
+        responses: {
+          200: {
+            description: "List of session worktrees",
+            content: {
+              "application/json": {
+                schema: resolver(Worktree.Info.array()),
+              },
+            },
+          },
+        },
+      }),
+      async (c) => {
+        return c.json(await Worktree.list())
+      },
+    )
+    .post(
+      "/cleanup",
+      describeRoute({
+        summary: "Clean up worktrees",
+        description: "Remove worktrees left behind by deleted sessions and prune stale git worktree entries.",
+        operationId: "worktree.cleanup",
+        responses: {
+          200: {
+            description: "Removed worktree directories",
+            content: {
+              "application/json": {
+                schema: resolver(z.string().array()),
+              },
+            },
+          },
+        },
+      }),
+      async (c) => {
+        return c.json(await Worktree.cleanup())
+      },
+    )
+    .post(
+      "/:sessionID/merge",
+      describeRoute({
+        summary: "Merge worktree",
+        description:
+          "Commit pending changes of a session worktree, merge its branch into the main checkout and remove the worktree.",
+        operationId: "worktree.merge",
+        responses: {
+          200: {
+            description: "Session, now running in the main checkout",
+            content: {
+              "application/json": {
+                schema: resolver(Session.Info),
+              },
+            },
+          },
+          ...errors(400, 404),
+        },
+      }),
+      validator(
+        "param",
+        z.object({
+          sessionID: z.string(),
+        }),
+      ),
+      async (c) => {
+        return c.json(await Worktree.merge(c.req.valid("param").sessionID))
+      },
+    )
+    .delete(
+      "/:sessionID",
+      describeRoute({
+        summary: "Discard worktree",
+        description: "Remove the worktree and branch of a session without merging its changes.",
+        operationId: "worktree.discard",
+        responses: {
+          200: {
+            description: "Session, now running in the main checkout",
+            content: {
+              "application/json": {
+                schema: resolver(Session.Info),
+              },
+            },
+          },
+          ...errors(400, 404),
+        },
+      }),
+      validator(
+        "param",
+        z.object({
+          sessionID: z.string(),
+        }),
+      ),
+      async (c) => {
+        return c.json(await Worktree.discard(c.req.valid("param").sessionID))
+      },
+    ),
+)
@@ -0,0 +1,151 @@
+import { Agent } from "../agent/agent"
+import { Instance } from "../project/instance"
+import { Provider } from "../provider/provider"
+import { ProviderTransform } from "../provider/transform"
+import { Log } from "../util/log"
+import { LLM } from "./llm"
+import { MessageV2 } from "./message-v2"
+
+/**
+ * Attachments the model can't read are converted to text before they are
+ * sent: PDFs through `pdftotext` when it is installed, anything else through
+ * a description by the small model when that one can read the file. What
+ * can't be converted is left for ProviderTransform to report to the model.
+ */
+export namespace SessionAttachment {
+  const log = Log.create({ service: "session.attachment" })
+
+  type File = {
+    id: string
+    mime: string
+    url: string
+    filename?: string
+  }
+
+  type Converted = {
+    via: string
+    text: string
+  }
+
+  // conversions by attachment id, so each file is converted once
+  const state = Instance.state(() => new Map<string, Promise<Converted | undefined>>())
+
+  export function supported(model: Provider.Model, mime: string) {
+    const modality = ProviderTransform.modality(mime)
+    return !modality || model.capabilities.input[modality]
+  }
+
+  /** Convert the attachments in the messages the model can't read, in place. */
+  export async function adapt(input: {
+    messages: MessageV2.WithParts[]
+    model: Provider.Model
+    user: MessageV2.User
+    abort: AbortSignal
+  }) {
+    for (const msg of input.messages) {
+      for (const [index, part] of msg.parts.entries()) {
+        if (part.type === "file" && msg.info.role === "user" && !supported(input.model, part.mime)) {
+          const converted = await convert(part, input)
+          if (!converted) continue
+          msg.parts[index] = {
+            id: part.id,
+            sessionID: part.sessionID,
+            messageID: part.messageID,
+            type: "text",
+            text: format(part, converted),
+            synthetic: true,
+          } satisfies MessageV2.TextPart
+        }
+        if (part.type === "tool" && part.state.status === "completed" && part.state.attachments?.length) {
+          const kept: MessageV2.FilePart[] = []
+          for (const attachment of part.state.attachments) {
+            const converted = supported(input.model, attachment.mime) ? undefined : await convert(attachment, input)
+            if (!converted) {
+              kept.push(attachment)
+              continue
+            }
+            part.state.output += "\n\n" + format(attachment, converted)
+          }
+          part.state.attachments = kept
+        }
+      }
+    }
+  }
+
+  function format(file: File, converted: Converted) {
+    return [
+      `<attachment file="${file.filename ?? file.mime}" mime="${file.mime}" via="${converted.via}">`,
+      `The model can't read this file, this is its content as converted to text.`,
+      converted.text,
+      `</attachment>`,
+    ].join("\n")
+  }
+
+  function convert(file: File, input: { model: Provider.Model; user: MessageV2.User; abort: AbortSignal }) {
+    const cache = state()
+    const existing = cache.get(file.id)
+    if (existing) return existing
+    const result = extract(file, input).catch((e) => {
+      log.error("failed to convert", { id: file.id, mime: file.mime, error: e })
+      // try again on the next step, eg after an aborted description
+      cache.delete(file.id)
+      return undefined
+    })
+    cache.set(file.id, result)
+    return result
+  }
+
+  async function extract(
+    file: File,
+    input: { model: Provider.Model; user: MessageV2.User; abort: AbortSignal },
+  ): Promise<Converted | undefined> {
+    if (!file.url.startsWith("data:")) return
+    const modality = ProviderTransform.modality(file.mime)
+    if (modality === "pdf") {
+      const text = await pdftotext(file.url)
+      if (text) return { via: "pdftotext", text }
+    }
+    const small = await Provider.getSmallModel(input.model.providerID)
+    if (!small || !modality || !small.capabilities.input[modality]) return
+    const agent = await Agent.get("describe")
+    if (!agent) return
+    log.info("describing", { id: file.id, mime: file.mime, model: small.id })
+    const result = await LLM.stream({
+      agent,
+      user: input.user,
+      sessionID: input.user.sessionID,
+      model: small,
+      small: true,
+      system: [],
+      tools: {},
+      abort: input.abort,
+      retries: 2,
+      messages: [
+        {
+          role: "user",
+          content: [
+            { type: "text", text: `Describe ${file.filename ? `the file "${file.filename}"` : `this ${modality}`}.` },
+            { type: "file", data: file.url, mediaType: file.mime, filename: file.filename },
+          ],
+        },
+      ],
+    })
+    const text = (await result.text).trim()
+    if (text) return { via: `${small.providerID}/${small.id}`, text }
+  }
+
+  // text layer of a pdf, empty for scanned documents
+  async function pdftotext(url: string) {
+    const bin = Bun.which("pdftotext")
+    if (!bin) return
+    const proc = Bun.spawn([bin, "-layout", "-", "-"], {
+      stdin: new Blob([Buffer.from(url.slice(url.indexOf(",") + 1), "base64")]),
+      stdout: "pipe",
+      stderr: "ignore",
+    })
+    const text = await new Response(proc.stdout).text()
+    await proc.exited
+    if (proc.exitCode !== 0) return
+    return text.trim()
+  }
+}
@@ -0,0 +1,184 @@
+import z from "zod"
+import { BusEvent } from "@/bus/bus-event"
+import { Bus } from "@/bus"
+import { Config } from "@/config/config"
+import { Identifier } from "@/id/id"
+import { Instance } from "@/project/instance"
+import { Storage } from "@/storage/storage"
+import { fn } from "@/util/fn"
+import { Log } from "@/util/log"
+import { Session } from "."
+import { MessageV2 } from "./message-v2"
+
+export namespace SessionBudget {
+  const log = Log.create({ service: "session.budget" })
+
+  export const DEFAULT_WARN = 0.8
+
+  export const Usage = z
+    .object({
+      scope: z.enum(["session", "agent", "daily"]),
+      spent: z.number(),
+      limit: z.number(),
+    })
+    .meta({
+      ref: "BudgetUsage",
+    })
+  export type Usage = z.infer<typeof Usage>
+
+  export const Event = {
+    Warning: BusEvent.define(
+      "session.budget.warning",
+      z.object({
+        sessionID: z.string(),
+        usage: Usage,
+      }),
+    ),
+  }
+
+  type Messages = Promise<Map<string, MessageV2.Assistant>>
+
+  const state = Instance.state(() => {
+    const result = {
+      // limits already warned about, per session, so each warning shows once
+      warned: {} as Record<string, Set<string>>,
+      // assistant messages read from storage on first use, then kept current from message events
+      sessions: {} as Record<string, Messages>,
+      daily: undefined as { start: number; messages: Messages } | undefined,
+    }
+    Bus.subscribe(MessageV2.Event.Updated, (evt) => {
+      const msg = evt.properties.info
+      if (msg.role !== "assistant") return
+      result.sessions[msg.sessionID]?.then((messages) => messages.set(msg.id, msg))
+      if (result.daily && msg.time.created >= result.daily.start)
+        result.daily.messages.then((messages) => messages.set(msg.id, msg))
+    })
+    Bus.subscribe(MessageV2.Event.Removed, (evt) => {
+      result.sessions[evt.properties.sessionID]?.then((messages) => messages.delete(evt.properties.messageID))
+      result.daily?.messages.then((messages) => messages.delete(evt.properties.messageID))
+    })
+    Bus.subscribe(Session.Event.Deleted, (evt) => {
+      delete result.sessions[evt.properties.info.id]
+      result.daily?.messages.then((messages) => {
+        for (const [id, msg] of messages) if (msg.sessionID === evt.properties.info.id) messages.delete(id)
+      })
+    })
+    return result
+  })
+
+  /**
+   * Spend against every configured limit that applies to this session and
+   * agent. The session limit includes what subagents spent, as rolled up when
+   * they finish. Amounts raised with `raise` are added to each limit.
+   */
+  export async function usage(input: { sessionID: string; agent: string }): Promise<Usage[]> {
+    const cfg = await Config.get()
+    const budget = cfg.budget
+    if (!budget) return []
+    const session = await Session.get(input.sessionID)
+    const raised = session.budget?.raised ?? 0
+    const messages = [...(await assistant(input.sessionID)).values()]
+    const result: Usage[] = []
+    if (budget.session !== undefined) {
+      result.push({
+        scope: "session",
+        spent: total(messages) + (session.rollup?.cost ?? 0),
+        limit: budget.session + raised,
+      })
+    }
+    const agent = budget.agent?.[input.agent]
+    if (agent !== undefined) {
+      result.push({
+        scope: "agent",
+        spent: total(messages.filter((x) => x.agent === input.agent)),
+        limit: agent + raised,
+      })
+    }
+    if (budget.daily !== undefined) {
+      result.push({ scope: "daily", spent: await daily(), limit: budget.daily + raised })
+    }
+    return result
+  }
+
+  /**
+   * Returns the error to stop the loop with once a limit is reached, and
+   * publishes a warning the first time spend crosses the warning threshold.
+   */
+  export async function check(input: { sessionID: string; agent: string }) {
+    const cfg = await Config.get()
+    const usages = await usage(input)
+    const exceeded = usages.find((x) => x.spent >= x.limit)
+    if (exceeded) {
+      log.info("exceeded", { sessionID: input.sessionID, ...exceeded })
+      return new MessageV2.BudgetExceededError({
+        ...exceeded,
+        message: `Budget exceeded: spent $${exceeded.spent.toFixed(2)} of $${exceeded.limit.toFixed(2)} ${label(exceeded.scope, input.agent)}. Use /budget to raise the limit for this session.`,
+      }).toObject()
+    }
+    const threshold = cfg.budget?.warn ?? DEFAULT_WARN
+    const warned = (state().warned[input.sessionID] ??= new Set())
+    for (const item of usages) {
+      if (item.spent < item.limit * threshold) continue
+      const key = `${item.scope}:${item.limit}`
+      if (warned.has(key)) continue
+      warned.add(key)
+      Bus.publish(Event.Warning, { sessionID: input.sessionID, usage: item })
+    }
+  }
+
+  export const raise = fn(
+    z.object({
+      sessionID: Identifier.schema("session"),
+      amount: z.number().positive(),
+    }),
+    async (input) => {
+      return Session.update(input.sessionID, (draft) => {
+        draft.budget = {
+          raised: (draft.budget?.raised ?? 0) + input.amount,
+        }
+      })
+    },
+  )
+
+  export function label(scope: Usage["scope"], agent: string) {
+    if (scope === "session") return "for this session"
+    if (scope === "agent") return `for the ${agent} agent in this session`
+    return "today in this project"
+  }
+
+  function total(messages: MessageV2.Assistant[]) {
+    return messages.reduce((sum, x) => sum + x.cost, 0)
+  }
+
+  async function read(sessionID: string) {
+    const result = new Map<string, MessageV2.Assistant>()
+    for (const item of await Storage.list(["message", sessionID])) {
+      const msg = await Storage.read<MessageV2.Info>(item)
+      if (msg.role === "assistant") result.set(msg.id, msg)
+    }
+    return result
+  }
+
+  function assistant(sessionID: string) {
+    const s = state()
+    return (s.sessions[sessionID] ??= read(sessionID))
+  }
+
+  async function daily() {
+    const start = new Date().setHours(0, 0, 0, 0)
+    const s = state()
+    // the first check of the day reads today's sessions, later messages arrive through events
+    if (s.daily?.start !== start) {
+      const messages = (async () => {
+        const result = new Map<string, MessageV2.Assistant>()
+        for await (const session of Session.list()) {
+          if (session.time.updated < start) continue
+          for (const [id, msg] of await read(session.id)) if (msg.time.created >= start) result.set(id, msg)
+        }
+        return result
+      })()
+      s.daily = { start, messages }
+    }
+    return total([...(await s.daily.messages).values()])
+  }
+}
@@ -0,0 +1,140 @@
+import z from "zod"
+import { Identifier } from "@/id/id"
+import { Snapshot } from "@/snapshot"
+import { Storage } from "@/storage/storage"
+import { fn } from "@/util/fn"
+import { Log } from "@/util/log"
+import { Session } from "."
+import { SessionPrompt } from "./prompt"
+
+/**
+ * Named points in a session that capture both the files and the position in
+ * the conversation. Restoring one forks the session instead of throwing the
+ * later messages away, so every branch keeps its own history.
+ */
+export namespace SessionCheckpoint {
+  const log = Log.create({ service: "session.checkpoint" })
+
+  export const Info = z
+    .object({
+      id: Identifier.schema("checkpoint"),
+      sessionID: Identifier.schema("session"),
+      name: z.string(),
+      messageID: Identifier.schema("message").optional().describe("Last message of the session when it was created"),
+      snapshot: z.string().optional().describe("Snapshot of the files, missing outside of git projects"),
+      time: z.object({
+        created: z.number(),
+      }),
+    })
+    .meta({
+      ref: "Checkpoint",
+    })
+  export type Info = z.infer<typeof Info>
+
+  export async function list(sessionID: string) {
+    const result: Info[] = []
+    for (const item of await Storage.list(["checkpoint", sessionID])) {
+      result.push(await Storage.read<Info>(item))
+    }
+    return result.toSorted((a, b) => a.time.created - b.time.created)
+  }
+
+  export async function get(sessionID: string, checkpointID: string) {
+    return Storage.read<Info>(["checkpoint", sessionID, checkpointID])
+  }
+
+  async function write(info: Omit<Info, "id" | "time">) {
+    const result: Info = {
+      ...info,
+      id: Identifier.ascending("checkpoint"),
+      time: {
+        created: Date.now(),
+      },
+    }
+    if (result.snapshot) await Snapshot.pin(result.id, result.snapshot)
+    await Storage.write(["checkpoint", result.sessionID, result.id], result)
+    log.info("created", { id: result.id, sessionID: result.sessionID, name: result.name })
+    return result
+  }
+
+  export const create = fn(
+    z.object({
+      sessionID: Identifier.schema("session"),
+      name: z.string().min(1),
+    }),
+    async (input) => {
+      SessionPrompt.assertNotBusy(input.sessionID)
+      const msgs = await Session.messages({ sessionID: input.sessionID })
+      return write({
+        sessionID: input.sessionID,
+        name: input.name.trim(),
+        messageID: msgs.at(-1)?.info.id,
+        snapshot: await Snapshot.track(),
+      })
+    },
+  )
+
+  export const remove = fn(
+    z.object({
+      sessionID: Identifier.schema("session"),
+      checkpointID: Identifier.schema("checkpoint"),
+    }),
+    async (input) => {
+      await get(input.sessionID, input.checkpointID)
+      await Snapshot.unpin(input.checkpointID)
+      await Storage.remove(["checkpoint", input.sessionID, input.checkpointID])
+      return true
+    },
+  )
+
+  /**
+   * Fork the session at the checkpoint and bring the files back to how they
+   * were. The current files are checkpointed on the original session first,
+   * so nothing is lost by restoring.
+   */
+  export const restore = fn(
+    z.object({
+      sessionID: Identifier.schema("session"),
+      checkpointID: Identifier.schema("checkpoint"),
+    }),
+    async (input) => {
+      SessionPrompt.assertNotBusy(input.sessionID)
+      const checkpoint = await get(input.sessionID, input.checkpointID)
+      const session = await Session.get(input.sessionID)
+      const msgs = await Session.messages({ sessionID: input.sessionID })
+      if (checkpoint.snapshot) await create({ sessionID: input.sessionID, name: `before restoring ${checkpoint.name}` })
+
+      // fork copies everything before the first message after the checkpoint
+      const next = checkpoint.messageID ? msgs.find((msg) => msg.info.id > checkpoint.messageID!) : msgs[0]
+      const forked = await Session.fork({ sessionID: input.sessionID, messageID: next?.info.id })
+      if (checkpoint.snapshot) await Snapshot.revert([await Snapshot.patch(checkpoint.snapshot)])
+      log.info("restored", { id: checkpoint.id, sessionID: input.sessionID, forkID: forked.id })
+
+      const copied = await Session.messages({ sessionID: forked.id })
+      await write({
+        sessionID: forked.id,
+        name: checkpoint.name,
+        messageID: copied.at(-1)?.info.id,
+        snapshot: checkpoint.snapshot,
+      })
+      return Session.update(forked.id, (draft) => {
+        draft.title = `${session.title} · ${checkpoint.name}`
+      })
+    },
+  )
+
+  /** Changes between two checkpoints, or from a checkpoint to the current files when `to` is left out. */
+  export const diff = fn(
+    z.object({
+      sessionID: Identifier.schema("session"),
+      from: Identifier.schema("checkpoint"),
+      to: Identifier.schema("checkpoint").optional(),
+    }),
+    async (input) => {
+      const from = await get(input.sessionID, input.from)
+      const to = input.to ? (await get(input.sessionID, input.to)).snapshot : await Snapshot.track()
+      if (!from.snapshot || !to) return []
+      return Snapshot.diffFull(from.snapshot, to)
+    },
+  )
+}
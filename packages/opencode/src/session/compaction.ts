@@ -14,6 +14,10 @@ import { SessionProcessor } from "./processor"
 import { fn } from "@/util/fn"
 import { Agent } from "@/agent/agent"
 import { Plugin } from "@/plugin"
+import { Config } from "@/config/config"
+import { Todo } from "./todo"
+import { Storage } from "@/storage/storage"
+import path from "path"
 
 export namespace SessionCompaction {
   const log = Log.create({ service: "session.compaction" })
@@ -25,8 +29,42 @@ export namespace SessionCompaction {
         sessionID: z.string(),
       }),
     ),
+    Drafted: BusEvent.define(
+      "session.compaction.drafted",
+      z.object({
+        sessionID: z.string(),
+        messageID: z.string(),
+      }),
+    ),
   }
 
+  export const Summary = MessageV2.CompactionSummary
+  export type Summary = MessageV2.CompactionSummary
+
+  export const Info = z
+    .object({
+      messageID: z.string(),
+      auto: z.boolean(),
+      status: z.enum(["pending", "draft", "committed"]),
+      summary: Summary.optional(),
+      time: z.object({
+        created: z.number(),
+      }),
+    })
+    .meta({
+      ref: "Compaction",
+    })
+  export type Info = z.infer<typeof Info>
+
+  const CONTINUE = "Continue if you have next steps"
+
+  const SECTIONS = [
+    ["goals", "Goals"],
+    ["decisions", "Decisions"],
+    ["files", "Files"],
+    ["next", "Next steps"],
+  ] as const
+
   export function isOverflow(input: { tokens: MessageV2.Assistant["tokens"]; model: Provider.Model }) {
     if (Flag.OPENCODE_DISABLE_AUTOCOMPACT) return false
     const context = input.model.limit.context
@@ -62,7 +100,10 @@ export namespace SessionCompaction {
         if (part.type === "tool")
           if (part.state.status === "completed") {
             if (part.state.time.compacted) break loop
-            const estimate = Token.estimate(part.state.output)
+            const estimate = Token.estimate(
+              part.state.output,
+              msg.info.role === "assistant" ? msg.info.modelID : undefined,
+            )
             total += estimate
             if (total > PRUNE_PROTECT) {
               pruned += estimate
@@ -147,7 +188,15 @@ export namespace SessionCompaction {
             {
               type: "text",
               text: [
-                "Provide a detailed prompt for continuing our conversation above. Focus on information that would be helpful for continuing the conversation, including what we did, what we're doing, which files we're working on, and what we're going to do next considering new session will not have access to our conversation.",
+                [
+                  "Summarize our conversation above so a new session, which will not have access to it, can continue the work.",
+                  "Reply in markdown with exactly these sections, each a bullet list:",
+                  "## Goals\nWhat the user is trying to achieve, including requests, constraints and preferences that should persist.",
+                  "## Decisions\nTechnical decisions that were made and why.",
+                  "## Files\nFiles that were read, created or modified and are relevant to continue.",
+                  "## Next steps\nWhat we are doing right now and what we are going to do next.",
+                  "## Notes\nAnything else needed to continue, as free-form text.",
+                ].join("\n\n"),
                 ...compacting.context,
               ].join("\n\n"),
             },
@@ -156,36 +205,247 @@ export namespace SessionCompaction {
       ],
       model,
     })
+    if (processor.message.error) return "stop"
 
-    if (result === "continue" && input.auto) {
-      const continueMsg = await Session.updateMessage({
-        id: Identifier.ascending("message"),
-        role: "user",
-        sessionID: input.sessionID,
-        time: {
-          created: Date.now(),
-        },
-        agent: userMessage.agent,
-        model: userMessage.model,
-      })
+    const summary = await structure({
+      sessionID: input.sessionID,
+      messageID: msg.id,
+      messages: input.messages,
+    })
+    const review = await Config.get().then((cfg) => cfg.compaction?.review === true)
+    const part = input.messages
+      .find((m) => m.info.id === input.parentID)
+      ?.parts.find((x): x is MessageV2.CompactionPart => x.type === "compaction")
+    if (part) {
       await Session.updatePart({
-        id: Identifier.ascending("part"),
-        messageID: continueMsg.id,
-        sessionID: input.sessionID,
-        type: "text",
-        synthetic: true,
-        text: "Continue if you have next steps",
-        time: {
-          start: Date.now(),
-          end: Date.now(),
-        },
+        ...part,
+        status: review ? "draft" : "committed",
+        summary,
       })
     }
-    if (processor.message.error) return "stop"
+
+    if (review) {
+      Bus.publish(Event.Drafted, { sessionID: input.sessionID, messageID: input.parentID })
+      return "stop"
+    }
+    if (result === "continue" && input.auto) await resume({ sessionID: input.sessionID, user: userMessage })
     Bus.publish(Event.Compacted, { sessionID: input.sessionID })
     return "continue"
   }
 
+  async function resume(input: { sessionID: string; user: MessageV2.User }) {
+    const continueMsg = await Session.updateMessage({
+      id: Identifier.ascending("message"),
+      role: "user",
+      sessionID: input.sessionID,
+      time: {
+        created: Date.now(),
+      },
+      agent: input.user.agent,
+      model: input.user.model,
+    })
+    await Session.updatePart({
+      id: Identifier.ascending("part"),
+      messageID: continueMsg.id,
+      sessionID: input.sessionID,
+      type: "text",
+      synthetic: true,
+      text: CONTINUE,
+      time: {
+        start: Date.now(),
+        end: Date.now(),
+      },
+    })
+  }
+
+  /**
+   * Turn the model's summary into its structured form, fill in the files
+   * touched and the open todos from the session itself, and rewrite the
+   * summary message so the context and the structure stay in sync.
+   */
+  async function structure(input: { sessionID: string; messageID: string; messages: MessageV2.WithParts[] }) {
+    const parts = await MessageV2.parts(input.messageID)
+    const text = parts.flatMap((x) => (x.type === "text" ? [x.text] : [])).join("\n")
+    const parsed = parse(text)
+    const touched = input.messages
+      .flatMap((msg) => msg.parts)
+      .flatMap((part) => (part.type === "patch" ? part.files : []))
+      .map((file) => path.relative(Instance.worktree, file))
+    const todos = await Todo.get(input.sessionID)
+    const summary: Summary = {
+      ...parsed,
+      files: [...new Set([...parsed.files, ...touched])],
+      todos: todos.filter((x) => x.status !== "completed" && x.status !== "cancelled"),
+    }
+    await write({ sessionID: input.sessionID, messageID: input.messageID, summary })
+    return summary
+  }
+
+  export function parse(text: string): Summary {
+    const result: Summary = { goals: [], decisions: [], files: [], todos: [], next: [], notes: "" }
+    const sections = text.split(/^##\s+/m)
+    if (sections.length === 1) {
+      result.notes = text.trim()
+      return result
+    }
+    const notes = [sections[0].trim()]
+    for (const section of sections.slice(1)) {
+      const [heading, ...body] = section.split("\n")
+      const key = SECTIONS.find(([, title]) => title.toLowerCase() === heading.trim().toLowerCase())?.[0]
+      if (!key) {
+        notes.push(heading.trim().toLowerCase() === "notes" ? body.join("\n").trim() : "## " + section.trim())
+        continue
+      }
+      result[key] = body
+        .map((line) => line.match(/^\s*(?:[-*+]|\d+\.)\s+(.*)$/)?.[1]?.trim())
+        .filter((line): line is string => !!line)
+    }
+    result.notes = notes.filter(Boolean).join("\n\n")
+    return result
+  }
+
+  export function render(summary: Summary) {
+    const lines: string[] = []
+    for (const [key, title] of SECTIONS) {
+      if (summary[key].length === 0) continue
+      lines.push(`## ${title}`, ...summary[key].map((item) => `- ${item}`), "")
+    }
+    if (summary.todos.length) {
+      lines.push("## Open todos", ...summary.todos.map((todo) => `- [${todo.status}] ${todo.content}`), "")
+    }
+    if (summary.notes) lines.push("## Notes", summary.notes, "")
+    return lines.join("\n").trim()
+  }
+
+  async function write(input: { sessionID: string; messageID: string; summary: Summary }) {
+    const parts = await MessageV2.parts(input.messageID)
+    const texts = parts.filter((x): x is MessageV2.TextPart => x.type === "text")
+    const [first, ...rest] = texts
+    if (!first) return
+    await Session.updatePart({
+      ...first,
+      text: render(input.summary),
+    })
+    for (const part of rest) {
+      await Storage.remove(["part", input.messageID, part.id])
+      await Bus.publish(MessageV2.Event.PartRemoved, {
+        sessionID: input.sessionID,
+        messageID: input.messageID,
+        partID: part.id,
+      })
+    }
+  }
+
+  async function find(input: { sessionID: string; messageID: string }) {
+    const msgs = await Session.messages({ sessionID: input.sessionID })
+    const index = msgs.findIndex((x) => x.info.id === input.messageID)
+    const part = msgs[index]?.parts.find((x): x is MessageV2.CompactionPart => x.type === "compaction")
+    if (!part) throw new Storage.NotFoundError({ message: `Compaction not found: ${input.messageID}` })
+    const summary = msgs.find(
+      (x) => x.info.role === "assistant" && x.info.summary && x.info.parentID === input.messageID,
+    )
+    return { msgs, index, part, summary }
+  }
+
+  function info(msg: MessageV2.WithParts, part: MessageV2.CompactionPart, done: boolean): Info {
+    return {
+      messageID: msg.info.id,
+      auto: part.auto,
+      status: part.status ?? (done ? "committed" : "pending"),
+      summary: part.summary,
+      time: {
+        created: msg.info.time.created,
+      },
+    }
+  }
+
+  export const list = fn(Identifier.schema("session"), async (sessionID) => {
+    const msgs = await Session.messages({ sessionID })
+    const done = new Set(
+      msgs.flatMap((x) => (x.info.role === "assistant" && x.info.summary && x.info.finish ? [x.info.parentID] : [])),
+    )
+    return msgs.flatMap((msg) => {
+      const part = msg.parts.find((x): x is MessageV2.CompactionPart => x.type === "compaction")
+      if (!part) return []
+      return [info(msg, part, done.has(msg.info.id))]
+    })
+  })
+
+  export const update = fn(
+    z.object({
+      sessionID: Identifier.schema("session"),
+      messageID: Identifier.schema("message"),
+      summary: Summary.partial(),
+    }),
+    async (input) => {
+      const match = await find(input)
+      if (!match.summary || !match.part.summary) throw new Error("This compaction has no summary to edit")
+      const summary = { ...match.part.summary, ...input.summary }
+      await write({ sessionID: input.sessionID, messageID: match.summary.info.id, summary })
+      const part = await Session.updatePart({ ...match.part, summary })
+      return info(match.msgs[match.index], part as MessageV2.CompactionPart, true)
+    },
+  )
+
+  /**
+   * Accept a compaction that is waiting for review so it replaces the earlier
+   * context. Returns true when the agent loop should resume afterwards.
+   */
+  export const commit = fn(
+    z.object({
+      sessionID: Identifier.schema("session"),
+      messageID: Identifier.schema("message"),
+      summary: Summary.partial().optional(),
+    }),
+    async (input) => {
+      if (input.summary)
+        await update({ sessionID: input.sessionID, messageID: input.messageID, summary: input.summary })
+      const match = await find(input)
+      if (match.part.status !== "draft") return false
+      await Session.updatePart({ ...match.part, status: "committed" })
+      if (match.part.auto) {
+        await resume({ sessionID: input.sessionID, user: match.msgs[match.index].info as MessageV2.User })
+      }
+      Bus.publish(Event.Compacted, { sessionID: input.sessionID })
+      return match.part.auto
+    },
+  )
+
+  /**
+   * Discard a compaction, whether it is a draft or already committed, and
+   * restore the context from before it.
+   */
+  export const undo = fn(
+    z.object({
+      sessionID: Identifier.schema("session"),
+      messageID: Identifier.schema("message"),
+    }),
+    async (input) => {
+      SessionPrompt.assertNotBusy(input.sessionID)
+      const match = await find(input)
+      const remove = [match.msgs[match.index]]
+      if (match.summary) remove.push(match.summary)
+      const next = match.msgs.find(
+        (x) => x.info.role === "user" && x.info.id > (match.summary?.info.id ?? input.messageID),
+      )
+      if (
+        match.part.auto &&
+        next &&
+        next.parts.every((part) => part.type === "text" && part.synthetic && part.text === CONTINUE)
+      ) {
+        remove.push(next)
+      }
+      for (const msg of remove) {
+        for (const part of msg.parts) {
+          await Storage.remove(["part", msg.info.id, part.id])
+        }
+        await Session.removeMessage({ sessionID: input.sessionID, messageID: msg.info.id })
+      }
+      log.info("undone", { sessionID: input.sessionID, messageID: input.messageID })
+      return true
+    },
+  )
+
   export const create = fn(
     z.object({
       sessionID: Identifier.schema("session"),
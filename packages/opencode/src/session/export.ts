@@ -0,0 +1,300 @@
+import z from "zod"
+import { createTwoFilesPatch } from "diff"
+import { Snapshot } from "@/snapshot"
+import { fn } from "@/util/fn"
+import { Identifier } from "@/id/id"
+import { Session } from "."
+import { MessageV2 } from "./message-v2"
+import { Todo } from "./todo"
+
+export namespace SessionExport {
+  const OUTPUT_LIMIT = 4000
+
+  export const Format = z.enum(["json", "markdown", "html", "jsonl"]).meta({
+    ref: "ExportFormat",
+  })
+  export type Format = z.infer<typeof Format>
+
+  export const EXTENSION: Record<Format, string> = {
+    json: "json",
+    markdown: "md",
+    html: "html",
+    jsonl: "jsonl",
+  }
+
+  export const MIME: Record<Format, string> = {
+    json: "application/json",
+    markdown: "text/markdown; charset=utf-8",
+    html: "text/html; charset=utf-8",
+    jsonl: "application/x-ndjson",
+  }
+
+  type Block =
+    | { type: "text"; text: string }
+    | { type: "reasoning"; text: string }
+    | { type: "file"; name: string }
+    | { type: "tool"; tool: string; title: string; input: string; output?: string; error?: string; diff?: string }
+    | { type: "diff"; diffs: Snapshot.FileDiff[] }
+
+  type Entry = {
+    info: MessageV2.Info
+    blocks: Block[]
+  }
+
+  type Transcript = {
+    info: Session.Info
+    entries: Entry[]
+    todos: Todo.Info[]
+    diffs: Snapshot.FileDiff[]
+    cost: number
+    tokens: { input: number; output: number }
+  }
+
+  export const render = fn(
+    z.object({
+      sessionID: Identifier.schema("session"),
+      format: Format,
+    }),
+    async (input) => {
+      const info = await Session.get(input.sessionID)
+      const messages = await Session.messages({ sessionID: input.sessionID })
+      if (input.format === "json") {
+        return JSON.stringify(
+          { info, messages: messages.map((msg) => ({ info: msg.info, parts: msg.parts })) },
+          null,
+          2,
+        )
+      }
+      if (input.format === "jsonl") {
+        return [
+          { type: "session", info },
+          ...messages.map((msg) => ({ type: "message", info: msg.info, parts: msg.parts })),
+        ]
+          .map((line) => JSON.stringify(line))
+          .join("\n")
+      }
+      const transcript = await collect(info, messages)
+      if (input.format === "html") return html(transcript)
+      return markdown(transcript)
+    },
+  )
+
+  async function collect(info: Session.Info, messages: MessageV2.WithParts[]): Promise<Transcript> {
+    const entries: Entry[] = []
+    let cost = 0
+    const tokens = { input: 0, output: 0 }
+    for (const msg of messages) {
+      if (msg.info.role === "assistant") {
+        cost += msg.info.cost
+        tokens.input += msg.info.tokens.input + msg.info.tokens.cache.read
+        tokens.output += msg.info.tokens.output + msg.info.tokens.reasoning
+      }
+      const patched = msg.parts.some((part) => part.type === "patch")
+      const blocks: Block[] = []
+      for (const [index, part] of msg.parts.entries()) {
+        if (part.type === "text" && !part.synthetic && part.text.trim()) {
+          blocks.push({ type: "text", text: part.text.trim() })
+        }
+        if (part.type === "reasoning" && part.text.trim()) {
+          blocks.push({ type: "reasoning", text: part.text.replace("[REDACTED]", "").trim() })
+        }
+        if (part.type === "file") blocks.push({ type: "file", name: part.filename ?? part.url })
+        if (part.type === "tool") {
+          const state = part.state
+          if (state.status === "pending") continue
+          blocks.push({
+            type: "tool",
+            tool: part.tool,
+            title: ("title" in state && state.title) || part.tool,
+            input: JSON.stringify(state.input, null, 2),
+            output: state.status === "completed" ? truncate(state.output) : undefined,
+            error: state.status === "error" ? state.error : undefined,
+            // snapshot diffs below cover edits when the step was tracked
+            diff: !patched && typeof state.metadata?.diff === "string" ? state.metadata.diff : undefined,
+          })
+        }
+        if (part.type === "patch") {
+          const end = msg.parts
+            .slice(index)
+            .find((x): x is MessageV2.StepFinishPart => x.type === "step-finish" && !!x.snapshot)
+          if (!end?.snapshot) continue
+          const diffs = await Snapshot.diffFull(part.hash, end.snapshot).catch(() => [])
+          if (diffs.length) blocks.push({ type: "diff", diffs })
+        }
+      }
+      entries.push({ info: msg.info, blocks })
+    }
+    return {
+      info,
+      entries,
+      todos: await Todo.get(info.id),
+      diffs: info.summary?.diffs ?? (await Session.diff(info.id).catch(() => [])),
+      cost,
+      tokens,
+    }
+  }
+
+  function truncate(text: string) {
+    if (text.length <= OUTPUT_LIMIT) return text
+    return text.slice(0, OUTPUT_LIMIT) + `\n… (${text.length - OUTPUT_LIMIT} more characters)`
+  }
+
+  function patch(diff: Snapshot.FileDiff) {
+    return createTwoFilesPatch(diff.file, diff.file, diff.before, diff.after).split("\n").slice(2).join("\n").trim()
+  }
+
+  function heading(msg: MessageV2.Info) {
+    if (msg.role === "user") return "User"
+    return `Assistant (${msg.agent} · ${msg.providerID}/${msg.modelID})`
+  }
+
+  function details(msg: MessageV2.Info) {
+    const time = new Date(msg.time.created).toLocaleString()
+    if (msg.role === "user") return time
+    const items = [time, `$${msg.cost.toFixed(4)}`, `${msg.tokens.input + msg.tokens.cache.read} in`]
+    items.push(`${msg.tokens.output + msg.tokens.reasoning} out`)
+    if (msg.error) items.push(`error: ${"message" in msg.error.data ? msg.error.data.message : msg.error.name}`)
+    return items.join(" · ")
+  }
+
+  function fence(text: string, lang = "") {
+    const ticks = "`".repeat(Math.max(3, ...(text.match(/`+/g) ?? []).map((x) => x.length + 1)))
+    return `${ticks}${lang}\n${text}\n${ticks}`
+  }
+
+  export function markdown(transcript: Transcript) {
+    const { info } = transcript
+    const lines = [
+      `# ${info.title}`,
+      "",
+      `- **Session ID:** ${info.id}`,
+      `- **Created:** ${new Date(info.time.created).toLocaleString()}`,
+      `- **Updated:** ${new Date(info.time.updated).toLocaleString()}`,
+      `- **Cost:** $${transcript.cost.toFixed(4)} (${transcript.tokens.input} input, ${transcript.tokens.output} output tokens)`,
+      "",
+      "---",
+      "",
+    ]
+    for (const entry of transcript.entries) {
+      if (entry.blocks.length === 0) continue
+      lines.push(`## ${heading(entry.info)}`, "", `_${details(entry.info)}_`, "")
+      for (const block of entry.blocks) {
+        if (block.type === "text") lines.push(block.text, "")
+        if (block.type === "reasoning") lines.push(...block.text.split("\n").map((x) => `> ${x}`), "")
+        if (block.type === "file") lines.push(`📎 \`${block.name}\``, "")
+        if (block.type === "tool") {
+          lines.push(`### Tool: ${block.tool} — ${block.title}`, "", fence(block.input, "json"), "")
+          if (block.diff) lines.push(fence(block.diff, "diff"), "")
+          else if (block.output) lines.push(fence(block.output), "")
+          if (block.error) lines.push(`**Error:** ${block.error}`, "")
+        }
+        if (block.type === "diff") {
+          for (const diff of block.diffs) {
+            lines.push(`#### ${diff.file} (+${diff.additions} -${diff.deletions})`, "", fence(patch(diff), "diff"), "")
+          }
+        }
+      }
+      lines.push("---", "")
+    }
+    if (transcript.todos.length) {
+      lines.push("## Todos", "")
+      for (const todo of transcript.todos) {
+        lines.push(`- [${todo.status === "completed" ? "x" : " "}] ${todo.content} (${todo.status})`)
+      }
+      lines.push("")
+    }
+    if (transcript.diffs.length) {
+      lines.push("## Changes", "")
+      for (const diff of transcript.diffs) {
+        lines.push(`- \`${diff.file}\` (+${diff.additions} -${diff.deletions})`)
+      }
+      lines.push("")
+    }
+    return lines.join("\n").trim()
+  }
+
+  function escape(text: string) {
+    return text.replace(/&/g, "&amp;").replace(/</g, "&lt;").replace(/>/g, "&gt;").replace(/"/g, "&quot;")
+  }
+
+  function diffHtml(diff: string) {
+    return diff
+      .split("\n")
+      .map((line) => {
+        const kind = line.startsWith("+") ? "add" : line.startsWith("-") ? "del" : line.startsWith("@@") ? "hunk" : ""
+        return `<span class="${kind}">${escape(line)}</span>`
+      })
+      .join("\n")
+  }
+
+  export function html(transcript: Transcript) {
+    const { info } = transcript
+    const body: string[] = [
+      `<h1>${escape(info.title)}</h1>`,
+      `<p class="meta">${escape(info.id)} · ${escape(new Date(info.time.created).toLocaleString())} · $${transcript.cost.toFixed(4)} · ${transcript.tokens.input} input, ${transcript.tokens.output} output tokens</p>`,
+    ]
+    for (const entry of transcript.entries) {
+      if (entry.blocks.length === 0) continue
+      body.push(`<section class="${entry.info.role}">`)
+      body.push(`<h2>${escape(heading(entry.info))}</h2>`, `<p class="meta">${escape(details(entry.info))}</p>`)
+      for (const block of entry.blocks) {
+        if (block.type === "text") body.push(`<div class="text">${escape(block.text)}</div>`)
+        if (block.type === "reasoning") body.push(`<blockquote class="text">${escape(block.text)}</blockquote>`)
+        if (block.type === "file") body.push(`<p class="file">📎 <code>${escape(block.name)}</code></p>`)
+        if (block.type === "tool") {
+          body.push(`<details class="tool"><summary>${escape(block.tool)} — ${escape(block.title)}</summary>`)
+          body.push(`<pre>${escape(block.input)}</pre>`)
+          if (block.diff) body.push(`<pre class="diff">${diffHtml(block.diff)}</pre>`)
+          else if (block.output) body.push(`<pre>${escape(block.output)}</pre>`)
+          if (block.error) body.push(`<p class="error">${escape(block.error)}</p>`)
+          body.push(`</details>`)
+        }
+        if (block.type === "diff") {
+          for (const diff of block.diffs) {
+            body.push(
+              `<details class="tool" open><summary>${escape(diff.file)} (+${diff.additions} -${diff.deletions})</summary>`,
+            )
+            body.push(`<pre class="diff">${diffHtml(patch(diff))}</pre></details>`)
+          }
+        }
+      }
+      body.push(`</section>`)
+    }
+    if (transcript.todos.length) {
+      body.push(`<h2>Todos</h2><ul class="todos">`)
+      for (const todo of transcript.todos) {
+        body.push(
+          `<li class="${escape(todo.status)}">${escape(todo.content)} <span class="meta">${escape(todo.status)}</span></li>`,
+        )
+      }
+      body.push(`</ul>`)
+    }
+    if (transcript.diffs.length) {
+      body.push(`<h2>Changes</h2><ul>`)
+      for (const diff of transcript.diffs) {
+        body.push(
+          `<li><code>${escape(diff.file)}</code> <span class="add">+${diff.additions}</span> <span class="del">-${diff.deletions}</span></li>`,
+        )
+      }
+      body.push(`</ul>`)
+    }
+    return [
+      "<!doctype html>",
+      `<html><head><meta charset="utf-8"><title>${escape(info.title)}</title><style>${STYLE}</style></head>`,
+      `<body>${body.join("\n")}</body></html>`,
+    ].join("\n")
+  }
+
+  const STYLE = [
+    "body{font-family:system-ui,sans-serif;max-width:860px;margin:2rem auto;padding:0 1rem;color:#222}",
+    "section{border-top:1px solid #ddd;padding:.5rem 0}",
+    "section.user h2{color:#2563eb}",
+    ".meta{color:#777;font-size:.85rem}",
+    ".text{white-space:pre-wrap}",
+    "blockquote{color:#666;border-left:3px solid #ddd;margin:0;padding-left:1rem}",
+    "pre{background:#f6f6f6;padding:.75rem;overflow-x:auto;font-size:.85rem}",
+    "details.tool{margin:.5rem 0}summary{cursor:pointer;font-family:monospace}",
+    ".add{color:#15803d}.del{color:#b91c1c}.hunk{color:#7c3aed}.error{color:#b91c1c}",
+    "li.completed{text-decoration:line-through;color:#777}",
+  ].join("")
+}
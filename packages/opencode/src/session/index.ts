@@ -16,6 +16,8 @@ import { SessionPrompt } from "./prompt"
 import { fn } from "@/util/fn"
 import { Command } from "../command"
 import { Snapshot } from "@/snapshot"
+import { SnapshotRetention } from "@/snapshot/retention"
+import { Worktree } from "@/worktree"
 
 import type { Provider } from "@/provider/provider"
 
@@ -70,6 +72,32 @@ export namespace Session {
           diff: z.string().optional(),
         })
         .optional(),
+      budget: z
+        .object({
+          raised: z.number(),
+        })
+        .optional(),
+      worktree: z
+        .object({
+          branch: z.string(),
+          base: z.string(),
+        })
+        .optional(),
+      rollup: z
+        .object({
+          cost: z.number(),
+          tokens: z.object({
+            input: z.number(),
+            output: z.number(),
+            reasoning: z.number(),
+            cache: z.object({
+              read: z.number(),
+              write: z.number(),
+            }),
+          }),
+        })
+        .optional()
+        .describe("Spend of subagent sessions, including their own subagents"),
     })
     .meta({
       ref: "Session",
@@ -126,9 +154,23 @@ export namespace Session {
       .object({
         parentID: Identifier.schema("session").optional(),
         title: z.string().optional(),
+        worktree: z.boolean().optional(),
       })
       .optional(),
     async (input) => {
+      if (input?.worktree && !input.parentID) {
+        const id = Identifier.descending("session")
+        const worktree = await Worktree.create(id)
+        return createNext({
+          id,
+          directory: worktree.directory,
+          title: input.title,
+          worktree: {
+            branch: worktree.branch,
+            base: worktree.base,
+          },
+        })
+      }
       return createNext({
         parentID: input?.parentID,
         directory: Instance.directory,
@@ -174,7 +216,13 @@ export namespace Session {
     })
   })
 
-  export async function createNext(input: { id?: string; title?: string; parentID?: string; directory: string }) {
+  export async function createNext(input: {
+    id?: string
+    title?: string
+    parentID?: string
+    directory: string
+    worktree?: Info["worktree"]
+  }) {
     const result: Info = {
       id: Identifier.descending("session", input.id),
       version: Installation.VERSION,
@@ -182,6 +230,7 @@ export namespace Session {
       directory: input.directory,
       parentID: input.parentID,
       title: input.title ?? createDefaultTitle(!!input.parentID),
+      worktree: input.worktree,
       time: {
         created: Date.now(),
         updated: Date.now(),
@@ -193,7 +242,7 @@ export namespace Session {
       info: result,
     })
     const cfg = await Config.get()
-    if (!result.parentID && (Flag.OPENCODE_AUTO_SHARE || cfg.share === "auto"))
+    if (!result.parentID && (Flag.OPENCODE_AUTO_SHARE || Config.share(cfg).mode === "auto"))
       share(result.id)
         .then((share) => {
           update(result.id, (draft) => {
@@ -220,7 +269,7 @@ export namespace Session {
 
   export const share = fn(Identifier.schema("session"), async (id) => {
     const cfg = await Config.get()
-    if (cfg.share === "disabled") {
+    if (Config.share(cfg).mode === "disabled") {
       throw new Error("Sharing is disabled in configuration")
     }
     const { ShareNext } = await import("@/share/share-next")
@@ -277,9 +326,7 @@ export namespace Session {
 
   export async function* list() {
     const project = Instance.project
-    for (const item of await Storage.list(["session", project.id])) {
-      yield Storage.read<Info>(item)
-    }
+    yield* await Storage.sessions<Info>({ projectID: project.id })
   }
 
   export const children = fn(Identifier.schema("session"), async (parentID) => {
@@ -307,10 +354,22 @@ export namespace Session {
         }
         await Storage.remove(msg)
       }
+      for (const item of await Storage.list(["queue", sessionID])) {
+        await Storage.remove(item)
+      }
+      for (const item of await Storage.list(["checkpoint", sessionID])) {
+        await Snapshot.unpin(item.at(-1)!)
+        await Storage.remove(item)
+      }
+      await Storage.remove(["search", sessionID])
       await Storage.remove(["session", project.id, sessionID])
       Bus.publish(Event.Deleted, {
         info: session,
       })
+      const cfg = await Config.get()
+      const gc = cfg.snapshot !== false && (typeof cfg.snapshot !== "object" || cfg.snapshot.gc !== false)
+      // children are removed first, collect once for the whole tree without blocking the caller
+      if (gc && !session.parentID) SnapshotRetention.schedule()
     } catch (e) {
       log.error(e)
     }
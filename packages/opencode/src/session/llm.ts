@@ -11,6 +11,8 @@ import { Plugin } from "@/plugin"
 import { SystemPrompt } from "./system"
 import { ToolRegistry } from "@/tool/registry"
 import { Flag } from "@/flag/flag"
+import { Recording } from "./recording"
+import { TextTools } from "./text-tools"
 
 export namespace LLM {
   const log = Log.create({ service: "llm" })
@@ -181,6 +183,12 @@ export namespace LLM {
               return args.params
             },
           },
+          // models without native tool calling get the tools described in the prompt instead
+          ...(input.model.capabilities.toolcall ? [] : [TextTools.middleware()]),
+          Recording.middleware({
+            agent: input.agent.name,
+            directory: Flag.SWORDSMITH_EXPERIMENTAL_LLM_RECORD,
+          }),
         ],
       }),
       experimental_telemetry: { isEnabled: cfg.experimental?.openTelemetry },
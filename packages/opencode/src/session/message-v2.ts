@@ -12,10 +12,20 @@ import { Storage } from "@/storage/storage"
 import { ProviderTransform } from "@/provider/transform"
 import { STATUS_CODES } from "http"
 import { iife } from "@/util/iife"
+import { Todo } from "./todo"
 
 export namespace MessageV2 {
   export const OutputLengthError = NamedError.create("MessageOutputLengthError", z.object({}))
   export const AbortedError = NamedError.create("MessageAbortedError", z.object({ message: z.string() }))
+  export const BudgetExceededError = NamedError.create(
+    "BudgetExceededError",
+    z.object({
+      message: z.string(),
+      scope: z.enum(["session", "agent", "daily"]),
+      spent: z.number(),
+      limit: z.number(),
+    }),
+  )
   export const AuthError = NamedError.create(
     "ProviderAuthError",
     z.object({
@@ -117,7 +127,15 @@ export namespace MessageV2 {
     ref: "SymbolSource",
   })
 
-  export const FilePartSource = z.discriminatedUnion("type", [FileSource, SymbolSource]).meta({
+  export const ResourceSource = FilePartSourceBase.extend({
+    type: z.literal("resource"),
+    clientName: z.string(),
+    uri: z.string(),
+  }).meta({
+    ref: "ResourceSource",
+  })
+
+  export const FilePartSource = z.discriminatedUnion("type", [FileSource, SymbolSource, ResourceSource]).meta({
     ref: "FilePartSource",
   })
 
@@ -147,9 +165,25 @@ export namespace MessageV2 {
   })
   export type AgentPart = z.infer<typeof AgentPart>
 
+  export const CompactionSummary = z
+    .object({
+      goals: z.string().array(),
+      decisions: z.string().array(),
+      files: z.string().array(),
+      todos: Todo.Info.array(),
+      next: z.string().array(),
+      notes: z.string(),
+    })
+    .meta({
+      ref: "CompactionSummary",
+    })
+  export type CompactionSummary = z.infer<typeof CompactionSummary>
+
   export const CompactionPart = PartBase.extend({
     type: z.literal("compaction"),
     auto: z.boolean(),
+    status: z.enum(["draft", "committed"]).optional(),
+    summary: CompactionSummary.optional(),
   }).meta({
     ref: "CompactionPart",
   })
@@ -168,6 +202,12 @@ export namespace MessageV2 {
     type: z.literal("retry"),
     attempt: z.number(),
     error: APIError.Schema,
+    fallback: z
+      .object({
+        from: z.object({ providerID: z.string(), modelID: z.string() }),
+        to: z.object({ providerID: z.string(), modelID: z.string() }),
+      })
+      .optional(),
     time: z.object({
       created: z.number(),
     }),
@@ -344,6 +384,7 @@ export namespace MessageV2 {
         OutputLengthError.Schema,
         AbortedError.Schema,
         APIError.Schema,
+        BudgetExceededError.Schema,
       ])
       .optional(),
     parentID: z.string(),
@@ -420,8 +461,17 @@ export namespace MessageV2 {
   export function toModelMessage(input: WithParts[]): ModelMessage[] {
     const result: UIMessage[] = []
 
+    // compactions waiting for review are not part of the context yet
+    const drafts = new Set(
+      input
+        .filter((msg) => msg.parts.some((part) => part.type === "compaction" && part.status === "draft"))
+        .map((msg) => msg.info.id),
+    )
+
     for (const msg of input) {
       if (msg.parts.length === 0) continue
+      if (drafts.has(msg.info.id)) continue
+      if (msg.info.role === "assistant" && drafts.has(msg.info.parentID)) continue
 
       if (msg.info.role === "user") {
         const userMessage: UIMessage = {
@@ -541,12 +591,24 @@ export namespace MessageV2 {
   }
 
   export const stream = fn(Identifier.schema("session"), async function* (sessionID) {
-    const list = await Array.fromAsync(await Storage.list(["message", sessionID]))
+    // callers often stop after the newest few messages, so without an index
+    // each message is only read once it is reached
+    if (!(await Storage.indexed())) {
+      const list = await Storage.list(["message", sessionID])
+      for (let i = list.length - 1; i >= 0; i--) {
+        yield await get({
+          sessionID,
+          messageID: list[i][2],
+        })
+      }
+      return
+    }
+    const list = await Storage.messages<MessageV2.Info>(sessionID)
     for (let i = list.length - 1; i >= 0; i--) {
-      yield await get({
-        sessionID,
-        messageID: list[i][2],
-      })
+      yield {
+        info: list[i],
+        parts: await parts(list[i].id),
+      }
     }
   })
 
@@ -581,7 +643,7 @@ export namespace MessageV2 {
       if (
         msg.info.role === "user" &&
         completed.has(msg.info.id) &&
-        msg.parts.some((part) => part.type === "compaction")
+        msg.parts.some((part) => part.type === "compaction" && part.status !== "draft")
       )
         break
       if (msg.info.role === "assistant" && msg.info.summary && msg.info.finish) completed.add(msg.info.parentID)
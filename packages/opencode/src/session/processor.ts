@@ -4,13 +4,14 @@ import { Identifier } from "@/id/id"
 import { Session } from "."
 import { Agent } from "@/agent/agent"
 import { Permission } from "@/permission"
+import { Sandbox } from "@/shell/sandbox"
 import { Snapshot } from "@/snapshot"
 import { SessionSummary } from "./summary"
 import { Bus } from "@/bus"
 import { SessionRetry } from "./retry"
 import { SessionStatus } from "./status"
 import { Plugin } from "@/plugin"
-import type { Provider } from "@/provider/provider"
+import { Provider } from "@/provider/provider"
 import { LLM } from "./llm"
 import { Config } from "@/config/config"
 
@@ -26,20 +27,43 @@ export namespace SessionProcessor {
     sessionID: string
     model: Provider.Model
     abort: AbortSignal
+    fallback?: { providerID: string; modelID: string }[]
   }) {
     const toolcalls: Record<string, MessageV2.ToolPart> = {}
     let snapshot: string | undefined
     let blocked = false
     let attempt = 0
+    let model = input.model
+    const tried = new Set([model.providerID + "/" + model.id])
+
+    async function fallback() {
+      for (const item of input.fallback ?? []) {
+        const key = item.providerID + "/" + item.modelID
+        if (tried.has(key)) continue
+        tried.add(key)
+        const next = await Provider.getModel(item.providerID, item.modelID).catch((e) => {
+          log.error("fallback model unavailable", { ...item, error: e })
+          return undefined
+        })
+        if (next) return next
+      }
+    }
 
     const result = {
       get message() {
         return input.assistantMessage
       },
+      get model() {
+        return model
+      },
       partFromToolCall(toolCallID: string) {
         return toolcalls[toolCallID]
       },
-      async process(streamInput: LLM.StreamInput) {
+      /**
+       * Stream the step, retrying and falling back as needed. `rebuild` makes
+       * the input for a fallback model, whose tools and prompt can differ.
+       */
+      async process(streamInput: LLM.StreamInput, rebuild?: (model: Provider.Model) => Promise<LLM.StreamInput>) {
         log.info("process")
         const shouldBreak = (await Config.get()).experimental?.continue_loop_on_deny !== true
         while (true) {
@@ -212,7 +236,11 @@ export namespace SessionProcessor {
                         status: "error",
                         input: value.input,
                         error: (value.error as any).toString(),
-                        metadata: value.error instanceof Permission.RejectedError ? value.error.metadata : undefined,
+                        metadata:
+                          value.error instanceof Permission.RejectedError ||
+                          value.error instanceof Sandbox.ViolationError
+                            ? value.error.metadata
+                            : undefined,
                         time: {
                           start: match.state.time.start,
                           end: Date.now(),
@@ -243,7 +271,7 @@ export namespace SessionProcessor {
 
                 case "finish-step":
                   const usage = Session.getUsage({
-                    model: input.model,
+                    model,
                     usage: value.usage,
                     metadata: value.providerMetadata,
                   })
@@ -345,7 +373,36 @@ export namespace SessionProcessor {
               error: e,
               stack: JSON.stringify(e.stack),
             })
-            const error = MessageV2.fromError(e, { providerID: input.model.providerID })
+            const error = MessageV2.fromError(e, { providerID: model.providerID })
+            const reason = SessionRetry.fallback(error)
+            const next = reason !== undefined ? await fallback() : undefined
+            if (next) {
+              log.info("falling back", { from: model.id, to: next.id, reason })
+              await Session.updatePart({
+                id: Identifier.ascending("part"),
+                messageID: input.assistantMessage.id,
+                sessionID: input.assistantMessage.sessionID,
+                type: "retry",
+                attempt: tried.size - 1,
+                error: MessageV2.APIError.isInstance(error)
+                  ? (error as MessageV2.APIError)
+                  : new MessageV2.APIError({ message: reason!, isRetryable: true }).toObject(),
+                fallback: {
+                  from: { providerID: model.providerID, modelID: model.id },
+                  to: { providerID: next.providerID, modelID: next.id },
+                },
+                time: {
+                  created: Date.now(),
+                },
+              })
+              model = next
+              attempt = 0
+              streamInput = rebuild ? await rebuild(model) : { ...streamInput, model }
+              input.assistantMessage.providerID = model.providerID
+              input.assistantMessage.modelID = model.id
+              await Session.updateMessage(input.assistantMessage)
+              continue
+            }
             const retry = SessionRetry.retryable(error)
             if (retry !== undefined) {
               attempt++
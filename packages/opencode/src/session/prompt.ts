@@ -11,8 +11,13 @@ import { Agent } from "../agent/agent"
 import { Provider } from "../provider/provider"
 import { type Tool as AITool, tool, jsonSchema } from "ai"
 import { SessionCompaction } from "./compaction"
+import { SessionBudget } from "./budget"
+import { SessionVerify } from "./verify"
+import { SessionAttachment } from "./attachment"
 import { Instance } from "../project/instance"
 import { Bus } from "../bus"
+import { BusEvent } from "../bus/bus-event"
+import { Storage } from "../storage/storage"
 import { ProviderTransform } from "../provider/transform"
 import { SystemPrompt } from "./system"
 import { Plugin } from "../plugin"
@@ -43,6 +48,7 @@ import { SessionStatus } from "./status"
 import { LLM } from "./llm"
 import { iife } from "@/util/iife"
 import { Shell } from "@/shell/shell"
+import { Hook } from "@/hook"
 
 // @ts-ignore
 globalThis.AI_SDK_LOG_WARNINGS = false
@@ -72,6 +78,21 @@ export namespace SessionPrompt {
     },
   )
 
+  // callers of prompts queued while a turn was running, by queue id, with
+  // the user message the prompt became once it was sent
+  const waiting = Instance.state(() => {
+    const data: Record<
+      string,
+      {
+        sessionID: string
+        messageID?: string
+        resolve(input: MessageV2.WithParts): void
+        reject(): void
+      }
+    > = {}
+    return data
+  })
+
   export function assertNotBusy(sessionID: string) {
     const match = state()[sessionID]
     if (match) throw new Session.BusyError(sessionID)
@@ -137,7 +158,62 @@ export namespace SessionPrompt {
   })
   export type PromptInput = z.infer<typeof PromptInput>
 
+  export const Queued = PromptInput.omit({ messageID: true })
+    .extend({
+      id: Identifier.schema("queue"),
+      time: z.object({
+        created: z.number(),
+      }),
+    })
+    .meta({
+      ref: "QueuedPrompt",
+    })
+  export type Queued = z.infer<typeof Queued>
+
+  export const Event = {
+    Queued: BusEvent.define(
+      "session.prompt.queued",
+      z.object({
+        info: Queued,
+      }),
+    ),
+    Dequeued: BusEvent.define(
+      "session.prompt.dequeued",
+      z.object({
+        sessionID: z.string(),
+        id: z.string(),
+        // set when the prompt was sent, missing when it was removed
+        messageID: z.string().optional(),
+      }),
+    ),
+  }
+
   export const prompt = fn(PromptInput, async (input) => {
+    await Hook.prePrompt({
+      sessionID: input.sessionID,
+      agent: input.agent,
+      text: input.parts.flatMap((part) => (part.type === "text" ? [part.text] : [])).join("\n"),
+    })
+
+    // a turn is already running, hold the prompt until its next step
+    if (state()[input.sessionID]) {
+      const { messageID: _, ...rest } = input
+      const info: Queued = {
+        ...rest,
+        id: Identifier.ascending("queue"),
+        time: {
+          created: Date.now(),
+        },
+      }
+      await Storage.write(["queue", input.sessionID, info.id], info)
+      Bus.publish(Event.Queued, { info })
+      const match = state()[input.sessionID]
+      if (!match) return loop(input.sessionID)
+      return new Promise<MessageV2.WithParts>((resolve, reject) => {
+        waiting()[info.id] = { sessionID: input.sessionID, resolve, reject }
+      })
+    }
+
     const session = await Session.get(input.sessionID)
     await SessionRevert.cleanup(session)
 
@@ -151,6 +227,102 @@ export namespace SessionPrompt {
     return loop(input.sessionID)
   })
 
+  export async function queued(sessionID: string) {
+    const result: Queued[] = []
+    for (const item of await Storage.list(["queue", sessionID])) {
+      const read = await Storage.read<Queued>(item).catch(() => undefined)
+      if (read) result.push(read)
+    }
+    return result
+  }
+
+  export const updateQueued = fn(
+    z.object({
+      sessionID: Identifier.schema("session"),
+      queueID: Identifier.schema("queue"),
+      parts: PromptInput.shape.parts,
+    }),
+    async (input) => {
+      const info = await Storage.update<Queued>(["queue", input.sessionID, input.queueID], (draft) => {
+        draft.parts = input.parts
+      })
+      Bus.publish(Event.Queued, { info })
+      return info
+    },
+  )
+
+  export const removeQueued = fn(
+    z.object({
+      sessionID: Identifier.schema("session"),
+      queueID: Identifier.schema("queue"),
+    }),
+    async (input) => {
+      await Storage.read(["queue", input.sessionID, input.queueID])
+      await Storage.remove(["queue", input.sessionID, input.queueID])
+      Bus.publish(Event.Dequeued, { sessionID: input.sessionID, id: input.queueID })
+      waiting()[input.queueID]?.reject()
+      delete waiting()[input.queueID]
+      return true
+    },
+  )
+
+  // Turn queued prompts into user messages. They get fresh ids so they sort
+  // after everything that was written while they waited.
+  async function flush(sessionID: string) {
+    const items = await queued(sessionID)
+    for (const { id, time: _, ...input } of items) {
+      await Storage.remove(["queue", sessionID, id])
+      const message = await createUserMessage(input)
+      const caller = waiting()[id]
+      if (caller) caller.messageID = message.info.id
+      Bus.publish(Event.Dequeued, { sessionID, id, messageID: message.info.id })
+    }
+    if (items.length) await Session.touch(sessionID)
+  }
+
+  // Resolve the callers of the prompts sent during this turn, each with the
+  // last reply before the next queued prompt. Prompts sent together share the
+  // reply to the last of them.
+  async function answer(sessionID: string) {
+    const sent = Object.entries(waiting())
+      .filter(([, item]) => item.sessionID === sessionID && item.messageID)
+      .sort(([, a], [, b]) => (a.messageID! < b.messageID! ? -1 : 1))
+    if (sent.length === 0) return
+    const replies: MessageV2.WithParts[] = []
+    for await (const item of MessageV2.stream(sessionID)) {
+      if (item.info.id < sent[0][1].messageID!) break
+      if (item.info.role === "assistant") replies.push(item)
+    }
+    let reply: MessageV2.WithParts | undefined
+    let until: string | undefined
+    for (const [id, item] of sent.toReversed()) {
+      reply = replies.find((x) => x.info.id > item.messageID! && (until === undefined || x.info.id < until)) ?? reply
+      until = item.messageID
+      if (reply) item.resolve(reply)
+      else item.reject()
+      delete waiting()[id]
+    }
+  }
+
+  // Reject the callers of queued prompts of a session. Unless `all` is set,
+  // prompts that were not sent yet are kept for the turn that picks them up.
+  function drop(sessionID: string, all: boolean) {
+    for (const [id, item] of Object.entries(waiting())) {
+      if (item.sessionID !== sessionID || (!all && !item.messageID)) continue
+      item.reject()
+      delete waiting()[id]
+    }
+  }
+
+  // prompts queued after the last step boundary start a new turn
+  function resume(sessionID: string) {
+    queued(sessionID)
+      .then((items) => {
+        if (items.length) return loop(sessionID)
+      })
+      .catch((error) => log.error("failed to run queued prompts", { sessionID, error }))
+  }
+
   export async function resolvePromptParts(template: string): Promise<PromptInput["parts"]> {
     const parts: PromptInput["parts"] = [
       {
@@ -222,6 +394,7 @@ export namespace SessionPrompt {
     for (const item of match.callbacks) {
       item.reject()
     }
+    drop(sessionID, false)
     delete s[sessionID]
     SessionStatus.set(sessionID, { type: "idle" })
     return
@@ -236,13 +409,23 @@ export namespace SessionPrompt {
       })
     }
 
-    using _ = defer(() => cancel(sessionID))
+    using _ = defer(() => {
+      const aborted = abort.aborted
+      cancel(sessionID)
+      if (aborted) drop(sessionID, true)
+      else resume(sessionID)
+    })
 
     let step = 0
+    // model the processor fell back to, kept for the rest of the turn
+    let fallback: Provider.Model | undefined
+    // times failed verify checks were sent back to the agent this turn
+    let iterations = 0
     while (true) {
       SessionStatus.set(sessionID, { type: "busy" })
       log.info("loop", { step, sessionID })
       if (abort.aborted) break
+      await flush(sessionID)
       let msgs = await MessageV2.filterCompacted(MessageV2.stream(sessionID))
 
       let lastUser: MessageV2.User | undefined
@@ -282,7 +465,7 @@ export namespace SessionPrompt {
           history: msgs,
         })
 
-      const model = await Provider.getModel(lastUser.model.providerID, lastUser.model.modelID)
+      const model = fallback ?? (await Provider.getModel(lastUser.model.providerID, lastUser.model.modelID))
       const task = tasks.pop()
 
       // pending subtask
@@ -472,6 +655,11 @@ export namespace SessionPrompt {
 
       // normal processing
       const agent = await Agent.get(lastUser.agent)
+      const exceeded = await SessionBudget.check({ sessionID, agent: agent.name })
+      if (exceeded) {
+        Bus.publish(Session.Event.Error, { sessionID, error: exceeded })
+        break
+      }
       const maxSteps = agent.maxSteps ?? Infinity
       const isLastStep = step >= maxSteps
       msgs = insertReminders({
@@ -507,15 +695,8 @@ export namespace SessionPrompt {
         sessionID: sessionID,
         model,
         abort,
+        fallback: agent.model ? [agent.model, ...(agent.fallback ?? [])] : undefined,
       })
-      const tools = await resolveTools({
-        agent,
-        sessionID,
-        model,
-        tools: lastUser.tools,
-        processor,
-      })
-
       if (step === 1) {
         SessionSummary.summarize({
           sessionID: sessionID,
@@ -523,45 +704,116 @@ export namespace SessionPrompt {
         })
       }
 
-      const sessionMessages = clone(msgs)
+      // tools, attachments and the system prompt depend on the model, so a fallback model gets its own
+      const build = async (model: Provider.Model): Promise<LLM.StreamInput> => {
+        const tools = await resolveTools({
+          agent,
+          sessionID,
+          model,
+          tools: lastUser.tools,
+          processor,
+        })
 
-      await Plugin.trigger("experimental.chat.messages.transform", {}, { messages: sessionMessages })
+        const sessionMessages = clone(msgs)
+        await SessionAttachment.adapt({ messages: sessionMessages, model, user: lastUser, abort })
 
-      const result = await processor.process({
-        user: lastUser,
-        agent,
-        abort,
+        await Plugin.trigger("experimental.chat.messages.transform", {}, { messages: sessionMessages })
+
+        return {
+          user: lastUser,
+          agent,
+          abort,
+          sessionID,
+          system: [...(await SystemPrompt.environment()), ...(await SystemPrompt.custom())],
+          messages: [
+            ...MessageV2.toModelMessage(sessionMessages),
+            ...(isLastStep
+              ? [
+                  {
+                    role: "assistant" as const,
+                    content: MAX_STEPS,
+                  },
+                ]
+              : []),
+          ],
+          tools,
+          model,
+        }
+      }
+
+      const result = await processor.process(await build(model), build)
+      if (processor.model !== model) fallback = processor.model
+      if (result === "stop") break
+
+      // verify stage, failed checks go back to the agent until they pass or the cap is reached
+      const changed = (await MessageV2.parts(processor.message.id)).flatMap((part) =>
+        part.type === "patch" ? part.files : [],
+      )
+      if (changed.length === 0) continue
+      const verified = await SessionVerify.run({
         sessionID,
-        system: [...(await SystemPrompt.environment()), ...(await SystemPrompt.custom())],
-        messages: [
-          ...MessageV2.toModelMessage(sessionMessages),
-          ...(isLastStep
-            ? [
-                {
-                  role: "assistant" as const,
-                  content: MAX_STEPS,
-                },
-              ]
-            : []),
-        ],
-        tools,
-        model,
+        messageID: processor.message.id,
+        files: changed,
+        iteration: iterations,
+        abort,
       })
-      if (result === "stop") break
+      if (!verified || verified.status === "passed" || iterations >= verified.max || abort.aborted) continue
+      SessionVerify.retry(verified)
+      iterations = verified.iteration
+      const verifyUserMsg: MessageV2.User = {
+        id: Identifier.ascending("message"),
+        sessionID,
+        role: "user",
+        time: {
+          created: Date.now(),
+        },
+        agent: lastUser.agent,
+        model: lastUser.model,
+        tools: lastUser.tools,
+      }
+      await Session.updateMessage(verifyUserMsg)
+      await Session.updatePart({
+        id: Identifier.ascending("part"),
+        messageID: verifyUserMsg.id,
+        sessionID,
+        type: "text",
+        text: SessionVerify.format(verified),
+        synthetic: true,
+      } satisfies MessageV2.TextPart)
       continue
     }
     SessionCompaction.prune({ sessionID })
     for await (const item of MessageV2.stream(sessionID)) {
       if (item.info.role === "user") continue
+      // hooks can take a while, callers get the reply without waiting for them
+      completed(sessionID, item.info).catch((error) =>
+        log.error("failed to run session_completed hooks", { sessionID, error }),
+      )
       const queued = state()[sessionID]?.callbacks ?? []
       for (const q of queued) {
         q.resolve(item)
       }
+      await answer(sessionID)
       return item
     }
     throw new Error("Impossible")
   })
 
+  // session_completed hooks run when a top-level session goes idle
+  async function completed(sessionID: string, info: MessageV2.Info) {
+    if (Hook.isClaimed(sessionID)) return
+    const session = await Session.get(sessionID)
+    if (session.parentID) return
+    const error = info.role === "assistant" ? info.error : undefined
+    await Hook.sessionCompleted({
+      sessionID,
+      directory: Instance.directory,
+      title: session.title,
+      status: error ? "error" : "completed",
+      error: error ? ("message" in error.data ? String(error.data.message) : error.name) : undefined,
+    })
+  }
+
   async function lastModel(sessionID: string) {
     for await (const item of MessageV2.stream(sessionID)) {
       if (item.info.role === "user" && item.info.model) return item.info.model
@@ -583,7 +835,7 @@ export namespace SessionPrompt {
       mergeDeep(await ToolRegistry.enabled(input.agent)),
       mergeDeep(input.tools ?? {}),
     )
-    for (const item of await ToolRegistry.tools(input.model.providerID)) {
+    for (const item of await ToolRegistry.tools(input.model.providerID, input.model.api.id)) {
       if (Wildcard.all(item.id, enabledTools) === false) continue
       const schema = ProviderTransform.schema(input.model, z.toJSONSchema(item.parameters))
       tools[item.id] = tool({
@@ -602,6 +854,7 @@ export namespace SessionPrompt {
               args,
             },
           )
+          await Hook.preTool({ sessionID: input.sessionID, callID: options.toolCallId, tool: item.id, args })
           const result = await item.execute(args, {
             sessionID: input.sessionID,
             abort: options.abortSignal!,
@@ -636,6 +889,13 @@ export namespace SessionPrompt {
             },
             result,
           )
+          result.output += await Hook.postTool({
+            sessionID: input.sessionID,
+            callID: options.toolCallId,
+            tool: item.id,
+            args,
+            output: result.output,
+          })
           return result
         },
         toModelOutput(result) {
@@ -664,6 +924,7 @@ export namespace SessionPrompt {
             args,
           },
         )
+        await Hook.preTool({ sessionID: input.sessionID, callID: opts.toolCallId, tool: key, args })
         const result = await execute(args, opts)
 
         await Plugin.trigger(
@@ -695,10 +956,20 @@ export namespace SessionPrompt {
           // Add support for other types if needed
         }
 
+        const output = textParts.join("\n\n")
+        const failures = await Hook.postTool({
+          sessionID: input.sessionID,
+          callID: opts.toolCallId,
+          tool: key,
+          args,
+          output,
+        })
+        if (failures) result.content.push({ type: "text", text: failures })
+
         return {
           title: "",
           metadata: result.metadata ?? {},
-          output: textParts.join("\n\n"),
+          output: output + failures,
           attachments,
           content: result.content, // directly return content to preserve ordering when outputting to model
         }
@@ -731,6 +1002,69 @@ export namespace SessionPrompt {
 
     const parts = await Promise.all(
       input.parts.map(async (part): Promise<MessageV2.Part[]> => {
+        if (part.type === "file" && part.source?.type === "resource") {
+          const { clientName, uri } = part.source
+          const pieces: MessageV2.Part[] = [
+            {
+              id: Identifier.ascending("part"),
+              messageID: info.id,
+              sessionID: input.sessionID,
+              type: "text",
+              synthetic: true,
+              text: `Read the MCP resource ${uri} from ${clientName}`,
+            },
+          ]
+          const contents = await MCP.readResource(clientName, uri).catch((error) => {
+            log.error("failed to read resource", { clientName, uri, error })
+            const message = error instanceof Error ? error.message : String(error)
+            pieces.push({
+              id: Identifier.ascending("part"),
+              messageID: info.id,
+              sessionID: input.sessionID,
+              type: "text",
+              synthetic: true,
+              text: `Failed to read the MCP resource ${uri}: ${message}`,
+            })
+            return []
+          })
+          for (const content of contents) {
+            if (content.text !== undefined) {
+              pieces.push({
+                id: Identifier.ascending("part"),
+                messageID: info.id,
+                sessionID: input.sessionID,
+                type: "text",
+                synthetic: true,
+                text: content.text,
+              })
+              continue
+            }
+            if (content.blob === undefined) continue
+            const mime = content.mimeType ?? part.mime
+            pieces.push({
+              id: Identifier.ascending("part"),
+              messageID: info.id,
+              sessionID: input.sessionID,
+              type: "file",
+              url: `data:${mime};base64,${content.blob}`,
+              mime,
+              filename: part.filename,
+              source: part.source,
+            })
+          }
+          // text contents are sent above, keep the attachment for display only
+          if (!contents.some((x) => x.blob !== undefined)) {
+            pieces.push({
+              ...part,
+              id: part.id ?? Identifier.ascending("part"),
+              mime: "text/plain",
+              messageID: info.id,
+              sessionID: input.sessionID,
+            })
+          }
+          return pieces
+        }
+
         if (part.type === "file") {
           const url = new URL(part.url)
           switch (url.protocol) {
@@ -1046,7 +1380,11 @@ export namespace SessionPrompt {
     if (!abort) {
       throw new Session.BusyError(input.sessionID)
     }
-    using _ = defer(() => cancel(input.sessionID))
+    using _ = defer(() => {
+      const aborted = abort.aborted
+      cancel(input.sessionID)
+      if (!aborted) resume(input.sessionID)
+    })
 
     const session = await Session.get(input.sessionID)
     if (session.revert) {
@@ -1287,36 +1625,40 @@ export namespace SessionPrompt {
     const raw = input.arguments.match(argsRegex) ?? []
     const args = raw.map((arg) => arg.replace(quoteTrimRegex, ""))
 
-    const placeholders = command.template.match(placeholderRegex) ?? []
-    let last = 0
-    for (const item of placeholders) {
-      const value = Number(item.slice(1))
-      if (value > last) last = value
-    }
+    // MCP prompts are rendered by their server, without placeholders or shell
+    let template = command.mcp ? await Command.render(input.command, args) : ""
+    if (!command.mcp) {
+      const placeholders = command.template.match(placeholderRegex) ?? []
+      let last = 0
+      for (const item of placeholders) {
+        const value = Number(item.slice(1))
+        if (value > last) last = value
+      }
 
-    // Let the final placeholder swallow any extra arguments so prompts read naturally
-    const withArgs = command.template.replaceAll(placeholderRegex, (_, index) => {
-      const position = Number(index)
-      const argIndex = position - 1
-      if (argIndex >= args.length) return ""
-      if (position === last) return args.slice(argIndex).join(" ")
-      return args[argIndex]
-    })
-    let template = withArgs.replaceAll("$ARGUMENTS", input.arguments)
-
-    const shell = ConfigMarkdown.shell(template)
-    if (shell.length > 0) {
-      const results = await Promise.all(
-        shell.map(async ([, cmd]) => {
-          try {
-            return await $`${{ raw: cmd }}`.nothrow().text()
-          } catch (error) {
-            return `Error executing command: ${error instanceof Error ? error.message : String(error)}`
-          }
-        }),
-      )
-      let index = 0
-      template = template.replace(bashRegex, () => results[index++])
+      // Let the final placeholder swallow any extra arguments so prompts read naturally
+      const withArgs = command.template.replaceAll(placeholderRegex, (_, index) => {
+        const position = Number(index)
+        const argIndex = position - 1
+        if (argIndex >= args.length) return ""
+        if (position === last) return args.slice(argIndex).join(" ")
+        return args[argIndex]
+      })
+      template = withArgs.replaceAll("$ARGUMENTS", input.arguments)
+
+      const shell = ConfigMarkdown.shell(template)
+      if (shell.length > 0) {
+        const results = await Promise.all(
+          shell.map(async ([, cmd]) => {
+            try {
+              return await $`${{ raw: cmd }}`.nothrow().text()
+            } catch (error) {
+              return `Error executing command: ${error instanceof Error ? error.message : String(error)}`
+            }
+          }),
+        )
+        let index = 0
+        template = template.replace(bashRegex, () => results[index++])
+      }
     }
     template = template.trim()
 
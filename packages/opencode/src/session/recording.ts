@@ -0,0 +1,169 @@
+import path from "path"
+import fs from "fs/promises"
+import z from "zod"
+import {
+  NoSuchModelError,
+  type LanguageModelV2,
+  type LanguageModelV2Middleware,
+  type LanguageModelV2StreamPart,
+  type ProviderV2,
+} from "@ai-sdk/provider"
+import { NamedError } from "@opencode-ai/util/error"
+import { Instance } from "../project/instance"
+import { Log } from "../util/log"
+
+/**
+ * Record and replay the raw stream parts of model calls. A recording is a
+ * directory with one file per step, grouped by agent so that title and
+ * summary calls running next to the main loop don't change the order:
+ *
+ *   <directory>/<agent>/0000.json
+ *
+ * The playback provider hands out the steps of each agent in order, which
+ * makes sessions reproducible without a live provider.
+ */
+export namespace Recording {
+  const log = Log.create({ service: "recording" })
+
+  export const PROVIDER = "playback"
+  export const NPM = "@opencode-ai/playback"
+
+  export type Step = {
+    agent: string
+    model: string
+    parts: LanguageModelV2StreamPart[]
+  }
+
+  export const MissingError = NamedError.create(
+    "RecordingMissingError",
+    z.object({
+      file: z.string(),
+    }),
+  )
+
+  export function file(directory: string, agent: string, index: number) {
+    return path.join(directory, agent, index.toString().padStart(4, "0") + ".json")
+  }
+
+  export async function write(file: string, step: Step) {
+    await fs.mkdir(path.dirname(file), { recursive: true })
+    await Bun.write(file, JSON.stringify(step, null, 2))
+  }
+
+  export async function read(file: string): Promise<Step> {
+    const step = await Bun.file(file)
+      .json()
+      .catch(() => {
+        throw new MissingError({ file })
+      })
+    for (const part of step.parts) {
+      if (part.type === "response-metadata" && part.timestamp) part.timestamp = new Date(part.timestamp)
+      if (part.type === "error") part.error = Object.assign(new Error(part.error.message), { name: part.error.name })
+    }
+    return step
+  }
+
+  function serialize(part: LanguageModelV2StreamPart): LanguageModelV2StreamPart {
+    if (part.type === "file" && part.data instanceof Uint8Array)
+      return { ...part, data: Buffer.from(part.data).toString("base64") }
+    if (part.type === "error") {
+      const error = part.error instanceof Error ? part.error : new Error(String(part.error))
+      return { ...part, error: { name: error.name, message: error.message } }
+    }
+    return part
+  }
+
+  const counters = Instance.state(() => new Map<string, number>())
+
+  function next(key: string) {
+    const map = counters()
+    const index = map.get(key) ?? 0
+    map.set(key, index + 1)
+    return index
+  }
+
+  /**
+   * Middleware for every model call. It tells the playback provider which
+   * agent is asking and, when `directory` is set, records the stream of any
+   * other provider.
+   */
+  export function middleware(input: { agent: string; directory?: string }): LanguageModelV2Middleware {
+    return {
+      async transformParams({ params, model }) {
+        if (model.provider !== PROVIDER) return params
+        return {
+          ...params,
+          providerOptions: {
+            ...params.providerOptions,
+            [PROVIDER]: { agent: input.agent },
+          },
+        }
+      },
+      async wrapStream({ doStream, model }) {
+        const directory = input.directory
+        if (!directory || model.provider === PROVIDER) return doStream()
+        const target = file(directory, input.agent, next(path.resolve(directory) + path.sep + input.agent))
+        const result = await doStream()
+        const parts: LanguageModelV2StreamPart[] = []
+        return {
+          ...result,
+          stream: result.stream.pipeThrough(
+            new TransformStream<LanguageModelV2StreamPart, LanguageModelV2StreamPart>({
+              transform(part, controller) {
+                if (part.type !== "raw") parts.push(serialize(part))
+                controller.enqueue(part)
+              },
+              async flush() {
+                await write(target, { agent: input.agent, model: model.modelId, parts })
+                  .then(() => log.info("recorded", { file: target }))
+                  .catch((e) => log.error("failed to record", { file: target, error: e }))
+              },
+            }),
+          ),
+        }
+      },
+    }
+  }
+
+  /**
+   * Provider that replays a recording instead of calling a model. Steps are
+   * read lazily, a missing step fails the call with MissingError.
+   */
+  export function createPlayback(options: { directory?: string }): ProviderV2 {
+    const directory = path.resolve(Instance.directory, options.directory ?? "recording")
+    const replayed = new Map<string, number>()
+    const languageModel = (modelId: string): LanguageModelV2 => ({
+      specificationVersion: "v2",
+      provider: PROVIDER,
+      modelId,
+      supportedUrls: {},
+      async doGenerate() {
+        throw new Error("playback only supports streaming")
+      },
+      async doStream(call) {
+        const agent = String(call.providerOptions?.[PROVIDER]?.["agent"] ?? "build")
+        const index = replayed.get(agent) ?? 0
+        replayed.set(agent, index + 1)
+        const step = await read(file(directory, agent, index))
+        log.info("replaying", { agent, index })
+        return {
+          stream: new ReadableStream<LanguageModelV2StreamPart>({
+            start(controller) {
+              for (const part of step.parts) controller.enqueue(part)
+              controller.close()
+            },
+          }),
+        }
+      },
+    })
+    return {
+      languageModel,
+      textEmbeddingModel(modelId) {
+        throw new NoSuchModelError({ modelId, modelType: "textEmbeddingModel" })
+      },
+      imageModel(modelId) {
+        throw new NoSuchModelError({ modelId, modelType: "imageModel" })
+      },
+    }
+  }
+}
@@ -53,6 +53,35 @@ export namespace SessionRetry {
     return Math.min(RETRY_INITIAL_DELAY * Math.pow(RETRY_BACKOFF_FACTOR, attempt - 1), RETRY_MAX_DELAY_NO_HEADERS)
   }
 
+  /**
+   * Errors that another model in the agent's fallback chain can get past:
+   * rate limits, overloaded providers and prompts that exceed the context
+   * window. Returns a short reason or undefined.
+   */
+  export function fallback(error: ReturnType<NamedError["toObject"]>) {
+    if (MessageV2.APIError.isInstance(error)) {
+      const message = error.data.message.toLowerCase()
+      if (error.data.statusCode === 429 || message.includes("rate limit") || message.includes("too many requests"))
+        return "Rate Limited"
+      if (error.data.statusCode === 529 || message.includes("overloaded")) return "Provider is overloaded"
+      if (CONTEXT_LENGTH.some((x) => message.includes(x))) return "Context length exceeded"
+      return undefined
+    }
+    const reason = retryable(error)
+    if (reason === "Too Many Requests" || reason === "Rate Limited" || reason === "Provider is overloaded")
+      return reason
+    return undefined
+  }
+
+  const CONTEXT_LENGTH = [
+    "context length",
+    "context window",
+    "context_length_exceeded",
+    "maximum context",
+    "prompt is too long",
+    "too many tokens",
+  ]
+
   export function retryable(error: ReturnType<NamedError["toObject"]>) {
     if (MessageV2.APIError.isInstance(error)) {
       if (!error.data.isRetryable) return undefined
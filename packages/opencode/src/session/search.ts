@@ -0,0 +1,154 @@
+import z from "zod"
+import path from "path"
+import { Bus } from "@/bus"
+import { Storage } from "@/storage/storage"
+import { fn } from "@/util/fn"
+import { Log } from "@/util/log"
+import { Session } from "."
+import { MessageV2 } from "./message-v2"
+import { SessionStatus } from "./status"
+
+export namespace SessionSearch {
+  const log = Log.create({ service: "session.search" })
+
+  const TEXT_LIMIT = 200_000
+  const SNIPPET_RADIUS = 60
+
+  type Document = {
+    sessionID: string
+    title: string
+    text: string
+    tools: string[]
+    files: string[]
+    time: {
+      indexed: number
+    }
+  }
+
+  export const Result = z
+    .object({
+      // lazy, the server imports this module while the session module is still loading
+      session: z.lazy(() => Session.Info),
+      score: z.number(),
+      snippet: z.string().optional(),
+      files: z.string().array(),
+    })
+    .meta({
+      ref: "SessionSearchResult",
+    })
+  export type Result = z.infer<typeof Result>
+
+  export function init() {
+    Bus.subscribe(SessionStatus.Event.Idle, async (evt) => {
+      const session = await Session.get(evt.properties.sessionID).catch(() => undefined)
+      if (!session) return
+      await index(session).catch((e) => log.error("failed to index", { sessionID: session.id, error: e }))
+    })
+  }
+
+  /**
+   * Rebuild the search document of a session from its text parts, tool
+   * titles and the files it touched.
+   */
+  export async function index(session: Session.Info) {
+    const text: string[] = []
+    const tools = new Set<string>()
+    const files = new Set<string>()
+    const relative = (file: string) => (path.isAbsolute(file) ? path.relative(session.directory, file) : file)
+    let length = 0
+    for (const msg of await Storage.list(["message", session.id])) {
+      for (const key of await Storage.list(["part", msg.at(-1)!])) {
+        const part = await Storage.read<MessageV2.Part>(key)
+        if (part.type === "text" && !part.synthetic && length < TEXT_LIMIT) {
+          text.push(part.text)
+          length += part.text.length
+        }
+        if (part.type === "tool" && part.state.status === "completed") {
+          tools.add(part.state.title)
+          const file = part.state.input["filePath"] ?? part.state.input["path"]
+          if (typeof file === "string") files.add(relative(file))
+        }
+        if (part.type === "patch") part.files.forEach((file) => files.add(relative(file)))
+        if (part.type === "file" && part.source && "path" in part.source) files.add(relative(part.source.path))
+      }
+    }
+    const doc: Document = {
+      sessionID: session.id,
+      title: session.title,
+      text: text.join("\n").slice(0, TEXT_LIMIT),
+      tools: [...tools].filter(Boolean),
+      files: [...files],
+      time: {
+        indexed: Date.now(),
+      },
+    }
+    await Storage.write(["search", session.id], doc)
+    return doc
+  }
+
+  function count(haystack: string, needle: string) {
+    return haystack.toLowerCase().split(needle).length - 1
+  }
+
+  function snippet(text: string, term: string) {
+    const index = text.toLowerCase().indexOf(term)
+    if (index === -1) return
+    const start = Math.max(0, index - SNIPPET_RADIUS)
+    const end = Math.min(text.length, index + term.length + SNIPPET_RADIUS)
+    return [
+      start > 0 ? "…" : "",
+      text.slice(start, end).replace(/\s+/g, " ").trim(),
+      end < text.length ? "…" : "",
+    ].join("")
+  }
+
+  /**
+   * Full-text search over sessions of every project. Every term in the query
+   * has to match the title, text, tool titles or files of a session. Indexes
+   * are rebuilt on the fly for sessions that changed since they were indexed.
+   */
+  export const search = fn(
+    z.object({
+      query: z.string(),
+      limit: z.number().int().positive().optional(),
+      projectID: z.string().optional(),
+    }),
+    async (input) => {
+      const terms = input.query.toLowerCase().split(/\s+/).filter(Boolean)
+      if (terms.length === 0) return []
+      const results: Result[] = []
+      for (const key of await Storage.list(input.projectID ? ["session", input.projectID] : ["session"])) {
+        const session = await Storage.read<Session.Info>(key).catch(() => undefined)
+        if (!session || session.parentID) continue
+        const existing = await Storage.read<Document>(["search", session.id]).catch(() => undefined)
+        const doc =
+          existing && existing.time.indexed >= session.time.updated && existing.title === session.title
+            ? existing
+            : await index(session)
+        let score = 0
+        for (const term of terms) {
+          const hits =
+            count(doc.title, term) * 5 +
+            doc.files.reduce((sum, file) => sum + count(file, term), 0) * 3 +
+            doc.tools.reduce((sum, tool) => sum + count(tool, term), 0) * 2 +
+            count(doc.text, term)
+          if (hits === 0) {
+            score = 0
+            break
+          }
+          score += hits
+        }
+        if (score === 0) continue
+        results.push({
+          session,
+          score,
+          snippet: terms.map((term) => snippet(doc.text, term)).find(Boolean),
+          files: doc.files.filter((file) => terms.some((term) => file.toLowerCase().includes(term))),
+        })
+      }
+      return results
+        .sort((a, b) => b.score - a.score || b.session.time.updated - a.session.time.updated)
+        .slice(0, input.limit ?? 20)
+    },
+  )
+}
@@ -0,0 +1,229 @@
+import z from "zod"
+import { Bus } from "@/bus"
+import { BusEvent } from "@/bus/bus-event"
+import { Config } from "@/config/config"
+import { Identifier } from "@/id/id"
+import { Instance } from "@/project/instance"
+import { fn } from "@/util/fn"
+import { Log } from "@/util/log"
+import { Session } from "."
+import { MessageV2 } from "./message-v2"
+import { SessionPrompt } from "./prompt"
+
+export namespace SessionSubagent {
+  const log = Log.create({ service: "session.subagent" })
+
+  export const Info = z
+    .object({
+      sessionID: z.string(),
+      parentID: z.string(),
+      agent: z.string(),
+      description: z.string(),
+      status: z.enum(["queued", "running", "completed", "error", "cancelled"]),
+      tool: z.string().optional().describe("Tool the subagent is running right now"),
+      cost: z.number(),
+      tokens: z.object({
+        input: z.number(),
+        output: z.number(),
+      }),
+      time: z.object({
+        created: z.number(),
+        started: z.number().optional(),
+        completed: z.number().optional(),
+      }),
+    })
+    .meta({
+      ref: "Subagent",
+    })
+  export type Info = z.infer<typeof Info>
+
+  export const Event = {
+    Updated: BusEvent.define(
+      "session.subagent.updated",
+      z.object({
+        info: Info,
+      }),
+    ),
+  }
+
+  type Waiting = {
+    sessionID: string
+    resolve: (started: boolean) => void
+  }
+
+  const state = Instance.state(() => {
+    const info: Record<string, Info> = {}
+    // slots in use and children waiting for one, per parent session
+    const running: Record<string, number> = {}
+    const waiting: Record<string, Waiting[]> = {}
+    return { info, running, waiting }
+  })
+
+  function update(info: Info) {
+    state().info[info.sessionID] = info
+    Bus.publish(Event.Updated, { info })
+    return info
+  }
+
+  /** Subagents started by a session while this instance is running, oldest first. */
+  export function list(parentID: string) {
+    return Object.values(state().info)
+      .filter((x) => x.parentID === parentID)
+      .toSorted((a, b) => a.time.created - b.time.created)
+  }
+
+  async function acquire(parentID: string, sessionID: string) {
+    const s = state()
+    const limit = (await Config.get()).subagent?.concurrency
+    if (!limit || (s.running[parentID] ?? 0) < limit) {
+      s.running[parentID] = (s.running[parentID] ?? 0) + 1
+      return true
+    }
+    log.info("queued", { parentID, sessionID, limit })
+    return new Promise<boolean>((resolve) => {
+      ;(s.waiting[parentID] ??= []).push({ sessionID, resolve })
+    })
+  }
+
+  async function release(parentID: string) {
+    const s = state()
+    s.running[parentID] = Math.max(0, (s.running[parentID] ?? 1) - 1)
+    const limit = (await Config.get()).subagent?.concurrency
+    const queue = s.waiting[parentID] ?? []
+    while (queue.length > 0 && (!limit || s.running[parentID] < limit)) {
+      s.running[parentID]++
+      queue.shift()!.resolve(true)
+    }
+  }
+
+  /**
+   * Run a subagent prompt once the parent has a free slot, keeping its status,
+   * current tool and spend up to date. Returns undefined when the subagent
+   * was cancelled before it started.
+   */
+  export async function run(
+    input: { parentID: string; sessionID: string; agent: string; description: string },
+    prompt: () => Promise<MessageV2.WithParts>,
+  ) {
+    const s = state()
+    const info = update({
+      sessionID: input.sessionID,
+      parentID: input.parentID,
+      agent: input.agent,
+      description: input.description,
+      status: "queued",
+      cost: 0,
+      tokens: {
+        input: 0,
+        output: 0,
+      },
+      time: {
+        created: Date.now(),
+      },
+    })
+    if (!(await acquire(input.parentID, input.sessionID))) return
+    update({
+      ...(s.info[input.sessionID] ?? info),
+      status: "running",
+      time: { ...info.time, started: Date.now() },
+    })
+
+    const unsub = Bus.subscribe(MessageV2.Event.PartUpdated, (evt) => {
+      const part = evt.properties.part
+      if (part.sessionID !== input.sessionID) return
+      const current = s.info[input.sessionID]
+      if (current?.status !== "running") return
+      if (part.type === "tool") {
+        if (part.state.status === "pending" || part.state.status === "running") update({ ...current, tool: part.tool })
+        else if (current.tool === part.tool) update({ ...current, tool: undefined })
+      }
+      if (part.type === "step-finish")
+        update({
+          ...current,
+          cost: current.cost + part.cost,
+          tokens: {
+            input: current.tokens.input + part.tokens.input + part.tokens.cache.read + part.tokens.cache.write,
+            output: current.tokens.output + part.tokens.output + part.tokens.reasoning,
+          },
+        })
+    })
+
+    const finish = (status: Info["status"]) => {
+      const current = s.info[input.sessionID] ?? info
+      // cancel() already recorded the outcome
+      if (current.status !== "running") return
+      update({ ...current, status, tool: undefined, time: { ...current.time, completed: Date.now() } })
+    }
+
+    try {
+      const result = await prompt()
+      const error = result.info.role === "assistant" ? result.info.error : undefined
+      finish(!error ? "completed" : MessageV2.AbortedError.isInstance(error) ? "cancelled" : "error")
+      return result
+    } catch (e) {
+      finish("error")
+      throw e
+    } finally {
+      unsub()
+      await release(input.parentID)
+      await rollup(input.parentID).catch((e) => log.error("failed to roll up", { parentID: input.parentID, error: e }))
+    }
+  }
+
+  /** Cancel a subagent, whether it is still waiting for a slot or running. */
+  export const cancel = fn(Identifier.schema("session"), async (sessionID) => {
+    const s = state()
+    const info = s.info[sessionID]
+    if (!info) return false
+    if (info.status === "queued") {
+      const queue = s.waiting[info.parentID] ?? []
+      const index = queue.findIndex((x) => x.sessionID === sessionID)
+      if (index !== -1) queue.splice(index, 1)[0].resolve(false)
+    } else if (info.status === "running") {
+      SessionPrompt.cancel(sessionID)
+    } else {
+      return false
+    }
+    log.info("cancelled", { sessionID, status: info.status })
+    update({ ...info, status: "cancelled", tool: undefined, time: { ...info.time, completed: Date.now() } })
+    return true
+  })
+
+  /**
+   * Store the spend of all child sessions on the parent, including what their
+   * own children rolled up, and pass it on to the grandparent.
+   */
+  export async function rollup(parentID: string): Promise<Session.Info> {
+    const total: NonNullable<Session.Info["rollup"]> = {
+      cost: 0,
+      tokens: {
+        input: 0,
+        output: 0,
+        reasoning: 0,
+        cache: {
+          read: 0,
+          write: 0,
+        },
+      },
+    }
+    const add = (item: NonNullable<Session.Info["rollup"]>) => {
+      total.cost += item.cost
+      total.tokens.input += item.tokens.input
+      total.tokens.output += item.tokens.output
+      total.tokens.reasoning += item.tokens.reasoning
+      total.tokens.cache.read += item.tokens.cache.read
+      total.tokens.cache.write += item.tokens.cache.write
+    }
+    for (const child of await Session.children(parentID)) {
+      for (const msg of await Session.messages({ sessionID: child.id })) {
+        if (msg.info.role === "assistant") add(msg.info)
+      }
+      if (child.rollup) add(child.rollup)
+    }
+    const parent = await Session.update(parentID, (draft) => {
+      draft.rollup = total
+    })
+    if (parent.parentID) await rollup(parent.parentID)
+    return parent
+  }
+}
@@ -0,0 +1,253 @@
+import { ulid } from "ulid"
+import type {
+  LanguageModelV2FunctionTool,
+  LanguageModelV2Message,
+  LanguageModelV2Middleware,
+  LanguageModelV2Prompt,
+  LanguageModelV2StreamPart,
+  LanguageModelV2ToolResultOutput,
+} from "@ai-sdk/provider"
+import { Log } from "../util/log"
+
+/**
+ * Tool calling for models without native support. The tools are described
+ * in the system prompt, earlier calls and results are replayed as text and
+ * `<tool_call>` blocks in the response are turned back into tool calls, so
+ * the rest of the pipeline can't tell the difference.
+ */
+export namespace TextTools {
+  const log = Log.create({ service: "text-tools" })
+
+  export const OPEN = "<tool_call>"
+  export const CLOSE = "</tool_call>"
+
+  export function instructions(tools: LanguageModelV2FunctionTool[]) {
+    return [
+      "You can call tools. To call one, write a block with a JSON object holding the tool name and its arguments:",
+      "",
+      OPEN,
+      `{"name": "read", "arguments": {"filePath": "/path/to/file"}}`,
+      CLOSE,
+      "",
+      "You can write several blocks to call tools in parallel. Stop after your tool calls, the results are sent back in <tool_result> blocks. Only call the tools listed below and only use this format to call them.",
+      "",
+      "<tools>",
+      ...tools.map((tool) =>
+        [
+          `<tool name="${tool.name}">`,
+          tool.description ?? "",
+          `Arguments (JSON schema): ${JSON.stringify(tool.inputSchema)}`,
+          `</tool>`,
+        ].join("\n"),
+      ),
+      "</tools>",
+    ].join("\n")
+  }
+
+  function call(name: string, input: unknown) {
+    return `${OPEN}\n${JSON.stringify({ name, arguments: input })}\n${CLOSE}`
+  }
+
+  function output(value: LanguageModelV2ToolResultOutput) {
+    switch (value.type) {
+      case "text":
+      case "error-text":
+        return value.value
+      case "json":
+      case "error-json":
+        return JSON.stringify(value.value)
+      case "content":
+        return value.value.map((item) => (item.type === "text" ? item.text : `[${item.mediaType} omitted]`)).join("\n")
+    }
+  }
+
+  /** Replace tool calls and results in the prompt with their text form and describe the tools in the system prompt. */
+  export function prompt(input: LanguageModelV2Prompt, tools: LanguageModelV2FunctionTool[]): LanguageModelV2Prompt {
+    const result: LanguageModelV2Message[] = []
+    for (const msg of input) {
+      if (msg.role === "assistant") {
+        result.push({
+          ...msg,
+          content: msg.content.map((part) => {
+            if (part.type === "tool-call") return { type: "text", text: call(part.toolName, part.input) }
+            if (part.type === "tool-result")
+              return {
+                type: "text",
+                text: `<tool_result name="${part.toolName}">\n${output(part.output)}\n</tool_result>`,
+              }
+            return part
+          }),
+        })
+        continue
+      }
+      if (msg.role === "tool") {
+        const content = msg.content.map((part) => ({
+          type: "text" as const,
+          text: `<tool_result name="${part.toolName}">\n${output(part.output)}\n</tool_result>`,
+        }))
+        const last = result.at(-1)
+        // keep user and assistant turns alternating, attachments returned by tools follow as a user message
+        if (last?.role === "user") last.content.push(...content)
+        else result.push({ role: "user", content })
+        continue
+      }
+      if (msg.role === "user") {
+        const last = result.at(-1)
+        if (last?.role === "user") last.content.push(...msg.content)
+        else result.push({ ...msg, content: [...msg.content] })
+        continue
+      }
+      result.push(msg)
+    }
+    const index = result.findIndex((msg) => msg.role !== "system")
+    result.splice(index === -1 ? result.length : index, 0, { role: "system", content: instructions(tools) })
+    return result
+  }
+
+  /** Parse the body of a `<tool_call>` block into a tool name and stringified arguments. */
+  export function parse(body: string) {
+    const parsed = (() => {
+      try {
+        return JSON.parse(body.trim())
+      } catch {
+        return undefined
+      }
+    })()
+    if (!parsed || typeof parsed !== "object" || typeof parsed.name !== "string") {
+      return {
+        toolName: "invalid",
+        input: JSON.stringify({
+          tool: parsed?.name ?? "unknown",
+          error: `Tool calls must be a JSON object like {"name": "tool", "arguments": {...}}, got: ${body.trim()}`,
+        }),
+      }
+    }
+    return { toolName: parsed.name as string, input: JSON.stringify(parsed.arguments ?? parsed.input ?? {}) }
+  }
+
+  // length of the longest suffix of text that could be the start of tag
+  function partial(text: string, tag: string) {
+    for (let length = Math.min(text.length, tag.length - 1); length > 0; length--) {
+      if (tag.startsWith(text.slice(-length))) return length
+    }
+    return 0
+  }
+
+  /** Split text deltas into plain text and tool calls as they stream in. */
+  export function parser(controller: TransformStreamDefaultController<LanguageModelV2StreamPart>) {
+    let buffer = ""
+    let inside = false
+    let count = 0
+    let calls = 0
+    let current: string | undefined
+
+    function text(id: string, delta: string) {
+      if (!delta) return
+      if (!current) {
+        if (!delta.trim()) return
+        current = `${id}-${count++}`
+        controller.enqueue({ type: "text-start", id: current })
+      }
+      controller.enqueue({ type: "text-delta", id: current, delta })
+    }
+
+    function end(metadata?: Record<string, any>) {
+      if (!current) return
+      controller.enqueue({ type: "text-end", id: current, providerMetadata: metadata })
+      current = undefined
+    }
+
+    function emit(body: string) {
+      end()
+      calls++
+      const parsed = parse(body)
+      const id = `call_${ulid()}`
+      log.info("tool call", { tool: parsed.toolName })
+      // same sequence as a native tool call, the processor creates the tool part on tool-input-start
+      controller.enqueue({ type: "tool-input-start", id, toolName: parsed.toolName })
+      controller.enqueue({ type: "tool-input-delta", id, delta: parsed.input })
+      controller.enqueue({ type: "tool-input-end", id })
+      controller.enqueue({ type: "tool-call", toolCallId: id, ...parsed })
+    }
+
+    return {
+      get calls() {
+        return calls
+      },
+      delta(id: string, delta: string) {
+        buffer += delta
+        while (true) {
+          if (inside) {
+            const index = buffer.indexOf(CLOSE)
+            if (index === -1) return
+            emit(buffer.slice(0, index))
+            buffer = buffer.slice(index + CLOSE.length)
+            inside = false
+            continue
+          }
+          const index = buffer.indexOf(OPEN)
+          if (index === -1) {
+            const keep = partial(buffer, OPEN)
+            text(id, buffer.slice(0, buffer.length - keep))
+            buffer = buffer.slice(buffer.length - keep)
+            return
+          }
+          text(id, buffer.slice(0, index))
+          buffer = buffer.slice(index + OPEN.length)
+          inside = true
+        }
+      },
+      flush(id: string, metadata?: Record<string, any>) {
+        // models often stop right before the closing tag
+        if (inside) emit(buffer)
+        else text(id, buffer)
+        buffer = ""
+        inside = false
+        end(metadata)
+      },
+    }
+  }
+
+  export function middleware(): LanguageModelV2Middleware {
+    // calls without tools, eg titles, pass through untouched
+    let active = false
+    return {
+      async transformParams({ params }) {
+        const tools = (params.tools ?? []).filter((tool) => tool.type === "function")
+        active = tools.length > 0
+        if (!active) return params
+        return {
+          ...params,
+          tools: undefined,
+          toolChoice: undefined,
+          prompt: prompt(params.prompt, tools),
+        }
+      },
+      async wrapStream({ doStream }) {
+        const result = await doStream()
+        if (!active) return result
+        let state: ReturnType<typeof parser>
+        return {
+          ...result,
+          stream: result.stream.pipeThrough(
+            new TransformStream<LanguageModelV2StreamPart, LanguageModelV2StreamPart>({
+              start(controller) {
+                state = parser(controller)
+              },
+              transform(part, controller) {
+                if (part.type === "text-start") return
+                if (part.type === "text-delta") return state.delta(part.id, part.delta)
+                if (part.type === "text-end") return state.flush(part.id, part.providerMetadata)
+                if (part.type === "finish" && state.calls > 0 && part.finishReason === "stop") {
+                  controller.enqueue({ ...part, finishReason: "tool-calls" })
+                  return
+                }
+                controller.enqueue(part)
+              },
+            }),
+          ),
+        }
+      },
+    }
+  }
+}
@@ -0,0 +1,209 @@
+import z from "zod"
+import path from "path"
+import { Bus } from "@/bus"
+import { BusEvent } from "@/bus/bus-event"
+import { Config } from "@/config/config"
+import { Instance } from "@/project/instance"
+import { Shell } from "@/shell/shell"
+import { Log } from "@/util/log"
+
+/**
+ * The `verify` stage. After a step that changed files the configured checks
+ * run, and failures go back to the agent as a reminder until they pass or
+ * `max_iterations` is reached.
+ */
+export namespace SessionVerify {
+  const log = Log.create({ service: "session.verify" })
+
+  const TIMEOUT = 120_000
+  const MAX_ITERATIONS = 3
+  // tail of the output kept per failed check, the end usually has the summary
+  const MAX_OUTPUT = 8_000
+
+  export const Check = z
+    .object({
+      name: z.string(),
+      command: z.string().array(),
+      status: z.enum(["running", "passed", "failed", "timeout"]),
+      code: z.number().nullable().optional(),
+      output: z.string().optional(),
+      time: z.object({
+        start: z.number(),
+        end: z.number().optional(),
+      }),
+    })
+    .meta({
+      ref: "VerifyCheck",
+    })
+  export type Check = z.infer<typeof Check>
+
+  export const Info = z
+    .object({
+      sessionID: z.string(),
+      messageID: z.string().describe("Assistant message whose changes were checked"),
+      status: z.enum(["running", "passed", "failed"]),
+      iteration: z.number().describe("Number of times failures were sent back to the agent this turn"),
+      max: z.number(),
+      files: z.string().array(),
+      checks: Check.array(),
+      time: z.object({
+        start: z.number(),
+        end: z.number().optional(),
+      }),
+    })
+    .meta({
+      ref: "SessionVerify",
+    })
+  export type Info = z.infer<typeof Info>
+
+  export const Event = {
+    Updated: BusEvent.define(
+      "session.verify.updated",
+      z.object({
+        info: Info,
+      }),
+    ),
+  }
+
+  const state = Instance.state(() => {
+    const latest: Record<string, Info> = {}
+    return { latest }
+  })
+
+  function update(info: Info) {
+    state().latest[info.sessionID] = info
+    Bus.publish(Event.Updated, { info })
+  }
+
+  /** The most recent verification of a session while this instance is running. */
+  export function get(sessionID: string) {
+    return state().latest[sessionID]
+  }
+
+  /**
+   * Run every enabled check whose globs match one of the changed files, one
+   * after the other. Returns undefined when no check applies. Aborting kills
+   * the running check and fails the ones left.
+   */
+  export async function run(input: {
+    sessionID: string
+    messageID: string
+    files: string[]
+    iteration: number
+    abort: AbortSignal
+  }) {
+    const cfg = (await Config.get()).verify
+    const files = input.files.map((file) => path.relative(Instance.worktree, file))
+    const checks = Object.entries(cfg?.check ?? {}).flatMap(([name, check]) => {
+      if (check.disabled || check.command.length === 0) return []
+      const matched = check.files
+        ? files.filter((file) => check.files!.some((pattern) => new Bun.Glob(pattern).match(file)))
+        : files
+      if (matched.length === 0) return []
+      return [{ name, check, files: matched }]
+    })
+    if (checks.length === 0) return
+
+    const info: Info = {
+      sessionID: input.sessionID,
+      messageID: input.messageID,
+      status: "running",
+      iteration: input.iteration,
+      max: cfg?.max_iterations ?? MAX_ITERATIONS,
+      files,
+      checks: checks.map((item) => ({
+        name: item.name,
+        command: expand(item.check.command, item.files),
+        status: "running",
+        time: { start: Date.now() },
+      })),
+      time: { start: Date.now() },
+    }
+    update(info)
+
+    for (const [index, item] of checks.entries()) {
+      const check = info.checks[index]
+      check.time.start = Date.now()
+      log.info("running", { name: check.name, command: check.command })
+      Object.assign(check, await execute(check.command, item.check, input.abort))
+      check.time.end = Date.now()
+      if (check.status !== "passed") log.info("failed", { name: check.name, code: check.code })
+      update(info)
+    }
+
+    info.status = info.checks.every((check) => check.status === "passed") ? "passed" : "failed"
+    info.time.end = Date.now()
+    update(info)
+    return info
+  }
+
+  /** Count a failed verification as sent back to the agent. */
+  export function retry(info: Info) {
+    info.iteration++
+    update(info)
+  }
+
+  async function execute(
+    command: string[],
+    config: Config.Verify,
+    abort: AbortSignal,
+  ): Promise<Pick<Check, "status" | "code" | "output">> {
+    if (abort.aborted) return { status: "failed", code: null, output: "aborted" }
+    const timeout = config.timeout ?? TIMEOUT
+    let proc: Bun.Subprocess<"ignore", "pipe", "pipe">
+    try {
+      proc = Bun.spawn(command, {
+        cwd: Instance.worktree,
+        env: {
+          ...process.env,
+          ...config.environment,
+        },
+        stdin: "ignore",
+        stdout: "pipe",
+        stderr: "pipe",
+        // own process group, so stopping the check also stops the commands it started
+        detached: process.platform !== "win32",
+      })
+    } catch (e) {
+      // a missing executable fails the check instead of the agent loop
+      return { status: "failed", code: null, output: e instanceof Error ? e.message : String(e) }
+    }
+    let timedOut = false
+    const timer = setTimeout(() => {
+      timedOut = true
+      void Shell.killTree(proc)
+    }, timeout)
+    const kill = () => void Shell.killTree(proc)
+    abort.addEventListener("abort", kill, { once: true })
+    const [stdout, stderr] = await Promise.all([
+      new Response(proc.stdout).text(),
+      new Response(proc.stderr).text(),
+      proc.exited,
+    ]).finally(() => {
+      clearTimeout(timer)
+      abort.removeEventListener("abort", kill)
+    })
+    if (abort.aborted) return { status: "failed", code: null, output: "aborted" }
+    if (timedOut) return { status: "timeout", code: null, output: `timed out after ${timeout}ms` }
+    if (proc.exitCode === 0) return { status: "passed", code: 0 }
+    return { status: "failed", code: proc.exitCode, output: [stdout, stderr].join("\n").trim().slice(-MAX_OUTPUT) }
+  }
+
+  function expand(command: string[], files: string[]) {
+    return command.flatMap((arg) => (arg === "$FILES" ? files : [arg]))
+  }
+
+  /** Failed checks formatted as a reminder for the agent. */
+  export function format(info: Info) {
+    const failed = info.checks.filter((check) => check.status !== "passed")
+    return [
+      `<system-reminder>`,
+      `The verify checks failed after your last changes (attempt ${info.iteration} of ${info.max}). Fix the problems below, then continue.`,
+      ...failed.map(
+        (check) =>
+          `<verify_failure check="${check.name}" command="${check.command.join(" ")}" exit_code="${check.code ?? check.status}">\n${check.output}\n</verify_failure>`,
+      ),
+      `</system-reminder>`,
+    ].join("\n")
+  }
+}
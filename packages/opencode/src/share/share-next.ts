@@ -11,8 +11,18 @@ import type * as SDK from "@opencode-ai/sdk/v2"
 export namespace ShareNext {
   const log = Log.create({ service: "share-next" })
 
-  async function url() {
-    return Config.get().then((x) => x.enterprise?.url ?? "https://opncd.ai")
+  async function options() {
+    const cfg = await Config.get()
+    const share = Config.share(cfg)
+    return {
+      url: share.url ?? cfg.enterprise?.url ?? "https://opncd.ai",
+      headers: {
+        "Content-Type": "application/json",
+        ...(share.token ? { Authorization: `Bearer ${share.token}` } : {}),
+      },
+      expires: share.expires ? Date.now() + share.expires * 24 * 60 * 60 * 1000 : undefined,
+      password: share.password,
+    }
   }
 
   export async function init() {
@@ -64,14 +74,16 @@ export namespace ShareNext {
 
   export async function create(sessionID: string) {
     log.info("creating share", { sessionID })
-    const result = await fetch(`${await url()}/api/share`, {
+    const { url, headers, expires, password } = await options()
+    const result = await fetch(`${url}/api/share`, {
       method: "POST",
-      headers: {
-        "Content-Type": "application/json",
-      },
-      body: JSON.stringify({ sessionID: sessionID }),
+      headers,
+      body: JSON.stringify({ sessionID: sessionID, expires, password }),
     })
-      .then((x) => x.json())
+      .then(async (x) => {
+        if (!x.ok) throw new Error(`Share server responded with ${x.status}: ${await x.text()}`)
+        return x.json()
+      })
       .then((x) => x as { id: string; url: string; secret: string })
     await Storage.write(["session_share", sessionID], result)
     fullSync(sessionID)
@@ -130,16 +142,18 @@ export namespace ShareNext {
       const share = await get(sessionID)
       if (!share) return
 
-      await fetch(`${await url()}/api/share/${share.id}/sync`, {
+      const { url, headers } = await options()
+      const response = await fetch(`${url}/api/share/${share.id}/sync`, {
         method: "POST",
-        headers: {
-          "Content-Type": "application/json",
-        },
+        headers,
         body: JSON.stringify({
           secret: share.secret,
           data: Array.from(queued.data.values()),
         }),
+      }).catch((error) => {
+        log.error("sync failed", { sessionID, error })
       })
+      if (response && !response.ok) log.error("sync failed", { sessionID, status: response.status })
     }, 1000)
     queue.set(sessionID, { timeout, data: dataMap })
   }
@@ -148,11 +162,10 @@ export namespace ShareNext {
     log.info("removing share", { sessionID })
     const share = await get(sessionID)
     if (!share) return
-    await fetch(`${await url()}/api/share/${share.id}`, {
+    const { url, headers } = await options()
+    await fetch(`${url}/api/share/${share.id}`, {
       method: "DELETE",
-      headers: {
-        "Content-Type": "application/json",
-      },
+      headers,
       body: JSON.stringify({
         secret: share.secret,
       }),
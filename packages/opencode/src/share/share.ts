@@ -1,8 +1,10 @@
 import { Bus } from "../bus"
+import { Config } from "../config/config"
 import { Installation } from "../installation"
 import { Session } from "../session"
 import { MessageV2 } from "../session/message-v2"
 import { Log } from "../util/log"
+import { ShareNext } from "./share-next"
 
 export namespace Share {
   const log = Log.create({ service: "share" })
@@ -25,6 +27,7 @@ export namespace Share {
         if (content === undefined) return
         pending.delete(key)
 
+        if (await custom()) return
         return fetch(`${URL}/share_sync`, {
           method: "POST",
           body: JSON.stringify({
@@ -71,7 +74,17 @@ export namespace Share {
     process.env["OPENCODE_API"] ??
     (Installation.isPreview() || Installation.isLocal() ? "https://api.dev.swordsmith-coder.example.com" : "https://api.swordsmith-coder.example.com")
 
+  /**
+   * A configured share server replaces the hosted API, so nothing is sent
+   * there. It only has the /api/share routes, so shares go through ShareNext
+   * and shares made on the hosted API stop syncing.
+   */
+  async function custom() {
+    return Config.share(await Config.get()).url !== undefined
+  }
+
   export async function create(sessionID: string) {
+    if (await custom()) return ShareNext.create(sessionID)
     return fetch(`${URL}/share_create`, {
       method: "POST",
       body: JSON.stringify({ sessionID: sessionID }),
@@ -81,6 +94,7 @@ export namespace Share {
   }
 
   export async function remove(sessionID: string, secret: string) {
+    if (await custom()) return ShareNext.remove(sessionID)
     return fetch(`${URL}/share_delete`, {
       method: "POST",
       body: JSON.stringify({ sessionID, secret }),
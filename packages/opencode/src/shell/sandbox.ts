@@ -0,0 +1,109 @@
+import { Config } from "@/config/config"
+import { Instance } from "@/project/instance"
+import { lazy } from "@/util/lazy"
+import { Log } from "@/util/log"
+import os from "os"
+
+export namespace Sandbox {
+  const log = Log.create({ service: "sandbox" })
+
+  export interface Spawn {
+    file: string
+    args: string[]
+    network: boolean
+  }
+
+  export interface Violation {
+    kind: "write" | "network"
+    path?: string
+  }
+
+  const bwrap = lazy(() => {
+    if (process.platform !== "linux") return
+    return Bun.which("bwrap") ?? undefined
+  })
+
+  export class ViolationError extends Error {
+    constructor(
+      public readonly violation: Violation,
+      public readonly metadata: Record<string, any>,
+    ) {
+      super(
+        violation.kind === "write"
+          ? `The sandbox blocked a write${violation.path ? ` to ${violation.path}` : ""}. Only files inside ${metadata.writable.join(", ")} can be modified; change the command so it only writes there.`
+          : `The sandbox blocked network access. This command cannot reach the network; use a command that works offline.`,
+      )
+    }
+  }
+
+  export class UnavailableError extends Error {
+    constructor() {
+      super(`Sandbox mode "bwrap" is configured but bubblewrap (bwrap) was not found on PATH`)
+    }
+  }
+
+  export function root() {
+    return Instance.worktree === "/" ? Instance.directory : Instance.worktree
+  }
+
+  export async function writable() {
+    const cfg = await Config.get()
+    return [root(), os.tmpdir(), ...(cfg.sandbox?.writable ?? [])]
+  }
+
+  /**
+   * Resolve how a shell command should be spawned given the configured
+   * sandbox mode. Returns undefined when the command should run directly,
+   * either because sandboxing is off or bubblewrap is unavailable in "auto" mode.
+   */
+  export async function wrap(input: { shell: string; command: string; cwd: string }): Promise<Spawn | undefined> {
+    const cfg = await Config.get()
+    const mode = cfg.sandbox?.mode ?? "off"
+    if (mode === "off") return
+
+    const bin = bwrap()
+    if (!bin) {
+      if (mode === "bwrap") throw new UnavailableError()
+      log.warn("bubblewrap not available, running without sandbox")
+      return
+    }
+
+    const network = cfg.sandbox?.network ?? true
+    return {
+      file: bin,
+      args: [...args({ writable: await writable(), network, cwd: input.cwd }), input.shell, "-c", input.command],
+      network,
+    }
+  }
+
+  export function args(input: { writable: string[]; network: boolean; cwd: string }) {
+    const result = ["--ro-bind", "/", "/", "--dev", "/dev", "--proc", "/proc", "--die-with-parent", "--new-session"]
+    for (const dir of input.writable) {
+      result.push("--bind-try", dir, dir)
+    }
+    if (!input.network) result.push("--unshare-net")
+    result.push("--chdir", input.cwd)
+    return result
+  }
+
+  const WRITE = [/(?:'|"|`)?([^\s'"`]+)(?:'|"|`)?:\s*Read-only file system/, /Read-only file system/, /EROFS/]
+  const NETWORK = [
+    /Could not resolve host/,
+    /Temporary failure in name resolution/,
+    /Network is unreachable/,
+    /getaddrinfo (?:EAI_AGAIN|ENOTFOUND)/,
+  ]
+
+  /**
+   * Inspect the output of a failed sandboxed command for signs that the
+   * sandbox, rather than the command itself, caused the failure.
+   */
+  export function detect(input: { output: string; network: boolean }): Violation | undefined {
+    for (const pattern of WRITE) {
+      const match = input.output.match(pattern)
+      if (match) return { kind: "write", path: match[1] }
+    }
+    if (input.network) return
+    if (NETWORK.some((pattern) => pattern.test(input.output))) return { kind: "network" }
+  }
+}
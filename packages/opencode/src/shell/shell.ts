@@ -6,7 +6,11 @@ import { spawn, type ChildProcess } from "child_process"
 const SIGKILL_TIMEOUT_MS = 200
 
 export namespace Shell {
-  export async function killTree(proc: ChildProcess, opts?: { exited?: () => boolean }): Promise<void> {
+  /** Kills the process and its children, the process must have been spawned detached to get its own group. */
+  export async function killTree(
+    proc: Pick<ChildProcess, "pid" | "kill"> | Bun.Subprocess,
+    opts?: { exited?: () => boolean },
+  ): Promise<void> {
     const pid = proc.pid
     if (!pid || opts?.exited?.()) return
 
@@ -6,6 +6,7 @@ import { Global } from "../global"
 import z from "zod"
 import { Config } from "../config/config"
 import { Instance } from "../project/instance"
+import { Lock } from "../util/lock"
 
 export namespace Snapshot {
   const log = Log.create({ service: "snapshot" })
@@ -14,7 +15,10 @@ export namespace Snapshot {
     if (Instance.project.vcs !== "git") return
     const cfg = await Config.get()
     if (cfg.snapshot === false) return
+    const options = typeof cfg.snapshot === "object" ? cfg.snapshot : {}
     const git = gitdir()
+    // gc holds the write lock, objects written while it prunes could be lost
+    using _ = await Lock.read(git)
     if (await fs.mkdir(git, { recursive: true })) {
       await $`git init`
         .env({
@@ -28,6 +32,7 @@ export namespace Snapshot {
       await $`git --git-dir ${git} config core.autocrlf false`.quiet().nothrow()
       log.info("initialized")
     }
+    await exclude(git, options)
     await $`git --git-dir ${git} --work-tree ${Instance.worktree} add .`.quiet().cwd(Instance.directory).nothrow()
     const hash = await $`git --git-dir ${git} --work-tree ${Instance.worktree} write-tree`
       .quiet()
@@ -38,6 +43,74 @@ export namespace Snapshot {
     return hash.trim()
   }
 
+  const state = Instance.state(() => ({
+    // files above max_file_size, and the limit they were checked against
+    large: undefined as Set<string> | undefined,
+    limit: 0,
+  }))
+
+  /**
+   * Keep configured patterns and files above max_file_size out of the index.
+   * Large files are excluded by path and checked again on every step, so
+   * they come back once they shrink.
+   */
+  async function exclude(git: string, options: { exclude?: string[]; max_file_size?: number }) {
+    const large = options.max_file_size ? await oversized(git, options.max_file_size) : []
+    const content = [...(options.exclude ?? []), ...large.map(literal)].map((x) => x + "\n").join("")
+    const target = path.join(git, "info", "exclude")
+    const current = await Bun.file(target)
+      .text()
+      .catch(() => "")
+    if (current === content) return
+    await fs.mkdir(path.dirname(target), { recursive: true })
+    await Bun.write(target, content)
+    log.info("excluding", { patterns: options.exclude?.length ?? 0, large: large.length })
+    // files that were tracked before they matched stay in the index otherwise
+    // -f because without a HEAD, rm refuses files that changed since they were staged
+    const ignored =
+      await $`git --git-dir ${git} --work-tree ${Instance.worktree} ls-files -z --cached --ignored --exclude-standard`
+        .quiet()
+        .cwd(Instance.worktree)
+        .nothrow()
+        .text()
+    if (!ignored) return
+    await $`git --git-dir ${git} --work-tree ${Instance.worktree} rm -q -r -f --cached --ignore-unmatch --pathspec-from-file=- --pathspec-file-nul < ${new Response(ignored)}`
+      .quiet()
+      .cwd(Instance.worktree)
+      .nothrow()
+  }
+
+  /**
+   * Files above the limit. Every file is checked once per instance, after
+   * that only the ones git reports as changed or new, and the large ones
+   * again to see if they shrank.
+   */
+  async function oversized(git: string, limit: number) {
+    const s = state()
+    const full = !s.large || s.limit !== limit
+    const large = full ? new Set<string>() : s.large!
+    const files =
+      await $`git --git-dir ${git} --work-tree ${Instance.worktree} ls-files -z ${full ? ["--cached", "--others", "--exclude-per-directory=.gitignore"] : ["--modified", "--others", "--exclude-standard"]}`
+        .quiet()
+        .cwd(Instance.worktree)
+        .nothrow()
+        .text()
+    for (const file of new Set([...files.split("\0"), ...large])) {
+      if (!file) continue
+      const stat = await fs.stat(path.join(Instance.worktree, file)).catch(() => undefined)
+      if (stat && stat.size > limit) large.add(file)
+      else large.delete(file)
+    }
+    s.large = large
+    s.limit = limit
+    return [...large].toSorted()
+  }
+
+  // gitignore pattern matching exactly one path from the root
+  function literal(file: string) {
+    return "/" + file.replace(/[\\*?[\]!#]/g, "\\$&").replace(/ $/, "\\ ")
+  }
+
   export const Patch = z.object({
     hash: z.string(),
     files: z.string().array(),
@@ -190,8 +263,77 @@ export namespace Snapshot {
     return result
   }
 
+  /** Keep a snapshot reachable under refs/checkpoints/<name> so it survives git gc. */
+  export async function pin(name: string, hash: string) {
+    const git = gitdir()
+    const result = await $`git --git-dir ${git} update-ref refs/checkpoints/${name} ${hash}`.quiet().nothrow()
+    if (result.exitCode !== 0) log.warn("failed to pin snapshot", { name, hash, stderr: result.stderr.toString() })
+  }
+
+  export async function unpin(name: string) {
+    const git = gitdir()
+    await $`git --git-dir ${git} update-ref -d refs/checkpoints/${name}`.quiet().nothrow()
+  }
+
+  /**
+   * Prune snapshot objects that are not reachable from `keep`, a checkpoint
+   * or the index. Objects written in the last hour survive, so steps being
+   * tracked right now are safe. Sizes are in bytes.
+   */
+  export async function gc(keep: string[]) {
+    const git = gitdir()
+    if (!(await fs.stat(git).catch(() => undefined))) return { before: 0, after: 0 }
+    using _ = await Lock.write(git)
+    const before = await size(git)
+    // hashes of other worktrees or already pruned snapshots can't be kept
+    const known = await $`git --git-dir ${git} cat-file --batch-check < ${new Response(keep.join("\n"))}`
+      .quiet()
+      .nothrow()
+      .text()
+    const refs = new Set(
+      known
+        .split("\n")
+        .map((line) => line.split(" "))
+        .filter((parts) => parts.length === 3)
+        .map((parts) => parts[0]),
+    )
+    const update = async (action: string) => {
+      if (refs.size === 0) return
+      const lines = [...refs].map((hash) => `${action} refs/keep/${hash}${action === "create" ? " " + hash : ""}\n`)
+      await $`git --git-dir ${git} update-ref --stdin < ${new Response(lines.join(""))}`.quiet().nothrow()
+    }
+    await update("create")
+    const result = await $`git --git-dir ${git} gc --quiet --prune=1.hour.ago`.quiet().nothrow()
+    await update("delete")
+    if (result.exitCode !== 0) log.warn("failed to collect garbage", { stderr: result.stderr.toString() })
+    const after = await size(git)
+    log.info("gc", { before, after, kept: refs.size })
+    return { before, after }
+  }
+
+  /** Bytes used by the objects of the snapshot repository. */
+  export async function size(git = gitdir()) {
+    const text = await $`git --git-dir ${git} count-objects -v`.quiet().nothrow().text()
+    let kib = 0
+    for (const line of text.split("\n")) {
+      const [key, value] = line.split(": ")
+      if (key === "size" || key === "size-pack") kib += parseInt(value)
+    }
+    return kib * 1024
+  }
+
+  /** Remove the snapshot repository of the current worktree. */
+  export async function destroy() {
+    await fs.rm(gitdir(), { recursive: true, force: true })
+  }
+
   function gitdir() {
     const project = Instance.project
+    // session worktrees share the project id but track a different checkout, see
+    // Worktree.root, not imported since the worktree module depends on sessions
+    const worktree = path.relative(path.join(Global.Path.data, "worktree", project.id), Instance.worktree)
+    if (worktree && !worktree.startsWith("..") && !path.isAbsolute(worktree))
+      return path.join(Global.Path.data, "snapshot", `${project.id}-${worktree.split(path.sep)[0]}`)
     return path.join(Global.Path.data, "snapshot", project.id)
   }
 }
@@ -0,0 +1,87 @@
+import { Config } from "../config/config"
+import { Instance } from "../project/instance"
+import { Session } from "../session"
+import { Log } from "../util/log"
+import { Snapshot } from "."
+
+/**
+ * Decide which snapshots are still worth keeping. Snapshots referenced by
+ * the steps of existing sessions are kept unless they are older than
+ * `max_age`, checkpoints are always kept, and when the repository is still
+ * above `max_size` the oldest half of the remaining snapshots is dropped
+ * until it fits.
+ */
+export namespace SnapshotRetention {
+  const log = Log.create({ service: "snapshot.retention" })
+
+  const DAY = 24 * 60 * 60 * 1000
+
+  export type Options = {
+    max_age?: number
+    max_size?: number
+  }
+
+  /** Snapshot hashes referenced by sessions of the project, newest first. */
+  export async function roots(since = 0) {
+    const seen = new Map<string, number>()
+    const add = (hash: string | undefined, time: number) => {
+      if (!hash || time < since) return
+      seen.set(hash, Math.max(seen.get(hash) ?? 0, time))
+    }
+    for await (const session of Session.list()) {
+      add(session.revert?.snapshot, session.time.updated)
+      for (const msg of await Session.messages({ sessionID: session.id })) {
+        for (const part of msg.parts) {
+          if (part.type === "step-start" || part.type === "step-finish" || part.type === "snapshot")
+            add(part.snapshot, msg.info.time.created)
+          if (part.type === "patch") add(part.hash, msg.info.time.created)
+        }
+      }
+    }
+    return [...seen.entries()].toSorted((a, b) => b[1] - a[1]).map(([hash]) => hash)
+  }
+
+  const state = Instance.state(() => ({
+    running: undefined as Promise<void> | undefined,
+    again: false,
+  }))
+
+  /**
+   * Collect in the background. Runs one at a time, calls while one is running
+   * are folded into a single run after it.
+   */
+  export function schedule() {
+    const s = state()
+    if (s.running) {
+      s.again = true
+      return s.running
+    }
+    s.running = (async () => {
+      do {
+        s.again = false
+        await collect().catch((e) => log.error("failed to collect snapshots", { error: e }))
+      } while (s.again)
+    })().finally(() => {
+      s.running = undefined
+    })
+    return s.running
+  }
+
+  export async function collect(override: Options = {}) {
+    const cfg = await Config.get()
+    const config = typeof cfg.snapshot === "object" ? cfg.snapshot : {}
+    const options = {
+      max_age: override.max_age ?? config.max_age,
+      max_size: override.max_size ?? config.max_size,
+    }
+    const keep = await roots(options.max_age ? Date.now() - options.max_age * DAY : 0)
+    const limit = options.max_size ? options.max_size * 1024 * 1024 : undefined
+    const result = await Snapshot.gc(keep)
+    while (limit && result.after > limit && keep.length > 0) {
+      keep.splice(Math.floor(keep.length / 2))
+      log.info("over size limit", { size: result.after, limit, keep: keep.length })
+      result.after = (await Snapshot.gc(keep)).after
+    }
+    return result
+  }
+}
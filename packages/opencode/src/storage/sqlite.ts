@@ -0,0 +1,155 @@
+import { Database } from "bun:sqlite"
+import path from "path"
+import { Log } from "../util/log"
+import type { Storage } from "./storage"
+
+/**
+ * Storage driver that keeps every key in one SQLite table. The kind, parent
+ * and time of each value are stored next to it, so sessions of a project and
+ * messages of a session come from an index instead of reading every file.
+ */
+export namespace StorageSqlite {
+  const log = Log.create({ service: "storage.sqlite" })
+
+  const VERSION = 1
+  const BATCH = 1000
+
+  type Driver = Storage.Driver & { db: Database }
+
+  export function open(file: string): Driver {
+    const db = new Database(file, { create: true })
+    db.exec("PRAGMA journal_mode = WAL")
+    db.exec("PRAGMA busy_timeout = 5000")
+    db.exec(`
+      CREATE TABLE IF NOT EXISTS entry (
+        key TEXT PRIMARY KEY,
+        kind TEXT NOT NULL,
+        parent TEXT,
+        time INTEGER,
+        value TEXT NOT NULL
+      )
+    `)
+    db.exec("CREATE INDEX IF NOT EXISTS entry_kind_parent_time ON entry (kind, parent, time)")
+
+    const select = db.query<{ value: string }, [string]>("SELECT value FROM entry WHERE key = ?")
+    const insert = db.query(
+      "INSERT OR REPLACE INTO entry (key, kind, parent, time, value) VALUES ($key, $kind, $parent, $time, $value)",
+    )
+    const remove = db.query("DELETE FROM entry WHERE key = ?")
+
+    const read = (key: string[]) => {
+      const row = select.get(key.join("/"))
+      return row ? JSON.parse(row.value) : undefined
+    }
+    const write = (key: string[], content: unknown) => {
+      insert.run(row(key, content))
+    }
+    const update = db.transaction((key: string[], fn: (draft: any) => void) => {
+      const content = read(key)
+      if (content === undefined) return
+      fn(content)
+      write(key, content)
+      return content
+    })
+    const parse = (rows: { value: string }[]) => rows.map((x) => JSON.parse(x.value))
+
+    return {
+      db,
+      indexed: true,
+      async read(key) {
+        return read(key)
+      },
+      async write(key, content) {
+        write(key, content)
+      },
+      async update(key, fn) {
+        return update(key, fn)
+      },
+      async remove(key) {
+        remove.run(key.join("/"))
+      },
+      async list(prefix) {
+        const rows =
+          prefix.length === 0
+            ? db.query<{ key: string }, []>("SELECT key FROM entry ORDER BY key").all()
+            : // "0" sorts right after "/", so this is every key below the prefix
+              db
+                .query<
+                  { key: string },
+                  [string, string]
+                >("SELECT key FROM entry WHERE key >= ? AND key < ? ORDER BY key")
+                .all(prefix.join("/") + "/", prefix.join("/") + "0")
+        return rows.map((x) => x.key.split("/"))
+      },
+      async sessions(input) {
+        const rows = input.projectID
+          ? db
+              .query<
+                { value: string },
+                [string, number, number]
+              >("SELECT value FROM entry WHERE kind = 'session' AND parent = ? AND time >= ? ORDER BY time DESC LIMIT ?")
+              .all(input.projectID, input.since ?? 0, input.limit ?? -1)
+          : db
+              .query<
+                { value: string },
+                [number, number]
+              >("SELECT value FROM entry WHERE kind = 'session' AND time >= ? ORDER BY time DESC LIMIT ?")
+              .all(input.since ?? 0, input.limit ?? -1)
+        return parse(rows)
+      },
+      async messages(sessionID) {
+        const rows = db
+          .query<
+            { value: string },
+            [string]
+          >("SELECT value FROM entry WHERE kind = 'message' AND parent = ? ORDER BY key")
+          .all(sessionID)
+        return parse(rows)
+      },
+    }
+  }
+
+  function row(key: string[], content: any) {
+    return {
+      $key: key.join("/"),
+      $kind: key[0],
+      $parent: key.length > 2 ? key[1] : null,
+      $time: content?.time?.updated ?? content?.time?.created ?? null,
+      $value: JSON.stringify(content),
+    }
+  }
+
+  /**
+   * Import the JSON files of `dir` the first time the database is opened.
+   * The files are left in place so switching back keeps working.
+   */
+  export async function migrate(driver: Driver, dir: string) {
+    const { db } = driver
+    const current = db.query<{ user_version: number }, []>("PRAGMA user_version").get()?.user_version ?? 0
+    if (current >= VERSION) return
+    log.info("importing", { dir })
+    const insert = db.query(
+      "INSERT OR IGNORE INTO entry (key, kind, parent, time, value) VALUES ($key, $kind, $parent, $time, $value)",
+    )
+    const flush = db.transaction((rows: ReturnType<typeof row>[]) => {
+      for (const item of rows) insert.run(item)
+    })
+    let pending: ReturnType<typeof row>[] = []
+    let count = 0
+    for await (const file of new Bun.Glob("**/*.json").scan({ cwd: dir })) {
+      const content = await Bun.file(path.join(dir, file))
+        .json()
+        .catch(() => undefined)
+      if (content === undefined) continue
+      pending.push(row(file.slice(0, -5).split(path.sep), content))
+      if (pending.length < BATCH) continue
+      flush(pending)
+      count += pending.length
+      pending = []
+    }
+    flush(pending)
+    count += pending.length
+    db.exec(`PRAGMA user_version = ${VERSION}`)
+    log.info("imported", { count })
+  }
+}
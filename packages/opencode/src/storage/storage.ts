@@ -6,6 +6,7 @@ import { lazy } from "../util/lazy"
 import { Lock } from "../util/lock"
 import { $ } from "bun"
 import { NamedError } from "@opencode-ai/util/error"
+import { Flag } from "../flag/flag"
 import z from "zod"
 
 export namespace Storage {
@@ -140,6 +141,27 @@ export namespace Storage {
     },
   ]
 
+  export type Driver = {
+    /** Whether `sessions` and `messages` come from an index rather than reading every entry. */
+    indexed: boolean
+    read(key: string[]): Promise<unknown>
+    write(key: string[], content: unknown): Promise<void>
+    update(key: string[], fn: (draft: any) => void): Promise<unknown>
+    remove(key: string[]): Promise<void>
+    list(prefix: string[]): Promise<string[][]>
+    /** Sessions of a project, or of all projects, most recently updated first. */
+    sessions(input: SessionQuery): Promise<unknown[]>
+    /** Message infos of a session, oldest first. */
+    messages(sessionID: string): Promise<unknown[]>
+  }
+
+  export type SessionQuery = {
+    projectID?: string
+    /** Only sessions updated at or after this time. */
+    since?: number
+    limit?: number
+  }
+
   const state = lazy(async () => {
     const dir = path.join(Global.Path.data, "storage")
     const migration = await Bun.file(path.join(dir, "migration"))
@@ -152,75 +174,131 @@ export namespace Storage {
       await migration(dir).catch(() => log.error("failed to run migration", { index }))
       await Bun.write(path.join(dir, "migration"), (index + 1).toString())
     }
+    if (Flag.SWORDSMITH_STORAGE === "sqlite") {
+      const { StorageSqlite } = await import("./sqlite")
+      const driver = StorageSqlite.open(path.join(Global.Path.data, "storage.db"))
+      await StorageSqlite.migrate(driver, dir)
+      return { dir, driver }
+    }
     return {
       dir,
+      driver: json(dir),
     }
   })
 
+  const glob = new Bun.Glob("**/*")
+
+  /** One JSON file per key below the storage directory. */
+  function json(dir: string): Driver {
+    const file = (key: string[]) => path.join(dir, ...key) + ".json"
+    const missing = (e: unknown) => {
+      if ((e as NodeJS.ErrnoException)?.code === "ENOENT") return undefined
+      throw e
+    }
+    const list = async (prefix: string[]) => {
+      try {
+        const result = await Array.fromAsync(
+          glob.scan({
+            cwd: path.join(dir, ...prefix),
+            onlyFiles: true,
+          }),
+        ).then((results) => results.map((x) => [...prefix, ...x.slice(0, -5).split(path.sep)]))
+        result.sort()
+        return result
+      } catch {
+        return []
+      }
+    }
+    const all = async (prefix: string[]) => {
+      const result = [] as any[]
+      for (const key of await list(prefix)) {
+        const item = await Bun.file(file(key))
+          .json()
+          .catch(() => undefined)
+        if (item) result.push(item)
+      }
+      return result
+    }
+    return {
+      indexed: false,
+      async read(key) {
+        const target = file(key)
+        using _ = await Lock.read(target)
+        return Bun.file(target).json().catch(missing)
+      },
+      async write(key, content) {
+        const target = file(key)
+        using _ = await Lock.write(target)
+        await Bun.write(target, JSON.stringify(content, null, 2))
+      },
+      async update(key, fn) {
+        const target = file(key)
+        using _ = await Lock.write(target)
+        const content = await Bun.file(target).json().catch(missing)
+        if (content === undefined) return
+        fn(content)
+        await Bun.write(target, JSON.stringify(content, null, 2))
+        return content
+      },
+      async remove(key) {
+        await fs.unlink(file(key)).catch(() => {})
+      },
+      list,
+      async sessions(input) {
+        const result = await all(input.projectID ? ["session", input.projectID] : ["session"])
+        return result
+          .filter((x) => x.time.updated >= (input.since ?? 0))
+          .toSorted((a, b) => b.time.updated - a.time.updated)
+          .slice(0, input.limit)
+      },
+      async messages(sessionID) {
+        const result = await all(["message", sessionID])
+        return result.toSorted((a, b) => (a.id > b.id ? 1 : -1))
+      },
+    }
+  }
+
+  async function driver() {
+    return state().then((x) => x.driver)
+  }
+
+  function notFound(key: string[]) {
+    return new NotFoundError({ message: `Resource not found: ${key.join("/")}` })
+  }
+
   export async function remove(key: string[]) {
-    const dir = await state().then((x) => x.dir)
-    const target = path.join(dir, ...key) + ".json"
-    return withErrorHandling(async () => {
-      await fs.unlink(target).catch(() => {})
-    })
+    return (await driver()).remove(key)
   }
 
   export async function read<T>(key: string[]) {
-    const dir = await state().then((x) => x.dir)
-    const target = path.join(dir, ...key) + ".json"
-    return withErrorHandling(async () => {
-      using _ = await Lock.read(target)
-      const result = await Bun.file(target).json()
-      return result as T
-    })
+    const result = await (await driver()).read(key)
+    if (result === undefined) throw notFound(key)
+    return result as T
   }
 
   export async function update<T>(key: string[], fn: (draft: T) => void) {
-    const dir = await state().then((x) => x.dir)
-    const target = path.join(dir, ...key) + ".json"
-    return withErrorHandling(async () => {
-      using _ = await Lock.write(target)
-      const content = await Bun.file(target).json()
-      fn(content)
-      await Bun.write(target, JSON.stringify(content, null, 2))
-      return content as T
-    })
+    const result = await (await driver()).update(key, fn)
+    if (result === undefined) throw notFound(key)
+    return result as T
   }
 
   export async function write<T>(key: string[], content: T) {
-    const dir = await state().then((x) => x.dir)
-    const target = path.join(dir, ...key) + ".json"
-    return withErrorHandling(async () => {
-      using _ = await Lock.write(target)
-      await Bun.write(target, JSON.stringify(content, null, 2))
-    })
+    return (await driver()).write(key, content)
   }
 
-  async function withErrorHandling<T>(body: () => Promise<T>) {
-    return body().catch((e) => {
-      if (!(e instanceof Error)) throw e
-      const errnoException = e as NodeJS.ErrnoException
-      if (errnoException.code === "ENOENT") {
-        throw new NotFoundError({ message: `Resource not found: ${errnoException.path}` })
-      }
-      throw e
-    })
+  export async function list(prefix: string[]) {
+    return (await driver()).list(prefix)
   }
 
-  const glob = new Bun.Glob("**/*")
-  export async function list(prefix: string[]) {
-    const dir = await state().then((x) => x.dir)
-    try {
-      const result = await Array.fromAsync(
-        glob.scan({
-          cwd: path.join(dir, ...prefix),
-          onlyFiles: true,
-        }),
-      ).then((results) => results.map((x) => [...prefix, ...x.slice(0, -5).split(path.sep)]))
-      result.sort()
-      return result
-    } catch {
-      return []
-    }
+  export async function sessions<T>(input: SessionQuery = {}) {
+    return (await driver()).sessions(input) as Promise<T[]>
+  }
+
+  export async function indexed() {
+    return (await driver()).indexed
+  }
+
+  export async function messages<T>(sessionID: string) {
+    return (await driver()).messages(sessionID) as Promise<T[]>
   }
 }
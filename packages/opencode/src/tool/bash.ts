@@ -15,6 +15,7 @@ import { fileURLToPath } from "url"
 import { Flag } from "@/flag/flag.ts"
 import path from "path"
 import { Shell } from "@/shell/shell"
+import { Sandbox } from "@/shell/sandbox"
 
 const MAX_OUTPUT_LENGTH = Flag.OPENCODE_EXPERIMENTAL_BASH_MAX_OUTPUT_LENGTH || 30_000
 const DEFAULT_TIMEOUT = Flag.OPENCODE_EXPERIMENTAL_BASH_DEFAULT_TIMEOUT_MS || 2 * 60 * 1000
@@ -195,15 +196,21 @@ export const BashTool = Tool.define("bash", async () => {
         })
       }
 
-      const proc = spawn(params.command, {
-        shell,
+      const sandbox = await Sandbox.wrap({ shell, command: params.command, cwd })
+      const options = {
         cwd,
         env: {
           ...process.env,
         },
-        stdio: ["ignore", "pipe", "pipe"],
+        stdio: ["ignore", "pipe", "pipe"] as ["ignore", "pipe", "pipe"],
         detached: process.platform !== "win32",
-      })
+      }
+      const proc = sandbox
+        ? spawn(sandbox.file, sandbox.args, options)
+        : spawn(params.command, {
+            ...options,
+            shell,
+          })
 
       let output = ""
 
@@ -272,6 +279,20 @@ export const BashTool = Tool.define("bash", async () => {
         })
       })
 
+      if (sandbox && proc.exitCode !== 0 && !aborted && !timedOut) {
+        const violation = Sandbox.detect({ output, network: sandbox.network })
+        if (violation) {
+          throw new Sandbox.ViolationError(violation, {
+            command: params.command,
+            description: params.description,
+            output,
+            exit: proc.exitCode,
+            violation,
+            writable: await Sandbox.writable(),
+          })
+        }
+      }
+
       let resultMetadata: String[] = ["<bash_metadata>"]
 
       if (output.length > MAX_OUTPUT_LENGTH) {
@@ -298,6 +319,7 @@ export const BashTool = Tool.define("bash", async () => {
           output,
           exit: proc.exitCode,
           description: params.description,
+          sandboxed: sandbox !== undefined,
         },
         output,
       }
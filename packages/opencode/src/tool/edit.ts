@@ -15,8 +15,10 @@ import { Bus } from "../bus"
 import { FileTime } from "../file/time"
 import { Filesystem } from "../util/filesystem"
 import { Instance } from "../project/instance"
+import { Hook } from "../hook"
 import { Agent } from "../agent/agent"
 import { Snapshot } from "@/snapshot"
+import { Review } from "../review"
 
 const MAX_DIAGNOSTICS_PER_FILE = 20
 
@@ -76,6 +78,19 @@ export const EditTool = Tool.define("edit", {
     let diff = ""
     let contentOld = ""
     let contentNew = ""
+    let review: Review.Result | undefined
+    const ask = async () => {
+      review = await Review.ask({
+        sessionID: ctx.sessionID,
+        messageID: ctx.messageID,
+        callID: ctx.callID,
+        file: filePath,
+        before: contentOld,
+        after: contentNew,
+        abort: ctx.abort,
+      })
+      contentNew = review.content
+    }
     await FileTime.withLock(filePath, async () => {
       if (params.oldString === "") {
         contentNew = params.newString
@@ -93,7 +108,12 @@ export const EditTool = Tool.define("edit", {
             },
           })
         }
-        await Bun.write(filePath, params.newString)
+        if (agent.permission.edit === "review") {
+          await ask()
+          diff = trimDiff(createTwoFilesPatch(filePath, filePath, contentOld, contentNew))
+          if (contentNew === contentOld) return
+        }
+        await Bun.write(filePath, contentNew)
         await Bus.publish(File.Event.Edited, {
           file: filePath,
         })
@@ -125,12 +145,15 @@ export const EditTool = Tool.define("edit", {
           },
         })
       }
+      if (agent.permission.edit === "review") await ask()
 
-      await file.write(contentNew)
-      await Bus.publish(File.Event.Edited, {
-        file: filePath,
-      })
-      contentNew = await file.text()
+      if (contentNew !== contentOld) {
+        await file.write(contentNew)
+        await Bus.publish(File.Event.Edited, {
+          file: filePath,
+        })
+        contentNew = await file.text()
+      }
       diff = trimDiff(
         createTwoFilesPatch(filePath, filePath, normalizeLineEndings(contentOld), normalizeLineEndings(contentNew)),
       )
@@ -150,17 +173,9 @@ export const EditTool = Tool.define("edit", {
       output += `\nThis file has errors, please fix\n<file_diagnostics>\n${limited.map(LSP.Diagnostic.pretty).join("\n")}${suffix}\n</file_diagnostics>\n`
     }
 
-    const filediff: Snapshot.FileDiff = {
-      file: filePath,
-      before: contentOld,
-      after: contentNew,
-      additions: 0,
-      deletions: 0,
-    }
-    for (const change of diffLines(contentOld, contentNew)) {
-      if (change.added) filediff.additions += change.count || 0
-      if (change.removed) filediff.deletions += change.count || 0
-    }
+    const filediff = fileDiff(filePath, contentOld, contentNew)
+    if (review) output += Review.format(filePath, review)
+    output += await Hook.fileEdited({ sessionID: ctx.sessionID, file: filePath, before: contentOld, after: contentNew })
 
     return {
       metadata: {
@@ -599,6 +614,22 @@ export const ContextAwareReplacer: Replacer = function* (content, find) {
   }
 }
 
+/** The per-file diff clients render for tools that change files. */
+export function fileDiff(file: string, before: string, after: string): Snapshot.FileDiff {
+  const result: Snapshot.FileDiff = {
+    file,
+    before,
+    after,
+    additions: 0,
+    deletions: 0,
+  }
+  for (const change of diffLines(before, after)) {
+    if (change.added) result.additions += change.count || 0
+    if (change.removed) result.deletions += change.count || 0
+  }
+  return result
+}
+
 export function trimDiff(diff: string): string {
   const lines = diff.split("\n")
   const contentLines = lines.filter(
@@ -0,0 +1,52 @@
+import z from "zod"
+import { Tool } from "./tool"
+import path from "path"
+import { fileURLToPath } from "url"
+import { LSP } from "../lsp"
+import DESCRIPTION from "./lsp-call-hierarchy.txt"
+import { Instance } from "../project/instance"
+import { PositionParams, resolve } from "./lsp-navigation"
+
+export const LspCallHierarchyTool = Tool.define("lsp_call_hierarchy", {
+  description: DESCRIPTION,
+  parameters: PositionParams.extend({
+    direction: z
+      .enum(["incoming", "outgoing"])
+      .describe("'incoming' lists the callers of the function, 'outgoing' lists the functions it calls"),
+  }),
+  execute: async (args) => {
+    const position = await resolve(args)
+    const calls = await LSP.callHierarchy({ ...position, direction: args.direction })
+    const title = `${path.relative(Instance.worktree, position.file)}:${args.line} (${args.direction})`
+
+    if (calls.length === 0) {
+      return {
+        title,
+        metadata: { calls },
+        output:
+          args.direction === "incoming"
+            ? "No callers found. The language server may not support call hierarchy for this file, or the position may not be on a function."
+            : "No outgoing calls found. The language server may not support call hierarchy for this file, or the position may not be on a function.",
+      }
+    }
+
+    const output = [
+      args.direction === "incoming" ? `Called from ${calls.length} places:` : `Calls ${calls.length} functions:`,
+    ]
+    for (const call of calls) {
+      const file = path.relative(Instance.worktree, fileURLToPath(call.item.uri))
+      const start = call.item.selectionRange.start
+      const at = call.ranges.map((range) => `${range.start.line + 1}:${range.start.character + 1}`).join(", ")
+      output.push(
+        `${call.item.name}${call.item.detail ? ` (${call.item.detail})` : ""} - ${file}:${start.line + 1}:${start.character + 1}` +
+          (at ? ` [call sites: ${at}]` : ""),
+      )
+    }
+
+    return {
+      title,
+      metadata: { calls },
+      output: output.join("\n"),
+    }
+  },
+})
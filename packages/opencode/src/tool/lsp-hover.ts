@@ -1,31 +1,36 @@
-import z from "zod"
 import { Tool } from "./tool"
 import path from "path"
+import type { Hover } from "vscode-languageserver-types"
 import { LSP } from "../lsp"
 import DESCRIPTION from "./lsp-hover.txt"
 import { Instance } from "../project/instance"
+import { PositionParams, resolve } from "./lsp-navigation"
 
 export const LspHoverTool = Tool.define("lsp_hover", {
   description: DESCRIPTION,
-  parameters: z.object({
-    file: z.string().describe("The path to the file to get diagnostics."),
-    line: z.number().describe("The line number to get diagnostics."),
-    character: z.number().describe("The character number to get diagnostics."),
-  }),
+  parameters: PositionParams,
   execute: async (args) => {
-    const file = path.isAbsolute(args.file) ? args.file : path.join(Instance.directory, args.file)
-    await LSP.touchFile(file, true)
-    const result = await LSP.hover({
-      ...args,
-      file,
-    })
+    const position = await resolve(args)
+    const result = await LSP.hover(position)
 
     return {
-      title: path.relative(Instance.worktree, file) + ":" + args.line + ":" + args.character,
+      title: path.relative(Instance.worktree, position.file) + ":" + args.line + ":" + args.character,
       metadata: {
         result,
       },
-      output: JSON.stringify(result, null, 2),
+      output: JSON.stringify(result.map(shift), null, 2),
     }
   },
 })
+
+// hover ranges come back 0-based from the server, report them 1-based like the tool's input
+function shift(hover: Hover | null) {
+  if (!hover?.range) return hover
+  return {
+    ...hover,
+    range: {
+      start: { line: hover.range.start.line + 1, character: hover.range.start.character + 1 },
+      end: { line: hover.range.end.line + 1, character: hover.range.end.character + 1 },
+    },
+  }
+}
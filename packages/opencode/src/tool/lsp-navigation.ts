@@ -0,0 +1,104 @@
+import z from "zod"
+import { Tool } from "./tool"
+import path from "path"
+import { fileURLToPath } from "url"
+import { LSP } from "../lsp"
+import DESCRIPTION_DEFINITION from "./lsp-definition.txt"
+import DESCRIPTION_REFERENCES from "./lsp-references.txt"
+import DESCRIPTION_IMPLEMENTATION from "./lsp-implementation.txt"
+import { Instance } from "../project/instance"
+
+const MAX_RESULTS = 100
+
+export const PositionParams = z.object({
+  file: z.string().describe("The path to the file containing the symbol"),
+  line: z.number().describe("The 1-based line number of the symbol"),
+  character: z.number().describe("The 1-based column of the symbol"),
+})
+
+export const LspDefinitionTool = Tool.define("lsp_definition", {
+  description: DESCRIPTION_DEFINITION,
+  parameters: PositionParams,
+  execute: async (args) => {
+    const position = await resolve(args)
+    const locations = await LSP.definition(position)
+    return format("definition", args, locations)
+  },
+})
+
+export const LspReferencesTool = Tool.define("lsp_references", {
+  description: DESCRIPTION_REFERENCES,
+  parameters: PositionParams.extend({
+    includeDeclaration: z
+      .boolean()
+      .optional()
+      .describe("Include the declaration of the symbol in the results (default true)"),
+  }),
+  execute: async (args) => {
+    const position = await resolve(args)
+    const locations = await LSP.references({ ...position, declaration: args.includeDeclaration })
+    return format("reference", args, locations)
+  },
+})
+
+export const LspImplementationTool = Tool.define("lsp_implementation", {
+  description: DESCRIPTION_IMPLEMENTATION,
+  parameters: PositionParams,
+  execute: async (args) => {
+    const position = await resolve(args)
+    const locations = await LSP.implementation(position)
+    return format("implementation", args, locations)
+  },
+})
+
+/**
+ * Convert the tool's 1-based position to the 0-based position the language
+ * server expects, opening the file first so the server knows about it.
+ */
+export async function resolve(args: z.infer<typeof PositionParams>): Promise<LSP.Position> {
+  const file = path.isAbsolute(args.file) ? args.file : path.join(Instance.directory, args.file)
+  await LSP.touchFile(file, true)
+  return {
+    file,
+    line: Math.max(args.line - 1, 0),
+    character: Math.max(args.character - 1, 0),
+  }
+}
+
+async function format(kind: string, args: z.infer<typeof PositionParams>, locations: LSP.Location[]) {
+  const title = path.relative(Instance.worktree, path.resolve(Instance.directory, args.file)) + ":" + args.line
+  if (locations.length === 0) {
+    return {
+      title,
+      metadata: { locations, truncated: false },
+      output: `No ${kind} found. The language server may not support this request for this file, or the position may not be on a symbol.`,
+    }
+  }
+
+  const limited = locations.slice(0, MAX_RESULTS)
+  const lines: Record<string, string[]> = {}
+  const output = [`Found ${locations.length} ${kind}${locations.length === 1 ? "" : "s"}`]
+  for (const location of limited) {
+    const file = fileURLToPath(location.uri)
+    if (!lines[file]) {
+      lines[file] = await Bun.file(file)
+        .text()
+        .then((x) => x.split("\n"))
+        .catch(() => [])
+    }
+    const line = location.range.start.line
+    const preview = lines[file][line]?.trim() ?? ""
+    output.push(
+      `${path.relative(Instance.worktree, file)}:${line + 1}:${location.range.start.character + 1}: ${preview}`,
+    )
+  }
+  if (locations.length > limited.length) {
+    output.push(`... and ${locations.length - limited.length} more`)
+  }
+
+  return {
+    title,
+    metadata: { locations: limited, truncated: locations.length > limited.length },
+    output: output.join("\n"),
+  }
+}
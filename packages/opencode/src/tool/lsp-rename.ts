@@ -0,0 +1,175 @@
+import z from "zod"
+import * as path from "path"
+import { Tool } from "./tool"
+import { createTwoFilesPatch } from "diff"
+import { LSP } from "../lsp"
+import DESCRIPTION from "./lsp-rename.txt"
+import { Permission } from "../permission"
+import { File } from "../file"
+import { Bus } from "../bus"
+import { FileTime } from "../file/time"
+import { Filesystem } from "../util/filesystem"
+import { Instance } from "../project/instance"
+import { Hook } from "../hook"
+import { Agent } from "../agent/agent"
+import { Review } from "../review"
+import { PositionParams, resolve } from "./lsp-navigation"
+import { fileDiff, trimDiff } from "./edit"
+
+const MAX_DIAGNOSTICS_PER_FILE = 20
+
+export const LspRenameTool = Tool.define("lsp_rename", {
+  description: DESCRIPTION,
+  parameters: PositionParams.extend({
+    newName: z.string().describe("The new name for the symbol"),
+  }),
+  async execute(params, ctx) {
+    if (!params.newName.trim()) {
+      throw new Error("newName is required")
+    }
+
+    const position = await resolve(params)
+    const edit = await LSP.rename({ ...position, newName: params.newName })
+    if (!edit) {
+      throw new Error(
+        `The language server could not rename the symbol at ${path.relative(Instance.worktree, position.file)}:${params.line}:${params.character}. Make sure the position is on the symbol's name.`,
+      )
+    }
+    const grouped = LSP.TextEdit.group(edit)
+    const files = Object.keys(grouped)
+    if (files.length === 0) {
+      throw new Error("The language server returned no edits for this rename")
+    }
+
+    const agent = await Agent.get(ctx.agent)
+    for (const filePath of files) {
+      if (Filesystem.contains(Instance.directory, filePath)) continue
+      const parentDir = path.dirname(filePath)
+      if (agent.permission.external_directory === "ask") {
+        await Permission.ask({
+          type: "external_directory",
+          pattern: [parentDir, path.join(parentDir, "*")],
+          sessionID: ctx.sessionID,
+          messageID: ctx.messageID,
+          callID: ctx.callID,
+          title: `Edit file outside working directory: ${filePath}`,
+          metadata: {
+            filepath: filePath,
+            parentDir,
+          },
+        })
+      } else if (agent.permission.external_directory === "deny") {
+        throw new Permission.RejectedError(
+          ctx.sessionID,
+          "external_directory",
+          ctx.callID,
+          {
+            filepath: filePath,
+            parentDir,
+          },
+          `File ${filePath} is not in the current working directory`,
+        )
+      }
+    }
+
+    // Compute every file's new contents up front so a rejected permission
+    // leaves the workspace untouched.
+    const changes = await Promise.all(
+      files.map(async (filePath) => {
+        const before = await Bun.file(filePath).text()
+        const after = LSP.TextEdit.apply(before, grouped[filePath])
+        return {
+          filePath,
+          before,
+          after,
+          edits: grouped[filePath].length,
+          diff: trimDiff(createTwoFilesPatch(filePath, filePath, before, after)),
+        }
+      }),
+    )
+
+    if (agent.permission.edit === "ask") {
+      for (const change of changes) {
+        await Permission.ask({
+          type: "edit",
+          sessionID: ctx.sessionID,
+          messageID: ctx.messageID,
+          callID: ctx.callID,
+          title: "Edit this file: " + change.filePath,
+          metadata: {
+            filePath: change.filePath,
+            diff: change.diff,
+          },
+        })
+      }
+    }
+
+    // Only the hunks accepted in review are written, like the edit tool
+    const reviews = new Map<string, Review.Result>()
+    if (agent.permission.edit === "review") {
+      for (const change of changes) {
+        const review = await Review.ask({
+          sessionID: ctx.sessionID,
+          messageID: ctx.messageID,
+          callID: ctx.callID,
+          file: change.filePath,
+          before: change.before,
+          after: change.after,
+          abort: ctx.abort,
+        })
+        reviews.set(change.filePath, review)
+        change.after = review.content
+        change.diff = trimDiff(createTwoFilesPatch(change.filePath, change.filePath, change.before, change.after))
+      }
+    }
+
+    for (const change of changes) {
+      if (change.after === change.before) continue
+      await FileTime.withLock(change.filePath, async () => {
+        await Bun.write(change.filePath, change.after)
+        await Bus.publish(File.Event.Edited, {
+          file: change.filePath,
+        })
+        FileTime.read(ctx.sessionID, change.filePath)
+      })
+      await LSP.touchFile(change.filePath, true)
+    }
+
+    const relative = changes.map((change) => path.relative(Instance.worktree, change.filePath))
+    let output = `Renamed to ${params.newName} in ${changes.length} ${changes.length === 1 ? "file" : "files"}:\n`
+    output += changes.map((change, i) => `  ${relative[i]} (${change.edits} edits)`).join("\n")
+
+    for (const [filePath, review] of reviews) output += Review.format(filePath, review)
+
+    const diagnostics = await LSP.diagnostics()
+    for (const change of changes) {
+      const issues = diagnostics[Filesystem.normalizePath(change.filePath)] ?? []
+      const errors = issues.filter((item) => item.severity === 1)
+      if (errors.length === 0) continue
+      const limited = errors.slice(0, MAX_DIAGNOSTICS_PER_FILE)
+      const suffix =
+        errors.length > MAX_DIAGNOSTICS_PER_FILE ? `\n... and ${errors.length - MAX_DIAGNOSTICS_PER_FILE} more` : ""
+      output += `\n\nThis file has errors, please fix\n<file_diagnostics file="${path.relative(Instance.worktree, change.filePath)}">\n${limited.map(LSP.Diagnostic.pretty).join("\n")}${suffix}\n</file_diagnostics>\n`
+    }
+    for (const change of changes) {
+      if (change.after === change.before) continue
+      output += await Hook.fileEdited({
+        sessionID: ctx.sessionID,
+        file: change.filePath,
+        before: change.before,
+        after: change.after,
+      })
+    }
+
+    return {
+      title: `Rename to ${params.newName}`,
+      metadata: {
+        diff: changes.map((change) => change.diff).join("\n"),
+        filediffs: changes.map((change) => fileDiff(change.filePath, change.before, change.after)),
+        files: relative,
+        diagnostics,
+      },
+      output,
+    }
+  },
+})
@@ -12,7 +12,6 @@ export const MultiEditTool = Tool.define("multiedit", {
     edits: z
       .array(
         z.object({
-          filePath: z.string().describe("The absolute path to the file to modify"),
           oldString: z.string().describe("The text to replace"),
           newString: z.string().describe("The text to replace it with (must be different from oldString)"),
           replaceAll: z.boolean().optional().describe("Replace all occurrences of oldString (default false)"),
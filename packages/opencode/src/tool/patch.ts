@@ -5,20 +5,25 @@ import { Tool } from "./tool"
 import { FileTime } from "../file/time"
 import { Permission } from "../permission"
 import { Bus } from "../bus"
-import { FileWatcher } from "../file/watcher"
+import { File } from "../file"
+import { LSP } from "../lsp"
 import { Instance } from "../project/instance"
+import { Hook } from "../hook"
 import { Agent } from "../agent/agent"
 import { Patch } from "../patch"
 import { Filesystem } from "../util/filesystem"
+import { Review } from "../review"
 import { createTwoFilesPatch } from "diff"
+import DESCRIPTION from "./patch.txt"
+
+const MAX_DIAGNOSTICS_PER_FILE = 20
 
 const PatchParams = z.object({
   patchText: z.string().describe("The full patch text that describes all changes to be made"),
 })
 
 export const PatchTool = Tool.define("patch", {
-  description:
-    "Apply a patch to modify multiple files. Supports adding, updating, and deleting files with context-aware changes.",
+  description: DESCRIPTION,
   parameters: PatchParams,
   async execute(params, ctx) {
     if (!params.patchText) {
@@ -46,41 +51,46 @@ export const PatchTool = Tool.define("patch", {
       newContent: string
       type: "add" | "update" | "delete" | "move"
       movePath?: string
+      diff: string
     }> = []
 
     let totalDiff = ""
 
+    // Both the patched file and a move target may sit outside the working directory
+    async function external(filePath: string) {
+      if (Filesystem.contains(Instance.directory, filePath)) return
+      const parentDir = path.dirname(filePath)
+      if (agent.permission.external_directory === "ask") {
+        await Permission.ask({
+          type: "external_directory",
+          pattern: [parentDir, path.join(parentDir, "*")],
+          sessionID: ctx.sessionID,
+          messageID: ctx.messageID,
+          callID: ctx.callID,
+          title: `Patch file outside working directory: ${filePath}`,
+          metadata: {
+            filepath: filePath,
+            parentDir,
+          },
+        })
+      } else if (agent.permission.external_directory === "deny") {
+        throw new Permission.RejectedError(
+          ctx.sessionID,
+          "external_directory",
+          ctx.callID,
+          {
+            filepath: filePath,
+            parentDir,
+          },
+          `File ${filePath} is not in the current working directory`,
+        )
+      }
+    }
+
     for (const hunk of hunks) {
       const filePath = path.resolve(Instance.directory, hunk.path)
-
-      if (!Filesystem.contains(Instance.directory, filePath)) {
-        const parentDir = path.dirname(filePath)
-        if (agent.permission.external_directory === "ask") {
-          await Permission.ask({
-            type: "external_directory",
-            pattern: [parentDir, path.join(parentDir, "*")],
-            sessionID: ctx.sessionID,
-            messageID: ctx.messageID,
-            callID: ctx.callID,
-            title: `Patch file outside working directory: ${filePath}`,
-            metadata: {
-              filepath: filePath,
-              parentDir,
-            },
-          })
-        } else if (agent.permission.external_directory === "deny") {
-          throw new Permission.RejectedError(
-            ctx.sessionID,
-            "external_directory",
-            ctx.callID,
-            {
-              filepath: filePath,
-              parentDir,
-            },
-            `File ${filePath} is not in the current working directory`,
-          )
-        }
-      }
+      await external(filePath)
+      if (hunk.type === "update" && hunk.move_path) await external(path.resolve(Instance.directory, hunk.move_path))
 
       switch (hunk.type) {
         case "add":
@@ -94,6 +104,7 @@ export const PatchTool = Tool.define("patch", {
               oldContent,
               newContent,
               type: "add",
+              diff,
             })
 
             totalDiff += diff + "\n"
@@ -128,6 +139,7 @@ export const PatchTool = Tool.define("patch", {
             newContent,
             type: hunk.move_path ? "move" : "update",
             movePath: hunk.move_path ? path.resolve(Instance.directory, hunk.move_path) : undefined,
+            diff,
           })
 
           totalDiff += diff + "\n"
@@ -144,6 +156,7 @@ export const PatchTool = Tool.define("patch", {
             oldContent: contentToDelete,
             newContent: "",
             type: "delete",
+            diff: deleteDiff,
           })
 
           totalDiff += deleteDiff + "\n"
@@ -151,83 +164,149 @@ export const PatchTool = Tool.define("patch", {
       }
     }
 
-    // Check permissions if needed
+    // Ask for each file the same way the edit tool does, before anything is written
     if (agent.permission.edit === "ask") {
-      await Permission.ask({
-        type: "edit",
-        sessionID: ctx.sessionID,
-        messageID: ctx.messageID,
-        callID: ctx.callID,
-        title: `Apply patch to ${fileChanges.length} files`,
-        metadata: {
-          diff: totalDiff,
-        },
-      })
+      for (const change of fileChanges) {
+        await Permission.ask({
+          type: "edit",
+          sessionID: ctx.sessionID,
+          messageID: ctx.messageID,
+          callID: ctx.callID,
+          title: "Edit this file: " + change.filePath,
+          metadata: {
+            filePath: change.filePath,
+            diff: change.diff,
+          },
+        })
+      }
     }
 
+    // Hold each file back for review the same way the edit tool does, only
+    // the accepted hunks are written and a fully rejected file is left alone
+    const reviews = new Map<string, Review.Result>()
+    if (agent.permission.edit === "review") {
+      totalDiff = ""
+      for (const change of fileChanges) {
+        const review = await Review.ask({
+          sessionID: ctx.sessionID,
+          messageID: ctx.messageID,
+          callID: ctx.callID,
+          file: change.filePath,
+          before: change.oldContent,
+          after: change.newContent,
+          abort: ctx.abort,
+        })
+        reviews.set(change.filePath, review)
+        change.newContent = review.content
+        change.diff = createTwoFilesPatch(change.filePath, change.filePath, change.oldContent, change.newContent)
+        // a partly rejected delete keeps the file with the accepted hunks applied
+        if (change.type === "delete" && change.newContent !== "") change.type = "update"
+        totalDiff += change.diff + "\n"
+      }
+    }
+    const applied = fileChanges.filter((change) => {
+      const review = reviews.get(change.filePath)
+      if (!review || change.type === "move") return true
+      return review.accepted.length > 0 || review.rejected.length === 0
+    })
+
     // Apply the changes
     const changedFiles: string[] = []
 
-    for (const change of fileChanges) {
-      switch (change.type) {
-        case "add":
-          // Create parent directories
-          const addDir = path.dirname(change.filePath)
-          if (addDir !== "." && addDir !== "/") {
-            await fs.mkdir(addDir, { recursive: true })
-          }
-          await fs.writeFile(change.filePath, change.newContent, "utf-8")
-          changedFiles.push(change.filePath)
-          break
+    for (const change of applied) {
+      // Hold the same per-file lock as the edit tool, and make sure nothing
+      // changed the file while the permissions were being asked
+      await FileTime.withLock(change.filePath, async () => {
+        if (change.type !== "add") await FileTime.assert(ctx.sessionID, change.filePath)
+        switch (change.type) {
+          case "add":
+            // Create parent directories
+            const addDir = path.dirname(change.filePath)
+            if (addDir !== "." && addDir !== "/") {
+              await fs.mkdir(addDir, { recursive: true })
+            }
+            await fs.writeFile(change.filePath, change.newContent, "utf-8")
+            changedFiles.push(change.filePath)
+            break
 
-        case "update":
-          await fs.writeFile(change.filePath, change.newContent, "utf-8")
-          changedFiles.push(change.filePath)
-          break
+          case "update":
+            await fs.writeFile(change.filePath, change.newContent, "utf-8")
+            changedFiles.push(change.filePath)
+            break
 
-        case "move":
-          if (change.movePath) {
-            // Create parent directories for destination
-            const moveDir = path.dirname(change.movePath)
-            if (moveDir !== "." && moveDir !== "/") {
-              await fs.mkdir(moveDir, { recursive: true })
+          case "move":
+            if (change.movePath) {
+              const movePath = change.movePath
+              await FileTime.withLock(movePath, async () => {
+                // Create parent directories for destination
+                const moveDir = path.dirname(movePath)
+                if (moveDir !== "." && moveDir !== "/") {
+                  await fs.mkdir(moveDir, { recursive: true })
+                }
+                // Write to new location
+                await fs.writeFile(movePath, change.newContent, "utf-8")
+                FileTime.read(ctx.sessionID, movePath)
+              })
+              // Remove original
+              await fs.unlink(change.filePath)
+              changedFiles.push(movePath)
             }
-            // Write to new location
-            await fs.writeFile(change.movePath, change.newContent, "utf-8")
-            // Remove original
-            await fs.unlink(change.filePath)
-            changedFiles.push(change.movePath)
-          }
-          break
+            break
 
-        case "delete":
-          await fs.unlink(change.filePath)
-          changedFiles.push(change.filePath)
-          break
-      }
+          case "delete":
+            await fs.unlink(change.filePath)
+            changedFiles.push(change.filePath)
+            break
+        }
 
-      // Update file time tracking
-      FileTime.read(ctx.sessionID, change.filePath)
-      if (change.movePath) {
-        FileTime.read(ctx.sessionID, change.movePath)
-      }
+        // Update file time tracking
+        FileTime.read(ctx.sessionID, change.filePath)
+      })
     }
 
     // Publish file change events
     for (const filePath of changedFiles) {
-      await Bus.publish(FileWatcher.Event.Updated, { file: filePath, event: "change" })
+      await Bus.publish(File.Event.Edited, { file: filePath })
     }
 
     // Generate output summary
     const relativePaths = changedFiles.map((filePath) => path.relative(Instance.worktree, filePath))
-    const summary = `${fileChanges.length} files changed`
+    const summary = `${applied.length} files changed`
+    let output = `Patch applied successfully. ${summary}:\n${relativePaths.map((p) => `  ${p}`).join("\n")}`
+
+    const deleted = new Set(applied.filter((x) => x.type === "delete").map((x) => x.filePath))
+    for (const filePath of changedFiles) {
+      if (deleted.has(filePath)) continue
+      await LSP.touchFile(filePath, true)
+    }
+    const diagnostics = await LSP.diagnostics()
+    for (const filePath of changedFiles) {
+      const issues = diagnostics[Filesystem.normalizePath(filePath)] ?? []
+      const errors = issues.filter((item) => item.severity === 1)
+      if (errors.length === 0) continue
+      const limited = errors.slice(0, MAX_DIAGNOSTICS_PER_FILE)
+      const suffix =
+        errors.length > MAX_DIAGNOSTICS_PER_FILE ? `\n... and ${errors.length - MAX_DIAGNOSTICS_PER_FILE} more` : ""
+      output += `\n\nThis file has errors, please fix\n<file_diagnostics file="${path.relative(Instance.worktree, filePath)}">\n${limited.map(LSP.Diagnostic.pretty).join("\n")}${suffix}\n</file_diagnostics>\n`
+    }
+    for (const [filePath, review] of reviews) output += Review.format(filePath, review)
+    for (const change of applied) {
+      output += await Hook.fileEdited({
+        sessionID: ctx.sessionID,
+        file: change.movePath ?? change.filePath,
+        before: change.oldContent,
+        after: change.newContent,
+      })
+    }
 
     return {
       title: summary,
       metadata: {
         diff: totalDiff,
+        diagnostics,
+        files: relativePaths,
       },
-      output: `Patch applied successfully. ${summary}:\n${relativePaths.map((p) => `  ${p}`).join("\n")}`,
+      output,
     }
   },
 })
@@ -1,5 +1,12 @@
 import { BashTool } from "./bash"
 import { EditTool } from "./edit"
+import { MultiEditTool } from "./multiedit"
+import { PatchTool } from "./patch"
+import { LspDiagnosticTool } from "./lsp-diagnostics"
+import { LspHoverTool } from "./lsp-hover"
+import { LspDefinitionTool, LspImplementationTool, LspReferencesTool } from "./lsp-navigation"
+import { LspCallHierarchyTool } from "./lsp-call-hierarchy"
+import { LspRenameTool } from "./lsp-rename"
 import { GlobTool } from "./glob"
 import { GrepTool } from "./grep"
 import { ListTool } from "./ls"
@@ -95,6 +102,8 @@ export namespace ToolRegistry {
       GrepTool,
       ListTool,
       EditTool,
+      MultiEditTool,
+      PatchTool,
       WriteTool,
       TaskTool,
       WebFetchTool,
@@ -103,6 +112,17 @@ export namespace ToolRegistry {
       WebSearchTool,
       CodeSearchTool,
       ...(config.experimental?.batch_tool === true ? [BatchTool] : []),
+      ...(config.experimental?.lsp_tool === true
+        ? [
+            LspDiagnosticTool,
+            LspHoverTool,
+            LspDefinitionTool,
+            LspReferencesTool,
+            LspImplementationTool,
+            LspCallHierarchyTool,
+            LspRenameTool,
+          ]
+        : []),
       ...custom,
     ]
   }
@@ -111,8 +131,24 @@ export namespace ToolRegistry {
     return all().then((x) => x.map((t) => t.id))
   }
 
-  export async function tools(providerID: string) {
+  const STRING_EDIT = new Set(["edit", "multiedit"])
+
+  /**
+   * Decide whether a model edits files through string replacement or
+   * apply_patch. GPT-family models are trained on the patch format and
+   * tend to produce better edits with it.
+   */
+  export async function editor(modelID: string): Promise<"edit" | "patch"> {
+    const config = await Config.get()
+    const mode = config.experimental?.edit_tool ?? "auto"
+    if (mode !== "auto") return mode
+    if (modelID.includes("gpt-") || modelID.includes("codex")) return "patch"
+    return "edit"
+  }
+
+  export async function tools(providerID: string, modelID?: string) {
     const tools = await all()
+    const mode = modelID === undefined ? undefined : await editor(modelID)
     const result = await Promise.all(
       tools
         .filter((t) => {
@@ -120,6 +156,8 @@ export namespace ToolRegistry {
           if (t.id === "codesearch" || t.id === "websearch") {
             return providerID === "opencode" || Flag.OPENCODE_ENABLE_EXA
           }
+          if (mode === "patch" && STRING_EDIT.has(t.id)) return false
+          if (mode === "edit" && t.id === "patch") return false
           return true
         })
         .map(async (t) => {
@@ -138,6 +176,9 @@ export namespace ToolRegistry {
 
     if (agent.permission.edit === "deny") {
       result["edit"] = false
+      result["multiedit"] = false
+      result["patch"] = false
+      result["lsp_rename"] = false
       result["write"] = false
     }
     if (agent.permission.bash["*"] === "deny" && Object.keys(agent.permission.bash).length === 1) {
@@ -9,7 +9,9 @@ import { File } from "../file"
 import { FileTime } from "../file/time"
 import { Filesystem } from "../util/filesystem"
 import { Instance } from "../project/instance"
+import { Hook } from "../hook"
 import { Agent } from "../agent/agent"
+import { Review } from "../review"
 
 const MAX_DIAGNOSTICS_PER_FILE = 20
 const MAX_PROJECT_DIAGNOSTICS_FILES = 5
@@ -56,6 +58,7 @@ export const WriteTool = Tool.define("write", {
     const file = Bun.file(filepath)
     const exists = await file.exists()
     if (exists) await FileTime.assert(ctx.sessionID, filepath)
+    const before = exists ? await file.text() : ""
 
     if (agent.permission.edit === "ask")
       await Permission.ask({
@@ -71,10 +74,26 @@ export const WriteTool = Tool.define("write", {
         },
       })
 
-    await Bun.write(filepath, params.content)
-    await Bus.publish(File.Event.Edited, {
-      file: filepath,
-    })
+    const review =
+      agent.permission.edit === "review"
+        ? await Review.ask({
+            sessionID: ctx.sessionID,
+            messageID: ctx.messageID,
+            callID: ctx.callID,
+            file: filepath,
+            before,
+            after: params.content,
+            abort: ctx.abort,
+          })
+        : undefined
+    const content = review?.content ?? params.content
+
+    if (!review || content !== before) {
+      await Bun.write(filepath, content)
+      await Bus.publish(File.Event.Edited, {
+        file: filepath,
+      })
+    }
     FileTime.read(ctx.sessionID, filepath)
 
     let output = ""
@@ -96,6 +115,8 @@ export const WriteTool = Tool.define("write", {
       projectDiagnosticsCount++
       output += `\n<project_diagnostics>\n${file}\n${limited.map(LSP.Diagnostic.pretty).join("\n")}${suffix}\n</project_diagnostics>\n`
     }
+    if (review) output += Review.format(filepath, review)
+    output += await Hook.fileEdited({ sessionID: ctx.sessionID, file: filepath, before, after: content })
 
     return {
       title: path.relative(Instance.worktree, filepath),
@@ -0,0 +1,157 @@
+import { iife } from "./iife"
+
+export namespace Cron {
+  const ALIASES: Record<string, string> = {
+    "@yearly": "0 0 1 1 *",
+    "@annually": "0 0 1 1 *",
+    "@monthly": "0 0 1 * *",
+    "@weekly": "0 0 * * 0",
+    "@daily": "0 0 * * *",
+    "@midnight": "0 0 * * *",
+    "@hourly": "0 * * * *",
+  }
+
+  const NAMES: Record<string, string> = {
+    jan: "1",
+    feb: "2",
+    mar: "3",
+    apr: "4",
+    may: "5",
+    jun: "6",
+    jul: "7",
+    aug: "8",
+    sep: "9",
+    oct: "10",
+    nov: "11",
+    dec: "12",
+    sun: "0",
+    mon: "1",
+    tue: "2",
+    wed: "3",
+    thu: "4",
+    fri: "5",
+    sat: "6",
+  }
+
+  // minute, hour, day of month, month, day of week
+  const RANGES = [
+    [0, 59],
+    [0, 23],
+    [1, 31],
+    [1, 12],
+    [0, 7],
+  ] as const
+
+  // give up instead of spinning forever on expressions like "0 0 31 2 *"
+  const HORIZON = 5 * 366 * 24 * 60 * 60 * 1000
+
+  export type Expression = {
+    minute: Set<number>
+    hour: Set<number>
+    day: Set<number>
+    month: Set<number>
+    weekday: Set<number>
+    restricted: {
+      day: boolean
+      weekday: boolean
+    }
+  }
+
+  function field(input: string, index: number) {
+    const [min, max] = RANGES[index]
+    const result = new Set<number>()
+    for (const item of input.toLowerCase().split(",")) {
+      const [range, stepText] = item.split("/")
+      const step = stepText === undefined ? 1 : Number(stepText)
+      if (!Number.isInteger(step) || step < 1) throw new Error(`invalid step "${item}"`)
+      const value = (x: string) => {
+        const parsed = Number(NAMES[x] ?? x)
+        if (!Number.isInteger(parsed) || parsed < min || parsed > max) throw new Error(`invalid value "${x}"`)
+        return parsed
+      }
+      const [start, end] = iife(() => {
+        if (range === "*") return [min, max]
+        const [from, to] = range.split("-")
+        if (to !== undefined) return [value(from), value(to)]
+        // "5/15" runs from 5 to the end of the range
+        return [value(from), stepText === undefined ? value(from) : max]
+      })
+      if (start > end) throw new Error(`invalid range "${item}"`)
+      for (let i = start; i <= end; i += step) result.add(index === 4 ? i % 7 : i)
+    }
+    return result
+  }
+
+  /** Parse a five field cron expression or one of the @daily style aliases. */
+  export function parse(input: string): Expression {
+    const trimmed = input.trim()
+    const fields = (ALIASES[trimmed.toLowerCase()] ?? trimmed).split(/\s+/)
+    if (fields.length !== 5) throw new Error(`expected 5 fields in cron expression "${input}"`)
+    try {
+      const [minute, hour, day, month, weekday] = fields.map((x, index) => field(x, index))
+      return {
+        minute,
+        hour,
+        day,
+        month,
+        weekday,
+        restricted: {
+          day: fields[2] !== "*",
+          weekday: fields[4] !== "*",
+        },
+      }
+    } catch (e) {
+      throw new Error(`invalid cron expression "${input}": ${e instanceof Error ? e.message : String(e)}`)
+    }
+  }
+
+  export function valid(input: string) {
+    try {
+      parse(input)
+      return true
+    } catch {
+      return false
+    }
+  }
+
+  function matchesDay(expr: Expression, date: Date) {
+    const day = expr.day.has(date.getDate())
+    const weekday = expr.weekday.has(date.getDay())
+    // like cron, a restricted day of month and day of week match when either does
+    if (expr.restricted.day && expr.restricted.weekday) return day || weekday
+    return day && weekday
+  }
+
+  /**
+   * Next time in local time, strictly after `after`, the expression matches.
+   * Returns undefined when it never matches.
+   */
+  export function next(input: string | Expression, after: number | Date = Date.now()) {
+    const expr = typeof input === "string" ? parse(input) : input
+    const start = typeof after === "number" ? after : after.getTime()
+    const date = new Date(start)
+    date.setSeconds(0, 0)
+    date.setMinutes(date.getMinutes() + 1)
+    while (date.getTime() - start < HORIZON) {
+      if (!expr.month.has(date.getMonth() + 1)) {
+        date.setMonth(date.getMonth() + 1, 1)
+        date.setHours(0, 0)
+        continue
+      }
+      if (!matchesDay(expr, date)) {
+        date.setDate(date.getDate() + 1)
+        date.setHours(0, 0)
+        continue
+      }
+      if (!expr.hour.has(date.getHours())) {
+        date.setHours(date.getHours() + 1, 0)
+        continue
+      }
+      if (!expr.minute.has(date.getMinutes())) {
+        date.setMinutes(date.getMinutes() + 1)
+        continue
+      }
+      return date.getTime()
+    }
+  }
+}
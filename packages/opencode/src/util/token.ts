@@ -1,7 +1,80 @@
+import { lazy } from "./lazy"
+
 export namespace Token {
   const CHARS_PER_TOKEN = 4
+  const CACHE_LIMIT = 1000
+  const CACHE_MIN_LENGTH = 256
+
+  export interface Tokenizer {
+    name: string
+    count(input: string): number
+  }
+
+  function ratio(name: string, chars: number): Tokenizer {
+    return {
+      name,
+      count: (input) => Math.max(0, Math.round(input.length / chars)),
+    }
+  }
+
+  function bpe(name: string, load: () => { countTokens(input: string, options?: object): number }) {
+    const encoding = lazy(load)
+    return lazy<Tokenizer>(() => ({
+      name,
+      count: (input) => encoding().countTokens(input, { disallowedSpecial: new Set() }),
+    }))
+  }
+
+  export const approximate = ratio("approximate", CHARS_PER_TOKEN)
+
+  const registry: { match: (model: string) => boolean; tokenizer: () => Tokenizer }[] = [
+    {
+      match: (model) => /gpt-4o|gpt-4\.1|gpt-4\.5|gpt-5|gpt-oss|codex|(^|\/)o[134](-|$)/.test(model),
+      tokenizer: bpe("o200k_base", () => require("gpt-tokenizer/encoding/o200k_base")),
+    },
+    {
+      match: (model) => /gpt-4|gpt-3\.5|text-embedding/.test(model),
+      tokenizer: bpe("cl100k_base", () => require("gpt-tokenizer/encoding/cl100k_base")),
+    },
+    {
+      match: (model) => model.includes("claude"),
+      tokenizer: lazy(() => ratio("claude", 3.5)),
+    },
+  ]
+
+  /**
+   * Register a tokenizer for the models it matches. Tokenizers registered
+   * later take precedence over earlier ones and over the built-in ones.
+   */
+  export function register(match: (model: string) => boolean, tokenizer: () => Tokenizer) {
+    registry.unshift({ match, tokenizer })
+    cache.clear()
+  }
+
+  export function tokenizer(model?: string): Tokenizer {
+    if (!model) return approximate
+    const id = model.toLowerCase()
+    return registry.find((x) => x.match(id))?.tokenizer() ?? approximate
+  }
+
+  const cache = new Map<string, number>()
+
+  export function estimate(input: string, model?: string) {
+    if (!input) return 0
+    const match = tokenizer(model)
+    if (input.length < CACHE_MIN_LENGTH) return match.count(input)
 
-  export function estimate(input: string) {
-    return Math.max(0, Math.round((input || "").length / CHARS_PER_TOKEN))
+    const key = match.name + ":" + Bun.hash(input).toString(36) + ":" + input.length
+    const cached = cache.get(key)
+    if (cached !== undefined) {
+      // refresh recency so frequently counted inputs stay cached
+      cache.delete(key)
+      cache.set(key, cached)
+      return cached
+    }
+    const result = match.count(input)
+    cache.set(key, result)
+    if (cache.size > CACHE_LIMIT) cache.delete(cache.keys().next().value!)
+    return result
   }
 }
@@ -0,0 +1,237 @@
+import z from "zod"
+import path from "path"
+import fs from "fs/promises"
+import { $ } from "bun"
+import { NamedError } from "@opencode-ai/util/error"
+import { Global } from "../global"
+import { Identifier } from "../id/id"
+import { Instance } from "../project/instance"
+import { Session } from "../session"
+import { Snapshot } from "../snapshot"
+import { Storage } from "../storage/storage"
+import { fn } from "@/util/fn"
+import { Log } from "../util/log"
+
+export namespace Worktree {
+  const log = Log.create({ service: "worktree" })
+
+  export const Info = z
+    .object({
+      sessionID: Identifier.schema("session"),
+      title: z.string(),
+      directory: z.string(),
+      branch: z.string(),
+      base: z.string(),
+      changes: z.number(),
+      exists: z.boolean(),
+    })
+    .meta({
+      ref: "Worktree",
+    })
+  export type Info = z.infer<typeof Info>
+
+  export const NotGitError = NamedError.create(
+    "WorktreeNotGitError",
+    z.object({
+      directory: z.string(),
+    }),
+  )
+
+  export const MissingError = NamedError.create(
+    "WorktreeMissingError",
+    z.object({
+      sessionID: z.string(),
+    }),
+  )
+
+  export const MergeError = NamedError.create(
+    "WorktreeMergeError",
+    z.object({
+      branch: z.string(),
+      message: z.string(),
+    }),
+  )
+
+  /** Directory holding the worktrees of every session of a project. */
+  export function root(projectID = Instance.project.id) {
+    return path.join(Global.Path.data, "worktree", projectID)
+  }
+
+  /**
+   * Create a git worktree on a new branch for a session that has not been
+   * written yet. The branch starts from whatever is checked out in the
+   * current worktree.
+   */
+  export async function create(sessionID: string) {
+    if (Instance.project.vcs !== "git") throw new NotGitError({ directory: Instance.directory })
+    const directory = path.join(root(), sessionID)
+    const branch = `opencode/${sessionID.slice(-12).toLowerCase()}`
+    const base = await $`git rev-parse HEAD`.quiet().nothrow().cwd(Instance.worktree).text()
+    await fs.mkdir(root(), { recursive: true })
+    const result = await $`git worktree add -b ${branch} ${directory} HEAD`.quiet().nothrow().cwd(Instance.worktree)
+    if (result.exitCode !== 0) throw new Error(`failed to create worktree: ${result.stderr.toString().trim()}`)
+    log.info("created", { sessionID, directory, branch })
+    // keep the session in the same subdirectory it was started from
+    const relative = path.relative(Instance.worktree, Instance.directory)
+    return {
+      directory: path.join(directory, relative),
+      branch,
+      base: base.trim(),
+    }
+  }
+
+  async function main(directory: string) {
+    const output = await $`git worktree list --porcelain`.quiet().nothrow().cwd(directory).text()
+    const line = output.split("\n").find((x) => x.startsWith("worktree "))
+    if (!line) throw new NotGitError({ directory })
+    return line.slice("worktree ".length).trim()
+  }
+
+  /** Top level of the worktree a session runs in. */
+  function checkout(session: Session.Info) {
+    const relative = path.relative(root(session.projectID), session.directory)
+    return path.join(root(session.projectID), relative.split(path.sep)[0])
+  }
+
+  async function changes(directory: string, base: string) {
+    const status = await $`git status --porcelain`.quiet().nothrow().cwd(directory).text()
+    const commits = await $`git rev-list --count ${base}..HEAD`.quiet().nothrow().cwd(directory).text()
+    return status.split("\n").filter(Boolean).length + (parseInt(commits) || 0)
+  }
+
+  async function info(session: Session.Info): Promise<Info | undefined> {
+    if (!session.worktree) return
+    const directory = checkout(session)
+    const exists = await fs
+      .stat(directory)
+      .then(() => true)
+      .catch(() => false)
+    return {
+      sessionID: session.id,
+      title: session.title,
+      directory,
+      branch: session.worktree.branch,
+      base: session.worktree.base,
+      changes: exists ? await changes(directory, session.worktree.base) : 0,
+      exists,
+    }
+  }
+
+  export async function list() {
+    const result: Info[] = []
+    for await (const session of Session.list()) {
+      const item = await info(session)
+      if (item) result.push(item)
+    }
+    return result
+  }
+
+  export const get = fn(Identifier.schema("session"), async (sessionID) => {
+    const item = await info(await Session.get(sessionID))
+    if (!item) throw new MissingError({ sessionID })
+    return item
+  })
+
+  /**
+   * Directory requests for a session should be served from, when the session
+   * or its parent runs in its own worktree.
+   */
+  export async function resolve(sessionID: string) {
+    const session = await Storage.read<Session.Info>(["session", Instance.project.id, sessionID]).catch(() => undefined)
+    if (!session || session.directory === Instance.directory) return
+    const relative = path.relative(root(), session.directory)
+    if (!relative || relative.startsWith("..") || path.isAbsolute(relative)) return
+    const exists = await fs
+      .stat(session.directory)
+      .then(() => true)
+      .catch(() => false)
+    if (exists) return session.directory
+  }
+
+  /**
+   * Tear down the worktree of a session and point the session back at the
+   * main checkout so it can be continued there.
+   */
+  async function release(session: Session.Info, target: string, force: boolean) {
+    const directory = checkout(session)
+    await Instance.provide({
+      directory: session.directory,
+      fn: async () => {
+        await Snapshot.destroy()
+        await Instance.dispose()
+      },
+    }).catch((e) => log.error("failed to dispose", { directory, error: e }))
+    await $`git worktree remove ${force ? ["--force"] : []} ${directory}`.quiet().nothrow().cwd(target)
+    await $`git worktree prune`.quiet().nothrow().cwd(target)
+    await $`git branch ${force ? "-D" : "-d"} ${session.worktree!.branch}`.quiet().nothrow().cwd(target)
+    await fs.rm(directory, { recursive: true, force: true })
+    return Session.update(session.id, (draft) => {
+      draft.directory = path.join(target, path.relative(directory, session.directory))
+      delete draft.worktree
+    })
+  }
+
+  /**
+   * Commit what is left in the session worktree, merge its branch into the
+   * branch checked out in the main checkout and remove the worktree. A
+   * conflicting merge is aborted and leaves the worktree in place.
+   */
+  export const merge = fn(Identifier.schema("session"), async (sessionID) => {
+    const session = await Session.get(sessionID)
+    const item = await info(session)
+    if (!item?.exists) throw new MissingError({ sessionID })
+    const target = await main(item.directory)
+    const dirty = await $`git status --porcelain`.quiet().nothrow().cwd(item.directory).text()
+    if (dirty.trim()) {
+      await $`git add -A`.quiet().nothrow().cwd(item.directory)
+      const commit = await $`git commit --no-verify -m ${session.title}`.quiet().nothrow().cwd(item.directory)
+      if (commit.exitCode !== 0)
+        throw new MergeError({ branch: item.branch, message: commit.stderr.toString().trim() || "commit failed" })
+    }
+    const result = await $`git merge --no-ff --no-edit ${item.branch}`.quiet().nothrow().cwd(target)
+    if (result.exitCode !== 0) {
+      await $`git merge --abort`.quiet().nothrow().cwd(target)
+      throw new MergeError({
+        branch: item.branch,
+        message: (result.stdout.toString() + result.stderr.toString()).trim(),
+      })
+    }
+    log.info("merged", { sessionID, branch: item.branch, target })
+    return release(session, target, false)
+  })
+
+  /** Remove the worktree and branch of a session without merging. */
+  export const discard = fn(Identifier.schema("session"), async (sessionID) => {
+    const session = await Session.get(sessionID)
+    if (!session.worktree) throw new MissingError({ sessionID })
+    const target = await main(Instance.worktree)
+    log.info("discarded", { sessionID, branch: session.worktree.branch })
+    return release(session, target, true)
+  })
+
+  /**
+   * Remove worktrees left behind by deleted sessions and prune the ones git
+   * no longer finds on disk. Returns the removed directories.
+   */
+  export async function cleanup() {
+    const target = await main(Instance.worktree)
+    const sessions = new Set<string>()
+    for await (const session of Session.list()) {
+      if (session.worktree) sessions.add(path.basename(checkout(session)))
+    }
+    const removed: string[] = []
+    const entries = await fs.readdir(root(), { withFileTypes: true }).catch(() => [])
+    for (const entry of entries) {
+      if (!entry.isDirectory() || sessions.has(entry.name)) continue
+      const directory = path.join(root(), entry.name)
+      const branch = await $`git rev-parse --abbrev-ref HEAD`.quiet().nothrow().cwd(directory).text()
+      await $`git worktree remove --force ${directory}`.quiet().nothrow().cwd(target)
+      if (branch.trim().startsWith("opencode/")) await $`git branch -D ${branch.trim()}`.quiet().nothrow().cwd(target)
+      await fs.rm(directory, { recursive: true, force: true })
+      removed.push(directory)
+    }
+    await $`git worktree prune`.quiet().nothrow().cwd(target)
+    log.info("cleanup", { removed })
+    return removed
+  }
+}
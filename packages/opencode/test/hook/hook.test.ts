@@ -0,0 +1,157 @@
+import { describe, expect, test } from "bun:test"
+import path from "path"
+import { Hook } from "../../src/hook"
+import { Instance } from "../../src/project/instance"
+import { Log } from "../../src/util/log"
+import { tmpdir } from "../fixture/fixture"
+
+Log.init({ print: false })
+
+async function withHooks(hook: Record<string, unknown>, fn: (dir: string) => Promise<void>) {
+  await using tmp = await tmpdir({
+    init: async (dir) => {
+      await Bun.write(
+        `${dir}/opencode.json`,
+        JSON.stringify({
+          $schema: "https://opencode.ai/config.json",
+          experimental: { hook },
+        }),
+      )
+    },
+  })
+  await Instance.provide({ directory: tmp.path, fn: () => fn(tmp.path) })
+}
+
+describe("hook", () => {
+  test("reports failing file_edited hooks with the diff stats", async () => {
+    await withHooks(
+      {
+        file_edited: {
+          "*.ts": [{ command: ["sh", "-c", 'echo "$OPENCODE_ADDITIONS+ $OPENCODE_DELETIONS-" >&2; exit 3'] }],
+          "*.md": [{ command: ["false"] }],
+        },
+      },
+      async (dir) => {
+        const output = await Hook.fileEdited({
+          sessionID: "ses_test",
+          file: path.join(dir, "src/a.ts"),
+          before: "one\ntwo\n",
+          after: "one\nthree\nfour\n",
+        })
+        expect(output).toContain('<hook_failure event="file_edited"')
+        expect(output).toContain('exit_code="3"')
+        expect(output).toContain("2+ 1-")
+
+        const skipped = await Hook.fileEdited({
+          sessionID: "ses_test",
+          file: path.join(dir, "a.json"),
+          before: "",
+          after: "{}",
+        })
+        expect(skipped).toBe("")
+      },
+    )
+  })
+
+  test("blocks tool calls when a pre_tool hook fails", async () => {
+    await withHooks(
+      {
+        pre_tool: {
+          bash: [{ command: ["sh", "-c", 'grep -q "rm -rf" && echo "no rm -rf" && exit 1 || exit 0'] }],
+        },
+      },
+      async () => {
+        const call = (tool: string, command: string) =>
+          Hook.preTool({ sessionID: "ses_test", callID: "call", tool, args: { command } })
+        await call("bash", "ls")
+        await call("read", "rm -rf /")
+        const error = await call("bash", "rm -rf /").catch((e) => e)
+        expect(error).toBeInstanceOf(Hook.BlockedError)
+        expect(error.message).toContain("no rm -rf")
+      },
+    )
+  })
+
+  test("stops hooks that run past their timeout", async () => {
+    await withHooks(
+      {
+        post_tool: {
+          "*": [{ command: ["sleep", "5"], timeout: 50 }],
+        },
+      },
+      async () => {
+        const output = await Hook.postTool({
+          sessionID: "ses_test",
+          callID: "call",
+          tool: "read",
+          args: {},
+          output: "",
+        })
+        expect(output).toContain('exit_code="timeout"')
+      },
+    )
+  })
+
+  test("stops the commands a hook started when it times out", async () => {
+    await withHooks(
+      {
+        post_tool: {
+          // sleep runs as a child of sh and holds the output pipes
+          "*": [{ command: ["sh", "-c", "sleep 5; echo done"], timeout: 50 }],
+        },
+      },
+      async () => {
+        const start = Date.now()
+        const output = await Hook.postTool({
+          sessionID: "ses_test",
+          callID: "call",
+          tool: "read",
+          args: {},
+          output: "",
+        })
+        expect(output).toContain('exit_code="timeout"')
+        expect(Date.now() - start).toBeLessThan(2000)
+      },
+    )
+  })
+
+  test("reports hooks with a missing executable as failures", async () => {
+    await withHooks(
+      {
+        post_tool: {
+          "*": [{ command: ["opencode-missing-hook"] }],
+        },
+      },
+      async () => {
+        const output = await Hook.postTool({
+          sessionID: "ses_test",
+          callID: "call",
+          tool: "read",
+          args: {},
+          output: "",
+        })
+        expect(output).toContain('command="opencode-missing-hook"')
+      },
+    )
+  })
+
+  test("answers permissions from permission_asked hooks", async () => {
+    await withHooks(
+      {
+        permission_asked: [{ command: ["sh", "-c", '[ "$OPENCODE_PERMISSION_TYPE" = bash ] && echo deny || true'] }],
+      },
+      async () => {
+        const ask = (type: string) =>
+          Hook.permissionAsked({
+            sessionID: "ses_test",
+            permissionID: "per_test",
+            type,
+            title: "test",
+            metadata: {},
+          })
+        expect(await ask("bash")).toBe("deny")
+        expect(await ask("edit")).toBeUndefined()
+      },
+    )
+  })
+})
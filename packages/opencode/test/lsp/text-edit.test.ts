@@ -0,0 +1,59 @@
+import { describe, expect, test } from "bun:test"
+import { pathToFileURL } from "url"
+import { LSP } from "../../src/lsp"
+
+function range(startLine: number, startChar: number, endLine: number, endChar: number) {
+  return {
+    start: { line: startLine, character: startChar },
+    end: { line: endLine, character: endChar },
+  }
+}
+
+describe("LSP.TextEdit.apply", () => {
+  test("applies edits from the end so earlier offsets stay valid", () => {
+    const text = "const foo = 1\nconsole.log(foo)\n"
+    const result = LSP.TextEdit.apply(text, [
+      { range: range(0, 6, 0, 9), newText: "bar" },
+      { range: range(1, 12, 1, 15), newText: "bar" },
+    ])
+    expect(result).toBe("const bar = 1\nconsole.log(bar)\n")
+  })
+
+  test("handles multi-line ranges and positions past the end of a line", () => {
+    const text = "a\nb\nc"
+    expect(LSP.TextEdit.apply(text, [{ range: range(0, 1, 2, 0), newText: " " }])).toBe("a c")
+    expect(LSP.TextEdit.apply(text, [{ range: range(1, 10, 1, 10), newText: "!" }])).toBe("a\nb!\nc")
+  })
+})
+
+describe("LSP.TextEdit.group", () => {
+  test("merges changes and document changes by file", () => {
+    const a = "/repo/a.ts"
+    const b = "/repo/b.ts"
+    const grouped = LSP.TextEdit.group({
+      changes: {
+        [pathToFileURL(a).href]: [{ range: range(0, 0, 0, 1), newText: "x" }],
+      },
+      documentChanges: [
+        {
+          textDocument: { uri: pathToFileURL(a).href, version: 1 },
+          edits: [{ range: range(1, 0, 1, 1), newText: "y" }],
+        },
+        {
+          textDocument: { uri: pathToFileURL(b).href, version: 1 },
+          edits: [{ range: range(0, 0, 0, 1), newText: "z" }],
+        },
+      ],
+    })
+    expect(Object.keys(grouped).sort()).toEqual([a, b])
+    expect(grouped[a]).toHaveLength(2)
+  })
+
+  test("rejects resource operations", () => {
+    expect(() =>
+      LSP.TextEdit.group({
+        documentChanges: [{ kind: "create", uri: pathToFileURL("/repo/new.ts").href }],
+      }),
+    ).toThrow("Unsupported workspace edit operation: create")
+  })
+})
@@ -0,0 +1,102 @@
+import { test, expect, mock } from "bun:test"
+
+const calls: Array<{ name: string; arguments?: Record<string, unknown> }> = []
+let listed = 0
+
+// Mock the MCP client so the configured local server connects without spawning
+mock.module("@ai-sdk/mcp", () => ({
+  experimental_createMCPClient: async () => ({
+    tools: async () => ({}),
+    listPrompts: async () => {
+      listed++
+      return {
+        prompts: [
+          {
+            name: "summarize",
+            description: "Summarize a topic",
+            arguments: [
+              { name: "topic", required: true },
+              { name: "style", description: "How to write it" },
+            ],
+          },
+        ],
+      }
+    },
+    getPrompt: async (input: { name: string; arguments?: Record<string, unknown> }) => {
+      calls.push(input)
+      return {
+        messages: [
+          { role: "user", content: { type: "text", text: `Summarize ${input.arguments?.topic}` } },
+          { role: "user", content: { type: "text", text: `Style: ${input.arguments?.style ?? "default"}` } },
+        ],
+      }
+    },
+    listResources: async () => ({
+      resources: [{ uri: "docs://readme", name: "readme", mimeType: "text/markdown" }],
+    }),
+    readResource: async (input: { uri: string }) => ({
+      contents: [{ uri: input.uri, mimeType: "text/markdown", text: "# Readme" }],
+    }),
+    close: async () => {},
+  }),
+}))
+
+const { MCP } = await import("../../src/mcp/index")
+const { Command } = await import("../../src/command/index")
+const { Instance } = await import("../../src/project/instance")
+const { tmpdir } = await import("../fixture/fixture")
+
+async function withServer(fn: () => Promise<void>) {
+  await using tmp = await tmpdir({
+    init: async (dir) => {
+      await Bun.write(
+        `${dir}/opencode.json`,
+        JSON.stringify({
+          $schema: "https://opencode.ai/config.json",
+          mcp: {
+            docs: {
+              type: "local",
+              command: ["docs-mcp"],
+            },
+          },
+        }),
+      )
+    },
+  })
+  await Instance.provide({ directory: tmp.path, fn })
+}
+
+test("mcp prompts are listed as commands", async () => {
+  await withServer(async () => {
+    const command = await Command.get("docs:summarize")
+    expect(command?.mcp).toBe(true)
+    expect(command?.arguments?.map((x) => x.name)).toEqual(["topic", "style"])
+    expect((await Command.list()).some((x) => x.name === "docs:summarize")).toBe(true)
+  })
+})
+
+test("mcp prompts map positional arguments in order", async () => {
+  await withServer(async () => {
+    calls.length = 0
+    listed = 0
+    const text = await Command.render("docs:summarize", ["release", "very", "short"])
+    expect(calls[0]).toEqual({ name: "summarize", arguments: { topic: "release", style: "very short" } })
+    expect(text).toBe("Summarize release\n\nStyle: very short")
+
+    await Command.render("docs:summarize", ["release", ""])
+    expect(calls[1].arguments).toEqual({ topic: "release" })
+    // the prompts are listed once per connection, not on every render
+    expect(listed).toBe(1)
+  })
+})
+
+test("mcp resources can be listed and read", async () => {
+  await withServer(async () => {
+    expect(await MCP.resources()).toEqual([
+      { client: "docs", name: "readme", uri: "docs://readme", description: undefined, mimeType: "text/markdown" },
+    ])
+    expect(await MCP.readResource("docs", "docs://readme")).toEqual([
+      { uri: "docs://readme", mimeType: "text/markdown", text: "# Readme", blob: undefined },
+    ])
+  })
+})
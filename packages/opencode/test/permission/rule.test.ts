@@ -0,0 +1,93 @@
+import { describe, expect, test } from "bun:test"
+import { Bus } from "../../src/bus"
+import { Permission } from "../../src/permission"
+import { PermissionRule } from "../../src/permission/rule"
+import { Instance } from "../../src/project/instance"
+import { Log } from "../../src/util/log"
+import { tmpdir } from "../fixture/fixture"
+
+Log.init({ print: false })
+
+describe("PermissionRule", () => {
+  test("covered matches saved patterns by type", async () => {
+    await using tmp = await tmpdir({ git: true })
+    await Instance.provide({
+      directory: tmp.path,
+      fn: async () => {
+        const rule = await PermissionRule.add({ type: "bash", pattern: "git status*", scope: "project" })
+
+        expect(await PermissionRule.covered("bash", ["git status --short"])).toBe(true)
+        expect(await PermissionRule.covered("bash", ["git status", "git push"])).toBe(false)
+        expect(await PermissionRule.covered("edit", ["git status"])).toBe(false)
+
+        await PermissionRule.remove(rule.id)
+        expect(await PermissionRule.covered("bash", ["git status --short"])).toBe(false)
+      },
+    })
+  })
+
+  test("add is idempotent within a scope", async () => {
+    await using tmp = await tmpdir({ git: true })
+    await Instance.provide({
+      directory: tmp.path,
+      fn: async () => {
+        const first = await PermissionRule.add({ type: "webfetch", pattern: "webfetch", scope: "project" })
+        const second = await PermissionRule.add({ type: "webfetch", pattern: "webfetch", scope: "project" })
+        expect(second.id).toBe(first.id)
+        expect(await PermissionRule.list("project")).toHaveLength(1)
+        await PermissionRule.remove(first.id)
+      },
+    })
+  })
+
+  test("update moves a rule between scopes", async () => {
+    await using tmp = await tmpdir({ git: true })
+    await Instance.provide({
+      directory: tmp.path,
+      fn: async () => {
+        const rule = await PermissionRule.add({ type: "bash", pattern: "ls *", scope: "project" })
+        const moved = await PermissionRule.update({ id: rule.id, scope: "global", pattern: "ls*" })
+
+        expect(moved.scope).toBe("global")
+        expect(moved.projectID).toBeUndefined()
+        expect(await PermissionRule.list("project")).toHaveLength(0)
+        expect((await PermissionRule.list("global")).map((x) => x.pattern)).toContain("ls*")
+
+        await PermissionRule.remove(rule.id)
+      },
+    })
+  })
+  test("ask returns without asking when a stored rule covers the call", async () => {
+    await using tmp = await tmpdir({ git: true })
+    await Instance.provide({
+      directory: tmp.path,
+      fn: async () => {
+        const ask = () =>
+          Permission.ask({
+            type: "bash",
+            title: "git status",
+            pattern: "git status --short",
+            sessionID: "ses_test",
+            messageID: "msg_test",
+            metadata: {},
+          })
+        const rule = await PermissionRule.add({ type: "bash", pattern: "git status*", scope: "project" })
+        await ask()
+        expect(Object.keys(Permission.pending()["ses_test"] ?? {})).toHaveLength(0)
+
+        await PermissionRule.remove(rule.id)
+        const asked = new Promise<Permission.Info>((resolve) => {
+          const unsub = Bus.subscribe(Permission.Event.Updated, (evt) => {
+            unsub()
+            resolve(evt.properties)
+          })
+        })
+        const pending = ask().catch((e) => e)
+        const info = await asked
+        expect(info.pattern).toBe("git status --short")
+        Permission.respond({ sessionID: "ses_test", permissionID: info.id, response: "reject" })
+        expect(await pending).toBeInstanceOf(Permission.RejectedError)
+      },
+    })
+  })
+})
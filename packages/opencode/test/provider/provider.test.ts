@@ -1807,3 +1807,103 @@ test("custom model inherits api.url from models.dev provider", async () => {
     },
   })
 })
+
+test("local provider discovers models from the server", async () => {
+  const server = Bun.serve({
+    port: 0,
+    fetch(req) {
+      if (new URL(req.url).pathname !== "/v1/models") return new Response("not found", { status: 404 })
+      return Response.json({
+        object: "list",
+        data: [
+          { id: "qwen3-coder", object: "model", max_model_len: 65536 },
+          { id: "llama-3.2-3b", object: "model" },
+        ],
+      })
+    },
+  })
+  await using tmp = await tmpdir({
+    init: async (dir) => {
+      await Bun.write(
+        path.join(dir, "opencode.json"),
+        JSON.stringify({
+          $schema: "https://opencode.ai/config.json",
+          provider: {
+            local: {
+              options: {
+                baseURL: `http://127.0.0.1:${server.port}/v1`,
+              },
+              models: {
+                "llama-3.2-3b": {
+                  tool_call: false,
+                  limit: { context: 8192, output: 2048 },
+                },
+              },
+            },
+          },
+        }),
+      )
+    },
+  })
+  try {
+    await Instance.provide({
+      directory: tmp.path,
+      fn: async () => {
+        const providers = await Provider.list()
+        expect(providers["local"]).toBeDefined()
+        expect(Object.keys(providers["local"].models).sort()).toEqual(["llama-3.2-3b", "qwen3-coder"])
+
+        const discovered = providers["local"].models["qwen3-coder"]
+        expect(discovered.api.npm).toBe("@opencode-ai/local")
+        expect(discovered.api.url).toBe(`http://127.0.0.1:${server.port}/v1`)
+        expect(discovered.limit.context).toBe(65536)
+        expect(discovered.capabilities.toolcall).toBe(true)
+        expect(discovered.capabilities.input.text).toBe(true)
+
+        const configured = providers["local"].models["llama-3.2-3b"]
+        expect(configured.capabilities.toolcall).toBe(false)
+        expect(configured.limit).toEqual({ context: 8192, output: 2048 })
+
+        const language = await Provider.getLanguage(discovered)
+        expect(language).toBeDefined()
+      },
+    })
+  } finally {
+    server.stop(true)
+  }
+})
+
+test("local provider keeps configured models when the server is down", async () => {
+  await using tmp = await tmpdir({
+    init: async (dir) => {
+      await Bun.write(
+        path.join(dir, "opencode.json"),
+        JSON.stringify({
+          $schema: "https://opencode.ai/config.json",
+          provider: {
+            local: {
+              options: {
+                baseURL: "http://127.0.0.1:9/v1",
+              },
+              models: {
+                "gpt-oss-20b": {
+                  name: "gpt-oss 20b",
+                },
+              },
+            },
+          },
+        }),
+      )
+    },
+  })
+  await Instance.provide({
+    directory: tmp.path,
+    fn: async () => {
+      const providers = await Provider.list()
+      const model = providers["local"].models["gpt-oss-20b"]
+      expect(model.name).toBe("gpt-oss 20b")
+      expect(model.api.npm).toBe("@opencode-ai/local")
+      expect(model.capabilities.input.text).toBe(true)
+    },
+  })
+})
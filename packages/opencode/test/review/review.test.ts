@@ -0,0 +1,105 @@
+import { describe, expect, test } from "bun:test"
+import { Bus } from "../../src/bus"
+import { Permission } from "../../src/permission"
+import { Review } from "../../src/review"
+import { Instance } from "../../src/project/instance"
+import { Log } from "../../src/util/log"
+import { tmpdir } from "../fixture/fixture"
+
+Log.init({ print: false })
+
+const before = Array.from({ length: 20 }, (_, i) => `line ${i + 1}`).join("\n") + "\n"
+const after = before.replace("line 2\n", "line two\n").replace("line 18\n", "line eighteen\n")
+
+describe("review", () => {
+  test("writes only the accepted hunks and reports the rejected ones", async () => {
+    await using tmp = await tmpdir()
+    await Instance.provide({
+      directory: tmp.path,
+      fn: async () => {
+        const pending = Review.ask({
+          sessionID: "ses_test",
+          messageID: "msg_test",
+          callID: "call_test",
+          file: "/tmp/a.txt",
+          before,
+          after,
+          abort: new AbortController().signal,
+        })
+        const [review] = Review.list("ses_test")
+        expect(review.hunks.map((x) => x.status)).toEqual(["pending", "pending"])
+
+        Review.respond({ sessionID: "ses_test", reviewID: review.id, hunks: [{ index: 0, status: "accepted" }] })
+        expect(Review.list("ses_test")).toHaveLength(1)
+        Review.respond({
+          sessionID: "ses_test",
+          reviewID: review.id,
+          hunks: [{ index: 1, status: "rejected", comment: "keep the number" }],
+        })
+        expect(Review.list("ses_test")).toHaveLength(0)
+
+        const result = await pending
+        expect(result.content).toBe(before.replace("line 2\n", "line two\n"))
+        const feedback = Review.format("/tmp/a.txt", result)
+        expect(feedback).toContain("rejected 1 of 2 hunks")
+        expect(feedback).toContain("+line eighteen")
+        expect(feedback).toContain("Comment: keep the number")
+      },
+    })
+  })
+
+  test("drops the review and rejects when the tool call is aborted", async () => {
+    await using tmp = await tmpdir()
+    await Instance.provide({
+      directory: tmp.path,
+      fn: async () => {
+        const replied: string[] = []
+        const unsub = Bus.subscribe(Review.Event.Replied, (event) => {
+          replied.push(event.properties.reviewID)
+        })
+        const abort = new AbortController()
+        const pending = Review.ask({
+          sessionID: "ses_test",
+          messageID: "msg_test",
+          file: "/tmp/a.txt",
+          before,
+          after,
+          abort: abort.signal,
+        }).catch((e) => e)
+        const [review] = Review.list("ses_test")
+        abort.abort()
+        expect(await pending).toBeInstanceOf(Permission.RejectedError)
+        expect(Review.list("ses_test")).toHaveLength(0)
+        expect(replied).toEqual([review.id])
+        unsub()
+      },
+    })
+  })
+
+  test("applies any subset of hunks", () => {
+    const source = "a\nb\nc\nd\ne\nf\ng\nh\ni\nj\nk\nl\nm"
+    const hunks = [
+      {
+        index: 0,
+        oldStart: 1,
+        oldLines: 2,
+        newStart: 1,
+        newLines: 3,
+        lines: [" a", "+x", " b"],
+        status: "accepted" as const,
+      },
+      {
+        index: 1,
+        oldStart: 12,
+        oldLines: 2,
+        newStart: 13,
+        newLines: 2,
+        lines: [" l", "-m", "\\ No newline at end of file", "+y", "\\ No newline at end of file"],
+        status: "accepted" as const,
+      },
+    ]
+    expect(Review.apply(source, [])).toBe(source)
+    expect(Review.apply(source, hunks)).toBe("a\nx\nb\nc\nd\ne\nf\ng\nh\ni\nj\nk\nl\ny")
+    expect(Review.apply(source, [hunks[1]])).toBe("a\nb\nc\nd\ne\nf\ng\nh\ni\nj\nk\nl\ny")
+  })
+})
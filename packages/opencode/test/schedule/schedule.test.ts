@@ -0,0 +1,62 @@
+import { describe, expect, test } from "bun:test"
+import path from "path"
+import { Schedule } from "../../src/schedule"
+import { Instance } from "../../src/project/instance"
+import { Log } from "../../src/util/log"
+import { tmpdir } from "../fixture/fixture"
+
+Log.init({ print: false })
+
+async function withJobs(fn: (dir: string) => Promise<void>) {
+  await using tmp = await tmpdir({
+    init: async (dir) => {
+      await Bun.write(
+        `${dir}/opencode.json`,
+        JSON.stringify({
+          $schema: "https://opencode.ai/config.json",
+          schedule: {
+            "nightly-deps": {
+              cron: "0 3 * * *",
+              prompt: "update dependencies",
+              agent: "build",
+            },
+            lint: {
+              cron: "@hourly",
+              command: "lint",
+              directory: "packages/app",
+              disabled: true,
+            },
+          },
+        }),
+      )
+    },
+  })
+  await Instance.provide({ directory: tmp.path, fn: () => fn(tmp.path) })
+}
+
+describe("schedule", () => {
+  test("lists jobs from config", async () => {
+    await withJobs(async (dir) => {
+      const jobs = await Schedule.list()
+      expect(jobs.map((x) => x.id)).toEqual(["nightly-deps", "lint"])
+      expect(jobs[0].directory).toBe(dir)
+      expect(jobs[0].next).toBeGreaterThan(Date.now())
+      expect(jobs[1].directory).toBe(path.join(dir, "packages/app"))
+      expect(jobs[1].next).toBeUndefined()
+    })
+  })
+
+  test("pauses and resumes jobs", async () => {
+    await withJobs(async () => {
+      const paused = await Schedule.pause({ id: "nightly-deps", paused: true })
+      expect(paused.paused).toBe(true)
+      expect(paused.next).toBeUndefined()
+
+      const resumed = await Schedule.pause({ id: "nightly-deps", paused: false })
+      expect(resumed.paused).toBe(false)
+      expect(resumed.next).toBeDefined()
+
+      await expect(Schedule.pause({ id: "missing", paused: true })).rejects.toThrow()
+    })
+  })
+})
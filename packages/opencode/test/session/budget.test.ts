@@ -0,0 +1,154 @@
+import { describe, expect, test } from "bun:test"
+import path from "path"
+import { Session } from "../../src/session"
+import { SessionBudget } from "../../src/session/budget"
+import { SessionSubagent } from "../../src/session/subagent"
+import { MessageV2 } from "../../src/session/message-v2"
+import { Identifier } from "../../src/id/id"
+import { Instance } from "../../src/project/instance"
+import { Log } from "../../src/util/log"
+import { tmpdir } from "../fixture/fixture"
+
+Log.init({ print: false })
+
+async function spend(sessionID: string, agent: string, cost: number) {
+  await Session.updateMessage({
+    id: Identifier.ascending("message"),
+    role: "assistant",
+    sessionID,
+    parentID: Identifier.ascending("message"),
+    mode: agent,
+    agent,
+    path: { cwd: "/", root: "/" },
+    cost,
+    tokens: { input: 0, output: 0, reasoning: 0, cache: { read: 0, write: 0 } },
+    modelID: "test",
+    providerID: "test",
+    time: { created: Date.now() },
+  } satisfies MessageV2.Assistant)
+}
+
+describe("session.budget", () => {
+  test("stops at the session and agent limits until raised", async () => {
+    await using tmp = await tmpdir({
+      git: true,
+      init: async (dir) => {
+        await Bun.write(
+          path.join(dir, "opencode.json"),
+          JSON.stringify({
+            $schema: "https://opencode.ai/config.json",
+            budget: { session: 1, agent: { plan: 0.5 } },
+          }),
+        )
+      },
+    })
+    await Instance.provide({
+      directory: tmp.path,
+      fn: async () => {
+        const session = await Session.create({})
+        await spend(session.id, "build", 0.4)
+        expect(await SessionBudget.check({ sessionID: session.id, agent: "build" })).toBeUndefined()
+
+        await spend(session.id, "plan", 0.5)
+        const agent = await SessionBudget.check({ sessionID: session.id, agent: "plan" })
+        expect(agent?.name).toBe("BudgetExceededError")
+        expect(agent?.data.scope).toBe("agent")
+
+        await spend(session.id, "build", 0.2)
+        const exceeded = await SessionBudget.check({ sessionID: session.id, agent: "build" })
+        expect(exceeded?.data.scope).toBe("session")
+        expect(exceeded?.data.spent).toBeCloseTo(1.1)
+
+        await SessionBudget.raise({ sessionID: session.id, amount: 1 })
+        expect(await SessionBudget.check({ sessionID: session.id, agent: "build" })).toBeUndefined()
+        const usage = await SessionBudget.usage({ sessionID: session.id, agent: "plan" })
+        expect(usage.map((x) => [x.scope, x.limit])).toEqual([
+          ["session", 2],
+          ["agent", 1.5],
+        ])
+
+        await Session.remove(session.id)
+      },
+    })
+  })
+
+  test("counts subagent spend against the session limit", async () => {
+    await using tmp = await tmpdir({
+      git: true,
+      init: async (dir) => {
+        await Bun.write(
+          path.join(dir, "opencode.json"),
+          JSON.stringify({
+            $schema: "https://opencode.ai/config.json",
+            budget: { session: 1 },
+          }),
+        )
+      },
+    })
+    await Instance.provide({
+      directory: tmp.path,
+      fn: async () => {
+        const parent = await Session.create({})
+        const child = await Session.create({ parentID: parent.id })
+        await spend(parent.id, "build", 0.4)
+        await spend(child.id, "general", 0.7)
+        expect(await SessionBudget.check({ sessionID: parent.id, agent: "build" })).toBeUndefined()
+
+        await SessionSubagent.rollup(parent.id)
+        const exceeded = await SessionBudget.check({ sessionID: parent.id, agent: "build" })
+        expect(exceeded?.data.scope).toBe("session")
+        expect(exceeded?.data.spent).toBeCloseTo(1.1)
+
+        await Session.remove(parent.id)
+      },
+    })
+  })
+
+  test("counts today's spend across sessions", async () => {
+    await using tmp = await tmpdir({
+      git: true,
+      init: async (dir) => {
+        await Bun.write(
+          path.join(dir, "opencode.json"),
+          JSON.stringify({
+            $schema: "https://opencode.ai/config.json",
+            budget: { daily: 1 },
+          }),
+        )
+      },
+    })
+    await Instance.provide({
+      directory: tmp.path,
+      fn: async () => {
+        const first = await Session.create({})
+        const second = await Session.create({})
+        await spend(first.id, "build", 0.6)
+        expect(await SessionBudget.check({ sessionID: second.id, agent: "build" })).toBeUndefined()
+
+        // spent after the first check, so only known from the message events
+        await spend(second.id, "build", 0.5)
+        const exceeded = await SessionBudget.check({ sessionID: second.id, agent: "build" })
+        expect(exceeded?.data.scope).toBe("daily")
+        expect(exceeded?.data.spent).toBeCloseTo(1.1)
+
+        await Session.remove(first.id)
+        expect(await SessionBudget.check({ sessionID: second.id, agent: "build" })).toBeUndefined()
+        await Session.remove(second.id)
+      },
+    })
+  })
+
+  test("does nothing without a budget", async () => {
+    await using tmp = await tmpdir({ git: true })
+    await Instance.provide({
+      directory: tmp.path,
+      fn: async () => {
+        const session = await Session.create({})
+        await spend(session.id, "build", 100)
+        expect(await SessionBudget.usage({ sessionID: session.id, agent: "build" })).toEqual([])
+        expect(await SessionBudget.check({ sessionID: session.id, agent: "build" })).toBeUndefined()
+        await Session.remove(session.id)
+      },
+    })
+  })
+})
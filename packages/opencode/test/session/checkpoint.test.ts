@@ -0,0 +1,95 @@
+import { describe, expect, test } from "bun:test"
+import path from "path"
+import { $ } from "bun"
+import { Session } from "../../src/session"
+import { SessionCheckpoint } from "../../src/session/checkpoint"
+import { Identifier } from "../../src/id/id"
+import { Instance } from "../../src/project/instance"
+import { Log } from "../../src/util/log"
+import { tmpdir } from "../fixture/fixture"
+
+Log.init({ print: false })
+
+async function user(sessionID: string, text: string) {
+  const info = await Session.updateMessage({
+    id: Identifier.ascending("message"),
+    role: "user",
+    sessionID,
+    agent: "build",
+    model: { providerID: "test", modelID: "test" },
+    time: { created: Date.now() },
+  })
+  await Session.updatePart({
+    id: Identifier.ascending("part"),
+    messageID: info.id,
+    sessionID,
+    type: "text",
+    text,
+  })
+  return info
+}
+
+const bootstrap = () =>
+  tmpdir({
+    git: true,
+    init: async (dir) => {
+      await Bun.write(path.join(dir, "a.txt"), "first")
+      await $`git add .`.cwd(dir).quiet()
+      await $`git commit --no-gpg-sign -m init`.cwd(dir).quiet()
+    },
+  })
+
+describe("session.checkpoint", () => {
+  test("restoring forks the session and brings the files back", async () => {
+    await using tmp = await bootstrap()
+    await Instance.provide({
+      directory: tmp.path,
+      fn: async () => {
+        const session = await Session.create({ title: "work" })
+        const kept = await user(session.id, "one")
+        const checkpoint = await SessionCheckpoint.create({ sessionID: session.id, name: "start" })
+        expect(checkpoint.messageID).toBe(kept.id)
+
+        await user(session.id, "two")
+        await Bun.write(path.join(tmp.path, "a.txt"), "second")
+        await Bun.write(path.join(tmp.path, "b.txt"), "new")
+
+        const forked = await SessionCheckpoint.restore({ sessionID: session.id, checkpointID: checkpoint.id })
+        expect(forked.id).not.toBe(session.id)
+        expect(forked.title).toBe("work · start")
+        expect(await Bun.file(path.join(tmp.path, "a.txt")).text()).toBe("first")
+        expect(await Bun.file(path.join(tmp.path, "b.txt")).exists()).toBe(false)
+
+        const copied = await Session.messages({ sessionID: forked.id })
+        expect(copied.map((msg) => msg.parts.find((part) => part.type === "text"))).toMatchObject([{ text: "one" }])
+        expect((await SessionCheckpoint.list(forked.id)).map((x) => x.name)).toEqual(["start"])
+
+        // the original keeps its messages and a checkpoint of the files it had
+        expect(await Session.messages({ sessionID: session.id })).toHaveLength(2)
+        const saved = await SessionCheckpoint.list(session.id)
+        expect(saved.map((x) => x.name)).toEqual(["start", "before restoring start"])
+        const diff = await SessionCheckpoint.diff({ sessionID: session.id, from: saved[0].id, to: saved[1].id })
+        expect(diff.map((x) => x.file).toSorted()).toEqual(["a.txt", "b.txt"])
+      },
+    })
+  })
+
+  test("diffs a checkpoint against the current files", async () => {
+    await using tmp = await bootstrap()
+    await Instance.provide({
+      directory: tmp.path,
+      fn: async () => {
+        const session = await Session.create({})
+        const checkpoint = await SessionCheckpoint.create({ sessionID: session.id, name: "empty" })
+        expect(checkpoint.messageID).toBeUndefined()
+        await Bun.write(path.join(tmp.path, "a.txt"), "changed")
+
+        const diff = await SessionCheckpoint.diff({ sessionID: session.id, from: checkpoint.id })
+        expect(diff).toMatchObject([{ file: "a.txt", before: "first", after: "changed" }])
+
+        expect(await SessionCheckpoint.remove({ sessionID: session.id, checkpointID: checkpoint.id })).toBe(true)
+        expect(await SessionCheckpoint.list(session.id)).toEqual([])
+      },
+    })
+  })
+})
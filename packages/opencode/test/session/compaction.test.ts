@@ -0,0 +1,65 @@
+import { describe, expect, test } from "bun:test"
+import { SessionCompaction } from "../../src/session/compaction"
+
+describe("session.compaction", () => {
+  test("parses sections into a structured summary", () => {
+    const summary = SessionCompaction.parse(
+      [
+        "We are adding a retry policy.",
+        "",
+        "## Goals",
+        "- Retry failed requests",
+        "",
+        "## Decisions",
+        "1. Use exponential backoff",
+        "* Cap at five attempts",
+        "",
+        "## Files",
+        "- src/session/retry.ts",
+        "",
+        "## Next steps",
+        "- Add tests",
+        "",
+        "## Notes",
+        "The provider returns 529 when overloaded.",
+      ].join("\n"),
+    )
+    expect(summary.goals).toEqual(["Retry failed requests"])
+    expect(summary.decisions).toEqual(["Use exponential backoff", "Cap at five attempts"])
+    expect(summary.files).toEqual(["src/session/retry.ts"])
+    expect(summary.next).toEqual(["Add tests"])
+    expect(summary.notes).toBe("We are adding a retry policy.\n\nThe provider returns 529 when overloaded.")
+  })
+
+  test("keeps unstructured text as notes", () => {
+    const summary = SessionCompaction.parse("Just a plain summary.")
+    expect(summary.goals).toEqual([])
+    expect(summary.notes).toBe("Just a plain summary.")
+  })
+
+  test("renders a summary that parses back to itself", () => {
+    const summary: SessionCompaction.Summary = {
+      goals: ["Ship it"],
+      decisions: [],
+      files: ["a.ts", "b.ts"],
+      todos: [],
+      next: ["Review"],
+      notes: "Nothing else.",
+    }
+    const text = SessionCompaction.render(summary)
+    expect(text).not.toContain("## Decisions")
+    expect(SessionCompaction.parse(text)).toEqual(summary)
+  })
+
+  test("renders open todos", () => {
+    const text = SessionCompaction.render({
+      goals: [],
+      decisions: [],
+      files: [],
+      todos: [{ id: "1", content: "Write docs", status: "pending", priority: "high" }],
+      next: [],
+      notes: "",
+    })
+    expect(text).toBe("## Open todos\n- [pending] Write docs")
+  })
+})
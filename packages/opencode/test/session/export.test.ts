@@ -0,0 +1,112 @@
+import { describe, expect, test } from "bun:test"
+import { Session } from "../../src/session"
+import { SessionExport } from "../../src/session/export"
+import { MessageV2 } from "../../src/session/message-v2"
+import { Identifier } from "../../src/id/id"
+import { Instance } from "../../src/project/instance"
+import { Log } from "../../src/util/log"
+import { tmpdir } from "../fixture/fixture"
+
+Log.init({ print: false })
+
+async function seed() {
+  const session = await Session.create({ title: "Fix <script> bug" })
+  const user = await Session.updateMessage({
+    id: Identifier.ascending("message"),
+    role: "user",
+    sessionID: session.id,
+    agent: "build",
+    model: { providerID: "test", modelID: "test" },
+    time: { created: Date.now() },
+  })
+  await Session.updatePart({
+    id: Identifier.ascending("part"),
+    messageID: user.id,
+    sessionID: session.id,
+    type: "text",
+    text: "Please fix the bug",
+  })
+  const assistant = await Session.updateMessage({
+    id: Identifier.ascending("message"),
+    role: "assistant",
+    sessionID: session.id,
+    parentID: user.id,
+    mode: "build",
+    agent: "build",
+    path: { cwd: "/", root: "/" },
+    cost: 0.0125,
+    tokens: { input: 100, output: 20, reasoning: 0, cache: { read: 0, write: 0 } },
+    modelID: "test-model",
+    providerID: "test",
+    time: { created: Date.now() },
+  } satisfies MessageV2.Assistant)
+  await Session.updatePart({
+    id: Identifier.ascending("part"),
+    messageID: assistant.id,
+    sessionID: session.id,
+    type: "tool",
+    tool: "edit",
+    callID: "call_1",
+    state: {
+      status: "completed",
+      input: { filePath: "src/app.ts" },
+      output: "",
+      title: "src/app.ts",
+      metadata: { diff: "@@ -1 +1 @@\n-const a = 1\n+const a = 2" },
+      time: { start: Date.now(), end: Date.now() },
+    },
+  })
+  await Session.updatePart({
+    id: Identifier.ascending("part"),
+    messageID: assistant.id,
+    sessionID: session.id,
+    type: "text",
+    text: "Fixed it.",
+  })
+  return session
+}
+
+describe("session.export", () => {
+  test("renders readable transcripts", async () => {
+    await using tmp = await tmpdir({ git: true })
+    await Instance.provide({
+      directory: tmp.path,
+      fn: async () => {
+        const session = await seed()
+
+        const markdown = await SessionExport.render({ sessionID: session.id, format: "markdown" })
+        expect(markdown).toStartWith("# Fix <script> bug")
+        expect(markdown).toContain("## User\n")
+        expect(markdown).toContain("Please fix the bug")
+        expect(markdown).toContain("## Assistant (build · test/test-model)")
+        expect(markdown).toContain("### Tool: edit — src/app.ts")
+        expect(markdown).toContain("```diff\n@@ -1 +1 @@\n-const a = 1\n+const a = 2\n```")
+        expect(markdown).toContain("$0.0125")
+
+        const html = await SessionExport.render({ sessionID: session.id, format: "html" })
+        expect(html).toStartWith("<!doctype html>")
+        expect(html).toContain("<h1>Fix &lt;script&gt; bug</h1>")
+        expect(html).toContain('<span class="add">+const a = 2</span>')
+
+        await Session.remove(session.id)
+      },
+    })
+  })
+
+  test("writes one JSON object per line", async () => {
+    await using tmp = await tmpdir({ git: true })
+    await Instance.provide({
+      directory: tmp.path,
+      fn: async () => {
+        const session = await seed()
+        const lines = (await SessionExport.render({ sessionID: session.id, format: "jsonl" }))
+          .split("\n")
+          .map((line) => JSON.parse(line))
+        expect(lines.map((x) => x.type)).toEqual(["session", "message", "message"])
+        expect(lines[0].info.id).toBe(session.id)
+        expect(lines[2].parts).toHaveLength(2)
+        await Session.remove(session.id)
+      },
+    })
+  })
+})
@@ -0,0 +1,64 @@
+import { describe, expect, test } from "bun:test"
+import { Session } from "../../src/session"
+import { SessionPrompt } from "../../src/session/prompt"
+import { Identifier } from "../../src/id/id"
+import { Instance } from "../../src/project/instance"
+import { Storage } from "../../src/storage/storage"
+import { Log } from "../../src/util/log"
+import { tmpdir } from "../fixture/fixture"
+
+Log.init({ print: false })
+
+async function enqueue(sessionID: string, text: string) {
+  const info: SessionPrompt.Queued = {
+    id: Identifier.ascending("queue"),
+    sessionID,
+    parts: [{ type: "text", text }],
+    time: { created: Date.now() },
+  }
+  await Storage.write(["queue", sessionID, info.id], info)
+  return info
+}
+
+describe("session.queue", () => {
+  test("lists, edits and removes queued prompts in order", async () => {
+    await using tmp = await tmpdir({ git: true })
+    await Instance.provide({
+      directory: tmp.path,
+      fn: async () => {
+        const session = await Session.create({})
+        const first = await enqueue(session.id, "first")
+        const second = await enqueue(session.id, "second")
+
+        expect((await SessionPrompt.queued(session.id)).map((x) => x.id)).toEqual([first.id, second.id])
+
+        const updated = await SessionPrompt.updateQueued({
+          sessionID: session.id,
+          queueID: first.id,
+          parts: [{ type: "text", text: "first, edited" }],
+        })
+        expect(updated.parts).toEqual([{ type: "text", text: "first, edited" }])
+
+        await SessionPrompt.removeQueued({ sessionID: session.id, queueID: second.id })
+        const remaining = await SessionPrompt.queued(session.id)
+        expect(remaining.map((x) => x.id)).toEqual([first.id])
+        expect(remaining[0].parts).toEqual([{ type: "text", text: "first, edited" }])
+
+        await expect(SessionPrompt.removeQueued({ sessionID: session.id, queueID: second.id })).rejects.toThrow()
+      },
+    })
+  })
+
+  test("removing a session drops its queue", async () => {
+    await using tmp = await tmpdir({ git: true })
+    await Instance.provide({
+      directory: tmp.path,
+      fn: async () => {
+        const session = await Session.create({})
+        await enqueue(session.id, "pending")
+        await Session.remove(session.id)
+        expect(await SessionPrompt.queued(session.id)).toEqual([])
+      },
+    })
+  })
+})
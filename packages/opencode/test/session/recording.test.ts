@@ -0,0 +1,133 @@
+import { describe, expect, test } from "bun:test"
+import path from "path"
+import { simulateReadableStream, streamText, wrapLanguageModel } from "ai"
+import type { LanguageModelV2, LanguageModelV2StreamPart } from "@ai-sdk/provider"
+import { Session } from "../../src/session"
+import { SessionPrompt } from "../../src/session/prompt"
+import { Recording } from "../../src/session/recording"
+import { Instance } from "../../src/project/instance"
+import { Log } from "../../src/util/log"
+import { tmpdir } from "../fixture/fixture"
+
+Log.init({ print: false })
+
+const usage = { inputTokens: 10, outputTokens: 5, totalTokens: 15 }
+
+function text(value: string): LanguageModelV2StreamPart[] {
+  return [
+    { type: "stream-start", warnings: [] },
+    { type: "text-start", id: "1" },
+    { type: "text-delta", id: "1", delta: value },
+    { type: "text-end", id: "1" },
+    { type: "finish", finishReason: "stop", usage },
+  ]
+}
+
+async function step(directory: string, agent: string, index: number, parts: LanguageModelV2StreamPart[]) {
+  await Recording.write(Recording.file(directory, agent, index), { agent, model: "recording", parts })
+}
+
+describe("session.recording", () => {
+  test("records the raw stream parts of a model call", async () => {
+    await using tmp = await tmpdir()
+    const fake: LanguageModelV2 = {
+      specificationVersion: "v2",
+      provider: "fake",
+      modelId: "fake-model",
+      supportedUrls: {},
+      async doGenerate() {
+        throw new Error("not implemented")
+      },
+      async doStream() {
+        return { stream: simulateReadableStream({ chunks: text("hello") }) }
+      },
+    }
+    await Instance.provide({
+      directory: tmp.path,
+      fn: async () => {
+        const directory = path.join(tmp.path, "recording")
+        const result = streamText({
+          model: wrapLanguageModel({
+            model: fake,
+            middleware: Recording.middleware({ agent: "build", directory }),
+          }),
+          prompt: "hi",
+        })
+        expect(await result.text).toBe("hello")
+
+        const recorded = await Recording.read(Recording.file(directory, "build", 0))
+        expect(recorded.model).toBe("fake-model")
+        expect(recorded.parts).toEqual(text("hello"))
+      },
+    })
+  })
+
+  test("replays a tool loop through the session processor", async () => {
+    await using tmp = await tmpdir({
+      git: true,
+      init: async (dir) => {
+        await Bun.write(path.join(dir, "hello.txt"), "hello from disk")
+        await Bun.write(
+          path.join(dir, "opencode.json"),
+          JSON.stringify({
+            $schema: "https://opencode.ai/config.json",
+            provider: {
+              playback: {
+                options: {
+                  directory: "recording",
+                },
+              },
+            },
+          }),
+        )
+        const directory = path.join(dir, "recording")
+        await step(directory, "build", 0, [
+          { type: "stream-start", warnings: [] },
+          { type: "tool-input-start", id: "call_1", toolName: "read" },
+          { type: "tool-input-delta", id: "call_1", delta: JSON.stringify({ filePath: path.join(dir, "hello.txt") }) },
+          { type: "tool-input-end", id: "call_1" },
+          {
+            type: "tool-call",
+            toolCallId: "call_1",
+            toolName: "read",
+            input: JSON.stringify({ filePath: path.join(dir, "hello.txt") }),
+          },
+          { type: "finish", finishReason: "tool-calls", usage },
+        ])
+        await step(directory, "build", 1, text("The file says hello."))
+        // title generation runs next to the loop
+        for (const index of [0, 1, 2, 3]) await step(directory, "title", index, text("Read hello.txt"))
+      },
+    })
+    await Instance.provide({
+      directory: tmp.path,
+      fn: async () => {
+        const session = await Session.create({})
+        const result = await SessionPrompt.prompt({
+          sessionID: session.id,
+          model: { providerID: "playback", modelID: "recording" },
+          parts: [{ type: "text", text: "What does hello.txt say?" }],
+        })
+        expect(result.info.role).toBe("assistant")
+        expect(result.parts.find((part) => part.type === "text")).toMatchObject({ text: "The file says hello." })
+
+        const messages = await Session.messages({ sessionID: session.id })
+        const tool = messages.flatMap((msg) => msg.parts).find((part) => part.type === "tool")
+        expect(tool).toMatchObject({ tool: "read", state: { status: "completed" } })
+        if (tool?.type === "tool" && tool.state.status === "completed")
+          expect(tool.state.output).toContain("hello from disk")
+      },
+    })
+  })
+
+  test("fails the call when the recording has no more steps", async () => {
+    await using tmp = await tmpdir()
+    await Instance.provide({
+      directory: tmp.path,
+      fn: async () => {
+        const model = Recording.createPlayback({ directory: "empty" }).languageModel("recording")
+        await expect(model.doStream({ prompt: [] })).rejects.toBeInstanceOf(Recording.MissingError)
+      },
+    })
+  })
+})
@@ -59,3 +59,25 @@ describe("session.retry.delay", () => {
     expect(SessionRetry.delay(1, longError)).toBe(700000)
   })
 })
+
+describe("session.retry.fallback", () => {
+  function error(message: string, statusCode?: number) {
+    return new MessageV2.APIError({ message, statusCode, isRetryable: false }).toObject() as MessageV2.APIError
+  }
+
+  test("falls back on rate limits, overload and context length errors", () => {
+    expect(SessionRetry.fallback(error("Too Many Requests", 429))).toBe("Rate Limited")
+    expect(SessionRetry.fallback(error("Overloaded", 529))).toBe("Provider is overloaded")
+    expect(SessionRetry.fallback(error("prompt is too long: 210000 tokens > 200000 maximum", 400))).toBe(
+      "Context length exceeded",
+    )
+    expect(SessionRetry.fallback(error("This model's maximum context length is 128000 tokens", 400))).toBe(
+      "Context length exceeded",
+    )
+  })
+
+  test("does not fall back on other errors", () => {
+    expect(SessionRetry.fallback(error("Invalid API key", 401))).toBeUndefined()
+    expect(SessionRetry.fallback(new MessageV2.OutputLengthError({}).toObject())).toBeUndefined()
+  })
+})
@@ -0,0 +1,91 @@
+import { describe, expect, test } from "bun:test"
+import path from "path"
+import { Session } from "../../src/session"
+import { SessionSearch } from "../../src/session/search"
+import { Identifier } from "../../src/id/id"
+import { Instance } from "../../src/project/instance"
+import { Log } from "../../src/util/log"
+import { tmpdir } from "../fixture/fixture"
+
+Log.init({ print: false })
+
+async function seed(title: string, text: string, file: string) {
+  const session = await Session.create({ title })
+  const user = await Session.updateMessage({
+    id: Identifier.ascending("message"),
+    role: "user",
+    sessionID: session.id,
+    agent: "build",
+    model: { providerID: "test", modelID: "test" },
+    time: { created: Date.now() },
+  })
+  await Session.updatePart({
+    id: Identifier.ascending("part"),
+    messageID: user.id,
+    sessionID: session.id,
+    type: "text",
+    text,
+  })
+  await Session.updatePart({
+    id: Identifier.ascending("part"),
+    messageID: user.id,
+    sessionID: session.id,
+    type: "tool",
+    tool: "read",
+    callID: "call_1",
+    state: {
+      status: "completed",
+      input: { filePath: path.join(Instance.directory, file) },
+      output: "",
+      title: file,
+      metadata: {},
+      time: { start: Date.now(), end: Date.now() },
+    },
+  })
+  return session
+}
+
+describe("session.search", () => {
+  test("matches message text, files and titles", async () => {
+    await using tmp = await tmpdir({ git: true })
+    await Instance.provide({
+      directory: tmp.path,
+      fn: async () => {
+        const projectID = Instance.project.id
+        const first = await seed("Refactor parser", "the zanzibar tokenizer drops trailing commas", "src/parser.ts")
+        const second = await seed("Update docs", "mention zanzibar in the readme", "README.md")
+
+        const text = await SessionSearch.search({ query: "zanzibar", projectID })
+        expect(text.map((x) => x.session.id).toSorted()).toEqual([first.id, second.id].toSorted())
+        expect(text[0].snippet).toContain("zanzibar")
+
+        const files = await SessionSearch.search({ query: "parser.ts", projectID })
+        expect(files.map((x) => x.session.id)).toEqual([first.id])
+        expect(files[0].files).toEqual(["src/parser.ts"])
+
+        const title = await SessionSearch.search({ query: "docs zanzibar", projectID })
+        expect(title.map((x) => x.session.id)).toEqual([second.id])
+
+        expect(await SessionSearch.search({ query: "zanzibar missing", projectID })).toEqual([])
+      },
+    })
+  })
+
+  test("reindexes sessions that changed", async () => {
+    await using tmp = await tmpdir({ git: true })
+    await Instance.provide({
+      directory: tmp.path,
+      fn: async () => {
+        const projectID = Instance.project.id
+        const session = await seed("Initial title", "nothing relevant", "src/index.ts")
+        expect(await SessionSearch.search({ query: "quokka", projectID })).toEqual([])
+
+        await Session.update(session.id, (draft) => {
+          draft.title = "Quokka migration"
+        })
+        const result = await SessionSearch.search({ query: "quokka", projectID })
+        expect(result.map((x) => x.session.id)).toEqual([session.id])
+      },
+    })
+  })
+})
@@ -0,0 +1,127 @@
+import { describe, expect, test } from "bun:test"
+import path from "path"
+import { Session } from "../../src/session"
+import { SessionSubagent } from "../../src/session/subagent"
+import { MessageV2 } from "../../src/session/message-v2"
+import { Identifier } from "../../src/id/id"
+import { Instance } from "../../src/project/instance"
+import { Log } from "../../src/util/log"
+import { tmpdir } from "../fixture/fixture"
+
+Log.init({ print: false })
+
+async function assistant(sessionID: string, cost: number) {
+  const info: MessageV2.Assistant = {
+    id: Identifier.ascending("message"),
+    sessionID,
+    role: "assistant",
+    time: { created: Date.now(), completed: Date.now() },
+    parentID: Identifier.ascending("message"),
+    modelID: "test",
+    providerID: "test",
+    mode: "general",
+    agent: "general",
+    path: { cwd: "/", root: "/" },
+    cost,
+    tokens: { input: 100, output: 10, reasoning: 0, cache: { read: 0, write: 0 } },
+  }
+  await Session.updateMessage(info)
+  return { info, parts: [] } as MessageV2.WithParts
+}
+
+function deferred<T>() {
+  let resolve!: (value: T) => void
+  const promise = new Promise<T>((r) => (resolve = r))
+  return { promise, resolve }
+}
+
+const config = (dir: string) =>
+  Bun.write(
+    path.join(dir, "opencode.json"),
+    JSON.stringify({
+      $schema: "https://opencode.ai/config.json",
+      subagent: { concurrency: 1 },
+    }),
+  )
+
+describe("session.subagent", () => {
+  test("queues subagents beyond the concurrency limit", async () => {
+    await using tmp = await tmpdir({ git: true, init: config })
+    await Instance.provide({
+      directory: tmp.path,
+      fn: async () => {
+        const parent = await Session.create({})
+        const first = await Session.create({ parentID: parent.id })
+        const second = await Session.create({ parentID: parent.id })
+        const gate = deferred<void>()
+        const started: string[] = []
+
+        const a = SessionSubagent.run(
+          { parentID: parent.id, sessionID: first.id, agent: "general", description: "first" },
+          async () => {
+            started.push(first.id)
+            await gate.promise
+            return assistant(first.id, 0.5)
+          },
+        )
+        const b = SessionSubagent.run(
+          { parentID: parent.id, sessionID: second.id, agent: "general", description: "second" },
+          async () => {
+            started.push(second.id)
+            return assistant(second.id, 0.25)
+          },
+        )
+        await Bun.sleep(10)
+        expect(started).toEqual([first.id])
+        expect(SessionSubagent.list(parent.id).map((x) => x.status)).toEqual(["running", "queued"])
+
+        gate.resolve()
+        await Promise.all([a, b])
+        expect(started).toEqual([first.id, second.id])
+        expect(SessionSubagent.list(parent.id).map((x) => x.status)).toEqual(["completed", "completed"])
+
+        const rolled = await Session.get(parent.id)
+        expect(rolled.rollup?.cost).toBeCloseTo(0.75)
+        expect(rolled.rollup?.tokens.input).toBe(200)
+      },
+    })
+  })
+
+  test("cancels a queued subagent without touching the others", async () => {
+    await using tmp = await tmpdir({ git: true, init: config })
+    await Instance.provide({
+      directory: tmp.path,
+      fn: async () => {
+        const parent = await Session.create({})
+        const first = await Session.create({ parentID: parent.id })
+        const second = await Session.create({ parentID: parent.id })
+        const gate = deferred<void>()
+        let ran = false
+
+        const a = SessionSubagent.run(
+          { parentID: parent.id, sessionID: first.id, agent: "general", description: "first" },
+          async () => {
+            await gate.promise
+            return assistant(first.id, 0)
+          },
+        )
+        const b = SessionSubagent.run(
+          { parentID: parent.id, sessionID: second.id, agent: "general", description: "second" },
+          async () => {
+            ran = true
+            return assistant(second.id, 0)
+          },
+        )
+        await Bun.sleep(10)
+        expect(await SessionSubagent.cancel(second.id)).toBe(true)
+        expect(await b).toBeUndefined()
+
+        gate.resolve()
+        await a
+        expect(ran).toBe(false)
+        expect(SessionSubagent.list(parent.id).map((x) => x.status)).toEqual(["completed", "cancelled"])
+        expect(await SessionSubagent.cancel(second.id)).toBe(false)
+      },
+    })
+  })
+})
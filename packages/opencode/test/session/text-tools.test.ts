@@ -0,0 +1,163 @@
+import { describe, expect, test } from "bun:test"
+import path from "path"
+import z from "zod"
+import { simulateReadableStream, stepCountIs, streamText, tool, wrapLanguageModel } from "ai"
+import type { LanguageModelV2, LanguageModelV2CallOptions, LanguageModelV2StreamPart } from "@ai-sdk/provider"
+import { Session } from "../../src/session"
+import { SessionPrompt } from "../../src/session/prompt"
+import { Recording } from "../../src/session/recording"
+import { TextTools } from "../../src/session/text-tools"
+import { Instance } from "../../src/project/instance"
+import { Log } from "../../src/util/log"
+import { tmpdir } from "../fixture/fixture"
+
+Log.init({ print: false })
+
+const usage = { inputTokens: 10, outputTokens: 5, totalTokens: 15 }
+
+function text(deltas: string[]): LanguageModelV2StreamPart[] {
+  return [
+    { type: "stream-start", warnings: [] },
+    { type: "text-start", id: "1" },
+    ...deltas.map((delta) => ({ type: "text-delta" as const, id: "1", delta })),
+    { type: "text-end", id: "1" },
+    { type: "finish", finishReason: "stop", usage },
+  ]
+}
+
+function fake(steps: LanguageModelV2StreamPart[][], calls: LanguageModelV2CallOptions[]): LanguageModelV2 {
+  return {
+    specificationVersion: "v2",
+    provider: "fake",
+    modelId: "fake-model",
+    supportedUrls: {},
+    async doGenerate() {
+      throw new Error("not implemented")
+    },
+    async doStream(options) {
+      calls.push(options)
+      return { stream: simulateReadableStream({ chunks: steps[calls.length - 1] }) }
+    },
+  }
+}
+
+describe("session.text-tools", () => {
+  test("runs tool calls written as text and replays them as text", async () => {
+    const calls: LanguageModelV2CallOptions[] = []
+    const model = fake(
+      [
+        text([
+          "Let me check.\n<tool",
+          '_call>\n{"name": "echo", "argu',
+          'ments": {"text": "hi"}}\n</tool_call>',
+          '\n<tool_call>{"name": "echo", "arguments": {"text": "yo"}}',
+        ]),
+        text(["Done, a < b"]),
+      ],
+      calls,
+    )
+    const result = streamText({
+      model: wrapLanguageModel({ model, middleware: TextTools.middleware() }),
+      system: "You are a test",
+      prompt: "hi",
+      tools: {
+        echo: tool({
+          description: "Echo the text",
+          inputSchema: z.object({ text: z.string() }),
+          execute: async ({ text }) => `echo ${text}`,
+        }),
+      },
+      stopWhen: stepCountIs(3),
+    })
+    expect(await result.text).toBe("Done, a < b")
+
+    const steps = await result.steps
+    expect(steps[0].finishReason).toBe("tool-calls")
+    expect(steps[0].text).toBe("Let me check.\n")
+    expect(steps[0].toolResults.map((x) => x.output)).toEqual(["echo hi", "echo yo"])
+
+    expect(calls[0].tools).toBeUndefined()
+    expect(calls[0].prompt[1]).toMatchObject({ role: "system" })
+    expect(calls[0].prompt[1].content).toContain('<tool name="echo">')
+    const replay = calls[1].prompt.slice(2)
+    expect(replay.map((msg) => msg.role)).toEqual(["user", "assistant", "user"])
+    expect(JSON.stringify(replay[1].content)).toContain("<tool_call>")
+    expect(replay[2].content).toEqual([
+      { type: "text", text: '<tool_result name="echo">\necho hi\n</tool_result>' },
+      { type: "text", text: '<tool_result name="echo">\necho yo\n</tool_result>' },
+    ])
+  })
+
+  test("reports malformed tool calls through the invalid tool", () => {
+    expect(TextTools.parse('{"name": "read", "arguments": {"filePath": "a.ts"}}')).toEqual({
+      toolName: "read",
+      input: '{"filePath":"a.ts"}',
+    })
+    const invalid = TextTools.parse("read a.ts")
+    expect(invalid.toolName).toBe("invalid")
+    expect(JSON.parse(invalid.input).error).toContain("read a.ts")
+  })
+
+  test("saves text tool calls as tool parts in the session", async () => {
+    await using tmp = await tmpdir({
+      git: true,
+      init: async (dir) => {
+        await Bun.write(path.join(dir, "hello.txt"), "hello from disk")
+        await Bun.write(
+          path.join(dir, "opencode.json"),
+          JSON.stringify({
+            $schema: "https://opencode.ai/config.json",
+            provider: {
+              playback: {
+                options: {
+                  directory: "recording",
+                },
+                models: {
+                  recording: {
+                    tool_call: false,
+                  },
+                },
+              },
+            },
+          }),
+        )
+        // the recording holds what the model wrote, before the tool calls are parsed out of the text
+        const directory = path.join(dir, "recording")
+        const call = JSON.stringify({ name: "read", arguments: { filePath: path.join(dir, "hello.txt") } })
+        const steps = [text([`<tool_call>\n${call}\n</tool_call>`]), text(["The file says hello."])]
+        for (const [index, parts] of steps.entries())
+          await Recording.write(Recording.file(directory, "build", index), {
+            agent: "build",
+            model: "recording",
+            parts,
+          })
+        // title generation runs next to the loop
+        for (const index of [0, 1, 2, 3])
+          await Recording.write(Recording.file(directory, "title", index), {
+            agent: "title",
+            model: "recording",
+            parts: text(["Read hello.txt"]),
+          })
+      },
+    })
+    await Instance.provide({
+      directory: tmp.path,
+      fn: async () => {
+        const session = await Session.create({})
+        const result = await SessionPrompt.prompt({
+          sessionID: session.id,
+          model: { providerID: "playback", modelID: "recording" },
+          parts: [{ type: "text", text: "What does hello.txt say?" }],
+        })
+        expect(result.parts.find((part) => part.type === "text")).toMatchObject({ text: "The file says hello." })
+
+        const messages = await Session.messages({ sessionID: session.id })
+        const tools = messages.flatMap((msg) => msg.parts).filter((part) => part.type === "tool")
+        expect(tools).toHaveLength(1)
+        expect(tools[0]).toMatchObject({ tool: "read", state: { status: "completed" } })
+        if (tools[0].type === "tool" && tools[0].state.status === "completed")
+          expect(tools[0].state.output).toContain("hello from disk")
+      },
+    })
+  })
+})
@@ -0,0 +1,167 @@
+import { describe, expect, test } from "bun:test"
+import path from "path"
+import { SessionVerify } from "../../src/session/verify"
+import { Instance } from "../../src/project/instance"
+import { Log } from "../../src/util/log"
+import { tmpdir } from "../fixture/fixture"
+
+Log.init({ print: false })
+
+async function withVerify(verify: Record<string, unknown>, fn: (dir: string) => Promise<void>) {
+  await using tmp = await tmpdir({
+    git: true,
+    init: async (dir) => {
+      await Bun.write(
+        `${dir}/opencode.json`,
+        JSON.stringify({
+          $schema: "https://opencode.ai/config.json",
+          verify,
+        }),
+      )
+    },
+  })
+  await Instance.provide({ directory: tmp.path, fn: () => fn(tmp.path) })
+}
+
+describe("session.verify", () => {
+  test("runs the checks matching the changed files and reports failures", async () => {
+    await withVerify(
+      {
+        check: {
+          lint: { command: ["sh", "-c", 'echo "bad: $1" >&2; exit 2', "lint", "$FILES"], files: ["src/**/*.ts"] },
+          docs: { command: ["false"], files: ["*.md"] },
+          test: { command: ["true"] },
+        },
+        max_iterations: 2,
+      },
+      async (dir) => {
+        const info = await SessionVerify.run({
+          sessionID: "ses_test",
+          messageID: "msg_test",
+          files: [path.join(dir, "src/a.ts"), path.join(dir, "package.json")],
+          iteration: 0,
+          abort: new AbortController().signal,
+        })
+        expect(info?.status).toBe("failed")
+        expect(info?.max).toBe(2)
+        expect(info?.checks.map((x) => [x.name, x.status])).toEqual([
+          ["lint", "failed"],
+          ["test", "passed"],
+        ])
+        expect(info?.checks[0].command).toEqual(["sh", "-c", 'echo "bad: $1" >&2; exit 2', "lint", "src/a.ts"])
+        expect(SessionVerify.get("ses_test")).toEqual(info!)
+
+        SessionVerify.retry(info!)
+        const reminder = SessionVerify.format(info!)
+        expect(reminder).toContain("attempt 1 of 2")
+        expect(reminder).toContain('<verify_failure check="lint"')
+        expect(reminder).toContain('exit_code="2"')
+        expect(reminder).toContain("bad: src/a.ts")
+        expect(reminder).not.toContain('check="test"')
+      },
+    )
+  })
+
+  test("skips when no check matches and stops checks that time out", async () => {
+    await withVerify(
+      {
+        check: {
+          slow: { command: ["sleep", "5"], files: ["*.ts"], timeout: 100 },
+        },
+      },
+      async (dir) => {
+        const skipped = await SessionVerify.run({
+          sessionID: "ses_test",
+          messageID: "msg_test",
+          files: [path.join(dir, "README.md")],
+          iteration: 0,
+          abort: new AbortController().signal,
+        })
+        expect(skipped).toBeUndefined()
+
+        const info = await SessionVerify.run({
+          sessionID: "ses_test",
+          messageID: "msg_test",
+          files: [path.join(dir, "a.ts")],
+          iteration: 0,
+          abort: new AbortController().signal,
+        })
+        expect(info?.checks[0].status).toBe("timeout")
+        expect(info?.checks[0].output).toBe("timed out after 100ms")
+        expect(info?.max).toBe(3)
+      },
+    )
+  })
+
+  test("kills the running check when aborted", async () => {
+    await withVerify(
+      {
+        check: {
+          slow: { command: ["sleep", "30"] },
+          next: { command: ["true"] },
+        },
+      },
+      async (dir) => {
+        const abort = new AbortController()
+        setTimeout(() => abort.abort(), 100)
+        const start = Date.now()
+        const info = await SessionVerify.run({
+          sessionID: "ses_test",
+          messageID: "msg_test",
+          files: [path.join(dir, "a.ts")],
+          iteration: 0,
+          abort: abort.signal,
+        })
+        expect(Date.now() - start).toBeLessThan(5_000)
+        expect(info?.status).toBe("failed")
+        expect(info?.checks.map((x) => [x.name, x.status, x.output])).toEqual([
+          ["slow", "failed", "aborted"],
+          ["next", "failed", "aborted"],
+        ])
+      },
+    )
+  })
+  test("stops the commands a check started when aborted or timed out", async () => {
+    await withVerify(
+      {
+        check: {
+          // sleep runs as a child of sh and holds the output pipes
+          aborted: { command: ["sh", "-c", "sleep 30; true"] },
+        },
+      },
+      async (dir) => {
+        const abort = new AbortController()
+        setTimeout(() => abort.abort(), 100)
+        const start = Date.now()
+        const info = await SessionVerify.run({
+          sessionID: "ses_test",
+          messageID: "msg_test",
+          files: [path.join(dir, "a.ts")],
+          iteration: 0,
+          abort: abort.signal,
+        })
+        expect(Date.now() - start).toBeLessThan(5_000)
+        expect(info?.checks[0].status).toBe("failed")
+      },
+    )
+    await withVerify(
+      {
+        check: {
+          slow: { command: ["sh", "-c", "sleep 30; true"], timeout: 100 },
+        },
+      },
+      async (dir) => {
+        const start = Date.now()
+        const info = await SessionVerify.run({
+          sessionID: "ses_test",
+          messageID: "msg_test",
+          files: [path.join(dir, "a.ts")],
+          iteration: 0,
+          abort: new AbortController().signal,
+        })
+        expect(Date.now() - start).toBeLessThan(5_000)
+        expect(info?.checks[0].status).toBe("timeout")
+      },
+    )
+  }, 15_000)
+})
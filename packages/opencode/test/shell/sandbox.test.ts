@@ -0,0 +1,40 @@
+import { describe, expect, test } from "bun:test"
+import { Sandbox } from "../../src/shell/sandbox"
+
+describe("Sandbox.args", () => {
+  test("binds writable paths and keeps the rest read-only", () => {
+    const args = Sandbox.args({ writable: ["/repo", "/tmp"], network: true, cwd: "/repo/src" })
+    expect(args.slice(0, 3)).toEqual(["--ro-bind", "/", "/"])
+    expect(args.join(" ")).toContain("--bind-try /repo /repo")
+    expect(args.join(" ")).toContain("--bind-try /tmp /tmp")
+    expect(args).not.toContain("--unshare-net")
+    expect(args.slice(-2)).toEqual(["--chdir", "/repo/src"])
+  })
+
+  test("unshares network when disabled", () => {
+    const args = Sandbox.args({ writable: [], network: false, cwd: "/" })
+    expect(args).toContain("--unshare-net")
+  })
+})
+
+describe("Sandbox.detect", () => {
+  test("reports blocked writes with the offending path", () => {
+    const violation = Sandbox.detect({
+      output: "touch: cannot touch '/etc/hosts': Read-only file system",
+      network: true,
+    })
+    expect(violation).toEqual({ kind: "write", path: "/etc/hosts" })
+  })
+
+  test("reports network failures only when network is blocked", () => {
+    const output = "curl: (6) Could not resolve host: example.com"
+    expect(Sandbox.detect({ output, network: false })).toEqual({ kind: "network" })
+    expect(Sandbox.detect({ output, network: true })).toBeUndefined()
+  })
+
+  test("ignores ordinary failures", () => {
+    expect(Sandbox.detect({ output: "ls: cannot access 'nope': No such file or directory", network: false })).toBe(
+      undefined,
+    )
+  })
+})
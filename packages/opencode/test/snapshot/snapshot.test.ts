@@ -1,6 +1,7 @@
-import { test, expect } from "bun:test"
+import { test, expect, spyOn } from "bun:test"
 import { $ } from "bun"
 import { Snapshot } from "../../src/snapshot"
+import { SnapshotRetention } from "../../src/snapshot/retention"
 import { Instance } from "../../src/project/instance"
 import { tmpdir } from "../fixture/fixture"
 
@@ -937,3 +938,91 @@ test("diffFull with whitespace changes", async () => {
     },
   })
 })
+
+test("leaves excluded and large files out of snapshots", async () => {
+  await using tmp = await bootstrap()
+  await Bun.write(`${tmp.path}/opencode.json`, JSON.stringify({ snapshot: { exclude: ["*.bin"], max_file_size: 100 } }))
+  await Bun.write(`${tmp.path}/small.txt`, "small")
+  await Bun.write(`${tmp.path}/asset.bin`, "binary")
+  await Bun.write(`${tmp.path}/large.txt`, "x".repeat(200))
+  await Instance.provide({
+    directory: tmp.path,
+    fn: async () => {
+      const before = await Snapshot.track()
+      expect(before).toBeTruthy()
+
+      await Bun.write(`${tmp.path}/small.txt`, "changed")
+      await Bun.write(`${tmp.path}/asset.bin`, "changed")
+      await Bun.write(`${tmp.path}/large.txt`, "y".repeat(200))
+
+      const files = (await Snapshot.patch(before!)).files
+      expect(files).toContain(`${tmp.path}/small.txt`)
+      expect(files).not.toContain(`${tmp.path}/asset.bin`)
+      expect(files).not.toContain(`${tmp.path}/large.txt`)
+
+      // shrinking a file brings it back
+      await Bun.write(`${tmp.path}/large.txt`, "small again")
+      const after = await Snapshot.track()
+      const diffs = await Snapshot.diffFull(before!, after!)
+      expect(diffs.map((x) => x.file).toSorted()).toEqual(["large.txt", "small.txt"])
+    },
+  })
+})
+
+test("leaves out files that grow past max_file_size after they were tracked", async () => {
+  await using tmp = await bootstrap()
+  await Bun.write(`${tmp.path}/opencode.json`, JSON.stringify({ snapshot: { max_file_size: 100 } }))
+  await Bun.write(`${tmp.path}/growing.txt`, "small")
+  await Instance.provide({
+    directory: tmp.path,
+    fn: async () => {
+      const before = await Snapshot.track()
+      await Bun.write(`${tmp.path}/growing.txt`, "x".repeat(200))
+      await Bun.write(`${tmp.path}/added.txt`, "y".repeat(200))
+      const after = await Snapshot.track()
+      const diffs = await Snapshot.diffFull(before!, after!)
+      expect(diffs.map((x) => x.file)).toEqual(["growing.txt"])
+      expect(diffs[0].after).toBe("")
+    },
+  })
+})
+
+test("gc keeps the snapshots it is asked to keep", async () => {
+  await using tmp = await bootstrap()
+  await Instance.provide({
+    directory: tmp.path,
+    fn: async () => {
+      const before = await Snapshot.track()
+      await Bun.write(`${tmp.path}/new.txt`, "NEW")
+      const after = await Snapshot.track()
+
+      const result = await Snapshot.gc([before!, after!, "0000000000000000000000000000000000000000"])
+      expect(result.before).toBeGreaterThan(0)
+      expect(result.after).toBeGreaterThan(0)
+
+      const diffs = await Snapshot.diffFull(before!, after!)
+      expect(diffs).toMatchObject([{ file: "new.txt", after: "NEW" }])
+    },
+  })
+})
+
+test("scheduled collections run one at a time", async () => {
+  await using tmp = await bootstrap()
+  await Instance.provide({
+    directory: tmp.path,
+    fn: async () => {
+      const hash = await Snapshot.track()
+      const gc = spyOn(Snapshot, "gc")
+      try {
+        const runs = [SnapshotRetention.schedule(), SnapshotRetention.schedule(), SnapshotRetention.schedule()]
+        // tracking while a collection runs
+        const tracked = await Snapshot.track()
+        await Promise.all(runs)
+        expect(gc).toHaveBeenCalledTimes(2)
+        expect(tracked).toBe(hash)
+      } finally {
+        gc.mockRestore()
+      }
+    },
+  })
+})
@@ -0,0 +1,82 @@
+import { describe, expect, test } from "bun:test"
+import path from "path"
+import { StorageSqlite } from "../../src/storage/sqlite"
+import { Log } from "../../src/util/log"
+import { tmpdir } from "../fixture/fixture"
+
+Log.init({ print: false })
+
+function session(id: string, projectID: string, updated: number) {
+  return { id, projectID, time: { created: updated, updated } }
+}
+
+describe("storage.sqlite", () => {
+  test("reads, writes, updates and lists keys", async () => {
+    await using tmp = await tmpdir()
+    const driver = StorageSqlite.open(path.join(tmp.path, "storage.db"))
+
+    await driver.write(["session", "prj_a", "ses_1"], session("ses_1", "prj_a", 1))
+    await driver.write(["session", "prj_a", "ses_2"], session("ses_2", "prj_a", 2))
+    await driver.write(["session", "prj_ab", "ses_3"], session("ses_3", "prj_ab", 3))
+    expect(await driver.read(["session", "prj_a", "ses_1"])).toEqual(session("ses_1", "prj_a", 1))
+    expect(await driver.read(["session", "prj_a", "missing"])).toBeUndefined()
+
+    expect(await driver.list(["session", "prj_a"])).toEqual([
+      ["session", "prj_a", "ses_1"],
+      ["session", "prj_a", "ses_2"],
+    ])
+
+    const updated = await driver.update(["session", "prj_a", "ses_1"], (draft) => {
+      draft.time.updated = 10
+    })
+    expect(updated).toEqual({ ...session("ses_1", "prj_a", 1), time: { created: 1, updated: 10 } })
+    expect(await driver.update(["session", "prj_a", "missing"], () => {})).toBeUndefined()
+
+    await driver.remove(["session", "prj_a", "ses_2"])
+    expect(await driver.list(["session", "prj_a"])).toEqual([["session", "prj_a", "ses_1"]])
+  })
+
+  test("queries sessions by project and time and messages by session", async () => {
+    await using tmp = await tmpdir()
+    const driver = StorageSqlite.open(path.join(tmp.path, "storage.db"))
+
+    await driver.write(["session", "prj_a", "ses_1"], session("ses_1", "prj_a", 1))
+    await driver.write(["session", "prj_a", "ses_2"], session("ses_2", "prj_a", 5))
+    await driver.write(["session", "prj_b", "ses_3"], session("ses_3", "prj_b", 3))
+    await driver.write(["message", "ses_1", "msg_2"], { id: "msg_2", time: { created: 2 } })
+    await driver.write(["message", "ses_1", "msg_1"], { id: "msg_1", time: { created: 1 } })
+    await driver.write(["message", "ses_2", "msg_3"], { id: "msg_3", time: { created: 3 } })
+
+    const ids = (items: unknown[]) => items.map((x: any) => x.id)
+    expect(ids(await driver.sessions({}))).toEqual(["ses_2", "ses_3", "ses_1"])
+    expect(ids(await driver.sessions({ projectID: "prj_a" }))).toEqual(["ses_2", "ses_1"])
+    expect(ids(await driver.sessions({ since: 3 }))).toEqual(["ses_2", "ses_3"])
+    expect(ids(await driver.sessions({ limit: 1 }))).toEqual(["ses_2"])
+    expect(ids(await driver.messages("ses_1"))).toEqual(["msg_1", "msg_2"])
+  })
+
+  test("imports the json tree once", async () => {
+    await using tmp = await tmpdir({
+      init: async (dir) => {
+        await Bun.write(
+          path.join(dir, "storage", "session", "prj_a", "ses_1.json"),
+          JSON.stringify(session("ses_1", "prj_a", 1)),
+        )
+        await Bun.write(
+          path.join(dir, "storage", "message", "ses_1", "msg_1.json"),
+          JSON.stringify({ id: "msg_1", time: { created: 1 } }),
+        )
+        await Bun.write(path.join(dir, "storage", "broken.json"), "{")
+      },
+    })
+    const driver = StorageSqlite.open(path.join(tmp.path, "storage.db"))
+    await StorageSqlite.migrate(driver, path.join(tmp.path, "storage"))
+    expect(await driver.read(["session", "prj_a", "ses_1"])).toEqual(session("ses_1", "prj_a", 1))
+    expect((await driver.messages("ses_1")).length).toBe(1)
+
+    await driver.remove(["session", "prj_a", "ses_1"])
+    await StorageSqlite.migrate(driver, path.join(tmp.path, "storage"))
+    expect(await driver.read(["session", "prj_a", "ses_1"])).toBeUndefined()
+    expect(await Bun.file(path.join(tmp.path, "storage", "session", "prj_a", "ses_1.json")).exists()).toBe(true)
+  })
+})
@@ -4,6 +4,8 @@ import { PatchTool } from "../../src/tool/patch"
 import { Instance } from "../../src/project/instance"
 import { tmpdir } from "../fixture/fixture"
 import { Permission } from "../../src/permission"
+import { Review } from "../../src/review"
+import { FileTime } from "../../src/file/time"
 import * as fs from "fs/promises"
 
 const ctx = {
@@ -256,4 +258,62 @@ describe("tool.patch", () => {
       },
     })
   })
+
+  test("should only write the hunks accepted in review", async () => {
+    const before = Array.from({ length: 20 }, (_, i) => `line ${i + 1}`).join("\n") + "\n"
+    await using fixture = await tmpdir({
+      init: async (dir) => {
+        await Bun.write(path.join(dir, "opencode.json"), JSON.stringify({ permission: { edit: "review" } }))
+        await Bun.write(path.join(dir, "numbers.txt"), before)
+      },
+    })
+
+    await Instance.provide({
+      directory: fixture.path,
+      fn: async () => {
+        const numbers = path.join(fixture.path, "numbers.txt")
+        FileTime.read(ctx.sessionID, numbers)
+        const patchText = `*** Begin Patch
+*** Update File: numbers.txt
+@@
+ line 1
+-line 2
++line two
+ line 3
+@@
+ line 17
+-line 18
++line eighteen
+ line 19
+*** Add File: rejected.txt
++not wanted
+*** End Patch`
+
+        const running = patchTool.execute({ patchText }, ctx)
+        const next = async () => {
+          while (Review.list(ctx.sessionID).length === 0) await Bun.sleep(10)
+          return Review.list(ctx.sessionID)[0]
+        }
+
+        const first = await next()
+        expect(first.file).toBe(numbers)
+        Review.respond({
+          sessionID: ctx.sessionID,
+          reviewID: first.id,
+          hunks: [
+            { index: 0, status: "accepted" },
+            { index: 1, status: "rejected", comment: "keep the number" },
+          ],
+        })
+        const second = await next()
+        Review.respond({ sessionID: ctx.sessionID, reviewID: second.id, hunks: [{ index: 0, status: "rejected" }] })
+
+        const result = await running
+        expect(result.title).toBe("1 files changed")
+        expect(result.output).toContain("Comment: keep the number")
+        expect(await fs.readFile(numbers, "utf-8")).toBe(before.replace("line 2\n", "line two\n"))
+        expect(await Bun.file(path.join(fixture.path, "rejected.txt")).exists()).toBe(false)
+      },
+    })
+  })
 })
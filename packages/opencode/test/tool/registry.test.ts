@@ -0,0 +1,55 @@
+import { describe, expect, test } from "bun:test"
+import path from "path"
+import { ToolRegistry } from "../../src/tool/registry"
+import { Instance } from "../../src/project/instance"
+import { tmpdir } from "../fixture/fixture"
+
+describe("tool.registry", () => {
+  test("picks patch editing for GPT-family models and string edits for others", async () => {
+    await using tmp = await tmpdir({ git: true })
+    await Instance.provide({
+      directory: tmp.path,
+      fn: async () => {
+        expect(await ToolRegistry.editor("gpt-5.1-codex")).toBe("patch")
+        expect(await ToolRegistry.editor("openai/gpt-4.1")).toBe("patch")
+        expect(await ToolRegistry.editor("claude-sonnet-4-5")).toBe("edit")
+
+        const gpt = (await ToolRegistry.tools("openai", "gpt-4.1")).map((t) => t.id)
+        expect(gpt).toContain("patch")
+        expect(gpt).not.toContain("edit")
+        expect(gpt).not.toContain("multiedit")
+
+        const claude = (await ToolRegistry.tools("anthropic", "claude-sonnet-4-5")).map((t) => t.id)
+        expect(claude).toContain("edit")
+        expect(claude).toContain("multiedit")
+        expect(claude).not.toContain("patch")
+        expect(claude).not.toContain("lsp_diagnostics")
+      },
+    })
+  })
+
+  test("respects the configured edit tool and lsp tools", async () => {
+    await using tmp = await tmpdir({
+      git: true,
+      init: async (dir) => {
+        await Bun.write(
+          path.join(dir, "opencode.json"),
+          JSON.stringify({
+            $schema: "https://opencode.ai/config.json",
+            experimental: { edit_tool: "edit", lsp_tool: true },
+          }),
+        )
+      },
+    })
+    await Instance.provide({
+      directory: tmp.path,
+      fn: async () => {
+        const ids = (await ToolRegistry.tools("openai", "gpt-4.1")).map((t) => t.id)
+        expect(ids).toContain("edit")
+        expect(ids).not.toContain("patch")
+        expect(ids).toContain("lsp_diagnostics")
+        expect(ids).toContain("lsp_hover")
+      },
+    })
+  })
+})
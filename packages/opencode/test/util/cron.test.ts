@@ -0,0 +1,35 @@
+import { describe, expect, test } from "bun:test"
+import { Cron } from "../../src/util/cron"
+
+const at = (...args: [number, number, number, number, number]) => new Date(...args).getTime()
+
+describe("util.cron", () => {
+  const base = at(2026, 0, 1, 10, 30)
+
+  test("finds the next matching minute", () => {
+    expect(Cron.next("*/15 * * * *", base)).toBe(at(2026, 0, 1, 10, 45))
+    expect(Cron.next("0 3 * * *", base)).toBe(at(2026, 0, 2, 3, 0))
+    expect(Cron.next("5/20 * * * *", base)).toBe(at(2026, 0, 1, 10, 45))
+  })
+
+  test("is strictly after the given time", () => {
+    expect(Cron.next("30 10 * * *", base)).toBe(at(2026, 0, 2, 10, 30))
+  })
+
+  test("supports aliases and names", () => {
+    expect(Cron.next("@weekly", base)).toBe(at(2026, 0, 4, 0, 0))
+    expect(Cron.next("0 9 * * mon-fri", at(2026, 0, 3, 12, 0))).toBe(at(2026, 0, 5, 9, 0))
+    expect(Cron.next("0 0 1 jun *", base)).toBe(at(2026, 5, 1, 0, 0))
+  })
+
+  test("matches either day of month or day of week when both are set", () => {
+    expect(Cron.next("0 12 15 * fri", base)).toBe(at(2026, 0, 2, 12, 0))
+  })
+
+  test("rejects invalid expressions", () => {
+    expect(Cron.valid("61 * * * *")).toBe(false)
+    expect(Cron.valid("* * *")).toBe(false)
+    expect(Cron.valid("*/0 * * * *")).toBe(false)
+    expect(Cron.next("0 0 31 2 *", base)).toBeUndefined()
+  })
+})
@@ -0,0 +1,44 @@
+import { describe, expect, test } from "bun:test"
+import { Token } from "../../src/util/token"
+
+describe("util.token", () => {
+  test("picks a tokenizer by model family", () => {
+    expect(Token.tokenizer("gpt-4o-mini").name).toBe("o200k_base")
+    expect(Token.tokenizer("openai/gpt-5.1-codex").name).toBe("o200k_base")
+    expect(Token.tokenizer("o3-mini").name).toBe("o200k_base")
+    expect(Token.tokenizer("gpt-4-turbo").name).toBe("cl100k_base")
+    expect(Token.tokenizer("claude-sonnet-4-5").name).toBe("claude")
+    expect(Token.tokenizer("qwen3-coder").name).toBe("approximate")
+    expect(Token.tokenizer().name).toBe("approximate")
+  })
+
+  test("counts with a real BPE for OpenAI models", () => {
+    expect(Token.estimate("hello world", "gpt-4o")).toBe(2)
+    expect(Token.estimate("<|endoftext|>", "gpt-4o")).toBeGreaterThan(1)
+  })
+
+  test("falls back to the character approximation", () => {
+    expect(Token.estimate("")).toBe(0)
+    expect(Token.estimate("abcdefgh")).toBe(2)
+  })
+
+  test("caches long inputs and honors registered tokenizers", () => {
+    const input = "x".repeat(1000)
+    expect(Token.estimate(input, "custom-model")).toBe(250)
+
+    let calls = 0
+    Token.register(
+      (model) => model.startsWith("custom"),
+      () => ({
+        name: "custom",
+        count: (text) => {
+          calls++
+          return text.length
+        },
+      }),
+    )
+    expect(Token.estimate(input, "custom-model")).toBe(1000)
+    expect(Token.estimate(input, "custom-model")).toBe(1000)
+    expect(calls).toBe(1)
+  })
+})
@@ -0,0 +1,83 @@
+import { describe, expect, test } from "bun:test"
+import path from "path"
+import fs from "fs/promises"
+import { Session } from "../../src/session"
+import { Worktree } from "../../src/worktree"
+import { Instance } from "../../src/project/instance"
+import { Project } from "../../src/project/project"
+import { Log } from "../../src/util/log"
+import { tmpdir } from "../fixture/fixture"
+
+Log.init({ print: false })
+
+const exists = (file: string) =>
+  fs
+    .stat(file)
+    .then(() => true)
+    .catch(() => false)
+
+describe("worktree", () => {
+  test("sessions get their own worktree scoped to the same project", async () => {
+    await using tmp = await tmpdir({ git: true })
+    await Instance.provide({
+      directory: tmp.path,
+      fn: async () => {
+        const session = await Session.create({ worktree: true })
+        expect(session.worktree?.branch).toStartWith("opencode/")
+        expect(session.directory).toStartWith(Worktree.root())
+        expect(await exists(session.directory)).toBe(true)
+
+        const project = await Project.fromDirectory(session.directory)
+        expect(project.id).toBe(Instance.project.id)
+        expect(project.worktree).toBe(session.directory)
+        expect(await Worktree.resolve(session.id)).toBe(session.directory)
+
+        const main = await Project.fromDirectory(tmp.path)
+        expect(main.worktree).toBe(tmp.path)
+
+        const list = await Worktree.list()
+        expect(list.map((x) => x.sessionID)).toEqual([session.id])
+        expect(list[0].changes).toBe(0)
+      },
+    })
+  })
+
+  test("merge brings changes into the main checkout", async () => {
+    await using tmp = await tmpdir({ git: true })
+    await Instance.provide({
+      directory: tmp.path,
+      fn: async () => {
+        const session = await Session.create({ worktree: true })
+        await Bun.write(path.join(session.directory, "feature.txt"), "done")
+        expect((await Worktree.get(session.id)).changes).toBe(1)
+        expect(await exists(path.join(tmp.path, "feature.txt"))).toBe(false)
+
+        const merged = await Worktree.merge(session.id)
+        expect(merged.worktree).toBeUndefined()
+        expect(merged.directory).toBe(tmp.path)
+        expect(await Bun.file(path.join(tmp.path, "feature.txt")).text()).toBe("done")
+        expect(await exists(Worktree.root() + path.sep + session.id)).toBe(false)
+        expect(await Worktree.list()).toEqual([])
+      },
+    })
+  })
+
+  test("discard and cleanup remove worktrees", async () => {
+    await using tmp = await tmpdir({ git: true })
+    await Instance.provide({
+      directory: tmp.path,
+      fn: async () => {
+        const discarded = await Session.create({ worktree: true })
+        await Bun.write(path.join(discarded.directory, "scratch.txt"), "nope")
+        await Worktree.discard(discarded.id)
+        expect(await exists(path.join(tmp.path, "scratch.txt"))).toBe(false)
+        expect(await exists(path.join(Worktree.root(), discarded.id))).toBe(false)
+
+        const removed = await Session.create({ worktree: true })
+        await Session.remove(removed.id)
+        expect(await Worktree.cleanup()).toEqual([path.join(Worktree.root(), removed.id)])
+        expect(await exists(path.join(Worktree.root(), removed.id))).toBe(false)
+      },
+    })
+  })
+})
@@ -957,7 +957,10 @@ export type KeybindsConfig = {
 }
 
 export type AgentConfig = {
-  model?: string
+  /**
+   * Model to use in the format of provider/model, or a list of models to fall back to in order on rate limit, overload or context length errors
+   */
+  model?: string | Array<string>
   temperature?: number
   top_p?: number
   prompt?: string
@@ -979,7 +982,10 @@ export type AgentConfig = {
    */
   maxSteps?: number
   permission?: {
-    edit?: "ask" | "allow" | "deny"
+    /**
+     * 'review' holds edits as hunks to accept, reject or comment on before they are written
+     */
+    edit?: "ask" | "allow" | "deny" | "review"
     bash?:
       | ("ask" | "allow" | "deny")
       | {
@@ -1000,7 +1006,10 @@ export type AgentConfig = {
     | ("subagent" | "primary" | "all")
     | number
     | {
-        edit?: "ask" | "allow" | "deny"
+        /**
+         * 'review' holds edits as hunks to accept, reject or comment on before they are written
+         */
+        edit?: "ask" | "allow" | "deny" | "review"
         bash?:
           | ("ask" | "allow" | "deny")
           | {
@@ -1156,6 +1165,28 @@ export type McpRemoteConfig = {
  */
 export type LayoutConfig = "auto" | "stretch"
 
+export type ShareMode = "manual" | "auto" | "disabled"
+
+export type ShareConfig = {
+  mode?: ShareMode
+  /**
+   * URL of the share server, eg a self-hosted one
+   */
+  url?: string
+  /**
+   * Token sent to the share server as a bearer token
+   */
+  token?: string
+  /**
+   * Days after which shared sessions are removed
+   */
+  expires?: number
+  /**
+   * Password required to view shared sessions
+   */
+  password?: string
+}
+
 export type Config = {
   /**
    * JSON schema reference for configuration validation
@@ -1204,11 +1235,37 @@ export type Config = {
     ignore?: Array<string>
   }
   plugin?: Array<string>
-  snapshot?: boolean
+  /**
+   * Track file changes of each step so they can be reverted. Set to false to disable
+   */
+  snapshot?:
+    | boolean
+    | {
+        /**
+         * Gitignore style patterns of files to leave out of snapshots, eg binary assets
+         */
+        exclude?: Array<string>
+        /**
+         * Leave files larger than this many bytes out of snapshots
+         */
+        max_file_size?: number
+        /**
+         * Days to keep snapshots of session steps. Checkpoints are always kept
+         */
+        max_age?: number
+        /**
+         * Megabytes the snapshots of a project may use before the oldest ones are dropped
+         */
+        max_size?: number
+        /**
+         * Collect unused snapshots when a session is deleted. Defaults to true
+         */
+        gc?: boolean
+      }
   /**
    * Control sharing behavior:'manual' allows manual sharing via commands, 'auto' enables automatic sharing, 'disabled' disables all sharing
    */
-  share?: "manual" | "auto" | "disabled"
+  share?: ShareMode | ShareConfig
   /**
    * @deprecated Use 'share' field instead. Share newly created sessions automatically
    */
@@ -1304,7 +1361,10 @@ export type Config = {
   instructions?: Array<string>
   layout?: LayoutConfig
   permission?: {
-    edit?: "ask" | "allow" | "deny"
+    /**
+     * 'review' holds edits as hunks to accept, reject or comment on before they are written
+     */
+    edit?: "ask" | "allow" | "deny" | "review"
     bash?:
       | ("ask" | "allow" | "deny")
       | {
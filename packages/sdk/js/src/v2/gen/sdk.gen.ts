@@ -44,12 +44,27 @@ import type {
   McpAuthStartResponses,
   McpConnectResponses,
   McpDisconnectResponses,
+  McpPromptListResponses,
+  McpResourceListResponses,
+  McpResourceReadErrors,
+  McpResourceReadResponses,
   McpLocalConfig,
   McpRemoteConfig,
   McpStatusResponses,
   PathGetResponses,
   PermissionRespondErrors,
   PermissionRespondResponses,
+  PermissionRuleListResponses,
+  PermissionRuleRemoveErrors,
+  PermissionRuleRemoveResponses,
+  PermissionRuleUpdateErrors,
+  PermissionRuleUpdateResponses,
+  WorktreeListResponses,
+  WorktreeCleanupResponses,
+  WorktreeMergeResponses,
+  WorktreeMergeErrors,
+  WorktreeDiscardResponses,
+  WorktreeDiscardErrors,
   ProjectCurrentResponses,
   ProjectListResponses,
   ProjectUpdateErrors,
@@ -73,6 +88,16 @@ import type {
   PtyUpdateResponses,
   SessionAbortErrors,
   SessionAbortResponses,
+  SessionCheckpointCreateErrors,
+  SessionCheckpointCreateResponses,
+  SessionCheckpointDiffErrors,
+  SessionCheckpointDiffResponses,
+  SessionCheckpointListErrors,
+  SessionCheckpointListResponses,
+  SessionCheckpointRemoveErrors,
+  SessionCheckpointRemoveResponses,
+  SessionCheckpointRestoreErrors,
+  SessionCheckpointRestoreResponses,
   SessionChildrenErrors,
   SessionChildrenResponses,
   SessionCommandErrors,
@@ -107,6 +132,40 @@ import type {
   SessionStatusResponses,
   SessionSummarizeErrors,
   SessionSummarizeResponses,
+  SessionSearchErrors,
+  SessionSearchResponses,
+  SessionExportErrors,
+  SessionExportResponses,
+  SessionBudgetGetErrors,
+  SessionBudgetGetResponses,
+  SessionBudgetRaiseErrors,
+  SessionBudgetRaiseResponses,
+  SessionQueueListErrors,
+  SessionQueueListResponses,
+  SessionSubagentCancelErrors,
+  SessionSubagentCancelResponses,
+  SessionReviewListErrors,
+  SessionReviewListResponses,
+  SessionReviewRespondErrors,
+  SessionReviewRespondResponses,
+  ReviewDecision,
+  SessionSubagentListErrors,
+  SessionSubagentListResponses,
+  SessionVerifyGetErrors,
+  SessionVerifyGetResponses,
+  SessionQueueRemoveErrors,
+  SessionQueueRemoveResponses,
+  SessionQueueUpdateErrors,
+  SessionQueueUpdateResponses,
+  SessionCompactionListErrors,
+  SessionCompactionListResponses,
+  SessionCompactionUndoErrors,
+  SessionCompactionUndoResponses,
+  SessionCompactionUpdateErrors,
+  SessionCompactionUpdateResponses,
+  SessionCompactionCommitErrors,
+  SessionCompactionCommitResponses,
+  CompactionSummary,
   SessionTodoErrors,
   SessionTodoResponses,
   SessionUnrevertErrors,
@@ -679,6 +738,712 @@ export class Vcs extends HeyApiClient {
   }
 }
 
+export class Budget extends HeyApiClient {
+  /**
+   * Get session budget
+   *
+   * Get the spend of a session against each configured budget limit.
+   */
+  public get<ThrowOnError extends boolean = false>(
+    parameters: {
+      sessionID: string
+      directory?: string
+      agent?: string
+    },
+    options?: Options<never, ThrowOnError>,
+  ) {
+    const params = buildClientParams(
+      [parameters],
+      [
+        {
+          args: [
+            { in: "path", key: "sessionID" },
+            { in: "query", key: "directory" },
+            { in: "query", key: "agent" },
+          ],
+        },
+      ],
+    )
+    return (options?.client ?? this.client).get<SessionBudgetGetResponses, SessionBudgetGetErrors, ThrowOnError>({
+      url: "/session/{sessionID}/budget",
+      ...options,
+      ...params,
+    })
+  }
+
+  /**
+   * Raise session budget
+   *
+   * Raise every budget limit by an amount in USD for this session only.
+   */
+  public raise<ThrowOnError extends boolean = false>(
+    parameters: {
+      sessionID: string
+      directory?: string
+      amount?: number
+    },
+    options?: Options<never, ThrowOnError>,
+  ) {
+    const params = buildClientParams(
+      [parameters],
+      [
+        {
+          args: [
+            { in: "path", key: "sessionID" },
+            { in: "query", key: "directory" },
+            { in: "body", key: "amount" },
+          ],
+        },
+      ],
+    )
+    return (options?.client ?? this.client).post<SessionBudgetRaiseResponses, SessionBudgetRaiseErrors, ThrowOnError>({
+      url: "/session/{sessionID}/budget",
+      ...options,
+      ...params,
+      headers: {
+        "Content-Type": "application/json",
+        ...options?.headers,
+        ...params.headers,
+      },
+    })
+  }
+}
+
+export class Queue extends HeyApiClient {
+  /**
+   * List queued prompts
+   *
+   * List prompts that were sent while the session was busy and wait for the next step.
+   */
+  public list<ThrowOnError extends boolean = false>(
+    parameters: {
+      sessionID: string
+      directory?: string
+    },
+    options?: Options<never, ThrowOnError>,
+  ) {
+    const params = buildClientParams(
+      [parameters],
+      [
+        {
+          args: [
+            { in: "path", key: "sessionID" },
+            { in: "query", key: "directory" },
+          ],
+        },
+      ],
+    )
+    return (options?.client ?? this.client).get<SessionQueueListResponses, SessionQueueListErrors, ThrowOnError>({
+      url: "/session/{sessionID}/queue",
+      ...options,
+      ...params,
+    })
+  }
+
+  /**
+   * Remove queued prompt
+   *
+   * Remove a prompt that has not been sent yet.
+   */
+  public remove<ThrowOnError extends boolean = false>(
+    parameters: {
+      sessionID: string
+      queueID: string
+      directory?: string
+    },
+    options?: Options<never, ThrowOnError>,
+  ) {
+    const params = buildClientParams(
+      [parameters],
+      [
+        {
+          args: [
+            { in: "path", key: "sessionID" },
+            { in: "path", key: "queueID" },
+            { in: "query", key: "directory" },
+          ],
+        },
+      ],
+    )
+    return (options?.client ?? this.client).delete<SessionQueueRemoveResponses, SessionQueueRemoveErrors, ThrowOnError>(
+      {
+        url: "/session/{sessionID}/queue/{queueID}",
+        ...options,
+        ...params,
+      },
+    )
+  }
+
+  /**
+   * Update queued prompt
+   *
+   * Replace the parts of a prompt that has not been sent yet.
+   */
+  public update<ThrowOnError extends boolean = false>(
+    parameters: {
+      sessionID: string
+      queueID: string
+      directory?: string
+      parts?: Array<TextPartInput | FilePartInput | AgentPartInput | SubtaskPartInput>
+    },
+    options?: Options<never, ThrowOnError>,
+  ) {
+    const params = buildClientParams(
+      [parameters],
+      [
+        {
+          args: [
+            { in: "path", key: "sessionID" },
+            { in: "path", key: "queueID" },
+            { in: "query", key: "directory" },
+            { in: "body", key: "parts" },
+          ],
+        },
+      ],
+    )
+    return (options?.client ?? this.client).patch<SessionQueueUpdateResponses, SessionQueueUpdateErrors, ThrowOnError>({
+      url: "/session/{sessionID}/queue/{queueID}",
+      ...options,
+      ...params,
+      headers: {
+        "Content-Type": "application/json",
+        ...options?.headers,
+        ...params.headers,
+      },
+    })
+  }
+}
+
+export class Subagent extends HeyApiClient {
+  /**
+   * List subagents
+   *
+   * List the subagents a session started, with their status, current tool and spend.
+   */
+  public list<ThrowOnError extends boolean = false>(
+    parameters: {
+      sessionID: string
+      directory?: string
+    },
+    options?: Options<never, ThrowOnError>,
+  ) {
+    const params = buildClientParams(
+      [parameters],
+      [
+        {
+          args: [
+            { in: "path", key: "sessionID" },
+            { in: "query", key: "directory" },
+          ],
+        },
+      ],
+    )
+    return (options?.client ?? this.client).get<SessionSubagentListResponses, SessionSubagentListErrors, ThrowOnError>({
+      url: "/session/{sessionID}/subagent",
+      ...options,
+      ...params,
+    })
+  }
+
+  /**
+   * Cancel subagent
+   *
+   * Cancel a single subagent, whether it is waiting for a free slot or running.
+   */
+  public cancel<ThrowOnError extends boolean = false>(
+    parameters: {
+      sessionID: string
+      childID: string
+      directory?: string
+    },
+    options?: Options<never, ThrowOnError>,
+  ) {
+    const params = buildClientParams(
+      [parameters],
+      [
+        {
+          args: [
+            { in: "path", key: "sessionID" },
+            { in: "path", key: "childID" },
+            { in: "query", key: "directory" },
+          ],
+        },
+      ],
+    )
+    return (options?.client ?? this.client).post<
+      SessionSubagentCancelResponses,
+      SessionSubagentCancelErrors,
+      ThrowOnError
+    >({
+      url: "/session/{sessionID}/subagent/{childID}/cancel",
+      ...options,
+      ...params,
+    })
+  }
+}
+
+export class Checkpoint extends HeyApiClient {
+  /**
+   * List checkpoints
+   *
+   * List the named checkpoints of a session, oldest first.
+   */
+  public list<ThrowOnError extends boolean = false>(
+    parameters: {
+      sessionID: string
+      directory?: string
+    },
+    options?: Options<never, ThrowOnError>,
+  ) {
+    const params = buildClientParams(
+      [parameters],
+      [
+        {
+          args: [
+            { in: "path", key: "sessionID" },
+            { in: "query", key: "directory" },
+          ],
+        },
+      ],
+    )
+    return (options?.client ?? this.client).get<
+      SessionCheckpointListResponses,
+      SessionCheckpointListErrors,
+      ThrowOnError
+    >({
+      url: "/session/{sessionID}/checkpoint",
+      ...options,
+      ...params,
+    })
+  }
+
+  /**
+   * Create checkpoint
+   *
+   * Save the current files and position in the conversation under a name.
+   */
+  public create<ThrowOnError extends boolean = false>(
+    parameters: {
+      sessionID: string
+      directory?: string
+      name?: string
+    },
+    options?: Options<never, ThrowOnError>,
+  ) {
+    const params = buildClientParams(
+      [parameters],
+      [
+        {
+          args: [
+            { in: "path", key: "sessionID" },
+            { in: "query", key: "directory" },
+            { in: "body", key: "name" },
+          ],
+        },
+      ],
+    )
+    return (options?.client ?? this.client).post<
+      SessionCheckpointCreateResponses,
+      SessionCheckpointCreateErrors,
+      ThrowOnError
+    >({
+      url: "/session/{sessionID}/checkpoint",
+      ...options,
+      ...params,
+      headers: {
+        "Content-Type": "application/json",
+        ...options?.headers,
+        ...params.headers,
+      },
+    })
+  }
+
+  /**
+   * Remove checkpoint
+   *
+   * Remove a checkpoint. Sessions forked from it are kept.
+   */
+  public remove<ThrowOnError extends boolean = false>(
+    parameters: {
+      sessionID: string
+      checkpointID: string
+      directory?: string
+    },
+    options?: Options<never, ThrowOnError>,
+  ) {
+    const params = buildClientParams(
+      [parameters],
+      [
+        {
+          args: [
+            { in: "path", key: "sessionID" },
+            { in: "path", key: "checkpointID" },
+            { in: "query", key: "directory" },
+          ],
+        },
+      ],
+    )
+    return (options?.client ?? this.client).delete<
+      SessionCheckpointRemoveResponses,
+      SessionCheckpointRemoveErrors,
+      ThrowOnError
+    >({
+      url: "/session/{sessionID}/checkpoint/{checkpointID}",
+      ...options,
+      ...params,
+    })
+  }
+
+  /**
+   * Restore checkpoint
+   *
+   * Fork the session at a checkpoint and restore its files. The original session keeps its history.
+   */
+  public restore<ThrowOnError extends boolean = false>(
+    parameters: {
+      sessionID: string
+      checkpointID: string
+      directory?: string
+    },
+    options?: Options<never, ThrowOnError>,
+  ) {
+    const params = buildClientParams(
+      [parameters],
+      [
+        {
+          args: [
+            { in: "path", key: "sessionID" },
+            { in: "path", key: "checkpointID" },
+            { in: "query", key: "directory" },
+          ],
+        },
+      ],
+    )
+    return (options?.client ?? this.client).post<
+      SessionCheckpointRestoreResponses,
+      SessionCheckpointRestoreErrors,
+      ThrowOnError
+    >({
+      url: "/session/{sessionID}/checkpoint/{checkpointID}/restore",
+      ...options,
+      ...params,
+    })
+  }
+
+  /**
+   * Diff checkpoint
+   *
+   * Get the file changes from a checkpoint to another one, or to the current files.
+   */
+  public diff<ThrowOnError extends boolean = false>(
+    parameters: {
+      sessionID: string
+      checkpointID: string
+      directory?: string
+      to?: string
+    },
+    options?: Options<never, ThrowOnError>,
+  ) {
+    const params = buildClientParams(
+      [parameters],
+      [
+        {
+          args: [
+            { in: "path", key: "sessionID" },
+            { in: "path", key: "checkpointID" },
+            { in: "query", key: "directory" },
+            { in: "query", key: "to" },
+          ],
+        },
+      ],
+    )
+    return (options?.client ?? this.client).get<
+      SessionCheckpointDiffResponses,
+      SessionCheckpointDiffErrors,
+      ThrowOnError
+    >({
+      url: "/session/{sessionID}/checkpoint/{checkpointID}/diff",
+      ...options,
+      ...params,
+    })
+  }
+}
+
+export class Verify extends HeyApiClient {
+  /**
+   * Get session verification
+   *
+   * Get the result of the latest verify checks that ran after a step of the session changed files.
+   */
+  public get<ThrowOnError extends boolean = false>(
+    parameters: {
+      sessionID: string
+      directory?: string
+    },
+    options?: Options<never, ThrowOnError>,
+  ) {
+    const params = buildClientParams(
+      [parameters],
+      [
+        {
+          args: [
+            { in: "path", key: "sessionID" },
+            { in: "query", key: "directory" },
+          ],
+        },
+      ],
+    )
+    return (options?.client ?? this.client).get<SessionVerifyGetResponses, SessionVerifyGetErrors, ThrowOnError>({
+      url: "/session/{sessionID}/verify",
+      ...options,
+      ...params,
+    })
+  }
+}
+
+export class Review extends HeyApiClient {
+  /**
+   * List pending reviews
+   *
+   * List the edits of a session that are waiting for their hunks to be accepted or rejected.
+   */
+  public list<ThrowOnError extends boolean = false>(
+    parameters: {
+      sessionID: string
+      directory?: string
+    },
+    options?: Options<never, ThrowOnError>,
+  ) {
+    const params = buildClientParams(
+      [parameters],
+      [
+        {
+          args: [
+            { in: "path", key: "sessionID" },
+            { in: "query", key: "directory" },
+          ],
+        },
+      ],
+    )
+    return (options?.client ?? this.client).get<SessionReviewListResponses, SessionReviewListErrors, ThrowOnError>({
+      url: "/session/{sessionID}/review",
+      ...options,
+      ...params,
+    })
+  }
+
+  /**
+   * Respond to review
+   *
+   * Accept, reject or comment on hunks of a pending edit. The edit is applied once no hunk is pending, with only the accepted hunks.
+   */
+  public respond<ThrowOnError extends boolean = false>(
+    parameters: {
+      sessionID: string
+      reviewID: string
+      directory?: string
+      hunks?: Array<ReviewDecision>
+    },
+    options?: Options<never, ThrowOnError>,
+  ) {
+    const params = buildClientParams(
+      [parameters],
+      [
+        {
+          args: [
+            { in: "path", key: "sessionID" },
+            { in: "path", key: "reviewID" },
+            { in: "query", key: "directory" },
+            { in: "body", key: "hunks" },
+          ],
+        },
+      ],
+    )
+    return (options?.client ?? this.client).post<
+      SessionReviewRespondResponses,
+      SessionReviewRespondErrors,
+      ThrowOnError
+    >({
+      url: "/session/{sessionID}/review/{reviewID}",
+      ...options,
+      ...params,
+      headers: {
+        "Content-Type": "application/json",
+        ...options?.headers,
+        ...params.headers,
+      },
+    })
+  }
+}
+
+export class Compaction extends HeyApiClient {
+  /**
+   * List compactions
+   *
+   * List the compactions of a session along with their structured summaries and review status.
+   */
+  public list<ThrowOnError extends boolean = false>(
+    parameters: {
+      sessionID: string
+      directory?: string
+    },
+    options?: Options<never, ThrowOnError>,
+  ) {
+    const params = buildClientParams(
+      [parameters],
+      [
+        {
+          args: [
+            { in: "path", key: "sessionID" },
+            { in: "query", key: "directory" },
+          ],
+        },
+      ],
+    )
+    return (options?.client ?? this.client).get<
+      SessionCompactionListResponses,
+      SessionCompactionListErrors,
+      ThrowOnError
+    >({
+      url: "/session/{sessionID}/compaction",
+      ...options,
+      ...params,
+    })
+  }
+
+  /**
+   * Undo compaction
+   *
+   * Discard a compaction, whether it is a draft or already committed, and restore the context from before it.
+   */
+  public undo<ThrowOnError extends boolean = false>(
+    parameters: {
+      sessionID: string
+      messageID: string
+      directory?: string
+    },
+    options?: Options<never, ThrowOnError>,
+  ) {
+    const params = buildClientParams(
+      [parameters],
+      [
+        {
+          args: [
+            { in: "path", key: "sessionID" },
+            { in: "path", key: "messageID" },
+            { in: "query", key: "directory" },
+          ],
+        },
+      ],
+    )
+    return (options?.client ?? this.client).delete<
+      SessionCompactionUndoResponses,
+      SessionCompactionUndoErrors,
+      ThrowOnError
+    >({
+      url: "/session/{sessionID}/compaction/{messageID}",
+      ...options,
+      ...params,
+    })
+  }
+
+  /**
+   * Edit compaction summary
+   *
+   * Edit the structured summary of a compaction. The summary message in the context is rewritten to match.
+   */
+  public update<ThrowOnError extends boolean = false>(
+    parameters: {
+      sessionID: string
+      messageID: string
+      directory?: string
+      goals?: Array<string>
+      decisions?: Array<string>
+      files?: Array<string>
+      todos?: CompactionSummary["todos"]
+      next?: Array<string>
+      notes?: string
+    },
+    options?: Options<never, ThrowOnError>,
+  ) {
+    const params = buildClientParams(
+      [parameters],
+      [
+        {
+          args: [
+            { in: "path", key: "sessionID" },
+            { in: "path", key: "messageID" },
+            { in: "query", key: "directory" },
+            { in: "body", key: "goals" },
+            { in: "body", key: "decisions" },
+            { in: "body", key: "files" },
+            { in: "body", key: "todos" },
+            { in: "body", key: "next" },
+            { in: "body", key: "notes" },
+          ],
+        },
+      ],
+    )
+    return (options?.client ?? this.client).patch<
+      SessionCompactionUpdateResponses,
+      SessionCompactionUpdateErrors,
+      ThrowOnError
+    >({
+      url: "/session/{sessionID}/compaction/{messageID}",
+      ...options,
+      ...params,
+      headers: {
+        "Content-Type": "application/json",
+        ...options?.headers,
+        ...params.headers,
+      },
+    })
+  }
+
+  /**
+   * Commit compaction
+   *
+   * Accept a compaction that is waiting for review, optionally with an edited summary, so it replaces the earlier context.
+   */
+  public commit<ThrowOnError extends boolean = false>(
+    parameters: {
+      sessionID: string
+      messageID: string
+      directory?: string
+      summary?: Partial<CompactionSummary>
+    },
+    options?: Options<never, ThrowOnError>,
+  ) {
+    const params = buildClientParams(
+      [parameters],
+      [
+        {
+          args: [
+            { in: "path", key: "sessionID" },
+            { in: "path", key: "messageID" },
+            { in: "query", key: "directory" },
+            { in: "body", key: "summary" },
+          ],
+        },
+      ],
+    )
+    return (options?.client ?? this.client).post<
+      SessionCompactionCommitResponses,
+      SessionCompactionCommitErrors,
+      ThrowOnError
+    >({
+      url: "/session/{sessionID}/compaction/{messageID}/commit",
+      ...options,
+      ...params,
+      headers: {
+        "Content-Type": "application/json",
+        ...options?.headers,
+        ...params.headers,
+      },
+    })
+  }
+}
+
 export class Session extends HeyApiClient {
   /**
    * List sessions
@@ -709,6 +1474,7 @@ export class Session extends HeyApiClient {
       directory?: string
       parentID?: string
       title?: string
+      worktree?: boolean
     },
     options?: Options<never, ThrowOnError>,
   ) {
@@ -720,6 +1486,7 @@ export class Session extends HeyApiClient {
             { in: "query", key: "directory" },
             { in: "body", key: "parentID" },
             { in: "body", key: "title" },
+            { in: "body", key: "worktree" },
           ],
         },
       ],
@@ -838,33 +1605,95 @@ export class Session extends HeyApiClient {
           args: [
             { in: "path", key: "sessionID" },
             { in: "query", key: "directory" },
-            { in: "body", key: "title" },
-            { in: "body", key: "time" },
+            { in: "body", key: "title" },
+            { in: "body", key: "time" },
+          ],
+        },
+      ],
+    )
+    return (options?.client ?? this.client).patch<SessionUpdateResponses, SessionUpdateErrors, ThrowOnError>({
+      url: "/session/{sessionID}",
+      ...options,
+      ...params,
+      headers: {
+        "Content-Type": "application/json",
+        ...options?.headers,
+        ...params.headers,
+      },
+    })
+  }
+
+  /**
+   * Get session children
+   *
+   * Retrieve all child sessions that were forked from the specified parent session.
+   */
+  public children<ThrowOnError extends boolean = false>(
+    parameters: {
+      sessionID: string
+      directory?: string
+    },
+    options?: Options<never, ThrowOnError>,
+  ) {
+    const params = buildClientParams(
+      [parameters],
+      [
+        {
+          args: [
+            { in: "path", key: "sessionID" },
+            { in: "query", key: "directory" },
+          ],
+        },
+      ],
+    )
+    return (options?.client ?? this.client).get<SessionChildrenResponses, SessionChildrenErrors, ThrowOnError>({
+      url: "/session/{sessionID}/children",
+      ...options,
+      ...params,
+    })
+  }
+
+  /**
+   * Get session todos
+   *
+   * Retrieve the todo list associated with a specific session, showing tasks and action items.
+   */
+  public todo<ThrowOnError extends boolean = false>(
+    parameters: {
+      sessionID: string
+      directory?: string
+    },
+    options?: Options<never, ThrowOnError>,
+  ) {
+    const params = buildClientParams(
+      [parameters],
+      [
+        {
+          args: [
+            { in: "path", key: "sessionID" },
+            { in: "query", key: "directory" },
           ],
         },
       ],
     )
-    return (options?.client ?? this.client).patch<SessionUpdateResponses, SessionUpdateErrors, ThrowOnError>({
-      url: "/session/{sessionID}",
+    return (options?.client ?? this.client).get<SessionTodoResponses, SessionTodoErrors, ThrowOnError>({
+      url: "/session/{sessionID}/todo",
       ...options,
       ...params,
-      headers: {
-        "Content-Type": "application/json",
-        ...options?.headers,
-        ...params.headers,
-      },
     })
   }
 
   /**
-   * Get session children
+   * Search sessions
    *
-   * Retrieve all child sessions that were forked from the specified parent session.
+   * Full-text search over the sessions of all projects, matching message text, tool titles and the files they touched.
    */
-  public children<ThrowOnError extends boolean = false>(
+  public search<ThrowOnError extends boolean = false>(
     parameters: {
-      sessionID: string
       directory?: string
+      query: string
+      limit?: number
+      projectID?: string
     },
     options?: Options<never, ThrowOnError>,
   ) {
@@ -873,28 +1702,31 @@ export class Session extends HeyApiClient {
       [
         {
           args: [
-            { in: "path", key: "sessionID" },
             { in: "query", key: "directory" },
+            { in: "query", key: "query" },
+            { in: "query", key: "limit" },
+            { in: "query", key: "projectID" },
           ],
         },
       ],
     )
-    return (options?.client ?? this.client).get<SessionChildrenResponses, SessionChildrenErrors, ThrowOnError>({
-      url: "/session/{sessionID}/children",
+    return (options?.client ?? this.client).get<SessionSearchResponses, SessionSearchErrors, ThrowOnError>({
+      url: "/session/search",
       ...options,
       ...params,
     })
   }
 
   /**
-   * Get session todos
+   * Export session
    *
-   * Retrieve the todo list associated with a specific session, showing tasks and action items.
+   * Export a session as JSON, JSONL, or a readable Markdown or HTML transcript.
    */
-  public todo<ThrowOnError extends boolean = false>(
+  public export<ThrowOnError extends boolean = false>(
     parameters: {
       sessionID: string
       directory?: string
+      format?: "json" | "markdown" | "html" | "jsonl"
     },
     options?: Options<never, ThrowOnError>,
   ) {
@@ -905,12 +1737,14 @@ export class Session extends HeyApiClient {
           args: [
             { in: "path", key: "sessionID" },
             { in: "query", key: "directory" },
+            { in: "query", key: "format" },
           ],
         },
       ],
     )
-    return (options?.client ?? this.client).get<SessionTodoResponses, SessionTodoErrors, ThrowOnError>({
-      url: "/session/{sessionID}/todo",
+    return (options?.client ?? this.client).get<SessionExportResponses, SessionExportErrors, ThrowOnError>({
+      parseAs: "text",
+      url: "/session/{sessionID}/export",
       ...options,
       ...params,
     })
@@ -1484,6 +2318,129 @@ export class Session extends HeyApiClient {
       ...params,
     })
   }
+
+  compaction = new Compaction({ client: this.client })
+
+  budget = new Budget({ client: this.client })
+
+  queue = new Queue({ client: this.client })
+
+  subagent = new Subagent({ client: this.client })
+
+  verify = new Verify({ client: this.client })
+
+  review = new Review({ client: this.client })
+
+  checkpoint = new Checkpoint({ client: this.client })
+}
+
+export class Rule extends HeyApiClient {
+  /**
+   * List permission rules
+   *
+   * Get the permission rules persisted from 'always' answers for this project and globally.
+   */
+  public list<ThrowOnError extends boolean = false>(
+    parameters?: {
+      directory?: string
+      scope?: "project" | "global"
+    },
+    options?: Options<never, ThrowOnError>,
+  ) {
+    const params = buildClientParams(
+      [parameters],
+      [
+        {
+          args: [
+            { in: "query", key: "directory" },
+            { in: "query", key: "scope" },
+          ],
+        },
+      ],
+    )
+    return (options?.client ?? this.client).get<PermissionRuleListResponses, unknown, ThrowOnError>({
+      url: "/permission/rule",
+      ...options,
+      ...params,
+    })
+  }
+
+  /**
+   * Revoke permission rule
+   *
+   * Delete a persisted permission rule so matching requests prompt again.
+   */
+  public remove<ThrowOnError extends boolean = false>(
+    parameters: {
+      ruleID: string
+      directory?: string
+    },
+    options?: Options<never, ThrowOnError>,
+  ) {
+    const params = buildClientParams(
+      [parameters],
+      [
+        {
+          args: [
+            { in: "path", key: "ruleID" },
+            { in: "query", key: "directory" },
+          ],
+        },
+      ],
+    )
+    return (options?.client ?? this.client).delete<
+      PermissionRuleRemoveResponses,
+      PermissionRuleRemoveErrors,
+      ThrowOnError
+    >({
+      url: "/permission/rule/{ruleID}",
+      ...options,
+      ...params,
+    })
+  }
+
+  /**
+   * Update permission rule
+   *
+   * Change the pattern or scope of a persisted permission rule.
+   */
+  public update<ThrowOnError extends boolean = false>(
+    parameters: {
+      ruleID: string
+      directory?: string
+      pattern?: string
+      scope?: "project" | "global"
+    },
+    options?: Options<never, ThrowOnError>,
+  ) {
+    const params = buildClientParams(
+      [parameters],
+      [
+        {
+          args: [
+            { in: "path", key: "ruleID" },
+            { in: "query", key: "directory" },
+            { in: "body", key: "pattern" },
+            { in: "body", key: "scope" },
+          ],
+        },
+      ],
+    )
+    return (options?.client ?? this.client).patch<
+      PermissionRuleUpdateResponses,
+      PermissionRuleUpdateErrors,
+      ThrowOnError
+    >({
+      url: "/permission/rule/{ruleID}",
+      ...options,
+      ...params,
+      headers: {
+        "Content-Type": "application/json",
+        ...options?.headers,
+        ...params.headers,
+      },
+    })
+  }
 }
 
 export class Permission extends HeyApiClient {
@@ -1525,6 +2482,108 @@ export class Permission extends HeyApiClient {
       },
     })
   }
+
+  rule = new Rule({ client: this.client })
+}
+
+export class Worktree extends HeyApiClient {
+  /**
+   * List worktrees
+   *
+   * List the git worktrees sessions of this project run in.
+   */
+  public list<ThrowOnError extends boolean = false>(
+    parameters?: {
+      directory?: string
+    },
+    options?: Options<never, ThrowOnError>,
+  ) {
+    const params = buildClientParams([parameters], [{ args: [{ in: "query", key: "directory" }] }])
+    return (options?.client ?? this.client).get<WorktreeListResponses, unknown, ThrowOnError>({
+      url: "/worktree",
+      ...options,
+      ...params,
+    })
+  }
+
+  /**
+   * Clean up worktrees
+   *
+   * Remove worktrees left behind by deleted sessions and prune stale git worktree entries.
+   */
+  public cleanup<ThrowOnError extends boolean = false>(
+    parameters?: {
+      directory?: string
+    },
+    options?: Options<never, ThrowOnError>,
+  ) {
+    const params = buildClientParams([parameters], [{ args: [{ in: "query", key: "directory" }] }])
+    return (options?.client ?? this.client).post<WorktreeCleanupResponses, unknown, ThrowOnError>({
+      url: "/worktree/cleanup",
+      ...options,
+      ...params,
+    })
+  }
+
+  /**
+   * Merge worktree
+   *
+   * Commit pending changes of a session worktree, merge its branch into the main checkout and remove the worktree.
+   */
+  public merge<ThrowOnError extends boolean = false>(
+    parameters: {
+      sessionID: string
+      directory?: string
+    },
+    options?: Options<never, ThrowOnError>,
+  ) {
+    const params = buildClientParams(
+      [parameters],
+      [
+        {
+          args: [
+            { in: "path", key: "sessionID" },
+            { in: "query", key: "directory" },
+          ],
+        },
+      ],
+    )
+    return (options?.client ?? this.client).post<WorktreeMergeResponses, WorktreeMergeErrors, ThrowOnError>({
+      url: "/worktree/{sessionID}/merge",
+      ...options,
+      ...params,
+    })
+  }
+
+  /**
+   * Discard worktree
+   *
+   * Remove the worktree and branch of a session without merging its changes.
+   */
+  public discard<ThrowOnError extends boolean = false>(
+    parameters: {
+      sessionID: string
+      directory?: string
+    },
+    options?: Options<never, ThrowOnError>,
+  ) {
+    const params = buildClientParams(
+      [parameters],
+      [
+        {
+          args: [
+            { in: "path", key: "sessionID" },
+            { in: "query", key: "directory" },
+          ],
+        },
+      ],
+    )
+    return (options?.client ?? this.client).delete<WorktreeDiscardResponses, WorktreeDiscardErrors, ThrowOnError>({
+      url: "/worktree/{sessionID}",
+      ...options,
+      ...params,
+    })
+  }
 }
 
 export class Command extends HeyApiClient {
@@ -2083,6 +3142,80 @@ export class Auth extends HeyApiClient {
   }
 }
 
+export class Prompt extends HeyApiClient {
+  /**
+   * List MCP prompts
+   *
+   * List the prompts of every connected MCP server, keyed by the slash command that runs them.
+   */
+  public list<ThrowOnError extends boolean = false>(
+    parameters?: {
+      directory?: string
+    },
+    options?: Options<never, ThrowOnError>,
+  ) {
+    const params = buildClientParams([parameters], [{ args: [{ in: "query", key: "directory" }] }])
+    return (options?.client ?? this.client).get<McpPromptListResponses, unknown, ThrowOnError>({
+      url: "/mcp/prompt",
+      ...options,
+      ...params,
+    })
+  }
+}
+
+export class Resource extends HeyApiClient {
+  /**
+   * List MCP resources
+   *
+   * List the resources of every connected MCP server.
+   */
+  public list<ThrowOnError extends boolean = false>(
+    parameters?: {
+      directory?: string
+    },
+    options?: Options<never, ThrowOnError>,
+  ) {
+    const params = buildClientParams([parameters], [{ args: [{ in: "query", key: "directory" }] }])
+    return (options?.client ?? this.client).get<McpResourceListResponses, unknown, ThrowOnError>({
+      url: "/mcp/resource",
+      ...options,
+      ...params,
+    })
+  }
+
+  /**
+   * Read MCP resource
+   *
+   * Read the contents of a resource from an MCP server.
+   */
+  public read<ThrowOnError extends boolean = false>(
+    parameters: {
+      directory?: string
+      client: string
+      uri: string
+    },
+    options?: Options<never, ThrowOnError>,
+  ) {
+    const params = buildClientParams(
+      [parameters],
+      [
+        {
+          args: [
+            { in: "query", key: "directory" },
+            { in: "query", key: "client" },
+            { in: "query", key: "uri" },
+          ],
+        },
+      ],
+    )
+    return (options?.client ?? this.client).get<McpResourceReadResponses, McpResourceReadErrors, ThrowOnError>({
+      url: "/mcp/resource/read",
+      ...options,
+      ...params,
+    })
+  }
+}
+
 export class Mcp extends HeyApiClient {
   /**
    * Get MCP status
@@ -2197,6 +3330,10 @@ export class Mcp extends HeyApiClient {
   }
 
   auth = new Auth({ client: this.client })
+
+  prompt = new Prompt({ client: this.client })
+
+  resource = new Resource({ client: this.client })
 }
 
 export class Lsp extends HeyApiClient {
@@ -2590,6 +3727,8 @@ export class OpencodeClient extends HeyApiClient {
 
   permission = new Permission({ client: this.client })
 
+  worktree = new Worktree({ client: this.client })
+
   command = new Command({ client: this.client })
 
   provider = new Provider({ client: this.client })
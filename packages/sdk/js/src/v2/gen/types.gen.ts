@@ -121,6 +121,16 @@ export type MessageAbortedError = {
   }
 }
 
+export type BudgetExceededError = {
+  name: "BudgetExceededError"
+  data: {
+    message: string
+    scope: "session" | "agent" | "daily"
+    spent: number
+    limit: number
+  }
+}
+
 export type ApiError = {
   name: "APIError"
   data: {
@@ -142,7 +152,13 @@ export type AssistantMessage = {
     created: number
     completed?: number
   }
-  error?: ProviderAuthError | UnknownError | MessageOutputLengthError | MessageAbortedError | ApiError
+  error?:
+    | ProviderAuthError
+    | UnknownError
+    | MessageOutputLengthError
+    | MessageAbortedError
+    | ApiError
+    | BudgetExceededError
   parentID: string
   modelID: string
   providerID: string
@@ -247,7 +263,14 @@ export type SymbolSource = {
   kind: number
 }
 
-export type FilePartSource = FileSource | SymbolSource
+export type ResourceSource = {
+  text: FilePartSourceText
+  type: "resource"
+  clientName: string
+  uri: string
+}
+
+export type FilePartSource = FileSource | SymbolSource | ResourceSource
 
 export type FilePart = {
   id: string
@@ -394,17 +417,38 @@ export type RetryPart = {
   type: "retry"
   attempt: number
   error: ApiError
+  fallback?: {
+    from: {
+      providerID: string
+      modelID: string
+    }
+    to: {
+      providerID: string
+      modelID: string
+    }
+  }
   time: {
     created: number
   }
 }
 
+export type CompactionSummary = {
+  goals: Array<string>
+  decisions: Array<string>
+  files: Array<string>
+  todos: Array<Todo>
+  next: Array<string>
+  notes: string
+}
+
 export type CompactionPart = {
   id: string
   sessionID: string
   messageID: string
   type: "compaction"
   auto: boolean
+  status?: "draft" | "committed"
+  summary?: CompactionSummary
 }
 
 export type Part =
@@ -477,6 +521,73 @@ export type EventPermissionReplied = {
   }
 }
 
+export type ReviewHunk = {
+  index: number
+  oldStart: number
+  oldLines: number
+  newStart: number
+  newLines: number
+  /**
+   * Unified diff lines of the hunk, prefixed with ' ', '+', '-' or '\'
+   */
+  lines: Array<string>
+  status: "pending" | "accepted" | "rejected"
+  comment?: string
+}
+
+export type Review = {
+  id: string
+  sessionID: string
+  messageID: string
+  callID?: string
+  file: string
+  before: string
+  after: string
+  hunks: Array<ReviewHunk>
+  time: {
+    created: number
+  }
+}
+
+export type EventReviewUpdated = {
+  type: "review.updated"
+  properties: Review
+}
+
+export type EventReviewReplied = {
+  type: "review.replied"
+  properties: {
+    sessionID: string
+    reviewID: string
+  }
+}
+
+export type PermissionRule = {
+  id: string
+  type: string
+  pattern: string
+  scope: "project" | "global"
+  projectID?: string
+  time: {
+    created: number
+    updated: number
+  }
+}
+
+export type EventPermissionRuleUpdated = {
+  type: "permission.rule.updated"
+  properties: {
+    info: PermissionRule
+  }
+}
+
+export type EventPermissionRuleRemoved = {
+  type: "permission.rule.removed"
+  properties: {
+    info: PermissionRule
+  }
+}
+
 export type EventFileEdited = {
   type: "file.edited"
   properties: {
@@ -547,6 +658,148 @@ export type EventSessionCompacted = {
   }
 }
 
+export type EventSessionCompactionDrafted = {
+  type: "session.compaction.drafted"
+  properties: {
+    sessionID: string
+    messageID: string
+  }
+}
+
+export type BudgetUsage = {
+  scope: "session" | "agent" | "daily"
+  spent: number
+  limit: number
+}
+
+export type EventSessionBudgetWarning = {
+  type: "session.budget.warning"
+  properties: {
+    sessionID: string
+    usage: BudgetUsage
+  }
+}
+
+export type QueuedPrompt = {
+  sessionID: string
+  model?: {
+    providerID: string
+    modelID: string
+  }
+  agent?: string
+  noReply?: boolean
+  tools?: {
+    [key: string]: boolean
+  }
+  system?: string
+  parts: Array<TextPartInput | FilePartInput | AgentPartInput | SubtaskPartInput>
+  id: string
+  time: {
+    created: number
+  }
+}
+
+export type EventSessionPromptQueued = {
+  type: "session.prompt.queued"
+  properties: {
+    info: QueuedPrompt
+  }
+}
+
+export type EventSessionPromptDequeued = {
+  type: "session.prompt.dequeued"
+  properties: {
+    sessionID: string
+    id: string
+    messageID?: string
+  }
+}
+
+export type Subagent = {
+  sessionID: string
+  parentID: string
+  agent: string
+  description: string
+  status: "queued" | "running" | "completed" | "error" | "cancelled"
+  /**
+   * Tool the subagent is running right now
+   */
+  tool?: string
+  cost: number
+  tokens: {
+    input: number
+    output: number
+  }
+  time: {
+    created: number
+    started?: number
+    completed?: number
+  }
+}
+
+export type EventSessionSubagentUpdated = {
+  type: "session.subagent.updated"
+  properties: {
+    info: Subagent
+  }
+}
+
+export type VerifyCheck = {
+  name: string
+  command: Array<string>
+  status: "running" | "passed" | "failed" | "timeout"
+  code?: number | null
+  output?: string
+  time: {
+    start: number
+    end?: number
+  }
+}
+
+export type SessionVerify = {
+  sessionID: string
+  /**
+   * Assistant message whose changes were checked
+   */
+  messageID: string
+  status: "running" | "passed" | "failed"
+  /**
+   * Number of times failures were sent back to the agent this turn
+   */
+  iteration: number
+  max: number
+  files: Array<string>
+  checks: Array<VerifyCheck>
+  time: {
+    start: number
+    end?: number
+  }
+}
+
+export type EventSessionVerifyUpdated = {
+  type: "session.verify.updated"
+  properties: {
+    info: SessionVerify
+  }
+}
+
+export type Checkpoint = {
+  id: string
+  sessionID: string
+  name: string
+  /**
+   * Last message of the session when it was created
+   */
+  messageID?: string
+  /**
+   * Snapshot of the files, missing outside of git projects
+   */
+  snapshot?: string
+  time: {
+    created: number
+  }
+}
+
 export type EventCommandExecuted = {
   type: "command.executed"
   properties: {
@@ -585,6 +838,28 @@ export type Session = {
     snapshot?: string
     diff?: string
   }
+  budget?: {
+    raised: number
+  }
+  worktree?: {
+    branch: string
+    base: string
+  }
+  /**
+   * Spend of subagent sessions, including their own subagents
+   */
+  rollup?: {
+    cost: number
+    tokens: {
+      input: number
+      output: number
+      reasoning: number
+      cache: {
+        read: number
+        write: number
+      }
+    }
+  }
 }
 
 export type EventSessionCreated = {
@@ -620,7 +895,13 @@ export type EventSessionError = {
   type: "session.error"
   properties: {
     sessionID?: string
-    error?: ProviderAuthError | UnknownError | MessageOutputLengthError | MessageAbortedError | ApiError
+    error?:
+      | ProviderAuthError
+      | UnknownError
+      | MessageOutputLengthError
+      | MessageAbortedError
+      | ApiError
+      | BudgetExceededError
   }
 }
 
@@ -720,6 +1001,32 @@ export type EventPtyDeleted = {
   }
 }
 
+export type ScheduleRun = {
+  sessionID: string
+  status: "running" | "completed" | "error"
+  error?: string
+  time: {
+    started: number
+    completed?: number
+  }
+}
+
+export type EventScheduleStarted = {
+  type: "schedule.started"
+  properties: {
+    id: string
+    sessionID: string
+  }
+}
+
+export type EventScheduleCompleted = {
+  type: "schedule.completed"
+  properties: {
+    id: string
+    run: ScheduleRun
+  }
+}
+
 export type EventServerConnected = {
   type: "server.connected"
   properties: {
@@ -747,11 +1054,21 @@ export type Event =
   | EventMessagePartRemoved
   | EventPermissionUpdated
   | EventPermissionReplied
+  | EventReviewUpdated
+  | EventReviewReplied
+  | EventPermissionRuleUpdated
+  | EventPermissionRuleRemoved
   | EventFileEdited
   | EventTodoUpdated
   | EventSessionStatus
   | EventSessionIdle
   | EventSessionCompacted
+  | EventSessionCompactionDrafted
+  | EventSessionBudgetWarning
+  | EventSessionPromptQueued
+  | EventSessionPromptDequeued
+  | EventSessionSubagentUpdated
+  | EventSessionVerifyUpdated
   | EventCommandExecuted
   | EventSessionCreated
   | EventSessionUpdated
@@ -767,6 +1084,8 @@ export type Event =
   | EventPtyUpdated
   | EventPtyExited
   | EventPtyDeleted
+  | EventScheduleStarted
+  | EventScheduleCompleted
   | EventServerConnected
   | EventGlobalDisposed
 
@@ -1125,7 +1444,10 @@ export type KeybindsConfig = {
 }
 
 export type AgentConfig = {
-  model?: string
+  /**
+   * Model to use in the format of provider/model, or a list of models to fall back to in order on rate limit, overload or context length errors
+   */
+  model?: string | Array<string>
   temperature?: number
   top_p?: number
   prompt?: string
@@ -1147,7 +1469,10 @@ export type AgentConfig = {
    */
   maxSteps?: number
   permission?: {
-    edit?: "ask" | "allow" | "deny"
+    /**
+     * 'review' holds edits as hunks to accept, reject or comment on before they are written
+     */
+    edit?: "ask" | "allow" | "deny" | "review"
     bash?:
       | "ask"
       | "allow"
@@ -1173,7 +1498,10 @@ export type AgentConfig = {
     | string
     | number
     | {
-        edit?: "ask" | "allow" | "deny"
+        /**
+         * 'review' holds edits as hunks to accept, reject or comment on before they are written
+         */
+        edit?: "ask" | "allow" | "deny" | "review"
         bash?:
           | "ask"
           | "allow"
@@ -1335,8 +1663,96 @@ export type McpRemoteConfig = {
 /**
  * @deprecated Always uses stretch layout.
  */
+export type HookConfig = {
+  command: Array<string>
+  environment?: {
+    [key: string]: string
+  }
+  /**
+   * Milliseconds before the command is stopped and counted as failed, defaults to 60000
+   */
+  timeout?: number
+}
+
+export type VerifyConfig = {
+  /**
+   * Command to run, an argument of `$FILES` is replaced with the changed files that match `files`
+   */
+  command: Array<string>
+  /**
+   * Globs relative to the worktree, the check only runs when a changed file matches one of them
+   */
+  files?: Array<string>
+  environment?: {
+    [key: string]: string
+  }
+  /**
+   * Milliseconds before the command is stopped and counted as failed, defaults to 120000
+   */
+  timeout?: number
+  disabled?: boolean
+}
+
+export type ScheduleConfig = {
+  /**
+   * Five field cron expression in local time, or an alias like @hourly or @daily
+   */
+  cron: string
+  /**
+   * Prompt to send, mutually exclusive with command
+   */
+  prompt?: string
+  /**
+   * Command to run instead of a prompt
+   */
+  command?: string
+  /**
+   * Arguments passed to the command
+   */
+  arguments?: string
+  /**
+   * Agent to run the job with, defaults to build
+   */
+  agent?: string
+  /**
+   * Model to use in the format of provider/model
+   */
+  model?: string
+  /**
+   * Project directory to run in, relative paths resolve against the directory the server runs in
+   */
+  directory?: string
+  /**
+   * Title of the sessions the job creates
+   */
+  title?: string
+  disabled?: boolean
+}
+
 export type LayoutConfig = "auto" | "stretch"
 
+export type ShareMode = "manual" | "auto" | "disabled"
+
+export type ShareConfig = {
+  mode?: ShareMode
+  /**
+   * URL of the share server, eg a self-hosted one
+   */
+  url?: string
+  /**
+   * Token sent to the share server as a bearer token
+   */
+  token?: string
+  /**
+   * Days after which shared sessions are removed
+   */
+  expires?: number
+  /**
+   * Password required to view shared sessions
+   */
+  password?: string
+}
+
 export type Config = {
   /**
    * JSON schema reference for configuration validation
@@ -1385,11 +1801,37 @@ export type Config = {
     ignore?: Array<string>
   }
   plugin?: Array<string>
-  snapshot?: boolean
+  /**
+   * Track file changes of each step so they can be reverted. Set to false to disable
+   */
+  snapshot?:
+    | boolean
+    | {
+        /**
+         * Gitignore style patterns of files to leave out of snapshots, eg binary assets
+         */
+        exclude?: Array<string>
+        /**
+         * Leave files larger than this many bytes out of snapshots
+         */
+        max_file_size?: number
+        /**
+         * Days to keep snapshots of session steps. Checkpoints are always kept
+         */
+        max_age?: number
+        /**
+         * Megabytes the snapshots of a project may use before the oldest ones are dropped
+         */
+        max_size?: number
+        /**
+         * Collect unused snapshots when a session is deleted. Defaults to true
+         */
+        gc?: boolean
+      }
   /**
    * Control sharing behavior:'manual' allows manual sharing via commands, 'auto' enables automatic sharing, 'disabled' disables all sharing
    */
-  share?: "manual" | "auto" | "disabled"
+  share?: ShareMode | ShareConfig
   /**
    * @deprecated Use 'share' field instead. Share newly created sessions automatically
    */
@@ -1488,7 +1930,10 @@ export type Config = {
   instructions?: Array<string>
   layout?: LayoutConfig
   permission?: {
-    edit?: "ask" | "allow" | "deny"
+    /**
+     * 'review' holds edits as hunks to accept, reject or comment on before they are written
+     */
+    edit?: "ask" | "allow" | "deny" | "review"
     bash?:
       | "ask"
       | "allow"
@@ -1503,28 +1948,103 @@ export type Config = {
   tools?: {
     [key: string]: boolean
   }
-  enterprise?: {
+  compaction?: {
     /**
-     * Enterprise URL
+     * Hold compaction summaries as drafts until they are reviewed and committed, instead of applying them right away
      */
-    url?: string
+    review?: boolean
+  }
+  /**
+   * Spend limits that stop the agent loop once reached
+   */
+  budget?: {
+    /**
+     * Maximum spend in USD for a single session
+     */
+    session?: number
+    /**
+     * Maximum spend in USD within a single session for each agent
+     */
+    agent?: {
+      [key: string]: number
+    }
+    /**
+     * Maximum spend in USD per project per day
+     */
+    daily?: number
+    /**
+     * Fraction of a limit at which to warn, defaults to 0.8
+     */
+    warn?: number
+  }
+  /**
+   * Subagent settings
+   */
+  subagent?: {
+    /**
+     * Maximum number of subagents a session runs at once, others wait for a free slot
+     */
+    concurrency?: number
+  }
+  /**
+   * Checks that run after each step that changed files, failures are sent back to the agent to fix
+   */
+  verify?: {
+    /**
+     * Check commands keyed by name, eg typecheck, lint or test
+     */
+    check?: {
+      [key: string]: VerifyConfig
+    }
+    /**
+     * Maximum number of times failures are sent back to the agent in one turn, defaults to 3
+     */
+    max_iterations?: number
+  }
+  /**
+   * Recurring jobs keyed by id that `serve` runs headlessly
+   */
+  schedule?: {
+    [key: string]: ScheduleConfig
+  }
+  enterprise?: {
+    /**
+     * Enterprise URL
+     */
+    url?: string
   }
   experimental?: {
     hook?: {
+      /**
+       * Commands keyed by glob of the edited file, failures are reported to the agent
+       */
       file_edited?: {
-        [key: string]: Array<{
-          command: Array<string>
-          environment?: {
-            [key: string]: string
-          }
-        }>
+        [key: string]: Array<HookConfig>
       }
-      session_completed?: Array<{
-        command: Array<string>
-        environment?: {
-          [key: string]: string
-        }
-      }>
+      /**
+       * Commands run when a session goes idle
+       */
+      session_completed?: Array<HookConfig>
+      /**
+       * Commands keyed by tool name pattern, a non-zero exit blocks the tool call
+       */
+      pre_tool?: {
+        [key: string]: Array<HookConfig>
+      }
+      /**
+       * Commands keyed by tool name pattern, failures are added to the tool output
+       */
+      post_tool?: {
+        [key: string]: Array<HookConfig>
+      }
+      /**
+       * Commands run before a prompt, a non-zero exit rejects it
+       */
+      pre_prompt?: Array<HookConfig>
+      /**
+       * Commands run when a permission is asked, printing allow or deny answers it
+       */
+      permission_asked?: Array<HookConfig>
     }
     /**
      * Number of retries for chat completions on failure
@@ -1623,6 +2143,12 @@ export type Command = {
   model?: string
   template: string
   subtask?: boolean
+  mcp?: boolean
+  arguments?: Array<{
+    name: string
+    description?: string
+    required?: boolean
+  }>
 }
 
 export type Model = {
@@ -1771,7 +2297,10 @@ export type Agent = {
   temperature?: number
   color?: string
   permission: {
-    edit: "ask" | "allow" | "deny"
+    /**
+     * 'review' holds edits as hunks to accept, reject or comment on before they are written
+     */
+    edit: "ask" | "allow" | "deny" | "review"
     bash: {
       [key: string]: "ask" | "allow" | "deny"
     }
@@ -1783,6 +2312,10 @@ export type Agent = {
     modelID: string
     providerID: string
   }
+  fallback?: Array<{
+    modelID: string
+    providerID: string
+  }>
   prompt?: string
   tools: {
     [key: string]: boolean
@@ -1822,6 +2355,32 @@ export type McpStatus =
   | McpStatusNeedsAuth
   | McpStatusNeedsClientRegistration
 
+export type McpPrompt = {
+  client: string
+  name: string
+  description?: string
+  arguments?: Array<{
+    name: string
+    description?: string
+    required?: boolean
+  }>
+}
+
+export type McpResource = {
+  client: string
+  name: string
+  uri: string
+  description?: string
+  mimeType?: string
+}
+
+export type McpResourceContent = {
+  uri: string
+  mimeType?: string
+  text?: string
+  blob?: string
+}
+
 export type LspStatus = {
   id: string
   name: string
@@ -2315,6 +2874,7 @@ export type SessionCreateData = {
   body?: {
     parentID?: string
     title?: string
+    worktree?: boolean
   }
   path?: never
   query?: {
@@ -2543,6 +3103,92 @@ export type SessionTodoResponses = {
 
 export type SessionTodoResponse = SessionTodoResponses[keyof SessionTodoResponses]
 
+export type SessionSearchResult = {
+  session: Session
+  score: number
+  snippet?: string
+  files: Array<string>
+}
+
+export type SessionSearchData = {
+  body?: never
+  path?: never
+  query: {
+    directory?: string
+    /**
+     * Text to search for
+     */
+    query: string
+    /**
+     * Maximum number of results
+     */
+    limit?: number
+    /**
+     * Only search sessions of this project
+     */
+    projectID?: string
+  }
+  url: "/session/search"
+}
+
+export type SessionSearchErrors = {
+  /**
+   * Bad request
+   */
+  400: BadRequestError
+}
+
+export type SessionSearchError = SessionSearchErrors[keyof SessionSearchErrors]
+
+export type SessionSearchResponses = {
+  /**
+   * Matching sessions, best match first
+   */
+  200: Array<SessionSearchResult>
+}
+
+export type SessionSearchResponse = SessionSearchResponses[keyof SessionSearchResponses]
+
+export type SessionExportData = {
+  body?: never
+  path: {
+    /**
+     * Session ID
+     */
+    sessionID: string
+  }
+  query?: {
+    directory?: string
+    /**
+     * Export format, defaults to markdown
+     */
+    format?: "json" | "markdown" | "html" | "jsonl"
+  }
+  url: "/session/{sessionID}/export"
+}
+
+export type SessionExportErrors = {
+  /**
+   * Bad request
+   */
+  400: BadRequestError
+  /**
+   * Not found
+   */
+  404: NotFoundError
+}
+
+export type SessionExportError = SessionExportErrors[keyof SessionExportErrors]
+
+export type SessionExportResponses = {
+  /**
+   * Exported session
+   */
+  200: string
+}
+
+export type SessionExportResponse = SessionExportResponses[keyof SessionExportResponses]
+
 export type SessionInitData = {
   body?: {
     modelID: string
@@ -2780,7 +3426,17 @@ export type SessionSummarizeResponses = {
 
 export type SessionSummarizeResponse = SessionSummarizeResponses[keyof SessionSummarizeResponses]
 
-export type SessionMessagesData = {
+export type Compaction = {
+  messageID: string
+  auto: boolean
+  status: "pending" | "draft" | "committed"
+  summary?: CompactionSummary
+  time: {
+    created: number
+  }
+}
+
+export type SessionBudgetGetData = {
   body?: never
   path: {
     /**
@@ -2790,12 +3446,15 @@ export type SessionMessagesData = {
   }
   query?: {
     directory?: string
-    limit?: number
+    /**
+     * Agent to check agent limits for
+     */
+    agent?: string
   }
-  url: "/session/{sessionID}/message"
+  url: "/session/{sessionID}/budget"
 }
 
-export type SessionMessagesErrors = {
+export type SessionBudgetGetErrors = {
   /**
    * Bad request
    */
@@ -2806,34 +3465,23 @@ export type SessionMessagesErrors = {
   404: NotFoundError
 }
 
-export type SessionMessagesError = SessionMessagesErrors[keyof SessionMessagesErrors]
+export type SessionBudgetGetError = SessionBudgetGetErrors[keyof SessionBudgetGetErrors]
 
-export type SessionMessagesResponses = {
+export type SessionBudgetGetResponses = {
   /**
-   * List of messages
+   * Spend per budget limit
    */
-  200: Array<{
-    info: Message
-    parts: Array<Part>
-  }>
+  200: Array<BudgetUsage>
 }
 
-export type SessionMessagesResponse = SessionMessagesResponses[keyof SessionMessagesResponses]
+export type SessionBudgetGetResponse = SessionBudgetGetResponses[keyof SessionBudgetGetResponses]
 
-export type SessionPromptData = {
+export type SessionBudgetRaiseData = {
   body?: {
-    messageID?: string
-    model?: {
-      providerID: string
-      modelID: string
-    }
-    agent?: string
-    noReply?: boolean
-    tools?: {
-      [key: string]: boolean
-    }
-    system?: string
-    parts: Array<TextPartInput | FilePartInput | AgentPartInput | SubtaskPartInput>
+    /**
+     * Amount in USD to add to each limit
+     */
+    amount: number
   }
   path: {
     /**
@@ -2844,10 +3492,10 @@ export type SessionPromptData = {
   query?: {
     directory?: string
   }
-  url: "/session/{sessionID}/message"
+  url: "/session/{sessionID}/budget"
 }
 
-export type SessionPromptErrors = {
+export type SessionBudgetRaiseErrors = {
   /**
    * Bad request
    */
@@ -2858,91 +3506,68 @@ export type SessionPromptErrors = {
   404: NotFoundError
 }
 
-export type SessionPromptError = SessionPromptErrors[keyof SessionPromptErrors]
+export type SessionBudgetRaiseError = SessionBudgetRaiseErrors[keyof SessionBudgetRaiseErrors]
 
-export type SessionPromptResponses = {
+export type SessionBudgetRaiseResponses = {
   /**
-   * Created message
+   * Updated session
    */
-  200: {
-    info: AssistantMessage
-    parts: Array<Part>
-  }
+  200: Session
 }
 
-export type SessionPromptResponse = SessionPromptResponses[keyof SessionPromptResponses]
+export type SessionBudgetRaiseResponse = SessionBudgetRaiseResponses[keyof SessionBudgetRaiseResponses]
 
-export type SessionMessageData = {
+export type SessionQueueListData = {
   body?: never
   path: {
     /**
      * Session ID
      */
     sessionID: string
-    /**
-     * Message ID
-     */
-    messageID: string
   }
   query?: {
     directory?: string
   }
-  url: "/session/{sessionID}/message/{messageID}"
+  url: "/session/{sessionID}/queue"
 }
 
-export type SessionMessageErrors = {
+export type SessionQueueListErrors = {
   /**
    * Bad request
    */
   400: BadRequestError
-  /**
-   * Not found
-   */
-  404: NotFoundError
 }
 
-export type SessionMessageError = SessionMessageErrors[keyof SessionMessageErrors]
+export type SessionQueueListError = SessionQueueListErrors[keyof SessionQueueListErrors]
 
-export type SessionMessageResponses = {
+export type SessionQueueListResponses = {
   /**
-   * Message
+   * Queued prompts in the order they are sent
    */
-  200: {
-    info: Message
-    parts: Array<Part>
-  }
+  200: Array<QueuedPrompt>
 }
 
-export type SessionMessageResponse = SessionMessageResponses[keyof SessionMessageResponses]
+export type SessionQueueListResponse = SessionQueueListResponses[keyof SessionQueueListResponses]
 
-export type SessionPromptAsyncData = {
-  body?: {
-    messageID?: string
-    model?: {
-      providerID: string
-      modelID: string
-    }
-    agent?: string
-    noReply?: boolean
-    tools?: {
-      [key: string]: boolean
-    }
-    system?: string
-    parts: Array<TextPartInput | FilePartInput | AgentPartInput | SubtaskPartInput>
-  }
+export type SessionQueueRemoveData = {
+  body?: never
   path: {
     /**
      * Session ID
      */
     sessionID: string
+    /**
+     * Queued prompt ID
+     */
+    queueID: string
   }
   query?: {
     directory?: string
   }
-  url: "/session/{sessionID}/prompt_async"
+  url: "/session/{sessionID}/queue/{queueID}"
 }
 
-export type SessionPromptAsyncErrors = {
+export type SessionQueueRemoveErrors = {
   /**
    * Bad request
    */
@@ -2953,38 +3578,38 @@ export type SessionPromptAsyncErrors = {
   404: NotFoundError
 }
 
-export type SessionPromptAsyncError = SessionPromptAsyncErrors[keyof SessionPromptAsyncErrors]
+export type SessionQueueRemoveError = SessionQueueRemoveErrors[keyof SessionQueueRemoveErrors]
 
-export type SessionPromptAsyncResponses = {
+export type SessionQueueRemoveResponses = {
   /**
-   * Prompt accepted
+   * Removed queued prompt
    */
-  204: void
+  200: boolean
 }
 
-export type SessionPromptAsyncResponse = SessionPromptAsyncResponses[keyof SessionPromptAsyncResponses]
+export type SessionQueueRemoveResponse = SessionQueueRemoveResponses[keyof SessionQueueRemoveResponses]
 
-export type SessionCommandData = {
+export type SessionQueueUpdateData = {
   body?: {
-    messageID?: string
-    agent?: string
-    model?: string
-    arguments: string
-    command: string
+    parts: Array<TextPartInput | FilePartInput | AgentPartInput | SubtaskPartInput>
   }
   path: {
     /**
      * Session ID
      */
     sessionID: string
+    /**
+     * Queued prompt ID
+     */
+    queueID: string
   }
   query?: {
     directory?: string
   }
-  url: "/session/{sessionID}/command"
+  url: "/session/{sessionID}/queue/{queueID}"
 }
 
-export type SessionCommandErrors = {
+export type SessionQueueUpdateErrors = {
   /**
    * Bad request
    */
@@ -2995,29 +3620,798 @@ export type SessionCommandErrors = {
   404: NotFoundError
 }
 
-export type SessionCommandError = SessionCommandErrors[keyof SessionCommandErrors]
+export type SessionQueueUpdateError = SessionQueueUpdateErrors[keyof SessionQueueUpdateErrors]
 
-export type SessionCommandResponses = {
+export type SessionQueueUpdateResponses = {
   /**
-   * Created message
+   * Updated queued prompt
    */
-  200: {
-    info: AssistantMessage
-    parts: Array<Part>
-  }
+  200: QueuedPrompt
 }
 
-export type SessionCommandResponse = SessionCommandResponses[keyof SessionCommandResponses]
+export type SessionQueueUpdateResponse = SessionQueueUpdateResponses[keyof SessionQueueUpdateResponses]
 
-export type SessionShellData = {
-  body?: {
-    agent: string
-    model?: {
-      providerID: string
-      modelID: string
-    }
-    command: string
-  }
+export type SessionSubagentListData = {
+  body?: never
+  path: {
+    /**
+     * Session ID
+     */
+    sessionID: string
+  }
+  query?: {
+    directory?: string
+  }
+  url: "/session/{sessionID}/subagent"
+}
+
+export type SessionSubagentListErrors = {
+  /**
+   * Bad request
+   */
+  400: BadRequestError
+}
+
+export type SessionSubagentListError = SessionSubagentListErrors[keyof SessionSubagentListErrors]
+
+export type SessionSubagentListResponses = {
+  /**
+   * Subagents, oldest first
+   */
+  200: Array<Subagent>
+}
+
+export type SessionSubagentListResponse = SessionSubagentListResponses[keyof SessionSubagentListResponses]
+
+export type SessionVerifyGetData = {
+  body?: never
+  path: {
+    /**
+     * Session ID
+     */
+    sessionID: string
+  }
+  query?: {
+    directory?: string
+  }
+  url: "/session/{sessionID}/verify"
+}
+
+export type SessionVerifyGetErrors = {
+  /**
+   * Bad request
+   */
+  400: BadRequestError
+}
+
+export type SessionVerifyGetError = SessionVerifyGetErrors[keyof SessionVerifyGetErrors]
+
+export type SessionVerifyGetResponses = {
+  /**
+   * Latest verification, if any ran
+   */
+  200: SessionVerify
+}
+
+export type SessionVerifyGetResponse = SessionVerifyGetResponses[keyof SessionVerifyGetResponses]
+
+export type SessionSubagentCancelData = {
+  body?: never
+  path: {
+    /**
+     * Session ID
+     */
+    sessionID: string
+    /**
+     * Session ID of the subagent
+     */
+    childID: string
+  }
+  query?: {
+    directory?: string
+  }
+  url: "/session/{sessionID}/subagent/{childID}/cancel"
+}
+
+export type SessionSubagentCancelErrors = {
+  /**
+   * Bad request
+   */
+  400: BadRequestError
+}
+
+export type SessionSubagentCancelError = SessionSubagentCancelErrors[keyof SessionSubagentCancelErrors]
+
+export type SessionSubagentCancelResponses = {
+  /**
+   * Whether the subagent was cancelled
+   */
+  200: boolean
+}
+
+export type SessionSubagentCancelResponse = SessionSubagentCancelResponses[keyof SessionSubagentCancelResponses]
+
+export type ReviewDecision = {
+  index: number
+  status?: "accepted" | "rejected"
+  comment?: string
+}
+
+export type SessionReviewListData = {
+  body?: never
+  path: {
+    /**
+     * Session ID
+     */
+    sessionID: string
+  }
+  query?: {
+    directory?: string
+  }
+  url: "/session/{sessionID}/review"
+}
+
+export type SessionReviewListErrors = {
+  /**
+   * Bad request
+   */
+  400: BadRequestError
+}
+
+export type SessionReviewListError = SessionReviewListErrors[keyof SessionReviewListErrors]
+
+export type SessionReviewListResponses = {
+  /**
+   * Pending reviews, oldest first
+   */
+  200: Array<Review>
+}
+
+export type SessionReviewListResponse = SessionReviewListResponses[keyof SessionReviewListResponses]
+
+export type SessionReviewRespondData = {
+  body?: {
+    hunks: Array<ReviewDecision>
+  }
+  path: {
+    /**
+     * Session ID
+     */
+    sessionID: string
+    /**
+     * Review ID
+     */
+    reviewID: string
+  }
+  query?: {
+    directory?: string
+  }
+  url: "/session/{sessionID}/review/{reviewID}"
+}
+
+export type SessionReviewRespondErrors = {
+  /**
+   * Bad request
+   */
+  400: BadRequestError
+}
+
+export type SessionReviewRespondError = SessionReviewRespondErrors[keyof SessionReviewRespondErrors]
+
+export type SessionReviewRespondResponses = {
+  /**
+   * Whether the review was found
+   */
+  200: boolean
+}
+
+export type SessionReviewRespondResponse = SessionReviewRespondResponses[keyof SessionReviewRespondResponses]
+
+export type SessionCheckpointListData = {
+  body?: never
+  path: {
+    /**
+     * Session ID
+     */
+    sessionID: string
+  }
+  query?: {
+    directory?: string
+  }
+  url: "/session/{sessionID}/checkpoint"
+}
+
+export type SessionCheckpointListErrors = {
+  /**
+   * Bad request
+   */
+  400: BadRequestError
+}
+
+export type SessionCheckpointListError = SessionCheckpointListErrors[keyof SessionCheckpointListErrors]
+
+export type SessionCheckpointListResponses = {
+  /**
+   * Checkpoints
+   */
+  200: Array<Checkpoint>
+}
+
+export type SessionCheckpointListResponse = SessionCheckpointListResponses[keyof SessionCheckpointListResponses]
+
+export type SessionCheckpointCreateData = {
+  body?: {
+    name: string
+  }
+  path: {
+    /**
+     * Session ID
+     */
+    sessionID: string
+  }
+  query?: {
+    directory?: string
+  }
+  url: "/session/{sessionID}/checkpoint"
+}
+
+export type SessionCheckpointCreateErrors = {
+  /**
+   * Bad request
+   */
+  400: BadRequestError
+  /**
+   * Not found
+   */
+  404: NotFoundError
+}
+
+export type SessionCheckpointCreateError = SessionCheckpointCreateErrors[keyof SessionCheckpointCreateErrors]
+
+export type SessionCheckpointCreateResponses = {
+  /**
+   * Created checkpoint
+   */
+  200: Checkpoint
+}
+
+export type SessionCheckpointCreateResponse = SessionCheckpointCreateResponses[keyof SessionCheckpointCreateResponses]
+
+export type SessionCheckpointRemoveData = {
+  body?: never
+  path: {
+    /**
+     * Session ID
+     */
+    sessionID: string
+    /**
+     * Checkpoint ID
+     */
+    checkpointID: string
+  }
+  query?: {
+    directory?: string
+  }
+  url: "/session/{sessionID}/checkpoint/{checkpointID}"
+}
+
+export type SessionCheckpointRemoveErrors = {
+  /**
+   * Bad request
+   */
+  400: BadRequestError
+  /**
+   * Not found
+   */
+  404: NotFoundError
+}
+
+export type SessionCheckpointRemoveError = SessionCheckpointRemoveErrors[keyof SessionCheckpointRemoveErrors]
+
+export type SessionCheckpointRemoveResponses = {
+  /**
+   * Removed checkpoint
+   */
+  200: boolean
+}
+
+export type SessionCheckpointRemoveResponse = SessionCheckpointRemoveResponses[keyof SessionCheckpointRemoveResponses]
+
+export type SessionCheckpointRestoreData = {
+  body?: never
+  path: {
+    /**
+     * Session ID
+     */
+    sessionID: string
+    /**
+     * Checkpoint ID
+     */
+    checkpointID: string
+  }
+  query?: {
+    directory?: string
+  }
+  url: "/session/{sessionID}/checkpoint/{checkpointID}/restore"
+}
+
+export type SessionCheckpointRestoreErrors = {
+  /**
+   * Bad request
+   */
+  400: BadRequestError
+  /**
+   * Not found
+   */
+  404: NotFoundError
+}
+
+export type SessionCheckpointRestoreError = SessionCheckpointRestoreErrors[keyof SessionCheckpointRestoreErrors]
+
+export type SessionCheckpointRestoreResponses = {
+  /**
+   * The forked session
+   */
+  200: Session
+}
+
+export type SessionCheckpointRestoreResponse =
+  SessionCheckpointRestoreResponses[keyof SessionCheckpointRestoreResponses]
+
+export type SessionCheckpointDiffData = {
+  body?: never
+  path: {
+    /**
+     * Session ID
+     */
+    sessionID: string
+    /**
+     * Checkpoint ID
+     */
+    checkpointID: string
+  }
+  query?: {
+    directory?: string
+    /**
+     * Checkpoint ID to compare with, the current files if left out
+     */
+    to?: string
+  }
+  url: "/session/{sessionID}/checkpoint/{checkpointID}/diff"
+}
+
+export type SessionCheckpointDiffErrors = {
+  /**
+   * Bad request
+   */
+  400: BadRequestError
+  /**
+   * Not found
+   */
+  404: NotFoundError
+}
+
+export type SessionCheckpointDiffError = SessionCheckpointDiffErrors[keyof SessionCheckpointDiffErrors]
+
+export type SessionCheckpointDiffResponses = {
+  /**
+   * List of diffs
+   */
+  200: Array<FileDiff>
+}
+
+export type SessionCheckpointDiffResponse = SessionCheckpointDiffResponses[keyof SessionCheckpointDiffResponses]
+
+export type SessionCompactionListData = {
+  body?: never
+  path: {
+    /**
+     * Session ID
+     */
+    sessionID: string
+  }
+  query?: {
+    directory?: string
+  }
+  url: "/session/{sessionID}/compaction"
+}
+
+export type SessionCompactionListErrors = {
+  /**
+   * Bad request
+   */
+  400: BadRequestError
+  /**
+   * Not found
+   */
+  404: NotFoundError
+}
+
+export type SessionCompactionListError = SessionCompactionListErrors[keyof SessionCompactionListErrors]
+
+export type SessionCompactionListResponses = {
+  /**
+   * List of compactions
+   */
+  200: Array<Compaction>
+}
+
+export type SessionCompactionListResponse = SessionCompactionListResponses[keyof SessionCompactionListResponses]
+
+export type SessionCompactionUndoData = {
+  body?: never
+  path: {
+    /**
+     * Session ID
+     */
+    sessionID: string
+    /**
+     * Compaction message ID
+     */
+    messageID: string
+  }
+  query?: {
+    directory?: string
+  }
+  url: "/session/{sessionID}/compaction/{messageID}"
+}
+
+export type SessionCompactionUndoErrors = {
+  /**
+   * Bad request
+   */
+  400: BadRequestError
+  /**
+   * Not found
+   */
+  404: NotFoundError
+}
+
+export type SessionCompactionUndoError = SessionCompactionUndoErrors[keyof SessionCompactionUndoErrors]
+
+export type SessionCompactionUndoResponses = {
+  /**
+   * Compaction undone
+   */
+  200: boolean
+}
+
+export type SessionCompactionUndoResponse = SessionCompactionUndoResponses[keyof SessionCompactionUndoResponses]
+
+export type SessionCompactionUpdateData = {
+  body?: {
+    goals?: Array<string>
+    decisions?: Array<string>
+    files?: Array<string>
+    todos?: Array<Todo>
+    next?: Array<string>
+    notes?: string
+  }
+  path: {
+    /**
+     * Session ID
+     */
+    sessionID: string
+    /**
+     * Compaction message ID
+     */
+    messageID: string
+  }
+  query?: {
+    directory?: string
+  }
+  url: "/session/{sessionID}/compaction/{messageID}"
+}
+
+export type SessionCompactionUpdateErrors = {
+  /**
+   * Bad request
+   */
+  400: BadRequestError
+  /**
+   * Not found
+   */
+  404: NotFoundError
+}
+
+export type SessionCompactionUpdateError = SessionCompactionUpdateErrors[keyof SessionCompactionUpdateErrors]
+
+export type SessionCompactionUpdateResponses = {
+  /**
+   * Updated compaction
+   */
+  200: Compaction
+}
+
+export type SessionCompactionUpdateResponse = SessionCompactionUpdateResponses[keyof SessionCompactionUpdateResponses]
+
+export type SessionCompactionCommitData = {
+  body?: {
+    summary?: {
+      goals?: Array<string>
+      decisions?: Array<string>
+      files?: Array<string>
+      todos?: Array<Todo>
+      next?: Array<string>
+      notes?: string
+    }
+  }
+  path: {
+    /**
+     * Session ID
+     */
+    sessionID: string
+    /**
+     * Compaction message ID
+     */
+    messageID: string
+  }
+  query?: {
+    directory?: string
+  }
+  url: "/session/{sessionID}/compaction/{messageID}/commit"
+}
+
+export type SessionCompactionCommitErrors = {
+  /**
+   * Bad request
+   */
+  400: BadRequestError
+  /**
+   * Not found
+   */
+  404: NotFoundError
+}
+
+export type SessionCompactionCommitError = SessionCompactionCommitErrors[keyof SessionCompactionCommitErrors]
+
+export type SessionCompactionCommitResponses = {
+  /**
+   * Compaction committed
+   */
+  200: boolean
+}
+
+export type SessionCompactionCommitResponse = SessionCompactionCommitResponses[keyof SessionCompactionCommitResponses]
+
+export type SessionMessagesData = {
+  body?: never
+  path: {
+    /**
+     * Session ID
+     */
+    sessionID: string
+  }
+  query?: {
+    directory?: string
+    limit?: number
+  }
+  url: "/session/{sessionID}/message"
+}
+
+export type SessionMessagesErrors = {
+  /**
+   * Bad request
+   */
+  400: BadRequestError
+  /**
+   * Not found
+   */
+  404: NotFoundError
+}
+
+export type SessionMessagesError = SessionMessagesErrors[keyof SessionMessagesErrors]
+
+export type SessionMessagesResponses = {
+  /**
+   * List of messages
+   */
+  200: Array<{
+    info: Message
+    parts: Array<Part>
+  }>
+}
+
+export type SessionMessagesResponse = SessionMessagesResponses[keyof SessionMessagesResponses]
+
+export type SessionPromptData = {
+  body?: {
+    messageID?: string
+    model?: {
+      providerID: string
+      modelID: string
+    }
+    agent?: string
+    noReply?: boolean
+    tools?: {
+      [key: string]: boolean
+    }
+    system?: string
+    parts: Array<TextPartInput | FilePartInput | AgentPartInput | SubtaskPartInput>
+  }
+  path: {
+    /**
+     * Session ID
+     */
+    sessionID: string
+  }
+  query?: {
+    directory?: string
+  }
+  url: "/session/{sessionID}/message"
+}
+
+export type SessionPromptErrors = {
+  /**
+   * Bad request
+   */
+  400: BadRequestError
+  /**
+   * Not found
+   */
+  404: NotFoundError
+}
+
+export type SessionPromptError = SessionPromptErrors[keyof SessionPromptErrors]
+
+export type SessionPromptResponses = {
+  /**
+   * Created message
+   */
+  200: {
+    info: AssistantMessage
+    parts: Array<Part>
+  }
+}
+
+export type SessionPromptResponse = SessionPromptResponses[keyof SessionPromptResponses]
+
+export type SessionMessageData = {
+  body?: never
+  path: {
+    /**
+     * Session ID
+     */
+    sessionID: string
+    /**
+     * Message ID
+     */
+    messageID: string
+  }
+  query?: {
+    directory?: string
+  }
+  url: "/session/{sessionID}/message/{messageID}"
+}
+
+export type SessionMessageErrors = {
+  /**
+   * Bad request
+   */
+  400: BadRequestError
+  /**
+   * Not found
+   */
+  404: NotFoundError
+}
+
+export type SessionMessageError = SessionMessageErrors[keyof SessionMessageErrors]
+
+export type SessionMessageResponses = {
+  /**
+   * Message
+   */
+  200: {
+    info: Message
+    parts: Array<Part>
+  }
+}
+
+export type SessionMessageResponse = SessionMessageResponses[keyof SessionMessageResponses]
+
+export type SessionPromptAsyncData = {
+  body?: {
+    messageID?: string
+    model?: {
+      providerID: string
+      modelID: string
+    }
+    agent?: string
+    noReply?: boolean
+    tools?: {
+      [key: string]: boolean
+    }
+    system?: string
+    parts: Array<TextPartInput | FilePartInput | AgentPartInput | SubtaskPartInput>
+  }
+  path: {
+    /**
+     * Session ID
+     */
+    sessionID: string
+  }
+  query?: {
+    directory?: string
+  }
+  url: "/session/{sessionID}/prompt_async"
+}
+
+export type SessionPromptAsyncErrors = {
+  /**
+   * Bad request
+   */
+  400: BadRequestError
+  /**
+   * Not found
+   */
+  404: NotFoundError
+}
+
+export type SessionPromptAsyncError = SessionPromptAsyncErrors[keyof SessionPromptAsyncErrors]
+
+export type SessionPromptAsyncResponses = {
+  /**
+   * Prompt accepted
+   */
+  204: void
+}
+
+export type SessionPromptAsyncResponse = SessionPromptAsyncResponses[keyof SessionPromptAsyncResponses]
+
+export type SessionCommandData = {
+  body?: {
+    messageID?: string
+    agent?: string
+    model?: string
+    arguments: string
+    command: string
+  }
+  path: {
+    /**
+     * Session ID
+     */
+    sessionID: string
+  }
+  query?: {
+    directory?: string
+  }
+  url: "/session/{sessionID}/command"
+}
+
+export type SessionCommandErrors = {
+  /**
+   * Bad request
+   */
+  400: BadRequestError
+  /**
+   * Not found
+   */
+  404: NotFoundError
+}
+
+export type SessionCommandError = SessionCommandErrors[keyof SessionCommandErrors]
+
+export type SessionCommandResponses = {
+  /**
+   * Created message
+   */
+  200: {
+    info: AssistantMessage
+    parts: Array<Part>
+  }
+}
+
+export type SessionCommandResponse = SessionCommandResponses[keyof SessionCommandResponses]
+
+export type SessionShellData = {
+  body?: {
+    agent: string
+    model?: {
+      providerID: string
+      modelID: string
+    }
+    command: string
+  }
   path: {
     /**
      * Session ID
@@ -3157,6 +4551,206 @@ export type PermissionRespondResponses = {
 
 export type PermissionRespondResponse = PermissionRespondResponses[keyof PermissionRespondResponses]
 
+export type PermissionRuleListData = {
+  body?: never
+  path?: never
+  query?: {
+    directory?: string
+    scope?: "project" | "global"
+  }
+  url: "/permission/rule"
+}
+
+export type PermissionRuleListResponses = {
+  /**
+   * List of permission rules
+   */
+  200: Array<PermissionRule>
+}
+
+export type PermissionRuleListResponse = PermissionRuleListResponses[keyof PermissionRuleListResponses]
+
+export type PermissionRuleRemoveData = {
+  body?: never
+  path: {
+    ruleID: string
+  }
+  query?: {
+    directory?: string
+  }
+  url: "/permission/rule/{ruleID}"
+}
+
+export type PermissionRuleRemoveErrors = {
+  /**
+   * Bad request
+   */
+  400: BadRequestError
+  /**
+   * Not found
+   */
+  404: NotFoundError
+}
+
+export type PermissionRuleRemoveError = PermissionRuleRemoveErrors[keyof PermissionRuleRemoveErrors]
+
+export type PermissionRuleRemoveResponses = {
+  /**
+   * Permission rule revoked
+   */
+  200: boolean
+}
+
+export type PermissionRuleRemoveResponse = PermissionRuleRemoveResponses[keyof PermissionRuleRemoveResponses]
+
+export type PermissionRuleUpdateData = {
+  body?: {
+    pattern?: string
+    scope?: "project" | "global"
+  }
+  path: {
+    ruleID: string
+  }
+  query?: {
+    directory?: string
+  }
+  url: "/permission/rule/{ruleID}"
+}
+
+export type PermissionRuleUpdateErrors = {
+  /**
+   * Bad request
+   */
+  400: BadRequestError
+  /**
+   * Not found
+   */
+  404: NotFoundError
+}
+
+export type PermissionRuleUpdateError = PermissionRuleUpdateErrors[keyof PermissionRuleUpdateErrors]
+
+export type PermissionRuleUpdateResponses = {
+  /**
+   * Updated permission rule
+   */
+  200: PermissionRule
+}
+
+export type PermissionRuleUpdateResponse = PermissionRuleUpdateResponses[keyof PermissionRuleUpdateResponses]
+
+export type Worktree = {
+  sessionID: string
+  title: string
+  directory: string
+  branch: string
+  base: string
+  changes: number
+  exists: boolean
+}
+
+export type WorktreeListData = {
+  body?: never
+  path?: never
+  query?: {
+    directory?: string
+  }
+  url: "/worktree"
+}
+
+export type WorktreeListResponses = {
+  /**
+   * List of session worktrees
+   */
+  200: Array<Worktree>
+}
+
+export type WorktreeListResponse = WorktreeListResponses[keyof WorktreeListResponses]
+
+export type WorktreeCleanupData = {
+  body?: never
+  path?: never
+  query?: {
+    directory?: string
+  }
+  url: "/worktree/cleanup"
+}
+
+export type WorktreeCleanupResponses = {
+  /**
+   * Removed worktree directories
+   */
+  200: Array<string>
+}
+
+export type WorktreeCleanupResponse = WorktreeCleanupResponses[keyof WorktreeCleanupResponses]
+
+export type WorktreeMergeData = {
+  body?: never
+  path: {
+    sessionID: string
+  }
+  query?: {
+    directory?: string
+  }
+  url: "/worktree/{sessionID}/merge"
+}
+
+export type WorktreeMergeErrors = {
+  /**
+   * Bad request
+   */
+  400: BadRequestError
+  /**
+   * Not found
+   */
+  404: NotFoundError
+}
+
+export type WorktreeMergeError = WorktreeMergeErrors[keyof WorktreeMergeErrors]
+
+export type WorktreeMergeResponses = {
+  /**
+   * Session, now running in the main checkout
+   */
+  200: Session
+}
+
+export type WorktreeMergeResponse = WorktreeMergeResponses[keyof WorktreeMergeResponses]
+
+export type WorktreeDiscardData = {
+  body?: never
+  path: {
+    sessionID: string
+  }
+  query?: {
+    directory?: string
+  }
+  url: "/worktree/{sessionID}"
+}
+
+export type WorktreeDiscardErrors = {
+  /**
+   * Bad request
+   */
+  400: BadRequestError
+  /**
+   * Not found
+   */
+  404: NotFoundError
+}
+
+export type WorktreeDiscardError = WorktreeDiscardErrors[keyof WorktreeDiscardErrors]
+
+export type WorktreeDiscardResponses = {
+  /**
+   * Session, now running in the main checkout
+   */
+  200: Session
+}
+
+export type WorktreeDiscardResponse = WorktreeDiscardResponses[keyof WorktreeDiscardResponses]
+
 export type CommandListData = {
   body?: never
   path?: never
@@ -3800,6 +5394,79 @@ export type McpDisconnectResponses = {
 
 export type McpDisconnectResponse = McpDisconnectResponses[keyof McpDisconnectResponses]
 
+export type McpPromptListData = {
+  body?: never
+  path?: never
+  query?: {
+    directory?: string
+  }
+  url: "/mcp/prompt"
+}
+
+export type McpPromptListResponses = {
+  /**
+   * MCP prompts
+   */
+  200: {
+    [key: string]: McpPrompt
+  }
+}
+
+export type McpPromptListResponse = McpPromptListResponses[keyof McpPromptListResponses]
+
+export type McpResourceListData = {
+  body?: never
+  path?: never
+  query?: {
+    directory?: string
+  }
+  url: "/mcp/resource"
+}
+
+export type McpResourceListResponses = {
+  /**
+   * MCP resources
+   */
+  200: Array<McpResource>
+}
+
+export type McpResourceListResponse = McpResourceListResponses[keyof McpResourceListResponses]
+
+export type McpResourceReadData = {
+  body?: never
+  path?: never
+  query: {
+    directory?: string
+    /**
+     * Name of the MCP server
+     */
+    client: string
+    /**
+     * Resource URI
+     */
+    uri: string
+  }
+  url: "/mcp/resource/read"
+}
+
+export type McpResourceReadErrors = {
+  /**
+   * Bad request
+   */
+  400: BadRequestError
+}
+
+export type McpResourceReadError = McpResourceReadErrors[keyof McpResourceReadErrors]
+
+export type McpResourceReadResponses = {
+  /**
+   * Resource contents
+   */
+  200: Array<McpResourceContent>
+}
+
+export type McpResourceReadResponse = McpResourceReadResponses[keyof McpResourceReadResponses]
+
 export type LspStatusData = {
   body?: never
   path?: never
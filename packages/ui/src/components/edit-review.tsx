@@ -0,0 +1,107 @@
+import { Button } from "./button"
+import { FileIcon } from "./file-icon"
+import { TextField } from "./text-field"
+import { useDiffComponent } from "../context/diff"
+import { getDirectory, getFilename } from "@opencode-ai/util/path"
+import { checksum } from "@opencode-ai/util/encode"
+import { For, Show } from "solid-js"
+import { createStore } from "solid-js/store"
+import { Dynamic } from "solid-js/web"
+import { type Review, type ReviewDecision, type ReviewHunk } from "@opencode-ai/sdk/v2"
+
+export interface EditReviewProps {
+  review: Review
+  /** Path shown in the header, defaults to the absolute path of the review. */
+  file?: string
+  class?: string
+  onRespond: (hunks: ReviewDecision[]) => void
+}
+
+function side(hunk: ReviewHunk, prefix: "-" | "+") {
+  return hunk.lines
+    .filter((line) => line.startsWith(" ") || line.startsWith(prefix))
+    .map((line) => line.slice(1))
+    .join("\n")
+}
+
+export const EditReview = (props: EditReviewProps) => {
+  const diffComponent = useDiffComponent()
+  const [store, setStore] = createStore<{ comment: Record<number, string> }>({ comment: {} })
+  const file = () => props.file ?? props.review.file
+
+  const decide = (hunks: ReviewHunk[], status: "accepted" | "rejected") =>
+    props.onRespond(
+      hunks.map((hunk) => ({
+        index: hunk.index,
+        status,
+        comment: store.comment[hunk.index]?.trim() || undefined,
+      })),
+    )
+  const pending = () => props.review.hunks.filter((hunk) => hunk.status === "pending")
+
+  return (
+    <div data-component="edit-review" classList={{ [props.class ?? ""]: !!props.class }}>
+      <div data-slot="edit-review-header">
+        <div data-slot="edit-review-file-info">
+          <FileIcon node={{ path: file(), type: "file" }} />
+          <Show when={file().includes("/")}>
+            <span data-slot="edit-review-directory">{getDirectory(file())}&lrm;</span>
+          </Show>
+          <span data-slot="edit-review-filename">{getFilename(file())}</span>
+        </div>
+        <div data-slot="edit-review-actions">
+          <Button size="small" variant="ghost" onClick={() => decide(pending(), "rejected")}>
+            Reject all
+          </Button>
+          <Button size="small" variant="primary" onClick={() => decide(pending(), "accepted")}>
+            Accept all
+          </Button>
+        </div>
+      </div>
+      <For each={props.review.hunks}>
+        {(hunk) => (
+          <div data-slot="edit-review-hunk" data-status={hunk.status}>
+            <div data-slot="edit-review-hunk-header">
+              <span data-slot="edit-review-hunk-range">
+                @@ -{hunk.oldStart},{hunk.oldLines} +{hunk.newStart},{hunk.newLines} @@
+              </span>
+              <Show
+                when={hunk.status === "pending"}
+                fallback={<span data-slot="edit-review-status">{hunk.status}</span>}
+              >
+                <div data-slot="edit-review-actions">
+                  <Button size="small" variant="ghost" onClick={() => decide([hunk], "rejected")}>
+                    Reject
+                  </Button>
+                  <Button size="small" variant="secondary" onClick={() => decide([hunk], "accepted")}>
+                    Accept
+                  </Button>
+                </div>
+              </Show>
+            </div>
+            <Dynamic
+              component={diffComponent}
+              diffStyle="unified"
+              before={{
+                name: file(),
+                contents: side(hunk, "-"),
+                cacheKey: checksum(side(hunk, "-")),
+              }}
+              after={{
+                name: file(),
+                contents: side(hunk, "+"),
+                cacheKey: checksum(side(hunk, "+")),
+              }}
+            />
+            <TextField
+              placeholder="Comment for the agent"
+              value={store.comment[hunk.index] ?? hunk.comment ?? ""}
+              onChange={(value) => setStore("comment", hunk.index, value)}
+              disabled={hunk.status !== "pending"}
+            />
+          </div>
+        )}
+      </For>
+    </div>
+  )
+}